@@ -1,5 +1,6 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { v4 as uuidv4 } from "uuid";
+import { diffWorkflowDefinitions, VersionDiff } from "../../workflows/workflow-diff";
 
 interface WorkflowVersion {
   id: string;
@@ -26,28 +27,6 @@ interface WorkflowVersion {
   };
 }
 
-interface VersionDiff {
-  nodesAdded: unknown[];
-  nodesRemoved: unknown[];
-  nodesModified: Array<{
-    before: unknown;
-    after: unknown;
-    changes: string[];
-  }>;
-  edgesAdded: unknown[];
-  edgesRemoved: unknown[];
-  edgesModified: Array<{
-    before: unknown;
-    after: unknown;
-    changes: string[];
-  }>;
-  summary: {
-    totalChanges: number;
-    significantChanges: boolean;
-    changeTypes: string[];
-  };
-}
-
 export interface RollbackResult {
   success: boolean;
   rolledBackTo: WorkflowVersion;
@@ -438,128 +417,7 @@ export class WorkflowVersioningService {
   }
 
   private generateDiff(fromVersion: WorkflowVersion, toVersion: WorkflowVersion): VersionDiff {
-    const fromNodes = fromVersion.nodes as any[];
-    const toNodes = toVersion.nodes as any[];
-    const fromEdges = fromVersion.edges as any[];
-    const toEdges = toVersion.edges as any[];
-
-    // Compare nodes
-    const fromNodeIds = new Set(fromNodes.map(n => n.id));
-    const toNodeIds = new Set(toNodes.map(n => n.id));
-
-    const nodesAdded = toNodes.filter(n => !fromNodeIds.has(n.id));
-    const nodesRemoved = fromNodes.filter(n => !toNodeIds.has(n.id));
-    const nodesModified: any[] = [];
-
-    // Find modified nodes
-    for (const toNode of toNodes) {
-      const fromNode = fromNodes.find(n => n.id === toNode.id);
-      if (fromNode) {
-        const changes = this.findNodeChanges(fromNode, toNode);
-        if (changes.length > 0) {
-          nodesModified.push({
-            before: fromNode,
-            after: toNode,
-            changes,
-          });
-        }
-      }
-    }
-
-    // Compare edges
-    const fromEdgeIds = new Set(fromEdges.map(e => e.id));
-    const toEdgeIds = new Set(toEdges.map(e => e.id));
-
-    const edgesAdded = toEdges.filter(e => !fromEdgeIds.has(e.id));
-    const edgesRemoved = fromEdges.filter(e => !toEdgeIds.has(e.id));
-    const edgesModified: any[] = [];
-
-    // Find modified edges
-    for (const toEdge of toEdges) {
-      const fromEdge = fromEdges.find(e => e.id === toEdge.id);
-      if (fromEdge) {
-        const changes = this.findEdgeChanges(fromEdge, toEdge);
-        if (changes.length > 0) {
-          edgesModified.push({
-            before: fromEdge,
-            after: toEdge,
-            changes,
-          });
-        }
-      }
-    }
-
-    const totalChanges = nodesAdded.length + nodesRemoved.length + nodesModified.length +
-                        edgesAdded.length + edgesRemoved.length + edgesModified.length;
-
-    const significantChanges = totalChanges > 5 || nodesRemoved.length > 0 || 
-                              nodesModified.some(n => n.changes.includes('blockType'));
-
-    const changeTypes: string[] = [];
-    if (nodesAdded.length > 0) changeTypes.push('nodes_added');
-    if (nodesRemoved.length > 0) changeTypes.push('nodes_removed');
-    if (nodesModified.length > 0) changeTypes.push('nodes_modified');
-    if (edgesAdded.length > 0) changeTypes.push('edges_added');
-    if (edgesRemoved.length > 0) changeTypes.push('edges_removed');
-    if (edgesModified.length > 0) changeTypes.push('edges_modified');
-
-    return {
-      nodesAdded,
-      nodesRemoved,
-      nodesModified,
-      edgesAdded,
-      edgesRemoved,
-      edgesModified,
-      summary: {
-        totalChanges,
-        significantChanges,
-        changeTypes,
-      },
-    };
-  }
-
-  private findNodeChanges(fromNode: any, toNode: any): string[] {
-    const changes: string[] = [];
-    
-    if (fromNode.data?.label !== toNode.data?.label) {
-      changes.push('label');
-    }
-    
-    if (fromNode.data?.blockType !== toNode.data?.blockType) {
-      changes.push('blockType');
-    }
-    
-    if (JSON.stringify(fromNode.data?.config) !== JSON.stringify(toNode.data?.config)) {
-      changes.push('config');
-    }
-    
-    if (JSON.stringify(fromNode.position) !== JSON.stringify(toNode.position)) {
-      changes.push('position');
-    }
-
-    return changes;
-  }
-
-  private findEdgeChanges(fromEdge: any, toEdge: any): string[] {
-    const changes: string[] = [];
-    
-    if (fromEdge.source !== toEdge.source) {
-      changes.push('source');
-    }
-    
-    if (fromEdge.target !== toEdge.target) {
-      changes.push('target');
-    }
-    
-    if (fromEdge.sourceHandle !== toEdge.sourceHandle) {
-      changes.push('sourceHandle');
-    }
-    
-    if (fromEdge.targetHandle !== toEdge.targetHandle) {
-      changes.push('targetHandle');
-    }
-
-    return changes;
+    return diffWorkflowDefinitions(fromVersion, toVersion);
   }
 
   private async maintainVersionHistory(workflowId: string): Promise<void> {
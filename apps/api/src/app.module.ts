@@ -3,6 +3,7 @@ import { ConfigModule } from "@nestjs/config";
 import { join } from "path";
 import { JwtModule } from "@nestjs/jwt";
 import { APP_GUARD, APP_FILTER } from "@nestjs/core";
+import { ScheduleModule } from "@nestjs/schedule";
 
 // Database and core modules
 import { DatabaseModule } from "./database/database.module";
@@ -21,6 +22,10 @@ import { HealthModule } from "./health/health.module";
 import { TransformationsModule } from "./transformations/transformations.module";
 import { AIAgentModule } from "./ai-agent/ai-agent.module";
 import { SessionKeysModule } from "./session-keys/session-keys.module";
+import { SchedulerModule } from "./scheduler/scheduler.module";
+import { HooksModule } from "./hooks/hooks.module";
+import { TeamsModule } from "./teams/teams.module";
+import { CredentialsModule } from "./credentials/credentials.module";
 import { TemplateController, TemplateService } from "./templates";
 // import { AppController } from "./app.controller";
 
@@ -54,6 +59,7 @@ import {
       secret: process.env.JWT_SECRET || "your-secret-key",
       signOptions: { expiresIn: "24h" },
     }),
+    ScheduleModule.forRoot(), // Enable cron jobs (session monitoring, workflow scheduler)
     DatabaseModule,
     AuthModule,
     UserModule,
@@ -68,6 +74,10 @@ import {
     TransformationsModule,
     AIAgentModule,
     SessionKeysModule,
+    SchedulerModule,
+    HooksModule,
+    TeamsModule,
+    CredentialsModule,
   ],
   controllers: [TemplateController],
   providers: [
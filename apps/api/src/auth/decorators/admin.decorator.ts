@@ -0,0 +1,8 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const IS_ADMIN_KEY = "isAdmin";
+
+/**
+ * Only let users listed in ADMIN_USER_IDS through the JwtAuthGuard
+ */
+export const RequireAdmin = () => SetMetadata(IS_ADMIN_KEY, true);
@@ -0,0 +1,23 @@
+import { SetMetadata } from "@nestjs/common";
+import type { TeamPermission } from "@zzyra/database";
+
+export const TEAM_PERMISSION_KEY = "teamPermission";
+
+export interface TeamPermissionRequirement {
+  permission: TeamPermission;
+  /** Route parameter holding the team ID */
+  param: string;
+}
+
+/**
+ * Only let members of the team in the route whose role allows `permission`
+ * through the JwtAuthGuard
+ */
+export const RequireTeamPermission = (
+  permission: TeamPermission,
+  param = "id"
+) =>
+  SetMetadata(TEAM_PERMISSION_KEY, {
+    permission,
+    param,
+  } as TeamPermissionRequirement);
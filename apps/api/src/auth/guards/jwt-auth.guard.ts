@@ -2,14 +2,27 @@ import {
   Injectable,
   ExecutionContext,
   UnauthorizedException,
+  ForbiddenException,
+  NotFoundException,
 } from "@nestjs/common";
 import { AuthGuard } from "@nestjs/passport";
 import { Reflector } from "@nestjs/core";
+import { ConfigService } from "@nestjs/config";
+import { TeamRepository, hasTeamPermission } from "@zzyra/database";
 import { IS_PUBLIC_KEY } from "../decorators/public.decorator";
+import { IS_ADMIN_KEY } from "../decorators/admin.decorator";
+import {
+  TEAM_PERMISSION_KEY,
+  TeamPermissionRequirement,
+} from "../decorators/team-permission.decorator";
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard("jwt") {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private teamRepository: TeamRepository,
+    private configService: ConfigService
+  ) {
     super();
   }
 
@@ -32,9 +45,71 @@ export class JwtAuthGuard extends AuthGuard("jwt") {
       }
     }
 
+    const teamPermission =
+      this.reflector.getAllAndOverride<TeamPermissionRequirement>(
+        TEAM_PERMISSION_KEY,
+        [context.getHandler(), context.getClass()]
+      );
+    if (teamPermission) {
+      return this.checkTeamPermission(context, teamPermission);
+    }
+
+    const isAdmin = this.reflector.getAllAndOverride<boolean>(IS_ADMIN_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isAdmin) {
+      return this.checkAdmin(context);
+    }
+
     return super.canActivate(context);
   }
 
+  private async checkAdmin(context: ExecutionContext): Promise<boolean> {
+    const authenticated = await super.canActivate(context);
+    if (!authenticated) {
+      return false;
+    }
+
+    const adminIds = (this.configService.get<string>("ADMIN_USER_IDS") ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const request = context.switchToHttp().getRequest();
+    if (!adminIds.includes(request.user.id)) {
+      throw new ForbiddenException("Only administrators can do this");
+    }
+    return true;
+  }
+
+  private async checkTeamPermission(
+    context: ExecutionContext,
+    { permission, param }: TeamPermissionRequirement
+  ): Promise<boolean> {
+    const authenticated = await super.canActivate(context);
+    if (!authenticated) {
+      return false;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const teamId = request.params?.[param];
+    const role = await this.teamRepository.getMemberRole(
+      teamId,
+      request.user.id
+    );
+
+    // Hide teams from users who are not members
+    if (!role) {
+      throw new NotFoundException(`Team with ID ${teamId} not found`);
+    }
+    if (!hasTeamPermission(role, permission)) {
+      throw new ForbiddenException(
+        `The ${role} role cannot ${permission} this team`
+      );
+    }
+    return true;
+  }
+
   handleRequest(err: any, user: any, info: any, context: ExecutionContext) {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
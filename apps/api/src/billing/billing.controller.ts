@@ -1,6 +1,28 @@
-import { Controller, Post, Body, Request } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  RawBodyRequest,
+  Req,
+  Request,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Request as ExpressRequest } from "express";
+import { Public } from "../auth/decorators/public.decorator";
 import { BillingService } from "./billing.service";
+import {
+  CheckoutSessionDto,
+  CreateCheckoutSessionDto,
+  WebhookReceivedDto,
+} from "./dto/billing.dto";
 
 @ApiTags("billing")
 @Controller("billing")
@@ -8,23 +30,34 @@ export class BillingController {
   constructor(private readonly billingService: BillingService) {}
 
   @Post("checkout")
+  @ApiBearerAuth()
   @ApiOperation({ summary: "Create checkout session" })
   @ApiResponse({
-    status: 200,
+    status: 201,
     description: "Checkout session created",
+    type: CheckoutSessionDto,
   })
+  @ApiResponse({ status: 400, description: "Unknown price" })
   async createCheckout(
-    @Request() req: { user?: { id: string } },
-    @Body() data: { priceId: string }
-  ) {
-    const userId = req.user?.id || "user1";
-    return this.billingService.createCheckoutSession(userId, data.priceId);
+    @Request() req: { user: { id: string } },
+    @Body() createCheckoutDto: CreateCheckoutSessionDto
+  ): Promise<CheckoutSessionDto> {
+    return this.billingService.createCheckoutSession(
+      req.user.id,
+      createCheckoutDto
+    );
   }
 
   @Post("webhook")
+  @Public()
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Handle billing webhook" })
-  async handleWebhook(@Body() rawBody: Buffer, @Request() req: any) {
-    const signature = req.headers["stripe-signature"];
-    return this.billingService.handleWebhook(rawBody, signature);
+  @ApiResponse({ status: 200, type: WebhookReceivedDto })
+  @ApiResponse({ status: 401, description: "Invalid webhook signature" })
+  async handleWebhook(
+    @Req() req: RawBodyRequest<ExpressRequest>,
+    @Headers("stripe-signature") signature?: string
+  ): Promise<WebhookReceivedDto> {
+    return this.billingService.handleWebhook(req.rawBody, signature);
   }
 }
@@ -1,17 +1,240 @@
-import { Injectable } from "@nestjs/common";
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { SubscriptionRepository, UserRepository } from "@zzyra/database";
+import {
+  CheckoutSessionDto,
+  CreateCheckoutSessionDto,
+  WebhookReceivedDto,
+} from "./dto/billing.dto";
+import {
+  StripeCheckoutSession,
+  StripeClient,
+  StripeEvent,
+  StripeInvoice,
+  StripeSubscription,
+} from "./stripe.client";
+import { verifyStripeSignature } from "./stripe-signature";
 
+const fromUnixTime = (seconds: number | null | undefined): Date | null =>
+  seconds ? new Date(seconds * 1000) : null;
+
+/**
+ * Subscriptions through a Stripe-compatible billing provider. Checkout
+ * sessions are created here; the subscription state in the database is only
+ * changed by the provider's webhooks.
+ */
 @Injectable()
 export class BillingService {
-  async createCheckoutSession(userId: string, priceId: string) {
-    // Stub implementation - would integrate with Stripe
-    return {
-      url: "https://checkout.stripe.com/session-id",
-      sessionId: "cs_test_123",
-    };
+  private readonly logger = new Logger(BillingService.name);
+
+  constructor(
+    private readonly stripeClient: StripeClient,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly userRepository: UserRepository,
+    private readonly configService: ConfigService
+  ) {}
+
+  async createCheckoutSession(
+    userId: string,
+    createCheckoutDto: CreateCheckoutSessionDto
+  ): Promise<CheckoutSessionDto> {
+    const { priceId } = createCheckoutDto;
+    const tier =
+      await this.subscriptionRepository.findTierByStripePriceId(priceId);
+    if (!tier) {
+      throw new BadRequestException(`Unknown price ${priceId}`);
+    }
+
+    const [user, subscription] = await Promise.all([
+      this.userRepository.findById(userId),
+      this.subscriptionRepository.findByUserId(userId),
+    ]);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const frontendUrl =
+      this.configService.get<string>("FRONTEND_URL") || "http://localhost:3000";
+    const session = await this.stripeClient.createCheckoutSession({
+      mode: "subscription",
+      line_items: [{ price: priceId, quantity: 1 }],
+      client_reference_id: userId,
+      // Keep returning users on the customer of their earlier subscription
+      ...(subscription?.stripeCustomerId
+        ? { customer: subscription.stripeCustomerId }
+        : { customer_email: user.email || undefined }),
+      metadata: { userId },
+      subscription_data: { metadata: { userId } },
+      success_url:
+        this.configService.get<string>("BILLING_SUCCESS_URL") ||
+        `${frontendUrl}/settings/billing?checkout=success`,
+      cancel_url:
+        this.configService.get<string>("BILLING_CANCEL_URL") ||
+        `${frontendUrl}/settings/billing?checkout=cancelled`,
+    });
+    if (!session.url) {
+      throw new BadGatewayException(
+        "Billing provider did not return a checkout URL"
+      );
+    }
+
+    return { sessionId: session.id, url: session.url };
+  }
+
+  /**
+   * Apply a billing provider event. Events with an invalid signature are
+   * rejected; unknown event types are acknowledged and ignored.
+   */
+  async handleWebhook(
+    rawBody: Buffer | undefined,
+    signature: string | undefined
+  ): Promise<WebhookReceivedDto> {
+    const secret = this.configService.get<string>("STRIPE_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new ServiceUnavailableException("Billing is not configured");
+    }
+    if (!rawBody || !verifyStripeSignature(secret, rawBody, signature)) {
+      throw new UnauthorizedException("Invalid webhook signature");
+    }
+
+    let event: StripeEvent;
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new BadRequestException("Invalid webhook payload");
+    }
+
+    switch (event.type) {
+      case "checkout.session.completed":
+        await this.handleCheckoutCompleted(event.data.object);
+        break;
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.deleted":
+        // Events can arrive out of order, so sync the current state
+        await this.syncSubscription(
+          await this.stripeClient.retrieveSubscription(event.data.object.id)
+        );
+        break;
+      case "invoice.finalized":
+      case "invoice.paid":
+      case "invoice.payment_failed":
+        await this.recordInvoice(event.data.object);
+        break;
+      default:
+        this.logger.debug(`Ignoring billing event ${event.type}`);
+    }
+
+    return { received: true };
   }
 
-  async handleWebhook(rawBody: Buffer, signature: string) {
-    // Stub implementation - would handle Stripe webhooks
-    return { success: true };
+  private async handleCheckoutCompleted(
+    session: StripeCheckoutSession
+  ): Promise<void> {
+    if (!session.subscription) {
+      return;
+    }
+
+    const subscription = await this.stripeClient.retrieveSubscription(
+      session.subscription
+    );
+    await this.syncSubscription(
+      subscription,
+      session.client_reference_id || session.metadata?.userId
+    );
+  }
+
+  /**
+   * Mirror a provider subscription. The user comes from the checkout, the
+   * subscription metadata, or an earlier sync of the same subscription.
+   */
+  private async syncSubscription(
+    subscription: StripeSubscription,
+    userId?: string | null
+  ): Promise<void> {
+    const ownerId =
+      userId ||
+      subscription.metadata?.userId ||
+      (
+        await this.subscriptionRepository.findByStripeSubscriptionId(
+          subscription.id
+        )
+      )?.userId;
+    if (!ownerId) {
+      this.logger.warn(
+        `Ignoring subscription ${subscription.id} that belongs to no user`
+      );
+      return;
+    }
+
+    const item = subscription.items?.data?.[0];
+    const tier = item
+      ? await this.subscriptionRepository.findTierByStripePriceId(item.price.id)
+      : null;
+    if (!item || !tier) {
+      throw new BadRequestException(
+        `No pricing tier for the price of subscription ${subscription.id}`
+      );
+    }
+
+    const periodStart =
+      subscription.current_period_start ?? item.current_period_start;
+    const periodEnd =
+      subscription.current_period_end ?? item.current_period_end;
+
+    await this.subscriptionRepository.syncSubscription({
+      userId: ownerId,
+      tierId: tier.id,
+      status: subscription.status,
+      currentPeriodStart: fromUnixTime(periodStart) ?? new Date(),
+      currentPeriodEnd: fromUnixTime(periodEnd) ?? new Date(),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      canceledAt: fromUnixTime(subscription.canceled_at),
+      stripeSubscriptionId: subscription.id,
+      stripePriceId: item.price.id,
+      stripeCustomerId: subscription.customer || null,
+    });
+    this.logger.log(
+      `Synced subscription ${subscription.id} of user ${ownerId}: ${tier.name} (${subscription.status})`
+    );
+  }
+
+  private async recordInvoice(invoice: StripeInvoice): Promise<void> {
+    const stripeSubscriptionId =
+      invoice.subscription ??
+      invoice.parent?.subscription_details?.subscription;
+    if (!stripeSubscriptionId) {
+      return;
+    }
+
+    // The provider retries the event until the subscription has been synced
+    const subscription =
+      await this.subscriptionRepository.findByStripeSubscriptionId(
+        stripeSubscriptionId
+      );
+    if (!subscription) {
+      throw new NotFoundException(
+        `Subscription ${stripeSubscriptionId} has not been synced yet`
+      );
+    }
+
+    const paid = invoice.status === "paid";
+    await this.subscriptionRepository.recordInvoice(subscription.id, {
+      stripeInvoiceId: invoice.id,
+      amount: (paid ? invoice.amount_paid : invoice.amount_due) / 100,
+      status: invoice.status || "draft",
+      paidAt: paid
+        ? (fromUnixTime(invoice.status_transitions?.paid_at) ?? new Date())
+        : null,
+      invoiceUrl: invoice.hosted_invoice_url || null,
+    });
   }
 }
@@ -0,0 +1,23 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString } from "class-validator";
+
+export class CreateCheckoutSessionDto {
+  @ApiProperty({
+    description: "Billing provider price of the tier to subscribe to",
+  })
+  @IsString()
+  priceId: string;
+}
+
+export class CheckoutSessionDto {
+  @ApiProperty({ description: "ID of the checkout session" })
+  sessionId: string = "";
+
+  @ApiProperty({ description: "URL to redirect the user to" })
+  url: string = "";
+}
+
+export class WebhookReceivedDto {
+  @ApiProperty({ description: "Whether the event was accepted" })
+  received: boolean = true;
+}
@@ -0,0 +1,49 @@
+import { createHmac } from "crypto";
+import { safeEqual } from "../hooks/webhook-definition";
+
+// Events signed longer ago than this are rejected as replays
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verify a `Stripe-Signature` header. The header carries a timestamp and one
+ * or more `v1` HMAC-SHA256 signatures of `<timestamp>.<raw body>`, e.g.
+ * `t=1492774577,v1=5257a869...`.
+ */
+export function verifyStripeSignature(
+  secret: string,
+  rawBody: Buffer,
+  header: string | undefined,
+  now: Date = new Date(),
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") {
+      timestamp = Number(value);
+    } else if (key === "v1" && value) {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  if (
+    timestamp === undefined ||
+    !Number.isFinite(timestamp) ||
+    signatures.length === 0 ||
+    Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds
+  ) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest("hex");
+
+  return signatures.some((signature) => safeEqual(signature, expected));
+}
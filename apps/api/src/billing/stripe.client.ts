@@ -0,0 +1,142 @@
+import {
+  BadGatewayException,
+  Injectable,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: any };
+}
+
+export interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  customer: string | null;
+  subscription: string | null;
+  client_reference_id: string | null;
+  metadata?: Record<string, string>;
+}
+
+export interface StripeSubscription {
+  id: string;
+  customer: string;
+  status: string;
+  cancel_at_period_end: boolean;
+  canceled_at: number | null;
+  // Older API versions keep the period on the subscription, newer ones on
+  // its items
+  current_period_start?: number;
+  current_period_end?: number;
+  metadata?: Record<string, string>;
+  items: {
+    data: {
+      price: { id: string };
+      current_period_start?: number;
+      current_period_end?: number;
+    }[];
+  };
+}
+
+export interface StripeInvoice {
+  id: string;
+  subscription?: string | null;
+  parent?: {
+    subscription_details?: { subscription?: string | null } | null;
+  } | null;
+  amount_due: number;
+  amount_paid: number;
+  status: string | null;
+  hosted_invoice_url?: string | null;
+  status_transitions?: { paid_at?: number | null };
+}
+
+/**
+ * Encode parameters the way the Stripe API expects form bodies, e.g.
+ * `line_items[0][price]=price_123`
+ */
+export function encodeStripeParams(
+  params: Record<string, unknown>,
+  prefix?: string
+): string {
+  const parts: string[] = [];
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        parts.push(
+          typeof item === "object"
+            ? encodeStripeParams(item, `${name}[${index}]`)
+            : `${encodeURIComponent(`${name}[${index}]`)}=${encodeURIComponent(String(item))}`
+        );
+      });
+    } else if (typeof value === "object") {
+      parts.push(encodeStripeParams(value as Record<string, unknown>, name));
+    } else {
+      parts.push(
+        `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`
+      );
+    }
+  }
+
+  return parts.filter(Boolean).join("&");
+}
+
+/**
+ * Minimal client for the Stripe REST API. `STRIPE_API_BASE` points it at
+ * another Stripe-compatible server, such as a local mock.
+ */
+@Injectable()
+export class StripeClient {
+  constructor(private readonly configService: ConfigService) {}
+
+  async createCheckoutSession(
+    params: Record<string, unknown>
+  ): Promise<StripeCheckoutSession> {
+    return this.request("POST", "/v1/checkout/sessions", params);
+  }
+
+  async retrieveSubscription(id: string): Promise<StripeSubscription> {
+    return this.request("GET", `/v1/subscriptions/${encodeURIComponent(id)}`);
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    const secretKey = this.configService.get<string>("STRIPE_SECRET_KEY");
+    if (!secretKey) {
+      throw new ServiceUnavailableException("Billing is not configured");
+    }
+    const apiBase =
+      this.configService.get<string>("STRIPE_API_BASE") ||
+      "https://api.stripe.com";
+
+    const response = await fetch(`${apiBase}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params ? encodeStripeParams(params) : undefined,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new BadGatewayException(
+        `Billing provider request failed: ${
+          data?.error?.message || `HTTP ${response.status}`
+        }`
+      );
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,166 @@
+import { Script } from "vm";
+
+export type BlockCodeFindingSeverity = "error" | "warning";
+
+export interface BlockCodeFinding {
+  rule: string;
+  severity: BlockCodeFindingSeverity;
+  message: string;
+  line?: number;
+}
+
+export interface BlockCodeScanReport {
+  /** False when the scan found errors; such blocks cannot be verified */
+  passed: boolean;
+  findings: BlockCodeFinding[];
+  /** Hosts the code names in URLs, which need the fetch allow-list */
+  hosts: string[];
+  scannedAt: string;
+}
+
+interface ScanRule {
+  rule: string;
+  severity: BlockCodeFindingSeverity;
+  pattern: RegExp;
+  message: string;
+}
+
+const MAX_CODE_LENGTH = 50000;
+
+// Matched line by line against the code without its comments
+const SCAN_RULES: ScanRule[] = [
+  {
+    rule: "module-loading",
+    severity: "error",
+    pattern: /\brequire\s*\(|\bimport\s*\(|^\s*import\s|^\s*export\s/,
+    message: "Custom blocks cannot load modules",
+  },
+  {
+    rule: "host-access",
+    severity: "error",
+    pattern: /\bprocess\b|\bchild_process\b|\b__dirname\b|\b__filename\b/,
+    message: "Custom blocks cannot access the host process",
+  },
+  {
+    rule: "code-generation",
+    severity: "error",
+    pattern:
+      /\beval\s*\(|\bFunction\s*\(|\bconstructor\s*\.\s*constructor\b|\[\s*["'`]constructor["'`]\s*\]/,
+    message: "Custom blocks cannot generate code at run time",
+  },
+  {
+    rule: "prototype-tampering",
+    severity: "error",
+    pattern:
+      /__proto__|\bsetPrototypeOf\b|\bdefineProperty\s*\(\s*Object\.prototype/,
+    message: "Custom blocks cannot change built-in prototypes",
+  },
+  {
+    rule: "webassembly",
+    severity: "error",
+    pattern: /\bWebAssembly\b/,
+    message: "Custom blocks cannot run WebAssembly",
+  },
+  {
+    rule: "embedded-secret",
+    severity: "error",
+    pattern:
+      /\b0x[0-9a-fA-F]{64}\b|-----BEGIN [A-Z ]*PRIVATE KEY-----|\bsk_(live|test)_[0-9a-zA-Z]{16,}/,
+    message: "The code embeds what looks like a private key or secret",
+  },
+  {
+    rule: "endless-loop",
+    severity: "warning",
+    pattern: /\bwhile\s*\(\s*(true|1)\s*\)|\bfor\s*\(\s*;\s*;\s*\)/,
+    message: "Loop without a condition; the block is stopped when it times out",
+  },
+  {
+    rule: "obfuscation",
+    severity: "warning",
+    pattern:
+      /\batob\s*\(|\bfromCharCode\s*\(|(\\x[0-9a-fA-F]{2}){4,}|(\\u[0-9a-fA-F]{4}){4,}/,
+    message: "Encoded strings can hide what the code does",
+  },
+  {
+    rule: "global-access",
+    severity: "warning",
+    pattern: /\bglobalThis\b|\bglobal\s*\.|\bthis\s*\.\s*constructor\b/,
+    message: "Custom blocks should only use their inputs and the block API",
+  },
+];
+
+const URL_PATTERN = /\bhttps?:\/\/([a-zA-Z0-9.-]+)/g;
+
+/**
+ * Blank out comments but keep the line breaks, so findings point at the
+ * right line. URLs are kept as "//" only starts a comment after a
+ * character that is not ":".
+ */
+function stripComments(code: string): string {
+  return code
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, " "))
+    .replace(/(^|[^:\\])\/\/.*$/gm, "$1");
+}
+
+/**
+ * Statically scan the code of a custom block before it is verified for the
+ * block library. The scan does not run the code; it checks that it
+ * compiles as the body of a block function, and flags the APIs the
+ * sandbox denies at run time and patterns reviewers should look at.
+ * @param code The code of the block
+ * @returns The findings; blocks with errors do not pass
+ */
+export function scanBlockCode(code: string): BlockCodeScanReport {
+  const findings: BlockCodeFinding[] = [];
+
+  if (!code.trim()) {
+    findings.push({
+      rule: "empty",
+      severity: "error",
+      message: "The block has no code",
+    });
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    findings.push({
+      rule: "size",
+      severity: "warning",
+      message: `The code is longer than ${MAX_CODE_LENGTH} characters`,
+    });
+  }
+
+  try {
+    // Compiled only, never run
+    new Script(
+      `(async function (inputs, log, fetch, console, outputs) {\n${code}\n})`,
+      { filename: "custom-block.js" }
+    );
+  } catch (error) {
+    findings.push({
+      rule: "syntax",
+      severity: "error",
+      message: `The code does not compile: ${(error as Error).message}`,
+    });
+  }
+
+  stripComments(code)
+    .split("\n")
+    .forEach((text, index) => {
+      for (const { rule, severity, pattern, message } of SCAN_RULES) {
+        if (pattern.test(text)) {
+          findings.push({ rule, severity, message, line: index + 1 });
+        }
+      }
+    });
+
+  const hosts = new Set<string>();
+  for (const match of code.matchAll(URL_PATTERN)) {
+    hosts.add(match[1].toLowerCase());
+  }
+
+  return {
+    passed: !findings.some((finding) => finding.severity === "error"),
+    findings,
+    hosts: [...hosts].sort(),
+    scannedAt: new Date().toISOString(),
+  };
+}
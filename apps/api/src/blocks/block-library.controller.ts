@@ -0,0 +1,169 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Public } from "../auth/decorators/public.decorator";
+import { RequireAdmin } from "../auth/decorators/admin.decorator";
+import { BlockLibraryService } from "./block-library.service";
+import {
+  LibraryBlockDetailDto,
+  LibraryBlockDto,
+  LibraryBlockListDto,
+  PublishToLibraryDto,
+  RateLibraryBlockDto,
+  SearchBlockLibraryDto,
+  UpdateVerificationDto,
+} from "./dto/block-library.dto";
+
+@ApiTags("block-library")
+@Controller("blocks/library")
+@ApiBearerAuth()
+export class BlockLibraryController {
+  constructor(private readonly blockLibraryService: BlockLibraryService) {}
+
+  @Public()
+  @Get()
+  @ApiOperation({ summary: "Search the public block library" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns a page of library blocks",
+    type: LibraryBlockListDto,
+  })
+  async search(
+    @Query() query: SearchBlockLibraryDto
+  ): Promise<LibraryBlockListDto> {
+    return this.blockLibraryService.search(query);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: "List the latest published version of a custom block",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Returns the library block with the result of its code scan",
+    type: LibraryBlockDetailDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "The custom block has no published version",
+  })
+  async publish(
+    @Request() req: { user: { id: string } },
+    @Body() data: PublishToLibraryDto
+  ): Promise<LibraryBlockDetailDto> {
+    return this.blockLibraryService.publish(req.user.id, data);
+  }
+
+  @Public()
+  @Get(":id")
+  @ApiOperation({ summary: "Get a library block with its code and reviews" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: LibraryBlockDetailDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Library block not found",
+  })
+  async findOne(
+    @Request() req: { user?: { id: string } | null },
+    @Param("id") id: string
+  ): Promise<LibraryBlockDetailDto> {
+    return this.blockLibraryService.findOne(id, req.user?.id);
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Remove your block from the library" })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Library block not found",
+  })
+  async remove(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<{ success: boolean }> {
+    return this.blockLibraryService.remove(id, req.user.id);
+  }
+
+  @Put(":id/rating")
+  @ApiOperation({ summary: "Rate and review a library block" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the library block with its new average rating",
+    type: LibraryBlockDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "Publishers cannot rate their own blocks",
+  })
+  async rate(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() data: RateLibraryBlockDto
+  ): Promise<LibraryBlockDto> {
+    return this.blockLibraryService.rate(id, req.user.id, data);
+  }
+
+  @Post(":id/install")
+  @ApiOperation({ summary: "Install a library block into your custom blocks" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Returns the new custom block",
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "The block is already installed",
+  })
+  async install(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ) {
+    return this.blockLibraryService.install(id, req.user.id);
+  }
+
+  @RequireAdmin()
+  @Put(":id/verification")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Verify a library block after a code scan, or revoke it (admin)",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: LibraryBlockDetailDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "The code scan found errors; the response holds the report",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Only administrators can verify blocks",
+  })
+  async updateVerification(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() data: UpdateVerificationDto
+  ): Promise<LibraryBlockDetailDto> {
+    return this.blockLibraryService.updateVerification(
+      id,
+      req.user.id,
+      data.verified
+    );
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  BlockLibrary,
+  BlockLibraryRepository,
+  BlockLibraryWithReviews,
+  CustomBlockVersionRepository,
+  Prisma,
+} from "@zzyra/database";
+import { CustomBlockDefinition } from "@zzyra/types";
+import { BlocksService } from "./blocks.service";
+import { BlockCodeScanReport, scanBlockCode } from "./block-code-scanner";
+import {
+  LibraryBlockDetailDto,
+  LibraryBlockDto,
+  LibraryBlockListDto,
+  PublishToLibraryDto,
+  RateLibraryBlockDto,
+  SearchBlockLibraryDto,
+} from "./dto/block-library.dto";
+
+const parseJson = (value: unknown): any => {
+  try {
+    return typeof value === "string" ? JSON.parse(value) : value;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The public block marketplace. Custom blocks are listed at their latest
+ * published version, and each listing is scanned statically so
+ * administrators can verify it.
+ */
+@Injectable()
+export class BlockLibraryService {
+  constructor(
+    private readonly blocksService: BlocksService,
+    private readonly blockLibraryRepository: BlockLibraryRepository,
+    private readonly customBlockVersionRepository: CustomBlockVersionRepository
+  ) {}
+
+  async search(params: SearchBlockLibraryDto): Promise<LibraryBlockListDto> {
+    const page = params.page ?? 1;
+    const limit = params.limit ?? 20;
+    const { entries, total } = await this.blockLibraryRepository.search({
+      query: params.q,
+      category: params.category,
+      tags: params.tags,
+      verifiedOnly: params.verified,
+      sort: params.sort,
+      page,
+      limit,
+    });
+
+    return {
+      blocks: entries.map((entry) => this.toDto(entry)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async findOne(id: string, userId?: string): Promise<LibraryBlockDetailDto> {
+    const entry = await this.blockLibraryRepository.findWithReviews(id);
+    if (!entry || (!entry.isPublic && entry.userId !== userId)) {
+      throw new NotFoundException(`Library block with ID ${id} not found`);
+    }
+    return this.toDetailDto(entry);
+  }
+
+  /**
+   * List the latest published version of a custom block in the library, or
+   * update its listing. Listings of changed code lose their verification.
+   */
+  async publish(
+    userId: string,
+    data: PublishToLibraryDto
+  ): Promise<LibraryBlockDetailDto> {
+    const block = await this.blocksService.findCustomBlock(
+      data.customBlockId,
+      userId,
+      "edit"
+    );
+    if (block.libraryBlockId) {
+      throw new BadRequestException(
+        "Blocks installed from the library cannot be published again"
+      );
+    }
+
+    const version = await this.customBlockVersionRepository.resolve(block.id);
+    if (!version) {
+      throw new BadRequestException(
+        "Publish a version of the custom block before listing it"
+      );
+    }
+
+    const schemas = parseJson(version.blockData) ?? {};
+    const existing = await this.blockLibraryRepository.findByCustomBlockId(
+      block.id
+    );
+    const unchanged =
+      existing?.version === version.version &&
+      existing.executionCode === version.code;
+    const listing = {
+      name: version.name,
+      description: version.description ?? "",
+      blockType: "CUSTOM",
+      category: version.category,
+      blockData: {
+        inputs: schemas.inputs ?? [],
+        outputs: schemas.outputs ?? [],
+        configFields: schemas.configFields ?? [],
+        logicType: version.logicType,
+      },
+      executionCode: version.code,
+      version: version.version,
+      tags: data.tags ?? existing?.tags ?? this.getTags(block.tags),
+      isPublic: true,
+      updatedAt: new Date(),
+      ...(!unchanged && {
+        scanReport: scanBlockCode(
+          version.code
+        ) as unknown as Prisma.InputJsonValue,
+        isVerified: false,
+        verifiedAt: null,
+        verifiedBy: null,
+      }),
+    };
+
+    const entry = existing
+      ? await this.blockLibraryRepository.update(existing.id, listing)
+      : await this.blockLibraryRepository.create({
+          ...listing,
+          userId,
+          customBlock: { connect: { id: block.id } },
+        });
+
+    return this.findOne(entry.id, userId);
+  }
+
+  async remove(id: string, userId: string): Promise<{ success: boolean }> {
+    const entry = await this.blockLibraryRepository.findById(id);
+    if (!entry || entry.userId !== userId) {
+      throw new NotFoundException(`Library block with ID ${id} not found`);
+    }
+    await this.blockLibraryRepository.delete(id);
+    return { success: true };
+  }
+
+  async rate(
+    id: string,
+    userId: string,
+    data: RateLibraryBlockDto
+  ): Promise<LibraryBlockDto> {
+    const entry = await this.findPublic(id);
+    if (entry.userId === userId) {
+      throw new BadRequestException("You cannot rate your own block");
+    }
+
+    const rated = await this.blockLibraryRepository.rate(
+      id,
+      userId,
+      data.rating,
+      data.comment
+    );
+    return this.toDto(rated);
+  }
+
+  /**
+   * Copy a library block into the custom blocks of the user
+   */
+  async install(
+    id: string,
+    userId: string
+  ): Promise<{ block: CustomBlockDefinition | null }> {
+    const entry = await this.findPublic(id);
+    const installed = await this.blockLibraryRepository.findInstall(id, userId);
+    if (installed) {
+      throw new ConflictException(
+        `Library block ${id} is already installed as custom block ${installed.id}`
+      );
+    }
+
+    const block = await this.blockLibraryRepository.install(entry, userId);
+    return this.blocksService.getCustomBlock(block.id, userId);
+  }
+
+  /**
+   * Verify a listing after scanning its code again, or revoke the
+   * verification. The report is stored even when the scan fails.
+   */
+  async updateVerification(
+    id: string,
+    adminId: string,
+    verified: boolean
+  ): Promise<LibraryBlockDetailDto> {
+    const entry = await this.blockLibraryRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundException(`Library block with ID ${id} not found`);
+    }
+
+    if (!verified) {
+      await this.blockLibraryRepository.update(id, {
+        isVerified: false,
+        verifiedAt: null,
+        verifiedBy: null,
+      });
+      return this.findOne(id, adminId);
+    }
+
+    const scanReport = scanBlockCode(entry.executionCode ?? "");
+    await this.blockLibraryRepository.update(id, {
+      scanReport: scanReport as unknown as Prisma.InputJsonValue,
+      isVerified: scanReport.passed,
+      verifiedAt: scanReport.passed ? new Date() : null,
+      verifiedBy: scanReport.passed ? adminId : null,
+    });
+    if (!scanReport.passed) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: "Bad Request",
+        message: "The code scan found errors, so the block cannot be verified",
+        scanReport,
+      });
+    }
+    return this.findOne(id, adminId);
+  }
+
+  private async findPublic(id: string): Promise<BlockLibrary> {
+    const entry = await this.blockLibraryRepository.findById(id);
+    if (!entry || !entry.isPublic) {
+      throw new NotFoundException(`Library block with ID ${id} not found`);
+    }
+    return entry;
+  }
+
+  private getTags(tags: unknown): string[] {
+    const parsed = parseJson(tags);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  }
+
+  private toDto(entry: BlockLibrary): LibraryBlockDto {
+    return {
+      id: entry.id,
+      userId: entry.userId,
+      name: entry.name,
+      description: entry.description,
+      blockType: entry.blockType,
+      category: entry.category,
+      blockData: (parseJson(entry.blockData) ?? {}) as Record<string, unknown>,
+      tags: entry.tags,
+      version: entry.version,
+      rating: entry.rating ?? 0,
+      ratingCount: entry.ratingCount,
+      usageCount: entry.usageCount ?? 0,
+      isVerified: entry.isVerified ?? false,
+      verifiedAt: entry.verifiedAt?.toISOString() ?? null,
+      customBlockId: entry.customBlockId,
+      createdAt: entry.createdAt?.toISOString() ?? null,
+      updatedAt: entry.updatedAt?.toISOString() ?? null,
+    };
+  }
+
+  private toDetailDto(entry: BlockLibraryWithReviews): LibraryBlockDetailDto {
+    return {
+      ...this.toDto(entry),
+      code: entry.executionCode ?? "",
+      scanReport: (entry.scanReport as unknown as BlockCodeScanReport) ?? null,
+      reviews: entry.ratings.map((rating) => ({
+        userId: rating.userId,
+        rating: rating.rating,
+        comment: rating.comment,
+        updatedAt: rating.updatedAt.toISOString(),
+      })),
+    };
+  }
+}
@@ -11,12 +11,19 @@ import {
   Query,
   Request,
 } from "@nestjs/common";
-import { ApiBearerAuth, ApiOperation, ApiTags } from "@nestjs/swagger";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
 import { Public } from "../auth/decorators/public.decorator";
 import {
   BlocksService,
   BlockType,
   CreateCustomBlockRequest,
+  PublishCustomBlockRequest,
 } from "./blocks.service";
 
 @ApiTags("blocks")
@@ -142,6 +149,89 @@ export class BlocksController {
     }
   }
 
+  @Get("custom/:id/versions")
+  @ApiOperation({ summary: "List the published versions of a custom block" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the versions, highest first",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Custom block not found",
+  })
+  async listCustomBlockVersions(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ) {
+    return this.blocksService.listCustomBlockVersions(id, req.user.id);
+  }
+
+  @Post("custom/:id/versions")
+  @ApiOperation({
+    summary: "Publish the current definition of a custom block as a version",
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description:
+      "Returns the version and its changes to the inputs and outputs",
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      "Invalid version, or breaking changes published without a major version",
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "Version already published, or nothing changed",
+  })
+  async publishCustomBlock(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() data: PublishCustomBlockRequest = {}
+  ) {
+    return this.blocksService.publishCustomBlock(id, req.user.id, data);
+  }
+
+  @Get("custom/:id/versions/:version")
+  @ApiOperation({ summary: "Get one published version of a custom block" })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Custom block or version not found",
+  })
+  async getCustomBlockVersion(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Param("version") version: string
+  ) {
+    return this.blocksService.getCustomBlockVersion(id, version, req.user.id);
+  }
+
+  @Get("custom/:id/upgrade")
+  @ApiOperation({
+    summary: "Check for a newer version than the one a workflow node pins",
+  })
+  @ApiQuery({
+    name: "version",
+    required: false,
+    description: 'Pinned version or range, e.g. "1.2.0", "^1.2.0" or "~1.2.0"',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      "Returns the current and latest version and the changes to the inputs and outputs between them",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Custom block not found or no version matches the range",
+  })
+  async checkCustomBlockUpgrade(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Query("version") version?: string
+  ) {
+    return this.blocksService.checkCustomBlockUpgrade(id, req.user.id, version);
+  }
+
   @Put("custom/:id")
   @ApiOperation({ summary: "Update custom block" })
   async updateCustomBlock(
@@ -2,11 +2,13 @@ import { Module } from "@nestjs/common";
 import { DatabaseModule } from "../database/database.module";
 import { BlocksController } from "./blocks.controller";
 import { BlocksService } from "./blocks.service";
+import { BlockLibraryController } from "./block-library.controller";
+import { BlockLibraryService } from "./block-library.service";
 
 @Module({
   imports: [DatabaseModule],
-  controllers: [BlocksController],
-  providers: [BlocksService],
+  controllers: [BlocksController, BlockLibraryController],
+  providers: [BlocksService, BlockLibraryService],
   exports: [BlocksService],
 })
 export class BlocksModule {}
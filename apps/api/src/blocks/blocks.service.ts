@@ -1,5 +1,26 @@
-import { Injectable } from "@nestjs/common";
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
 import { PrismaService } from "../database/prisma.service";
+import {
+  BlockSchemaChange,
+  CustomBlock,
+  CustomBlockVersion,
+  CustomBlockVersionRepository,
+  FIRST_BLOCK_VERSION,
+  TeamPermission,
+  compareVersions,
+  diffBlockSchemas,
+  getNextVersion,
+  getRolesWithPermission,
+  isBreakingUpgrade,
+  isValidVersion,
+  isValidVersionRange,
+  satisfiesVersionRange,
+} from "@zzyra/database";
 import {
   CustomBlockDefinition,
   DataType,
@@ -11,6 +32,8 @@ import {
   enhancedBlockSchemas,
   getEnhancedBlockSchema,
   hasEnhancedSchema,
+  WorkflowExportBlockVersion,
+  WorkflowExportCustomBlock,
 } from "@zzyra/types";
 
 export interface BlockType {
@@ -44,11 +67,42 @@ export interface CreateCustomBlockRequest {
   }>;
   isPublic?: boolean;
   tags?: string[];
+  /** Team that owns the block; its editors can change it */
+  teamId?: string | null;
+}
+
+export interface PublishCustomBlockRequest {
+  /** Defaults to the next version that fits the changes */
+  version?: string;
+  changelog?: string;
+}
+
+export interface CustomBlockVersionSummary {
+  version: string;
+  changelog: string | null;
+  publishedBy: string | null;
+  createdAt: string;
+}
+
+export interface CustomBlockUpgradeCheck {
+  currentVersion: string;
+  latestVersion: string;
+  upgradeAvailable: boolean;
+  /** Whether the latest version is in the pinned range and runs without an upgrade */
+  inRange: boolean;
+  /** Whether workflows using the current version may fail on the latest one */
+  breaking: boolean;
+  changes: BlockSchemaChange[];
+  /** Versions after the current one, newest first */
+  versions: CustomBlockVersionSummary[];
 }
 
 @Injectable()
 export class BlocksService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly customBlockVersionRepository: CustomBlockVersionRepository
+  ) {}
 
   async getBlockTypes(
     type?: BlockType,
@@ -103,7 +157,11 @@ export class BlocksService {
       if (type && type.toString().toUpperCase() === "CUSTOM") {
         if (userId) {
           customBlocksQuery = {
-            OR: [{ userId: userId }, { isPublic: true }],
+            OR: [
+              { userId: userId },
+              { isPublic: true },
+              this.teamAccessWhere(userId, "view"),
+            ],
           };
         } else {
           customBlocksQuery = { isPublic: true };
@@ -344,7 +402,11 @@ export class BlocksService {
       if (isPublic === "true") {
         where.isPublic = true;
       } else {
-        where.OR = [{ userId: userId }, { isPublic: true }];
+        where.OR = [
+          { userId: userId },
+          { isPublic: true },
+          this.teamAccessWhere(userId, "view"),
+        ];
       }
 
       if (category) {
@@ -375,7 +437,11 @@ export class BlocksService {
       const block = await this.prisma.client.customBlock.findFirst({
         where: {
           id,
-          OR: [{ userId: userId }, { isPublic: true }],
+          OR: [
+            { userId: userId },
+            { isPublic: true },
+            this.teamAccessWhere(userId, "view"),
+          ],
         },
       });
 
@@ -405,6 +471,9 @@ export class BlocksService {
       if (!codeContent) {
         throw new Error("Either 'code' or 'logic' field is required");
       }
+      if (data.teamId) {
+        await this.assertTeamPermission(data.teamId, userId, "edit");
+      }
 
       const blockData = {
         inputs: data.inputs || [],
@@ -424,11 +493,19 @@ export class BlocksService {
           blockData: JSON.stringify(blockData),
           tags: JSON.stringify(data.tags || []),
           isPublic: data.isPublic || false,
+          teamId: data.teamId || null,
         },
       });
+      await this.customBlockVersionRepository.publish(customBlock, {
+        version: FIRST_BLOCK_VERSION,
+        publishedBy: userId,
+      });
 
       return {
-        block: this.mapDatabaseToCustomBlockDefinition(customBlock),
+        block: this.mapDatabaseToCustomBlockDefinition({
+          ...customBlock,
+          version: FIRST_BLOCK_VERSION,
+        }),
       };
     } catch (error) {
       console.error("Error creating custom block:", error);
@@ -443,7 +520,10 @@ export class BlocksService {
   ): Promise<{ block: CustomBlockDefinition }> {
     try {
       const existingBlock = await this.prisma.client.customBlock.findFirst({
-        where: { id, userId },
+        where: {
+          id,
+          OR: [{ userId }, this.teamAccessWhere(userId, "edit")],
+        },
       });
 
       if (!existingBlock) {
@@ -468,6 +548,16 @@ export class BlocksService {
 
       if (data.logicType) updateData.logicType = data.logicType;
       if (data.isPublic !== undefined) updateData.isPublic = data.isPublic;
+      if (data.teamId !== undefined && data.teamId !== existingBlock.teamId) {
+        // Only the author moves a block between teams
+        if (existingBlock.userId !== userId) {
+          throw new Error("Custom block not found or access denied");
+        }
+        if (data.teamId) {
+          await this.assertTeamPermission(data.teamId, userId, "edit");
+        }
+        updateData.teamId = data.teamId || null;
+      }
       if (data.tags) updateData.tags = JSON.stringify(data.tags);
 
       if (data.inputs || data.outputs) {
@@ -499,7 +589,10 @@ export class BlocksService {
   ): Promise<{ success: boolean }> {
     try {
       const deleteResult = await this.prisma.client.customBlock.deleteMany({
-        where: { id, userId },
+        where: {
+          id,
+          OR: [{ userId }, this.teamAccessWhere(userId, "manage")],
+        },
       });
 
       if (deleteResult.count === 0) {
@@ -513,6 +606,388 @@ export class BlocksService {
     }
   }
 
+  async listCustomBlockVersions(
+    id: string,
+    userId: string
+  ): Promise<{ versions: CustomBlockVersionSummary[] }> {
+    await this.findCustomBlock(id, userId, "view");
+    const versions = await this.customBlockVersionRepository.findByBlockId(id);
+    return { versions: versions.map((item) => this.toVersionSummary(item)) };
+  }
+
+  async getCustomBlockVersion(
+    id: string,
+    version: string,
+    userId: string
+  ): Promise<{ block: CustomBlockDefinition }> {
+    const block = await this.findCustomBlock(id, userId, "view");
+    const published = await this.customBlockVersionRepository.findByVersion(
+      id,
+      version
+    );
+    if (!published) {
+      throw new NotFoundException(
+        `Version ${version} of custom block ${id} not found`
+      );
+    }
+    return {
+      block: this.mapDatabaseToCustomBlockDefinition({
+        ...block,
+        name: published.name,
+        description: published.description,
+        category: published.category,
+        code: published.code,
+        logicType: published.logicType,
+        blockData: published.blockData,
+        version: published.version,
+        updatedAt: published.createdAt,
+      }),
+    };
+  }
+
+  /**
+   * Publish the current definition of a custom block as an immutable
+   * version. Breaking changes to the inputs or outputs need a version
+   * outside the caret range of the previous one, so workflows pinned to
+   * that range never pick them up.
+   */
+  async publishCustomBlock(
+    id: string,
+    userId: string,
+    data: PublishCustomBlockRequest
+  ): Promise<{
+    version: CustomBlockVersionSummary;
+    changes: BlockSchemaChange[];
+  }> {
+    const block = await this.findCustomBlock(id, userId, "edit");
+    const latest = await this.customBlockVersionRepository.resolve(id);
+    const changes = latest
+      ? diffBlockSchemas(
+          this.parseBlockData(latest.blockData),
+          this.parseBlockData(block.blockData)
+        )
+      : [];
+    const breaking = changes.some((change) => change.breaking);
+
+    if (latest && !changes.length && !this.hasDraftChanges(block, latest)) {
+      throw new ConflictException(
+        `Custom block has no changes since version ${latest.version}`
+      );
+    }
+
+    const version =
+      data.version?.trim() ||
+      (latest
+        ? getNextVersion(latest.version, breaking, changes.length > 0)
+        : FIRST_BLOCK_VERSION);
+    if (!isValidVersion(version)) {
+      throw new BadRequestException(
+        `Invalid version "${version}", expected MAJOR.MINOR.PATCH`
+      );
+    }
+    if (latest && compareVersions(version, latest.version) <= 0) {
+      throw new BadRequestException(
+        `Version ${version} must be higher than the latest version ${latest.version}`
+      );
+    }
+    if (latest && breaking && !isBreakingUpgrade(latest.version, version)) {
+      throw new BadRequestException(
+        `Version ${version} has breaking changes to the inputs or outputs and must be published as ${getNextVersion(latest.version, true, true)} or higher`
+      );
+    }
+
+    try {
+      const published = await this.customBlockVersionRepository.publish(block, {
+        version,
+        changelog: data.changelog ?? null,
+        publishedBy: userId,
+      });
+      return { version: this.toVersionSummary(published), changes };
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        throw new ConflictException(
+          `Version ${version} of custom block ${id} is already published`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a newer version of a custom block is published than the
+   * one a workflow node runs with its pinned range, and what the upgrade
+   * changes in the inputs and outputs
+   * @param range The version or range the node pins; empty for the latest
+   */
+  async checkCustomBlockUpgrade(
+    id: string,
+    userId: string,
+    range?: string
+  ): Promise<CustomBlockUpgradeCheck> {
+    await this.findCustomBlock(id, userId, "view");
+    if (range && !isValidVersionRange(range)) {
+      throw new BadRequestException(`Invalid version range "${range}"`);
+    }
+
+    const versions = await this.customBlockVersionRepository.findByBlockId(id);
+    const current = await this.customBlockVersionRepository.resolve(id, range);
+    if (!versions.length || !current) {
+      throw new NotFoundException(
+        range
+          ? `No published version of custom block ${id} matches ${range}`
+          : `Custom block ${id} has no published versions`
+      );
+    }
+
+    const latest = versions[0];
+    const changes = diffBlockSchemas(
+      this.parseBlockData(current.blockData),
+      this.parseBlockData(latest.blockData)
+    );
+
+    return {
+      currentVersion: current.version,
+      latestVersion: latest.version,
+      upgradeAvailable: latest.version !== current.version,
+      inRange: satisfiesVersionRange(latest.version, range),
+      breaking:
+        changes.some((change) => change.breaking) ||
+        isBreakingUpgrade(current.version, latest.version),
+      changes,
+      versions: versions
+        .filter((item) => compareVersions(item.version, current.version) > 0)
+        .map((item) => this.toVersionSummary(item)),
+    };
+  }
+
+  /**
+   * Snapshot the published versions of a custom block that workflow nodes
+   * pin, for a workflow export
+   * @param ranges The versions or ranges the nodes pin; empty for the latest
+   */
+  async exportCustomBlock(
+    id: string,
+    userId: string,
+    ranges: (string | undefined)[]
+  ): Promise<WorkflowExportCustomBlock> {
+    const block = await this.findCustomBlock(id, userId, "view");
+
+    const versions = new Map<string, CustomBlockVersion>();
+    for (const range of ranges.length ? ranges : [undefined]) {
+      const version = await this.customBlockVersionRepository.resolve(
+        id,
+        range
+      );
+      if (!version) {
+        throw new BadRequestException(
+          range
+            ? `No published version of custom block ${id} matches ${range}`
+            : `Publish a version of custom block ${id} before exporting workflows that use it`
+        );
+      }
+      versions.set(version.version, version);
+    }
+
+    return {
+      id: block.id,
+      name: block.name,
+      versions: [...versions.values()]
+        .sort((a, b) => compareVersions(a.version, b.version))
+        .map((version) => {
+          const schemas = this.parseBlockData(version.blockData);
+          return {
+            version: version.version,
+            name: version.name,
+            description: version.description ?? "",
+            category: version.category,
+            logicType: version.logicType,
+            code: version.code,
+            inputs: schemas.inputs ?? [],
+            outputs: schemas.outputs ?? [],
+            configFields: schemas.configFields ?? [],
+            changelog: version.changelog,
+          };
+        }),
+    };
+  }
+
+  /**
+   * Make the custom block of a workflow import available to the user. A
+   * block the user can already see at all exported versions is reused;
+   * otherwise it is created with the exported versions published.
+   * @returns The block and whether it was created
+   */
+  async importCustomBlock(
+    userId: string,
+    teamId: string | null,
+    data: WorkflowExportCustomBlock
+  ): Promise<{ block: CustomBlock; created: boolean }> {
+    const existing = await this.findCustomBlock(data.id, userId, "view").catch(
+      () => null
+    );
+    if (existing) {
+      const published = await Promise.all(
+        data.versions.map((version) =>
+          this.customBlockVersionRepository.findByVersion(
+            existing.id,
+            version.version
+          )
+        )
+      );
+      if (
+        published.every(
+          (version, index) => version?.code === data.versions[index].code
+        )
+      ) {
+        return { block: existing, created: false };
+      }
+    }
+
+    const versions = [...data.versions].sort((a, b) =>
+      compareVersions(a.version, b.version)
+    );
+    if (versions.some((version) => !isValidVersion(version.version))) {
+      throw new BadRequestException(
+        `Custom block ${data.id} has versions that are not semantic versions`
+      );
+    }
+    const toBlock = (version: WorkflowExportBlockVersion) => ({
+      name: version.name,
+      description: version.description,
+      category: version.category,
+      code: version.code,
+      logic: version.code,
+      logicType: version.logicType,
+      blockData: JSON.stringify({
+        inputs: version.inputs,
+        outputs: version.outputs,
+        configFields: version.configFields,
+      }),
+    });
+
+    const block = await this.prisma.client.customBlock.create({
+      data: {
+        ...toBlock(versions[versions.length - 1]),
+        userId,
+        teamId,
+        tags: JSON.stringify([]),
+        isPublic: false,
+      },
+    });
+    for (const version of versions) {
+      await this.customBlockVersionRepository.publish(
+        { ...block, ...toBlock(version) },
+        {
+          version: version.version,
+          changelog: version.changelog,
+          publishedBy: userId,
+        }
+      );
+    }
+
+    return { block, created: true };
+  }
+
+  /**
+   * Find a custom block the user has a permission on
+   * @throws NotFoundException when there is none
+   */
+  async findCustomBlock(
+    id: string,
+    userId: string,
+    permission: TeamPermission
+  ): Promise<CustomBlock> {
+    const block = await this.prisma.client.customBlock.findFirst({
+      where: {
+        id,
+        OR: [
+          { userId },
+          ...(permission === "view" ? [{ isPublic: true }] : []),
+          this.teamAccessWhere(userId, permission),
+        ],
+      },
+    });
+    if (!block) {
+      throw new NotFoundException(`Custom block with ID ${id} not found`);
+    }
+    return block;
+  }
+
+  /**
+   * Filter for custom blocks owned by a team in which the user has a role
+   * that allows the permission
+   */
+  private teamAccessWhere(userId: string, permission: TeamPermission) {
+    return {
+      team: {
+        members: {
+          some: { userId, role: { in: getRolesWithPermission(permission) } },
+        },
+      },
+    };
+  }
+
+  private async assertTeamPermission(
+    teamId: string,
+    userId: string,
+    permission: TeamPermission
+  ): Promise<void> {
+    const member = await this.prisma.client.teamMember.findFirst({
+      where: {
+        teamId,
+        userId,
+        role: { in: getRolesWithPermission(permission) },
+      },
+    });
+    if (!member) {
+      throw new Error(`You cannot add custom blocks to team ${teamId}`);
+    }
+  }
+
+  // Whether the draft differs from a version in more than its schemas
+  private hasDraftChanges(
+    block: {
+      name: string;
+      description: string | null;
+      category: string;
+      code: string;
+      logicType: string;
+      blockData: unknown;
+    },
+    version: CustomBlockVersion
+  ): boolean {
+    return (
+      block.name !== version.name ||
+      (block.description ?? "") !== (version.description ?? "") ||
+      block.category !== version.category ||
+      block.code !== version.code ||
+      block.logicType !== version.logicType ||
+      JSON.stringify(this.parseBlockData(block.blockData)) !==
+        JSON.stringify(this.parseBlockData(version.blockData))
+    );
+  }
+
+  private parseBlockData(blockData: unknown): Record<string, any> {
+    try {
+      return typeof blockData === "string"
+        ? JSON.parse(blockData)
+        : (blockData as Record<string, any>) || {};
+    } catch {
+      return {};
+    }
+  }
+
+  private toVersionSummary(
+    version: CustomBlockVersion
+  ): CustomBlockVersionSummary {
+    return {
+      version: version.version,
+      changelog: version.changelog,
+      publishedBy: version.publishedBy,
+      createdAt: version.createdAt.toISOString(),
+    };
+  }
+
   private mapDatabaseToCustomBlockDefinition(
     dbBlock: any
   ): CustomBlockDefinition {
@@ -572,6 +1047,7 @@ export class BlocksService {
       updatedAt: dbBlock.updatedAt?.toISOString(),
       createdBy: dbBlock.userId,
       tags,
+      version: dbBlock.version ?? undefined,
     };
   }
 
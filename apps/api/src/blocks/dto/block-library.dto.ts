@@ -0,0 +1,214 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import type { BlockLibrarySort } from "@zzyra/database";
+import type { BlockCodeScanReport } from "../block-code-scanner";
+
+const SORTS: BlockLibrarySort[] = ["rating", "usage", "newest"];
+
+export class SearchBlockLibraryDto {
+  @ApiProperty({
+    description: "Text to find in names and descriptions",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiProperty({
+    description: "Comma-separated tags the blocks must all have",
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      : value
+  )
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({ description: "Only verified blocks", required: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean()
+  verified?: boolean;
+
+  @ApiProperty({ enum: SORTS, required: false, default: "usage" })
+  @IsOptional()
+  @IsIn(SORTS)
+  sort?: BlockLibrarySort;
+
+  @ApiProperty({ required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({ required: false, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class PublishToLibraryDto {
+  @ApiProperty({
+    description:
+      "Custom block to publish; its latest published version is listed",
+  })
+  @IsUUID()
+  customBlockId: string;
+
+  @ApiProperty({ type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(32, { each: true })
+  tags?: string[];
+}
+
+export class RateLibraryBlockDto {
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiProperty({ description: "Review", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class UpdateVerificationDto {
+  @ApiProperty({
+    description:
+      "Verify the block, which needs a passing code scan, or revoke it",
+  })
+  @IsBoolean()
+  verified: boolean;
+}
+
+export class LibraryBlockReviewDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ minimum: 1, maximum: 5 })
+  rating: number;
+
+  @ApiProperty({ required: false, nullable: true })
+  comment: string | null;
+
+  @ApiProperty()
+  updatedAt: string;
+}
+
+export class LibraryBlockDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: "Publisher of the block" })
+  userId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  description: string;
+
+  @ApiProperty()
+  blockType: string;
+
+  @ApiProperty({ nullable: true })
+  category: string | null;
+
+  @ApiProperty({ description: "Inputs, outputs and logic type" })
+  blockData: Record<string, unknown>;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty({ nullable: true })
+  version: string | null;
+
+  @ApiProperty({ description: "Average rating" })
+  rating: number;
+
+  @ApiProperty()
+  ratingCount: number;
+
+  @ApiProperty({ description: "Number of installs" })
+  usageCount: number;
+
+  @ApiProperty()
+  isVerified: boolean;
+
+  @ApiProperty({ nullable: true })
+  verifiedAt: string | null;
+
+  @ApiProperty({ nullable: true })
+  customBlockId: string | null;
+
+  @ApiProperty({ nullable: true })
+  createdAt: string | null;
+
+  @ApiProperty({ nullable: true })
+  updatedAt: string | null;
+}
+
+export class LibraryBlockDetailDto extends LibraryBlockDto {
+  @ApiProperty({
+    description: "Code of the block, to review before installing",
+  })
+  code: string;
+
+  @ApiProperty({
+    description: "Result of the last static scan",
+    nullable: true,
+  })
+  scanReport: BlockCodeScanReport | null;
+
+  @ApiProperty({ type: [LibraryBlockReviewDto], description: "Latest reviews" })
+  reviews: LibraryBlockReviewDto[];
+}
+
+export class LibraryBlockListDto {
+  @ApiProperty({ type: [LibraryBlockDto] })
+  blocks: LibraryBlockDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  limit: number;
+}
@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  Request,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import {
+  CreateCredentialDto,
+  CredentialDto,
+  UpdateCredentialDto,
+} from "./dto/credential.dto";
+import { CredentialsService } from "./credentials.service";
+
+@ApiTags("credentials")
+@Controller("credentials")
+export class CredentialsController {
+  constructor(private readonly credentialsService: CredentialsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the credentials of the current user" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the credentials without their values",
+    type: [CredentialDto],
+  })
+  async findAll(
+    @Request() req: { user: { id: string } }
+  ): Promise<CredentialDto[]> {
+    return this.credentialsService.findAll(req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Store a credential encrypted" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Credential created successfully",
+    type: CredentialDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "A credential with the name exists",
+  })
+  async create(
+    @Request() req: { user: { id: string } },
+    @Body() createCredentialDto: CreateCredentialDto
+  ): Promise<CredentialDto> {
+    return this.credentialsService.create(createCredentialDto, req.user.id);
+  }
+
+  @Put(":id")
+  @ApiOperation({ summary: "Replace the value or description of a credential" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Credential updated successfully",
+    type: CredentialDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Credential not found",
+  })
+  async update(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() updateCredentialDto: UpdateCredentialDto
+  ): Promise<CredentialDto> {
+    return this.credentialsService.update(id, updateCredentialDto, req.user.id);
+  }
+
+  @Delete(":id")
+  @ApiOperation({ summary: "Delete a credential" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Credential deleted successfully",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Credential not found",
+  })
+  async remove(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<void> {
+    return this.credentialsService.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { CredentialsController } from "./credentials.controller";
+import { CredentialsService } from "./credentials.service";
+import { DatabaseModule } from "../database/database.module";
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [CredentialsController],
+  providers: [CredentialsService],
+})
+export class CredentialsModule {}
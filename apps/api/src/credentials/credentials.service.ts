@@ -0,0 +1,108 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  Credential,
+  CredentialRepository,
+  encryptCredential,
+} from "@zzyra/database";
+import {
+  CreateCredentialDto,
+  CredentialDto,
+  UpdateCredentialDto,
+} from "./dto/credential.dto";
+
+/**
+ * Named secrets of users. Values are encrypted before they are stored and
+ * are never returned; only the worker decrypts them, when a block config
+ * references them.
+ */
+@Injectable()
+export class CredentialsService {
+  constructor(
+    private readonly credentialRepository: CredentialRepository,
+    private readonly configService: ConfigService
+  ) {}
+
+  async findAll(userId: string): Promise<CredentialDto[]> {
+    const credentials = await this.credentialRepository.findByUserId(userId);
+    return credentials.map((credential) => this.toDto(credential));
+  }
+
+  async create(
+    createCredentialDto: CreateCredentialDto,
+    userId: string
+  ): Promise<CredentialDto> {
+    const { name, value, description } = createCredentialDto;
+    try {
+      const credential = await this.credentialRepository.create({
+        name,
+        description,
+        encryptedValue: await this.encrypt(value, userId),
+        user: { connect: { id: userId } },
+      });
+      return this.toDto(credential);
+    } catch (error: any) {
+      if (error?.code === "P2002") {
+        throw new ConflictException(`A credential named ${name} exists`);
+      }
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    updateCredentialDto: UpdateCredentialDto,
+    userId: string
+  ): Promise<CredentialDto> {
+    await this.findOwned(id, userId);
+
+    const { value, description } = updateCredentialDto;
+    const credential = await this.credentialRepository.update(id, {
+      description,
+      ...(value !== undefined && {
+        encryptedValue: await this.encrypt(value, userId),
+      }),
+    });
+    return this.toDto(credential);
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    await this.findOwned(id, userId);
+    await this.credentialRepository.delete(id);
+  }
+
+  private async findOwned(id: string, userId: string): Promise<Credential> {
+    const credential = await this.credentialRepository.findById(id);
+    if (!credential || credential.userId !== userId) {
+      throw new NotFoundException(`Credential with ID ${id} not found`);
+    }
+    return credential;
+  }
+
+  private async encrypt(value: string, userId: string): Promise<string> {
+    const encryptionKey = this.configService.get<string>(
+      "CREDENTIALS_ENCRYPTION_KEY"
+    );
+    if (!encryptionKey) {
+      throw new ServiceUnavailableException("Credentials are not configured");
+    }
+    return encryptCredential(value, encryptionKey, userId);
+  }
+
+  private toDto(credential: Credential): CredentialDto {
+    return {
+      id: credential.id,
+      name: credential.name,
+      reference: `{{credentials.${credential.name}}}`,
+      description: credential.description || undefined,
+      lastUsedAt: credential.lastUsedAt?.toISOString(),
+      createdAt: credential.createdAt.toISOString(),
+      updatedAt: credential.updatedAt.toISOString(),
+    };
+  }
+}
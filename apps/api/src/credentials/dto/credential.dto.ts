@@ -0,0 +1,75 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsOptional, IsString, Matches, MaxLength } from "class-validator";
+import { CREDENTIAL_NAME_PATTERN } from "@zzyra/database";
+
+export class CreateCredentialDto {
+  @ApiProperty({
+    description:
+      "Name block configs reference the credential by, as {{credentials.name}}",
+  })
+  @Matches(CREDENTIAL_NAME_PATTERN, {
+    message:
+      "name must start with a letter and contain only letters, digits, dashes and underscores",
+  })
+  name: string;
+
+  @ApiProperty({ description: "Secret value; it is never returned" })
+  @IsString()
+  @MaxLength(10000)
+  value: string;
+
+  @ApiProperty({
+    description: "Description of the credential",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UpdateCredentialDto {
+  @ApiProperty({ description: "New secret value", required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10000)
+  value?: string;
+
+  @ApiProperty({
+    description: "Description of the credential",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class CredentialDto {
+  @ApiProperty({ description: "Unique identifier for the credential" })
+  id: string;
+
+  @ApiProperty({ description: "Name of the credential" })
+  name: string;
+
+  @ApiProperty({ description: "Reference to use in block configs" })
+  reference: string;
+
+  @ApiProperty({
+    description: "Description of the credential",
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: "When an execution last used the credential",
+    required: false,
+  })
+  lastUsedAt?: string;
+
+  @ApiProperty({ description: "Creation timestamp" })
+  createdAt: string;
+
+  @ApiProperty({ description: "Last update timestamp" })
+  updatedAt: string;
+}
@@ -6,6 +6,16 @@ import {
   ExecutionRepository,
   WalletRepository,
   NotificationRepository,
+  ScheduleRepository,
+  WebhookRepository,
+  WalletListenerRepository,
+  WorkflowVersionRepository,
+  TeamRepository,
+  SubscriptionRepository,
+  UsageRepository,
+  CustomBlockVersionRepository,
+  BlockLibraryRepository,
+  CredentialRepository,
 } from "@zzyra/database";
 
 @Global()
@@ -17,6 +27,16 @@ import {
     ExecutionRepository,
     WalletRepository,
     NotificationRepository,
+    ScheduleRepository,
+    WebhookRepository,
+    WalletListenerRepository,
+    WorkflowVersionRepository,
+    TeamRepository,
+    SubscriptionRepository,
+    UsageRepository,
+    CustomBlockVersionRepository,
+    BlockLibraryRepository,
+    CredentialRepository,
   ],
   exports: [
     PrismaService,
@@ -25,6 +45,16 @@ import {
     ExecutionRepository,
     WalletRepository,
     NotificationRepository,
+    ScheduleRepository,
+    WebhookRepository,
+    WalletListenerRepository,
+    WorkflowVersionRepository,
+    TeamRepository,
+    SubscriptionRepository,
+    UsageRepository,
+    CustomBlockVersionRepository,
+    BlockLibraryRepository,
+    CredentialRepository,
   ],
 })
 export class DatabaseModule {}
@@ -76,6 +76,9 @@ export class ExecutionRepository {
         logs: {
           orderBy: { createdAt: "asc" },
         },
+        attempts: {
+          orderBy: { attempt: "asc" },
+        },
       },
       orderBy: { startedAt: "asc" },
     });
@@ -120,7 +123,11 @@ export class ExecutionRepository {
   ): Promise<WorkflowExecution> {
     const data: any = { status };
 
-    if (status === "completed" || status === "failed") {
+    if (
+      status === "completed" ||
+      status === "completed_with_errors" ||
+      status === "failed"
+    ) {
       data.finishedAt = new Date();
     }
 
@@ -185,6 +192,16 @@ export class ExecutionRepository {
             edges: true,
           },
         },
+        // Runs started by EXECUTE_WORKFLOW nodes, shown under their node
+        subExecutions: {
+          select: {
+            id: true,
+            workflowId: true,
+            status: true,
+            callerNodeId: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
   }
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { ExecutionRepository } from "@zzyra/database";
+import { ExecutionsService } from "./executions.service";
+
+/**
+ * Applies the default action of APPROVAL nodes nobody decided on before
+ * their timeout, resuming the executions waiting on them.
+ */
+@Injectable()
+export class ApprovalTimeoutService {
+  private readonly logger = new Logger(ApprovalTimeoutService.name);
+  private ticking = false;
+
+  constructor(
+    private readonly executionRepository: ExecutionRepository,
+    private readonly executionsService: ExecutionsService
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: "approval-timeouts" })
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const expired = await this.executionRepository.findExpiredApprovals(
+        new Date()
+      );
+
+      for (const pause of expired) {
+        try {
+          await this.executionsService.expireApproval(pause);
+        } catch (error) {
+          this.logger.error(
+            `Failed to apply the approval timeout of execution ${pause.executionId}`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error("Approval timeout sweep failed", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
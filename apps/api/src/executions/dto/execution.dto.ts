@@ -73,9 +73,24 @@ export class WorkflowExecutionDto {
 
   @ApiProperty({
     description: "Current status of the execution",
-    enum: ["pending", "running", "completed", "failed", "paused"],
+    enum: [
+      "pending",
+      "running",
+      "completed",
+      "completed_with_errors",
+      "failed",
+      "paused",
+      "cancelled",
+    ],
   })
-  status: "pending" | "running" | "completed" | "failed" | "paused" = "pending";
+  status:
+    | "pending"
+    | "running"
+    | "completed"
+    | "completed_with_errors"
+    | "failed"
+    | "paused"
+    | "cancelled" = "pending";
 
   @ApiProperty({ description: "When the execution started" })
   started_at: string = "";
@@ -128,6 +143,47 @@ export class PaginatedExecutionsResponseDto {
   }
 }
 
+export class NodeExecutionAttemptDto {
+  @ApiProperty({ description: "Attempt number, starting at 1" })
+  attempt: number = 1;
+
+  @ApiProperty({
+    description: "Outcome of the attempt",
+    enum: ["completed", "failed"],
+  })
+  status: string = "";
+
+  @ApiProperty({
+    description: "Classified error type of a failed attempt",
+    required: false,
+  })
+  error_type?: string;
+
+  @ApiProperty({ description: "Error message", required: false })
+  error?: string;
+
+  @ApiProperty({
+    description: "Delay before the next attempt, when one followed",
+    required: false,
+  })
+  retry_delay_ms?: number;
+
+  @ApiProperty({ description: "When the attempt started" })
+  started_at: string = "";
+
+  @ApiProperty({ description: "When the attempt finished" })
+  finished_at: string = "";
+
+  @ApiProperty({ description: "Duration of the attempt in milliseconds" })
+  duration_ms: number = 0;
+
+  constructor(partial?: Partial<NodeExecutionAttemptDto>) {
+    if (partial) {
+      Object.assign(this, partial);
+    }
+  }
+}
+
 export class NodeExecutionDto {
   @ApiProperty({ description: "Unique identifier for the node execution" })
   id: string = "";
@@ -173,6 +229,32 @@ export class NodeExecutionDto {
   })
   output_data?: Record<string, unknown>;
 
+  @ApiProperty({
+    description: "Number of retries after the first attempt",
+    required: false,
+  })
+  retry_count?: number;
+
+  @ApiProperty({
+    description:
+      "ID of the FOR_EACH node this run belongs to; node_id is then the child node id followed by #<iteration>",
+    required: false,
+  })
+  loop_node_id?: string;
+
+  @ApiProperty({
+    description: "Index of the item in a FOR_EACH run, starting at 0",
+    required: false,
+  })
+  iteration?: number;
+
+  @ApiProperty({
+    description: "Every attempt of the node, oldest first",
+    type: () => [NodeExecutionAttemptDto],
+    required: false,
+  })
+  attempts?: NodeExecutionAttemptDto[];
+
   constructor(partial?: Partial<NodeExecutionDto>) {
     if (partial) {
       Object.assign(this, partial);
@@ -213,6 +295,15 @@ export class ExecutionActionDto {
   })
   nodeId?: string;
 
+  @ApiProperty({
+    description:
+      "Blockchain authorization for the remaining nodes when resuming",
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  blockchainAuthorization?: Record<string, any>;
+
   constructor(partial?: Partial<ExecutionActionDto>) {
     if (partial) {
       Object.assign(this, partial);
@@ -220,6 +311,82 @@ export class ExecutionActionDto {
   }
 }
 
+export class RerunExecutionDto {
+  @ApiProperty({
+    description:
+      "Blockchain authorization for re-run nodes that perform blockchain operations",
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  blockchainAuthorization?: Record<string, any>;
+}
+
+export class RerunExecutionResponseDto {
+  @ApiProperty({ description: "ID of the new execution" })
+  executionId: string = "";
+
+  @ApiProperty({ description: "ID of the execution being re-run" })
+  parentExecutionId: string = "";
+
+  @ApiProperty({ description: "Node the re-run starts from" })
+  rerunFromNodeId: string = "";
+
+  @ApiProperty({
+    description: "Nodes that are executed again, in no particular order",
+    type: [String],
+  })
+  rerunNodeIds: string[] = [];
+}
+
+export class ApprovalDecisionDto {
+  @ApiProperty({ description: "Reason for the decision", required: false })
+  @IsOptional()
+  @IsString()
+  comment?: string;
+
+  @ApiProperty({
+    description:
+      "Blockchain authorization for the remaining nodes, such as the transaction being approved. Only the owner of the execution can set it.",
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  blockchainAuthorization?: Record<string, any>;
+}
+
+export class ExecutionApprovalDto {
+  @ApiProperty({ description: "ID of the execution" })
+  executionId: string = "";
+
+  @ApiProperty({ description: "APPROVAL node the execution is waiting on" })
+  nodeId: string = "";
+
+  @ApiProperty({ description: "Users who can decide", type: [String] })
+  approvers: string[] = [];
+
+  @ApiProperty({
+    description: "Message and the nodes that run once approved",
+    required: false,
+  })
+  proposedAction?: any;
+
+  @ApiProperty({
+    description: "When the default action is applied",
+    required: false,
+  })
+  expiresAt?: string;
+
+  @ApiProperty({
+    description: "Decision applied when nobody decides in time",
+    enum: ["approve", "reject"],
+  })
+  defaultAction: string = "reject";
+
+  @ApiProperty({ description: "When the approval was requested" })
+  requestedAt: string = "";
+}
+
 export class ExecutionActionResponseDto {
   @ApiProperty({ description: "Whether the action was successful" })
   success: boolean = false;
@@ -7,6 +7,7 @@ import {
   Body,
   HttpStatus,
   HttpException,
+  HttpCode,
   Request,
   UseGuards,
 } from "@nestjs/common";
@@ -19,11 +20,16 @@ import {
   ApiBearerAuth,
 } from "@nestjs/swagger";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { Public } from "../auth/decorators/public.decorator";
 import { ExecutionsService } from "./executions.service";
 import { NodeExecutionsService } from "./node-executions.service";
 import { NodeLogsService } from "./node-logs.service";
 import {
+  ApprovalDecisionDto,
   ExecutionActionDto,
+  ExecutionApprovalDto,
+  RerunExecutionDto,
+  RerunExecutionResponseDto,
   WorkflowExecutionDto,
   NodeExecutionDto,
   NodeLogDto,
@@ -40,6 +46,29 @@ export class ExecutionsController {
     private readonly nodeLogsService: NodeLogsService
   ) {}
 
+  // Declared first so tokens such as "retry" are not read as an execution ID
+  @Post("callbacks/:token")
+  @Public()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: "Resume the execution waiting for a callback",
+    description:
+      "Resumes the execution waiting at a WAIT node for a callback with this token. The request body becomes the `payload` of the node's output.",
+  })
+  @ApiParam({ name: "token", description: "Correlation token of the wait" })
+  @ApiResponse({ status: 202, description: "Execution resumed" })
+  @ApiResponse({
+    status: 404,
+    description: "No execution is waiting for the token",
+  })
+  @ApiResponse({ status: 409, description: "Execution was already resumed" })
+  async receiveCallback(
+    @Param("token") token: string,
+    @Body() payload: Record<string, any>
+  ): Promise<{ resumed: boolean }> {
+    return this.executionsService.receiveCallback(token, payload);
+  }
+
   @Get()
   @ApiOperation({ summary: "Get workflow executions" })
   @ApiQuery({
@@ -390,17 +419,62 @@ export class ExecutionsController {
     }
   }
 
+  @Post(":id/rerun-from/:nodeId")
+  @ApiOperation({
+    summary: "Re-run a workflow execution from a node",
+    description:
+      "Starts a new execution that runs the node and its descendants, reusing the stored outputs of every other node from the original execution.",
+  })
+  @ApiParam({ name: "id", description: "ID of the workflow execution" })
+  @ApiParam({ name: "nodeId", description: "ID of the node to re-run from" })
+  @ApiResponse({
+    status: 201,
+    description: "Re-run execution queued",
+    type: RerunExecutionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Execution cannot be re-run" })
+  @ApiResponse({ status: 404, description: "Execution or node not found" })
+  async rerunFromNode(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Param("nodeId") nodeId: string,
+    @Body() rerunDto: RerunExecutionDto
+  ): Promise<RerunExecutionResponseDto> {
+    try {
+      return await this.executionsService.rerunFromNode(
+        id,
+        nodeId,
+        req.user.id,
+        rerunDto?.blockchainAuthorization
+      );
+    } catch (error: unknown) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new HttpException(
+        `Failed to re-run execution: ${errorMessage}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   @Post(":id/cancel")
   @ApiOperation({ summary: "Cancel a workflow execution" })
   @ApiParam({ name: "id", description: "ID of the workflow execution" })
   @ApiResponse({ status: 200, description: "Execution cancelled successfully" })
   async cancelExecution(
+    @Request() req: { user: { id: string } },
     @Param("id") id: string,
     @Body() actionDto: ExecutionActionDto
   ): Promise<any> {
     try {
-      return await this.executionsService.cancel(id, actionDto.nodeId);
+      return await this.executionsService.cancel(id, req.user.id);
     } catch (error: unknown) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new HttpException(
@@ -415,12 +489,16 @@ export class ExecutionsController {
   @ApiParam({ name: "id", description: "ID of the workflow execution" })
   @ApiResponse({ status: 200, description: "Execution paused successfully" })
   async pauseExecution(
+    @Request() req: { user: { id: string } },
     @Param("id") id: string,
     @Body() actionDto: ExecutionActionDto
   ): Promise<any> {
     try {
-      return await this.executionsService.pause(id, actionDto.nodeId);
+      return await this.executionsService.pause(id, req.user.id);
     } catch (error: unknown) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new HttpException(
@@ -435,12 +513,20 @@ export class ExecutionsController {
   @ApiParam({ name: "id", description: "ID of the workflow execution" })
   @ApiResponse({ status: 200, description: "Execution resumed successfully" })
   async resumeExecution(
+    @Request() req: { user: { id: string } },
     @Param("id") id: string,
     @Body() actionDto: ExecutionActionDto
   ): Promise<any> {
     try {
-      return await this.executionsService.resume(id, actionDto.nodeId);
+      return await this.executionsService.resume(
+        id,
+        req.user.id,
+        actionDto?.blockchainAuthorization
+      );
     } catch (error: unknown) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new HttpException(
@@ -449,4 +535,65 @@ export class ExecutionsController {
       );
     }
   }
+
+  @Get(":id/approval")
+  @ApiOperation({ summary: "Get the approval an execution is waiting on" })
+  @ApiParam({ name: "id", description: "ID of the workflow execution" })
+  @ApiResponse({ status: 200, type: ExecutionApprovalDto })
+  @ApiResponse({
+    status: 404,
+    description: "Execution not found or not waiting for approval",
+  })
+  async getApproval(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<ExecutionApprovalDto> {
+    return this.executionsService.getApproval(id, req.user.id);
+  }
+
+  @Post(":id/approval/approve")
+  @ApiOperation({
+    summary: "Approve the step an execution is waiting on",
+    description:
+      "Resumes the execution after its APPROVAL node. Only the approvers of the node can decide.",
+  })
+  @ApiParam({ name: "id", description: "ID of the workflow execution" })
+  @ApiResponse({ status: 200, description: "Execution resumed" })
+  @ApiResponse({ status: 400, description: "Execution is not waiting" })
+  @ApiResponse({ status: 403, description: "User is not an approver" })
+  async approveExecution(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() decisionDto: ApprovalDecisionDto
+  ): Promise<any> {
+    return this.executionsService.decideApproval(
+      id,
+      req.user.id,
+      true,
+      decisionDto
+    );
+  }
+
+  @Post(":id/approval/reject")
+  @ApiOperation({
+    summary: "Reject the step an execution is waiting on",
+    description:
+      "Resumes the execution after its APPROVAL node; the nodes it gates are skipped and its `rejected` branch runs.",
+  })
+  @ApiParam({ name: "id", description: "ID of the workflow execution" })
+  @ApiResponse({ status: 200, description: "Execution resumed" })
+  @ApiResponse({ status: 400, description: "Execution is not waiting" })
+  @ApiResponse({ status: 403, description: "User is not an approver" })
+  async rejectExecution(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() decisionDto: ApprovalDecisionDto
+  ): Promise<any> {
+    return this.executionsService.decideApproval(
+      id,
+      req.user.id,
+      false,
+      decisionDto
+    );
+  }
 }
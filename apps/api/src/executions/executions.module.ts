@@ -1,16 +1,19 @@
 import { Module } from "@nestjs/common";
 import { ExecutionsController } from "./executions.controller";
 import { ExecutionsService } from "./executions.service";
+import { ApprovalTimeoutService } from "./approval-timeout.service";
 import { NodeExecutionsService } from "./node-executions.service";
 import { NodeLogsService } from "./node-logs.service";
 import { ExecutionRepository } from "../database/repositories/execution.repository";
 import { DatabaseModule } from "../database/database.module";
+import { QueueModule } from "../queue/queue.module";
 
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, QueueModule],
   controllers: [ExecutionsController],
   providers: [
     ExecutionsService,
+    ApprovalTimeoutService,
     NodeExecutionsService,
     NodeLogsService,
     {
@@ -1,10 +1,39 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
-import { ExecutionRepository } from "@zzyra/database";
-import { CreateExecutionDto, UpdateExecutionDto } from "./dto/execution.dto";
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  APPROVAL_PAUSE_REASON,
+  ExecutionRepository,
+  TeamPermission,
+  TeamRepository,
+  WAIT_PAUSE_REASON,
+  WorkflowPause,
+  WorkflowRepository,
+  WorkflowVersionRepository,
+  hasTeamPermission,
+} from "@zzyra/database";
+import { QueueService } from "../queue/queue.service";
+import {
+  ApprovalDecisionDto,
+  CreateExecutionDto,
+  ExecutionApprovalDto,
+  RerunExecutionResponseDto,
+  UpdateExecutionDto,
+} from "./dto/execution.dto";
 
 @Injectable()
 export class ExecutionsService {
-  constructor(private readonly executionRepository: ExecutionRepository) {}
+  constructor(
+    private readonly executionRepository: ExecutionRepository,
+    private readonly workflowRepository: WorkflowRepository,
+    private readonly workflowVersionRepository: WorkflowVersionRepository,
+    private readonly teamRepository: TeamRepository,
+    private readonly queueService: QueueService
+  ) {}
 
   async findAll(userId: string, limit = 10): Promise<any[]> {
     const executions = await this.executionRepository.findByUserId(
@@ -75,7 +104,11 @@ export class ExecutionsService {
     return executionsWithData;
   }
 
-  async findOne(id: string, userId?: string): Promise<any> {
+  async findOne(
+    id: string,
+    userId?: string,
+    permission: TeamPermission = "view"
+  ): Promise<any> {
     try {
       const execution = await this.executionRepository.findWithNodesAndLogs(id);
 
@@ -84,7 +117,7 @@ export class ExecutionsService {
       }
 
       // Check if user has access to this execution (if userId provided)
-      if (userId && execution.userId !== userId) {
+      if (userId && !(await this.canAccess(execution, userId, permission))) {
         throw new Error("Access denied");
       }
 
@@ -121,6 +154,8 @@ export class ExecutionsService {
             output_data: nodeExec.outputData,
             duration_ms: nodeExec.durationMs,
             retry_count: nodeExec.retryCount,
+            loop_node_id: nodeExec.loopNodeId,
+            iteration: nodeExec.iteration,
             logs:
               nodeExec.logs?.map((log: any) => ({
                 id: log.id,
@@ -183,7 +218,7 @@ export class ExecutionsService {
       }
 
       // Check if user has access to this execution (if userId provided)
-      if (userId && execution.userId !== userId) {
+      if (userId && !(await this.canAccess(execution, userId, "view"))) {
         throw new Error("Access denied");
       }
 
@@ -204,6 +239,8 @@ export class ExecutionsService {
             output_data: nodeExec.outputData,
             duration_ms: nodeExec.durationMs,
             retry_count: nodeExec.retryCount,
+            loop_node_id: nodeExec.loopNodeId,
+            iteration: nodeExec.iteration,
             logs:
               nodeExec.logs?.map((log: any) => ({
                 id: log.id,
@@ -261,6 +298,17 @@ export class ExecutionsService {
     createExecutionDto: CreateExecutionDto,
     userId: string
   ): Promise<any> {
+    const workflow = await this.workflowRepository.findByIdWithPermission(
+      createExecutionDto.workflowId,
+      userId,
+      "execute"
+    );
+    if (!workflow) {
+      throw new NotFoundException(
+        `Workflow with ID ${createExecutionDto.workflowId} not found`
+      );
+    }
+
     return this.executionRepository.createExecution(
       createExecutionDto.workflowId,
       userId,
@@ -275,7 +323,7 @@ export class ExecutionsService {
     userId?: string
   ): Promise<any> {
     // Verify execution exists and user has access
-    const execution = await this.findOne(id, userId);
+    const execution = await this.findOne(id, userId, "execute");
 
     if (updateExecutionDto.status) {
       return this.executionRepository.updateStatus(
@@ -293,26 +341,477 @@ export class ExecutionsService {
     return this.executionRepository.update(id, updateData);
   }
 
+  /**
+   * Request a cancel. The worker running the execution picks up the status
+   * change, stops scheduling nodes and aborts in-flight calls.
+   */
   async cancel(id: string, userId?: string): Promise<any> {
-    await this.findOne(id, userId); // Verify access
+    const execution = await this.findOne(id, userId, "execute"); // Verify access
+    if (!["pending", "running", "paused"].includes(execution.status)) {
+      throw new BadRequestException(
+        `Execution ${id} is already ${execution.status}`
+      );
+    }
     return this.executionRepository.updateStatus(id, "cancelled");
   }
 
+  /**
+   * Request a pause. The worker finishes the node it is running, records a
+   * workflow pause and stops.
+   */
   async pause(id: string, userId?: string): Promise<any> {
-    await this.findOne(id, userId); // Verify access
-    return this.executionRepository.updateStatus(id, "paused" as any);
+    const execution = await this.findOne(id, userId, "execute"); // Verify access
+    if (!["pending", "running"].includes(execution.status)) {
+      throw new BadRequestException(
+        `Execution ${id} is ${execution.status} and cannot be paused`
+      );
+    }
+    return this.executionRepository.updateStatus(id, "paused");
+  }
+
+  /**
+   * Continue a paused execution after the last node it processed
+   */
+  async resume(
+    id: string,
+    userId?: string,
+    blockchainAuthorization?: Record<string, any>
+  ): Promise<any> {
+    const execution = await this.findOne(id, userId, "execute"); // Verify access
+    if (execution.status !== "paused") {
+      throw new BadRequestException(`Execution ${id} is not paused`);
+    }
+
+    // Without a pause record the execution either never started, or its
+    // worker has not reached the end of the current node yet
+    const pause = await this.executionRepository.findLatestPause(id);
+    if (!pause && execution.lockedBy) {
+      throw new BadRequestException(
+        `Execution ${id} is still pausing; try again once the current node has finished`
+      );
+    }
+    if (pause?.reason === APPROVAL_PAUSE_REASON) {
+      throw new BadRequestException(
+        `Execution ${id} is waiting for approval; approve or reject it instead`
+      );
+    }
+    if (pause?.reason === WAIT_PAUSE_REASON) {
+      throw new BadRequestException(
+        `Execution ${id} is waiting at WAIT node ${pause.nodeId} and resumes on its own`
+      );
+    }
+
+    const updated = await this.executionRepository.updateStatus(id, "pending");
+    // Only the pause being resumed is removed; the resumed run may pause
+    // again before this request finishes
+    if (pause) {
+      await this.executionRepository.deletePause(pause.id);
+    }
+    try {
+      await this.queueService.addExecutionJob(
+        id,
+        execution.workflowId,
+        execution.userId,
+        blockchainAuthorization,
+        pause
+          ? {
+              resumed: true,
+              lastCompletedNodeId: pause.nodeId,
+              gatedNodeIds: pause.gatedNodeIds,
+              resumeData: pause.resumeData ?? {},
+            }
+          : undefined
+      );
+    } catch (error) {
+      if (pause) {
+        await this.executionRepository.restorePause(pause);
+      }
+      await this.executionRepository.updateStatus(id, "paused");
+      throw error;
+    }
+
+    return updated;
+  }
+
+  async getApproval(id: string, userId: string): Promise<ExecutionApprovalDto> {
+    const { pause } = await this.findPendingApproval(id, userId);
+
+    return {
+      executionId: id,
+      nodeId: pause.nodeId,
+      approvers: pause.approvers,
+      proposedAction: pause.proposedAction ?? undefined,
+      expiresAt: pause.expiresAt?.toISOString(),
+      defaultAction: pause.defaultAction || "reject",
+      requestedAt: pause.createdAt.toISOString(),
+    };
   }
 
-  async resume(id: string, userId?: string): Promise<any> {
-    await this.findOne(id, userId); // Verify access
-    return this.executionRepository.updateStatus(id, "running" as any);
+  /**
+   * Approve or reject the APPROVAL node an execution is waiting on. Only the
+   * approvers listed on the node can decide.
+   */
+  async decideApproval(
+    id: string,
+    userId: string,
+    approved: boolean,
+    decisionDto: ApprovalDecisionDto = {}
+  ): Promise<any> {
+    const { execution, pause } = await this.findPendingApproval(id, userId);
+    if (!pause.approvers.includes(userId)) {
+      throw new ForbiddenException(
+        "Only the approvers of this step can approve or reject it"
+      );
+    }
+    // The resumed run signs as the owner of the execution, so other
+    // approvers cannot hand it their authorization
+    if (decisionDto.blockchainAuthorization && userId !== execution.userId) {
+      throw new ForbiddenException(
+        "Only the owner of the execution can authorize its blockchain nodes"
+      );
+    }
+
+    return this.completeApproval(
+      execution,
+      pause,
+      {
+        approved,
+        decidedBy: userId,
+        comment: decisionDto.comment,
+        timedOut: false,
+      },
+      decisionDto.blockchainAuthorization
+    );
+  }
+
+  /**
+   * Apply the default action of an approval nobody decided on in time
+   */
+  async expireApproval(pause: WorkflowPause): Promise<any> {
+    const execution = await this.executionRepository.findById(
+      pause.executionId
+    );
+    if (!execution) {
+      throw new NotFoundException(
+        `Execution with ID ${pause.executionId} not found`
+      );
+    }
+
+    return this.completeApproval(execution, pause, {
+      approved: pause.defaultAction === "approve",
+      decidedBy: null,
+      timedOut: true,
+    });
+  }
+
+  /**
+   * Resume the execution waiting at a WAIT node for the callback with this
+   * token, with the body of the callback as the output of the node
+   */
+  async receiveCallback(
+    token: string,
+    payload: unknown
+  ): Promise<{ resumed: boolean }> {
+    const pause = await this.executionRepository.findWaitingCallback(token);
+    const execution = pause
+      ? await this.executionRepository.findById(pause.executionId)
+      : null;
+    if (!pause || !execution) {
+      throw new NotFoundException("No execution is waiting for this callback");
+    }
+
+    const output = {
+      resumedBy: "callback",
+      waitedSince: pause.createdAt.toISOString(),
+      resumedAt: new Date().toISOString(),
+      timedOut: false,
+      ...(pause.correlationId && { correlationId: pause.correlationId }),
+      payload,
+    };
+
+    // The timeout of the wait can fire at the same time; only one may resume
+    if (!(await this.executionRepository.markPausedAsPending(execution.id))) {
+      throw new ConflictException(
+        `Execution ${execution.id} was already resumed`
+      );
+    }
+    // The resumed run may wait again before this request finishes, so only
+    // the pause of this callback is removed
+    await this.executionRepository.deletePause(pause.id);
+    try {
+      await this.queueService.addExecutionJob(
+        execution.id,
+        execution.workflowId,
+        execution.userId,
+        undefined,
+        {
+          resumed: true,
+          lastCompletedNodeId: pause.nodeId,
+          gatedNodeIds: pause.gatedNodeIds,
+          resumeData: {
+            ...((pause.resumeData as Record<string, any>) ?? {}),
+            [pause.nodeId]: output,
+          },
+        }
+      );
+    } catch (error) {
+      await this.executionRepository.restorePause(pause);
+      await this.executionRepository.updateStatus(execution.id, "paused");
+      throw error;
+    }
+
+    await this.executionRepository.addLog(
+      execution.id,
+      "info",
+      `Node ${pause.nodeId} received its callback`,
+      { node_id: pause.nodeId, resumed_at: output.resumedAt }
+    );
+
+    return { resumed: true };
   }
 
   async retry(id: string, userId?: string): Promise<any> {
-    await this.findOne(id, userId); // Verify access
+    await this.findOne(id, userId, "execute"); // Verify access
     return this.executionRepository.updateStatus(id, "pending" as any);
   }
 
+  /**
+   * Start a new execution that runs a node and everything downstream of it.
+   * Upstream nodes are not executed again; their outputs are taken from the
+   * original execution.
+   */
+  async rerunFromNode(
+    id: string,
+    nodeId: string,
+    userId: string,
+    blockchainAuthorization?: Record<string, any>
+  ): Promise<RerunExecutionResponseDto> {
+    const parent = await this.executionRepository.findWithNodesAndLogs(id);
+    if (!parent || !(await this.canAccess(parent, userId, "execute"))) {
+      throw new NotFoundException(`Execution with ID ${id} not found`);
+    }
+    if (parent.status === "pending" || parent.status === "running") {
+      throw new BadRequestException(
+        `Execution ${id} is still ${parent.status} and cannot be re-run`
+      );
+    }
+
+    const workflow = await this.workflowRepository.findById(
+      parent.workflowId,
+      userId
+    );
+    if (!workflow) {
+      throw new NotFoundException(
+        `Workflow with ID ${parent.workflowId} not found`
+      );
+    }
+
+    // The re-run is pinned to the version the original execution ran, so its
+    // nodes and edges decide what runs again
+    const version = parent.workflowVersionId
+      ? await this.workflowVersionRepository.findById(parent.workflowVersionId)
+      : null;
+    const definition = version ?? workflow;
+    const nodes: any[] = Array.isArray(definition.nodes)
+      ? definition.nodes
+      : [];
+    const edges: any[] = Array.isArray(definition.edges)
+      ? definition.edges
+      : [];
+    if (!nodes.some((node) => node.id === nodeId)) {
+      throw new NotFoundException(
+        `Node ${nodeId} not found in workflow ${workflow.id}`
+      );
+    }
+
+    const rerunNodeIds = collectDescendants(nodeId, edges);
+    const storedOutputs = await this.executionRepository.findNodeOutputs(id);
+    const skippedNodeIds = new Set(
+      parent.nodeExecutions
+        .filter((nodeExecution) => nodeExecution.status === "skipped")
+        .map((nodeExecution) => nodeExecution.nodeId)
+    );
+
+    // Every node feeding the re-run must have produced an output (or been
+    // skipped on an untaken branch) in the original execution
+    for (const edge of edges) {
+      if (
+        rerunNodeIds.has(edge.target) &&
+        !rerunNodeIds.has(edge.source) &&
+        !(edge.source in storedOutputs) &&
+        !skippedNodeIds.has(edge.source)
+      ) {
+        throw new BadRequestException(
+          `Node ${edge.source} has no stored output in execution ${id}; re-run from an earlier node instead`
+        );
+      }
+    }
+
+    const resumeData: Record<string, any> = {};
+    for (const [outputNodeId, output] of Object.entries(storedOutputs)) {
+      if (!rerunNodeIds.has(outputNodeId)) {
+        resumeData[outputNodeId] = output;
+      }
+    }
+
+    const execution = await this.executionRepository.createRerunExecution(
+      parent,
+      nodeId
+    );
+
+    try {
+      await this.queueService.addExecutionJob(
+        execution.id,
+        parent.workflowId,
+        userId,
+        blockchainAuthorization,
+        { rerunFromNodeId: nodeId, resumeData, parentExecutionId: id }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.executionRepository.updateStatus(
+        execution.id,
+        "failed",
+        `Failed to enqueue re-run: ${message}`
+      );
+      throw error;
+    }
+
+    return {
+      executionId: execution.id,
+      parentExecutionId: id,
+      rerunFromNodeId: nodeId,
+      rerunNodeIds: Array.from(rerunNodeIds),
+    };
+  }
+
+  /**
+   * The execution and the approval pause it is waiting on. Approvers can see
+   * the approval even without access to the workflow.
+   */
+  private async findPendingApproval(
+    id: string,
+    userId: string
+  ): Promise<{
+    execution: { id: string; workflowId: string; userId: string };
+    pause: WorkflowPause;
+  }> {
+    const execution = await this.executionRepository.findById(id);
+    const pause = execution
+      ? await this.executionRepository.findLatestPause(id)
+      : null;
+    const isApprover = !!pause?.approvers.includes(userId);
+    if (
+      !execution ||
+      (!isApprover && !(await this.canAccess(execution, userId, "view")))
+    ) {
+      throw new NotFoundException(`Execution with ID ${id} not found`);
+    }
+    if (
+      execution.status !== "paused" ||
+      pause?.reason !== APPROVAL_PAUSE_REASON
+    ) {
+      throw new NotFoundException(
+        `Execution ${id} is not waiting for approval`
+      );
+    }
+
+    return { execution, pause };
+  }
+
+  /**
+   * Resume an execution after its APPROVAL node, with the decision as the
+   * output of the node. A rejection skips the nodes the approval gates.
+   */
+  private async completeApproval(
+    execution: { id: string; workflowId: string; userId: string },
+    pause: WorkflowPause,
+    decision: {
+      approved: boolean;
+      decidedBy: string | null;
+      comment?: string;
+      timedOut: boolean;
+    },
+    blockchainAuthorization?: Record<string, any>
+  ): Promise<any> {
+    const output = {
+      ...decision,
+      decision: decision.approved ? "approved" : "rejected",
+      decidedAt: new Date().toISOString(),
+    };
+
+    // A decision and the timeout sweep can race; only one may resume
+    if (!(await this.executionRepository.markPausedAsPending(execution.id))) {
+      throw new ConflictException(
+        `Execution ${execution.id} was already resumed`
+      );
+    }
+    // The resumed run may reach another approval before this request
+    // finishes, so only the decided pause is removed
+    await this.executionRepository.deletePause(pause.id);
+    try {
+      await this.queueService.addExecutionJob(
+        execution.id,
+        execution.workflowId,
+        execution.userId,
+        blockchainAuthorization,
+        {
+          resumed: true,
+          lastCompletedNodeId: pause.nodeId,
+          gatedNodeIds: pause.gatedNodeIds,
+          resumeData: {
+            ...((pause.resumeData as Record<string, any>) ?? {}),
+            [pause.nodeId]: output,
+          },
+        }
+      );
+    } catch (error) {
+      await this.executionRepository.restorePause(pause);
+      await this.executionRepository.updateStatus(execution.id, "paused");
+      throw error;
+    }
+
+    await this.executionRepository.addLog(
+      execution.id,
+      "info",
+      decision.timedOut
+        ? `Approval for node ${pause.nodeId} timed out and was ${output.decision}`
+        : `Node ${pause.nodeId} was ${output.decision} by ${decision.decidedBy}`,
+      { node_id: pause.nodeId, ...output }
+    );
+
+    return this.executionRepository.findById(execution.id);
+  }
+
+  /**
+   * Whether a user may act on an execution: it is their own run, or the
+   * workflow is shared with them through a team role that allows it
+   */
+  private async canAccess(
+    execution: { userId: string; workflowId: string },
+    userId: string,
+    permission: TeamPermission
+  ): Promise<boolean> {
+    if (execution.userId === userId) {
+      return true;
+    }
+
+    const workflow = await this.workflowRepository.findById(
+      execution.workflowId
+    );
+    if (workflow?.userId === userId) {
+      return true;
+    }
+    if (!workflow?.teamId) {
+      return false;
+    }
+    const role = await this.teamRepository.getMemberRole(
+      workflow.teamId,
+      userId
+    );
+    return hasTeamPermission(role, permission);
+  }
+
   async getStats(userId?: string, workflowId?: string) {
     // Get recent executions for stats
     let executions = userId
@@ -525,3 +1024,21 @@ export class ExecutionsService {
     return heatmap;
   }
 }
+
+/**
+ * A node and every node reachable from it
+ */
+function collectDescendants(nodeId: string, edges: any[]): Set<string> {
+  const descendants = new Set<string>([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source === current && !descendants.has(edge.target)) {
+        descendants.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return descendants;
+}
@@ -1,7 +1,12 @@
 import { Injectable, Inject, Logger } from "@nestjs/common";
-import { NodeExecutionDto } from "./dto/execution.dto";
+import { NodeExecutionAttemptDto, NodeExecutionDto } from "./dto/execution.dto";
 import { ExecutionRepository } from "../database/repositories/execution.repository";
-import { NodeExecution, NodeInput, NodeOutput } from "@zzyra/database";
+import {
+  NodeExecution,
+  NodeExecutionAttempt,
+  NodeInput,
+  NodeOutput,
+} from "@zzyra/database";
 
 @Injectable()
 export class NodeExecutionsService {
@@ -60,6 +65,7 @@ export class NodeExecutionsService {
     nodeExec: NodeExecution & {
       nodeInputs?: NodeInput[];
       nodeOutputs?: NodeOutput[];
+      attempts?: NodeExecutionAttempt[];
     }
   ): NodeExecutionDto {
     const inputData = this.extractInputData(nodeExec);
@@ -75,6 +81,22 @@ export class NodeExecutionsService {
       error: nodeExec.error || undefined,
       input_data: inputData,
       output_data: outputData,
+      retry_count: nodeExec.retryCount ?? 0,
+      loop_node_id: nodeExec.loopNodeId || undefined,
+      iteration: nodeExec.iteration ?? undefined,
+      attempts: nodeExec.attempts?.map(
+        (attempt) =>
+          new NodeExecutionAttemptDto({
+            attempt: attempt.attempt,
+            status: attempt.status,
+            error_type: attempt.errorType || undefined,
+            error: attempt.error || undefined,
+            retry_delay_ms: attempt.retryDelayMs ?? undefined,
+            started_at: attempt.startedAt.toISOString(),
+            finished_at: attempt.finishedAt.toISOString(),
+            duration_ms: attempt.durationMs,
+          })
+      ),
     });
   }
 
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  HttpStatus,
+  Param,
+  Post,
+  RawBodyRequest,
+  Req,
+  Res,
+} from "@nestjs/common";
+import { ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { Request, Response } from "express";
+import { Public } from "../auth/decorators/public.decorator";
+import { HooksService } from "./hooks.service";
+
+@ApiTags("hooks")
+@Controller("hooks")
+export class HooksController {
+  constructor(private readonly hooksService: HooksService) {}
+
+  @Post(":workflowId/:token")
+  @Public()
+  @ApiOperation({ summary: "Trigger a workflow through its webhook URL" })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: "Execution enqueued",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Execution finished (sync response mode)",
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: "Invalid webhook signature",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Webhook not found",
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: "Webhook rate limit exceeded",
+  })
+  async trigger(
+    @Param("workflowId") workflowId: string,
+    @Param("token") token: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response
+  ): Promise<void> {
+    const result = await this.hooksService.trigger(workflowId, token, {
+      method: req.method,
+      headers: req.headers,
+      query: req.query as Record<string, unknown>,
+      body: req.body,
+      rawBody: req.rawBody,
+    });
+
+    res.status(result.statusCode);
+    for (const [name, value] of Object.entries(result.headers || {})) {
+      res.setHeader(name, value);
+    }
+    res.json(result.body);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { HooksController } from "./hooks.controller";
+import { HooksService } from "./hooks.service";
+import { DatabaseModule } from "../database/database.module";
+import { QueueModule } from "../queue/queue.module";
+
+/**
+ * Hooks Module
+ * Public webhook URLs that trigger workflows starting with a WEBHOOK block
+ */
+@Module({
+  imports: [DatabaseModule, QueueModule],
+  controllers: [HooksController],
+  providers: [HooksService],
+  exports: [HooksService],
+})
+export class HooksModule {}
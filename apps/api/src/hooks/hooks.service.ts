@@ -0,0 +1,317 @@
+import {
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { randomBytes } from "crypto";
+import { BlockType } from "@zzyra/types";
+import {
+  ExecutionRepository,
+  WebhookRepository,
+  WorkflowWebhook,
+} from "@zzyra/database";
+import { PrismaService } from "../database/prisma.service";
+import { QueueService } from "../queue/queue.service";
+import { findEntryNode } from "../workflows/workflow-entry-node";
+import {
+  safeEqual,
+  SIGNATURE_TIMESTAMP_HEADER,
+  toWebhookDefinition,
+  verifyWebhookSignature,
+} from "./webhook-definition";
+
+// How often sync webhooks check whether their execution has finished
+const SYNC_POLL_INTERVAL_MS = 500;
+const FINISHED_STATUSES = [
+  "completed",
+  "completed_with_errors",
+  "failed",
+  "cancelled",
+];
+// Credentials are never forwarded into the workflow
+const REDACTED_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+export interface WebhookRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: unknown;
+  rawBody?: Buffer;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Receives inbound HTTP requests for workflows whose entry node is a WEBHOOK
+ * block.
+ *
+ * Each such workflow gets a secret URL stored in `workflow_webhooks`. A
+ * request to it is verified, rate limited and turned into an execution whose
+ * input is the request payload.
+ */
+@Injectable()
+export class HooksService {
+  private readonly logger = new Logger(HooksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly webhookRepository: WebhookRepository,
+    private readonly executionRepository: ExecutionRepository,
+    private readonly queueService: QueueService
+  ) {}
+
+  /**
+   * Create, update or remove the webhook for a workflow based on its nodes.
+   * Existing webhooks keep their token and signing secret.
+   */
+  async syncWorkflow(workflow: {
+    id: string;
+    userId: string;
+    nodes?: unknown;
+    edges?: unknown;
+  }): Promise<WorkflowWebhook | null> {
+    const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+    const edges = Array.isArray(workflow.edges) ? workflow.edges : [];
+    const webhookNode = findEntryNode(nodes, edges, BlockType.WEBHOOK);
+
+    if (!webhookNode) {
+      await this.webhookRepository.deleteByWorkflowId(workflow.id);
+      return null;
+    }
+
+    let definition;
+    try {
+      definition = toWebhookDefinition(webhookNode);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Invalid webhook for workflow ${workflow.id}: ${message}`
+      );
+      // Keep serving the last valid settings
+      return this.webhookRepository.findByWorkflowId(workflow.id);
+    }
+
+    return this.webhookRepository.upsertForWorkflow(
+      {
+        workflowId: workflow.id,
+        userId: workflow.userId,
+        ...definition,
+      },
+      {
+        token: randomBytes(24).toString("hex"),
+        signingSecret: `whsec_${randomBytes(32).toString("hex")}`,
+      }
+    );
+  }
+
+  async getWebhook(workflowId: string): Promise<WorkflowWebhook | null> {
+    return this.webhookRepository.findByWorkflowId(workflowId);
+  }
+
+  /**
+   * Start a workflow run from an inbound request
+   * @throws NotFoundException if the workflow has no webhook or the token is wrong
+   * @throws UnauthorizedException if signature verification fails
+   */
+  async trigger(
+    workflowId: string,
+    token: string,
+    request: WebhookRequest
+  ): Promise<WebhookResponse> {
+    const webhook = await this.webhookRepository.findByWorkflowId(workflowId);
+
+    // Unknown workflows and wrong tokens are indistinguishable to the caller
+    if (!webhook || !webhook.isActive || !safeEqual(token, webhook.token)) {
+      throw new NotFoundException("Webhook not found");
+    }
+
+    if (webhook.verifySignature) {
+      const signature = this.getHeader(
+        request.headers,
+        webhook.signatureHeader
+      );
+      if (
+        !request.rawBody ||
+        !verifyWebhookSignature(
+          webhook.signingSecret,
+          request.rawBody,
+          signature,
+          this.getHeader(request.headers, SIGNATURE_TIMESTAMP_HEADER)
+        )
+      ) {
+        throw new UnauthorizedException("Invalid webhook signature");
+      }
+    }
+
+    const now = new Date();
+    const rateLimit = await this.webhookRepository.consumeRateLimit(
+      webhook,
+      now
+    );
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.max(
+        1,
+        Math.ceil((rateLimit.resetAt.getTime() - now.getTime()) / 1000)
+      );
+      return {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        headers: { "Retry-After": String(retryAfter) },
+        body: {
+          message: `Webhook rate limit of ${rateLimit.limit} requests per minute exceeded`,
+        },
+      };
+    }
+
+    const executionId = await this.enqueue(webhook, request, now);
+
+    if (webhook.responseMode !== "sync") {
+      return {
+        statusCode: HttpStatus.ACCEPTED,
+        body: { executionId, status: "pending" },
+      };
+    }
+
+    return this.waitForResult(webhook, executionId);
+  }
+
+  private async enqueue(
+    webhook: WorkflowWebhook,
+    request: WebhookRequest,
+    receivedAt: Date
+  ): Promise<string> {
+    const execution = await this.executionRepository.createExecution(
+      webhook.workflowId,
+      webhook.userId,
+      {
+        trigger: "webhook",
+        nodeId: webhook.nodeId,
+        method: request.method,
+        headers: this.sanitizeHeaders(request.headers),
+        query: request.query || {},
+        body: request.body ?? null,
+        receivedAt: receivedAt.toISOString(),
+      },
+      "webhook"
+    );
+
+    try {
+      await this.queueService.addExecutionJob(
+        execution.id,
+        webhook.workflowId,
+        webhook.userId
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.executionRepository.updateStatus(
+        execution.id,
+        "failed",
+        `Failed to enqueue webhook execution: ${message}`
+      );
+      this.logger.error(
+        `Failed to enqueue webhook execution for workflow ${webhook.workflowId}`,
+        error
+      );
+      throw new InternalServerErrorException(
+        "Failed to enqueue webhook execution"
+      );
+    }
+
+    await this.webhookRepository.markTriggered(webhook.id);
+
+    this.logger.log(
+      `Enqueued webhook execution ${execution.id} for workflow ${webhook.workflowId}`
+    );
+
+    return execution.id;
+  }
+
+  /**
+   * Wait for the execution to finish and respond with its output. Runs that
+   * take longer than the webhook's timeout are answered with 202 and keep
+   * running in the background.
+   */
+  private async waitForResult(
+    webhook: WorkflowWebhook,
+    executionId: string
+  ): Promise<WebhookResponse> {
+    const deadline = Date.now() + webhook.responseTimeoutMs;
+    let status = "pending";
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          Math.min(SYNC_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now()))
+        )
+      );
+
+      const execution = await this.prisma.client.workflowExecution.findUnique({
+        where: { id: executionId },
+        select: { status: true, output: true, error: true },
+      });
+      if (!execution) {
+        break;
+      }
+
+      status = execution.status;
+      if (!FINISHED_STATUSES.includes(status)) {
+        continue;
+      }
+
+      // Failures handled inside the workflow still produce a response
+      if (status !== "completed" && status !== "completed_with_errors") {
+        return {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          body: { executionId, status, error: execution.error || undefined },
+        };
+      }
+
+      const outputs = (execution.output || {}) as Record<string, unknown>;
+      return {
+        statusCode: HttpStatus.OK,
+        body: {
+          executionId,
+          status,
+          output: webhook.responseNodeId
+            ? (outputs[webhook.responseNodeId] ?? null)
+            : outputs,
+        },
+      };
+    }
+
+    return {
+      statusCode: HttpStatus.ACCEPTED,
+      body: { executionId, status },
+    };
+  }
+
+  private sanitizeHeaders(
+    headers: WebhookRequest["headers"]
+  ): Record<string, string> {
+    const sanitized: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (value === undefined || REDACTED_HEADERS.includes(name)) {
+        continue;
+      }
+      sanitized[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+
+    return sanitized;
+  }
+
+  private getHeader(
+    headers: WebhookRequest["headers"],
+    name: string
+  ): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
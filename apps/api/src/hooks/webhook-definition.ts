@@ -0,0 +1,117 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type WebhookResponseMode = "async" | "sync";
+
+export interface WebhookDefinition {
+  nodeId: string;
+  verifySignature: boolean;
+  signatureHeader: string;
+  responseMode: WebhookResponseMode;
+  responseTimeoutMs: number;
+  responseNodeId: string | null;
+  rateLimitPerMinute: number;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = "x-zzyra-signature";
+// Unix time in seconds the signature was made at; it is part of the signed
+// payload
+export const SIGNATURE_TIMESTAMP_HEADER = "x-zzyra-timestamp";
+// Requests signed longer ago than this are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+const DEFAULT_RESPONSE_TIMEOUT_MS = 30 * 1000;
+const MAX_RESPONSE_TIMEOUT_MS = 120 * 1000;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const MAX_RATE_LIMIT_PER_MINUTE = 6000;
+
+/**
+ * Build the inbound webhook settings from a WEBHOOK node config
+ * @throws Error if the config is invalid
+ */
+export function toWebhookDefinition(node: any): WebhookDefinition {
+  const config = node.data?.config || {};
+
+  const responseMode: WebhookResponseMode =
+    config.responseMode === "sync" ? "sync" : "async";
+
+  const responseTimeoutMs = Number(
+    config.responseTimeoutMs ?? DEFAULT_RESPONSE_TIMEOUT_MS
+  );
+  if (
+    !Number.isInteger(responseTimeoutMs) ||
+    responseTimeoutMs < 1 ||
+    responseTimeoutMs > MAX_RESPONSE_TIMEOUT_MS
+  ) {
+    throw new Error(
+      `Invalid webhook response timeout: ${config.responseTimeoutMs}ms (max ${MAX_RESPONSE_TIMEOUT_MS}ms)`
+    );
+  }
+
+  const rateLimitPerMinute = Number(
+    config.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE
+  );
+  if (
+    !Number.isInteger(rateLimitPerMinute) ||
+    rateLimitPerMinute < 1 ||
+    rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE
+  ) {
+    throw new Error(
+      `Invalid webhook rate limit: ${config.rateLimitPerMinute} requests per minute`
+    );
+  }
+
+  return {
+    nodeId: node.id,
+    verifySignature: Boolean(config.verifySignature),
+    signatureHeader: (
+      config.signatureHeader || DEFAULT_SIGNATURE_HEADER
+    ).toLowerCase(),
+    responseMode,
+    responseTimeoutMs,
+    responseNodeId: config.responseNodeId || null,
+    rateLimitPerMinute,
+  };
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verify an HMAC-SHA256 signature of `<timestamp>.<raw body>`, where the
+ * timestamp is sent in the `x-zzyra-timestamp` header. The signature may be
+ * sent as plain hex or prefixed with "sha256=".
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer,
+  signature: string | undefined,
+  timestampHeader: string | undefined,
+  now: Date = new Date(),
+  toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const timestamp = Number(timestampHeader);
+  if (
+    !signature ||
+    !timestampHeader?.trim() ||
+    !Number.isFinite(timestamp) ||
+    Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds
+  ) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${timestampHeader.trim()}.`)
+    .update(rawBody)
+    .digest("hex");
+  const provided = signature
+    .trim()
+    .replace(/^sha256=/i, "")
+    .toLowerCase();
+
+  return safeEqual(provided, expected);
+}
@@ -7,6 +7,8 @@ import { AppModule } from "./app.module";
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     logger: ["error", "warn", "log", "verbose", "debug"],
+    // Keep the unparsed body for webhook signature verification
+    rawBody: true,
   });
 
   // Enable cookie parser for authentication
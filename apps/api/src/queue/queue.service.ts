@@ -97,7 +97,8 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     executionId: string,
     workflowId: string,
     userId: string,
-    blockchainAuthorization?: any
+    blockchainAuthorization?: any,
+    jobPayload?: Record<string, any>
   ): Promise<void> {
     try {
       const ch = await this.initQueue();
@@ -106,6 +107,7 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
         workflowId,
         userId,
         blockchainAuthorization,
+        payload: jobPayload,
       };
 
       console.log("[Queue] Enqueue job:", payload);
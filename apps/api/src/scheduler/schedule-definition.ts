@@ -0,0 +1,156 @@
+import { CronTime } from "cron";
+
+export type CatchUpPolicy = "skip" | "latest" | "all";
+
+export interface ScheduleDefinition {
+  nodeId: string;
+  cronExpression: string | null;
+  intervalSeconds: number | null;
+  timezone: string;
+  catchUpPolicy: CatchUpPolicy;
+}
+
+const CATCH_UP_POLICIES: CatchUpPolicy[] = ["skip", "latest", "all"];
+
+/**
+ * Build a schedule definition from a SCHEDULE node config. An explicit `cron`
+ * wins over `intervalSeconds`, which wins over the `interval` preset. The
+ * "once" preset has neither a cron expression nor an interval.
+ * @throws Error if the config is invalid
+ */
+export function toScheduleDefinition(node: any): ScheduleDefinition {
+  const config = node.data?.config || {};
+  const timezone = config.timezone || "UTC";
+  const catchUpPolicy: CatchUpPolicy = CATCH_UP_POLICIES.includes(
+    config.catchUp
+  )
+    ? config.catchUp
+    : "latest";
+
+  let cronExpression: string | null = null;
+  let intervalSeconds: number | null = null;
+
+  if (config.cron) {
+    cronExpression = String(config.cron).trim();
+  } else if (config.intervalSeconds) {
+    intervalSeconds = Number(config.intervalSeconds);
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds < 1) {
+      throw new Error(
+        `Invalid schedule interval: ${config.intervalSeconds} seconds`
+      );
+    }
+  } else if ((config.interval || "daily") !== "once") {
+    cronExpression = presetToCron(config.interval || "daily", config.time);
+  }
+
+  if (cronExpression) {
+    const { valid, error } = CronTime.validateCronExpression(cronExpression);
+    if (!valid) {
+      throw new Error(
+        `Invalid cron expression "${cronExpression}": ${error?.message}`
+      );
+    }
+  }
+
+  try {
+    new CronTime("0 0 * * *", timezone);
+  } catch {
+    throw new Error(`Invalid schedule time zone "${timezone}"`);
+  }
+
+  return {
+    nodeId: node.id,
+    cronExpression,
+    intervalSeconds,
+    timezone,
+    catchUpPolicy,
+  };
+}
+
+/**
+ * Compute the first run strictly after `after`. Returns null for one-off
+ * schedules, which only ever have the initial run.
+ */
+export function getNextRunAt(
+  definition: Pick<
+    ScheduleDefinition,
+    "cronExpression" | "intervalSeconds" | "timezone"
+  >,
+  after: Date
+): Date | null {
+  if (definition.cronExpression) {
+    return new CronTime(definition.cronExpression, definition.timezone)
+      .getNextDateFrom(after, definition.timezone)
+      .toJSDate();
+  }
+
+  if (definition.intervalSeconds) {
+    return new Date(after.getTime() + definition.intervalSeconds * 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Compute the first run for a new schedule
+ */
+export function getInitialRunAt(node: any, from: Date): Date | null {
+  const config = node.data?.config || {};
+  const definition = toScheduleDefinition(node);
+
+  if (
+    !definition.cronExpression &&
+    !definition.intervalSeconds &&
+    (config.interval || "daily") === "once"
+  ) {
+    // One-off runs fire at the next occurrence of the configured time
+    return getNextRunAt(
+      {
+        cronExpression: presetToCron("daily", config.time),
+        intervalSeconds: null,
+        timezone: definition.timezone,
+      },
+      from
+    );
+  }
+
+  return getNextRunAt(definition, from);
+}
+
+function presetToCron(interval: string, time?: string): string {
+  const [hour, minute] = parseTime(time);
+
+  switch (interval) {
+    case "minutely":
+      return "* * * * *";
+    case "hourly":
+      return `${minute} * * * *`;
+    case "daily":
+      return `${minute} ${hour} * * *`;
+    case "weekly":
+      return `${minute} ${hour} * * 1`;
+    case "monthly":
+      return `${minute} ${hour} 1 * *`;
+    default:
+      throw new Error(`Unsupported schedule interval: ${interval}`);
+  }
+}
+
+function parseTime(time?: string): [number, number] {
+  if (!time) {
+    return [0, 0];
+  }
+
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    throw new Error(`Invalid schedule time "${time}", expected HH:mm`);
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Invalid schedule time "${time}", expected HH:mm`);
+  }
+
+  return [hour, minute];
+}
@@ -0,0 +1,15 @@
+import { Module } from "@nestjs/common";
+import { SchedulerService } from "./scheduler.service";
+import { DatabaseModule } from "../database/database.module";
+import { QueueModule } from "../queue/queue.module";
+
+/**
+ * Scheduler Module
+ * Triggers SCHEDULE workflows; relies on ScheduleModule registered in AppModule
+ */
+@Module({
+  imports: [DatabaseModule, QueueModule],
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
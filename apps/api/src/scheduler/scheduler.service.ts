@@ -0,0 +1,323 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import {
+  ExecutionRepository,
+  ScheduleRepository,
+  WorkflowSchedule,
+} from "@zzyra/database";
+import { BlockType } from "@zzyra/types";
+import { PrismaService } from "../database/prisma.service";
+import { QueueService } from "../queue/queue.service";
+import { findEntryNode } from "../workflows/workflow-entry-node";
+import {
+  getInitialRunAt,
+  getNextRunAt,
+  toScheduleDefinition,
+} from "./schedule-definition";
+
+// Runs older than this are considered missed rather than just late
+const MISFIRE_GRACE_MS = 60 * 1000;
+// Upper bound on runs replayed by the "all" catch-up policy
+const MAX_CATCH_UP_RUNS = 10;
+// Stop walking missed occurrences after this many and jump ahead to now
+const MAX_PLAN_ITERATIONS = 1000;
+const RECONCILE_BATCH_SIZE = 100;
+
+/**
+ * Triggers workflows whose entry node is a SCHEDULE block.
+ *
+ * Schedules are stored per workflow in `workflow_schedules` and kept in sync
+ * when workflows are saved. Every tick claims due schedules, enqueues an
+ * execution through QueueService and advances `nextRunAt`.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SchedulerService.name);
+  private ticking = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly executionRepository: ExecutionRepository,
+    private readonly queueService: QueueService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    // Pick up workflows saved before the scheduler existed without blocking startup
+    this.reconcileAll().catch((error) =>
+      this.logger.error("Failed to reconcile workflow schedules", error)
+    );
+  }
+
+  /**
+   * Create, update or remove the schedule for a workflow based on its nodes.
+   * Unchanged schedules keep their persisted next-run state so missed runs
+   * can still be caught up.
+   */
+  async syncWorkflow(workflow: {
+    id: string;
+    userId: string;
+    nodes?: unknown;
+    edges?: unknown;
+  }): Promise<WorkflowSchedule | null> {
+    const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+    const edges = Array.isArray(workflow.edges) ? workflow.edges : [];
+    const scheduleNode = findEntryNode(nodes, edges, BlockType.SCHEDULE);
+
+    if (!scheduleNode) {
+      await this.scheduleRepository.deleteByWorkflowId(workflow.id);
+      return null;
+    }
+
+    const existing = await this.scheduleRepository.findByWorkflowId(
+      workflow.id
+    );
+
+    let definition;
+    let nextRunAt: Date | null;
+    try {
+      definition = toScheduleDefinition(scheduleNode);
+      nextRunAt = getInitialRunAt(scheduleNode, new Date());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Invalid schedule for workflow ${workflow.id}: ${message}`
+      );
+
+      if (existing) {
+        await this.scheduleRepository.update(existing.id, {
+          isActive: false,
+          lastError: message,
+        });
+      }
+      return existing;
+    }
+
+    if (
+      existing &&
+      existing.nodeId === definition.nodeId &&
+      existing.cronExpression === definition.cronExpression &&
+      existing.intervalSeconds === definition.intervalSeconds &&
+      existing.timezone === definition.timezone &&
+      existing.catchUpPolicy === definition.catchUpPolicy &&
+      existing.lastError === null
+    ) {
+      return existing;
+    }
+
+    const schedule = await this.scheduleRepository.upsertForWorkflow({
+      workflowId: workflow.id,
+      userId: workflow.userId,
+      ...definition,
+      nextRunAt,
+    });
+
+    this.logger.log(
+      `Scheduled workflow ${workflow.id}, next run at ${nextRunAt?.toISOString() ?? "never"}`
+    );
+
+    return schedule;
+  }
+
+  async getSchedule(workflowId: string): Promise<WorkflowSchedule | null> {
+    return this.scheduleRepository.findByWorkflowId(workflowId);
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS, { name: "workflow-scheduler" })
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const now = new Date();
+      const dueSchedules = await this.scheduleRepository.findDue(now);
+
+      for (const schedule of dueSchedules) {
+        try {
+          await this.processSchedule(schedule, now);
+        } catch (error) {
+          this.logger.error(
+            `Failed to process schedule for workflow ${schedule.workflowId}`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error("Scheduler tick failed", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async processSchedule(
+    schedule: WorkflowSchedule,
+    now: Date
+  ): Promise<void> {
+    const dueAt = schedule.nextRunAt!;
+    const { runAt, nextRunAt, missed } = this.planRun(schedule, now);
+
+    const activeExecution =
+      await this.prisma.client.workflowExecution.findFirst({
+        where: {
+          workflowId: schedule.workflowId,
+          status: { in: ["pending", "running"] },
+        },
+        select: { id: true },
+      });
+
+    if (activeExecution) {
+      // Replayed runs wait for the active one; other policies drop the run
+      if (schedule.catchUpPolicy === "all") {
+        return;
+      }
+
+      await this.scheduleRepository.claimRun(schedule.id, dueAt, {
+        nextRunAt,
+        lastError: `Skipped run at ${runAt.toISOString()}: execution ${activeExecution.id} is still active`,
+      });
+      return;
+    }
+
+    if (missed && schedule.catchUpPolicy === "skip") {
+      await this.scheduleRepository.claimRun(schedule.id, dueAt, {
+        nextRunAt,
+        lastError: `Skipped missed run at ${runAt.toISOString()}`,
+      });
+      return;
+    }
+
+    const claimed = await this.scheduleRepository.claimRun(schedule.id, dueAt, {
+      nextRunAt,
+      lastRunAt: now,
+      lastError: null,
+      // One-off schedules have no next run
+      isActive: nextRunAt !== null,
+    });
+
+    if (!claimed) {
+      // Another scheduler instance took this run
+      return;
+    }
+
+    await this.enqueue(schedule, runAt, now);
+  }
+
+  /**
+   * Decide which occurrence to fire now and where `nextRunAt` moves to,
+   * according to the schedule's catch-up policy.
+   */
+  private planRun(
+    schedule: WorkflowSchedule,
+    now: Date
+  ): { runAt: Date; nextRunAt: Date | null; missed: boolean } {
+    const dueAt = schedule.nextRunAt!;
+    const occurrences = [dueAt];
+
+    // Collect due occurrences, keeping only the most recent ones
+    let next = getNextRunAt(schedule, dueAt);
+    let iterations = 0;
+    while (next && next <= now) {
+      occurrences.push(next);
+      if (occurrences.length > MAX_CATCH_UP_RUNS) {
+        occurrences.shift();
+      }
+
+      if (++iterations >= MAX_PLAN_ITERATIONS) {
+        next = getNextRunAt(schedule, now);
+        break;
+      }
+      next = getNextRunAt(schedule, next);
+    }
+
+    if (schedule.catchUpPolicy === "all") {
+      const runAt = occurrences[0];
+      return {
+        runAt,
+        nextRunAt: occurrences[1] ?? next,
+        missed: now.getTime() - runAt.getTime() > MISFIRE_GRACE_MS,
+      };
+    }
+
+    const runAt = occurrences[occurrences.length - 1];
+    return {
+      runAt,
+      nextRunAt: next,
+      missed: now.getTime() - runAt.getTime() > MISFIRE_GRACE_MS,
+    };
+  }
+
+  private async enqueue(
+    schedule: WorkflowSchedule,
+    runAt: Date,
+    firedAt: Date
+  ): Promise<void> {
+    const execution = await this.executionRepository.createExecution(
+      schedule.workflowId,
+      schedule.userId,
+      {
+        trigger: "schedule",
+        scheduledFor: runAt.toISOString(),
+        firedAt: firedAt.toISOString(),
+      },
+      "schedule"
+    );
+
+    try {
+      await this.queueService.addExecutionJob(
+        execution.id,
+        schedule.workflowId,
+        schedule.userId
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.executionRepository.updateStatus(
+        execution.id,
+        "failed",
+        `Failed to enqueue scheduled execution: ${message}`
+      );
+      await this.scheduleRepository.update(schedule.id, {
+        lastExecutionId: execution.id,
+        lastError: message,
+      });
+      throw error;
+    }
+
+    await this.scheduleRepository.update(schedule.id, {
+      lastExecutionId: execution.id,
+    });
+
+    this.logger.log(
+      `Enqueued scheduled execution ${execution.id} for workflow ${schedule.workflowId} (run at ${runAt.toISOString()})`
+    );
+  }
+
+  private async reconcileAll(): Promise<void> {
+    let cursor: string | undefined;
+
+    for (;;) {
+      const workflows = await this.prisma.client.workflow.findMany({
+        select: { id: true, userId: true, nodes: true, edges: true },
+        orderBy: { id: "asc" },
+        take: RECONCILE_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      for (const workflow of workflows) {
+        try {
+          await this.syncWorkflow(workflow);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to sync schedule for workflow ${workflow.id}: ${error}`
+          );
+        }
+      }
+
+      if (workflows.length < RECONCILE_BATCH_SIZE) {
+        break;
+      }
+      cursor = workflows[workflows.length - 1].id;
+    }
+  }
+}
@@ -1,5 +1,4 @@
 import { Module } from "@nestjs/common";
-import { ScheduleModule } from "@nestjs/schedule";
 import { SessionKeysController } from "./session-keys.controller";
 import { SessionKeysService } from "./session-keys.service";
 import { SessionMonitoringService } from "./session-monitoring.service";
@@ -11,10 +10,7 @@ import { DatabaseModule } from "../database/database.module";
  * Following NestJS modular architecture guidelines
  */
 @Module({
-  imports: [
-    DatabaseModule,
-    ScheduleModule.forRoot(), // Enable cron jobs for monitoring
-  ],
+  imports: [DatabaseModule],
   controllers: [SessionKeysController],
   providers: [
     SessionKeysService,
@@ -0,0 +1,90 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEmail, IsIn, IsOptional, IsString } from "class-validator";
+import { TEAM_ROLES, TeamRole } from "@zzyra/database";
+
+export class CreateTeamDto {
+  @ApiProperty({ description: "Name of the team" })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: "Description of the team", required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class UpdateTeamDto {
+  @ApiProperty({ description: "Name of the team", required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: "Description of the team", required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class InviteTeamMemberDto {
+  @ApiProperty({ description: "Email of the user to add" })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: "Role of the new member", enum: TEAM_ROLES })
+  @IsIn(TEAM_ROLES)
+  role: TeamRole;
+}
+
+export class UpdateTeamMemberDto {
+  @ApiProperty({ description: "New role of the member", enum: TEAM_ROLES })
+  @IsIn(TEAM_ROLES)
+  role: TeamRole;
+}
+
+export class TeamMemberDto {
+  @ApiProperty({ description: "User ID of the member" })
+  userId: string;
+
+  @ApiProperty({ description: "Email of the member", required: false })
+  email?: string;
+
+  @ApiProperty({ description: "Role of the member", enum: TEAM_ROLES })
+  role: TeamRole;
+
+  @ApiProperty({ description: "When the member joined", required: false })
+  joinedAt?: string;
+}
+
+export class TeamDto {
+  @ApiProperty({ description: "Unique identifier for the team" })
+  id: string;
+
+  @ApiProperty({ description: "Name of the team" })
+  name: string;
+
+  @ApiProperty({ description: "Description of the team", required: false })
+  description?: string;
+
+  @ApiProperty({ description: "User ID of the team creator" })
+  createdBy: string;
+
+  @ApiProperty({
+    description: "Role of the current user in the team",
+    enum: TEAM_ROLES,
+  })
+  role: TeamRole;
+
+  @ApiProperty({ description: "Number of members" })
+  memberCount: number;
+
+  @ApiProperty({ description: "Creation timestamp", required: false })
+  createdAt?: string;
+
+  @ApiProperty({ description: "Last update timestamp", required: false })
+  updatedAt?: string;
+}
+
+export class TeamWithMembersDto extends TeamDto {
+  @ApiProperty({ description: "Members of the team", type: [TeamMemberDto] })
+  members: TeamMemberDto[];
+}
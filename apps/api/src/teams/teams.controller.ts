@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Put,
+  Delete,
+  HttpStatus,
+  Request,
+} from "@nestjs/common";
+import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import {
+  CreateTeamDto,
+  InviteTeamMemberDto,
+  TeamDto,
+  TeamMemberDto,
+  TeamWithMembersDto,
+  UpdateTeamDto,
+  UpdateTeamMemberDto,
+} from "./dto/team.dto";
+import { TeamsService } from "./teams.service";
+import { RequireTeamPermission } from "../auth/decorators/team-permission.decorator";
+
+@ApiTags("teams")
+@Controller("teams")
+export class TeamsController {
+  constructor(private readonly teamsService: TeamsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the teams of the current user" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the teams with the role of the user",
+    type: [TeamDto],
+  })
+  async findAll(@Request() req: { user: { id: string } }): Promise<TeamDto[]> {
+    return this.teamsService.findAll(req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Create a team with the current user as owner" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Team created successfully",
+    type: TeamWithMembersDto,
+  })
+  async create(
+    @Request() req: { user: { id: string } },
+    @Body() createTeamDto: CreateTeamDto
+  ): Promise<TeamWithMembersDto> {
+    return this.teamsService.create(createTeamDto, req.user.id);
+  }
+
+  @Get(":id")
+  @RequireTeamPermission("view")
+  @ApiOperation({ summary: "Get a team with its members" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Return a team",
+    type: TeamWithMembersDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Team not found",
+  })
+  async findOne(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<TeamWithMembersDto> {
+    return this.teamsService.findOne(id, req.user.id);
+  }
+
+  @Put(":id")
+  @RequireTeamPermission("manage")
+  @ApiOperation({ summary: "Update a team" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Team updated successfully",
+    type: TeamWithMembersDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Only owners can update the team",
+  })
+  async update(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Body() updateTeamDto: UpdateTeamDto
+  ): Promise<TeamWithMembersDto> {
+    return this.teamsService.update(id, updateTeamDto, req.user.id);
+  }
+
+  @Delete(":id")
+  @RequireTeamPermission("manage")
+  @ApiOperation({ summary: "Delete a team" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Team deleted successfully",
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: "Only owners can delete the team",
+  })
+  async remove(@Param("id") id: string): Promise<void> {
+    return this.teamsService.remove(id);
+  }
+
+  @Get(":id/workflows")
+  @RequireTeamPermission("view")
+  @ApiOperation({ summary: "Get the workflows owned by a team" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the team workflows",
+  })
+  async findWorkflows(@Param("id") id: string) {
+    return this.teamsService.findWorkflows(id);
+  }
+
+  @Post(":id/members")
+  @RequireTeamPermission("manage")
+  @ApiOperation({ summary: "Add a registered user to a team" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Member added successfully",
+    type: TeamMemberDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "No user with this email",
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "The user is already a member",
+  })
+  async inviteMember(
+    @Param("id") id: string,
+    @Body() inviteDto: InviteTeamMemberDto
+  ): Promise<TeamMemberDto> {
+    return this.teamsService.inviteMember(id, inviteDto);
+  }
+
+  @Put(":id/members/:userId")
+  @RequireTeamPermission("manage")
+  @ApiOperation({ summary: "Change the role of a team member" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Role updated successfully",
+    type: TeamMemberDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "The team would be left without an owner",
+  })
+  async updateMember(
+    @Param("id") id: string,
+    @Param("userId") memberId: string,
+    @Body() updateDto: UpdateTeamMemberDto
+  ): Promise<TeamMemberDto> {
+    return this.teamsService.updateMemberRole(id, memberId, updateDto.role);
+  }
+
+  @Delete(":id/members/:userId")
+  @RequireTeamPermission("view")
+  @ApiOperation({
+    summary: "Remove a member, or leave the team when removing yourself",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Member removed successfully",
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "The team would be left without an owner",
+  })
+  async removeMember(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Param("userId") memberId: string
+  ): Promise<void> {
+    return this.teamsService.removeMember(id, memberId, req.user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { TeamsController } from "./teams.controller";
+import { TeamsService } from "./teams.service";
+import { DatabaseModule } from "../database/database.module";
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [TeamsController],
+  providers: [TeamsService],
+  exports: [TeamsService],
+})
+export class TeamsModule {}
@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  TeamRepository,
+  TeamRole,
+  TeamWithMembers,
+  UserRepository,
+  WorkflowRepository,
+} from "@zzyra/database";
+import {
+  CreateTeamDto,
+  InviteTeamMemberDto,
+  TeamDto,
+  TeamMemberDto,
+  TeamWithMembersDto,
+  UpdateTeamDto,
+} from "./dto/team.dto";
+
+/**
+ * Team workspaces. Permission checks on the team itself are done by the
+ * JwtAuthGuard through `@RequireTeamPermission`, so the methods here assume
+ * the caller is allowed to act on the team.
+ */
+@Injectable()
+export class TeamsService {
+  constructor(
+    private readonly teamRepository: TeamRepository,
+    private readonly userRepository: UserRepository,
+    private readonly workflowRepository: WorkflowRepository
+  ) {}
+
+  async findAll(userId: string): Promise<TeamDto[]> {
+    const teams = await this.teamRepository.findByUserId(userId);
+
+    return teams.map((team) => ({
+      id: team.id,
+      name: team.name,
+      description: team.description || undefined,
+      createdBy: team.createdBy,
+      role: team.role,
+      memberCount: team.memberCount,
+      createdAt: team.createdAt?.toISOString(),
+      updatedAt: team.updatedAt?.toISOString(),
+    }));
+  }
+
+  async findOne(id: string, userId: string): Promise<TeamWithMembersDto> {
+    const team = await this.teamRepository.findWithMembers(id);
+    if (!team) {
+      throw new NotFoundException(`Team with ID ${id} not found`);
+    }
+    return this.toTeamWithMembers(team, userId);
+  }
+
+  async create(
+    createTeamDto: CreateTeamDto,
+    userId: string
+  ): Promise<TeamWithMembersDto> {
+    const team = await this.teamRepository.createWithOwner(userId, {
+      name: createTeamDto.name,
+      description: createTeamDto.description,
+    });
+    return this.findOne(team.id, userId);
+  }
+
+  async update(
+    id: string,
+    updateTeamDto: UpdateTeamDto,
+    userId: string
+  ): Promise<TeamWithMembersDto> {
+    await this.teamRepository.update(id, {
+      name: updateTeamDto.name,
+      description: updateTeamDto.description,
+      updatedAt: new Date(),
+    });
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Delete a team. Its workflows and custom blocks stay with the users who
+   * created them.
+   */
+  async remove(id: string): Promise<void> {
+    await this.teamRepository.delete(id);
+  }
+
+  async inviteMember(
+    id: string,
+    inviteDto: InviteTeamMemberDto
+  ): Promise<TeamMemberDto> {
+    const user = await this.userRepository.findByEmail(inviteDto.email);
+    if (!user) {
+      throw new NotFoundException(
+        `No user with email ${inviteDto.email} has signed up yet`
+      );
+    }
+
+    const existingRole = await this.teamRepository.getMemberRole(id, user.id);
+    if (existingRole) {
+      throw new ConflictException(
+        `${inviteDto.email} is already a member of this team`
+      );
+    }
+
+    const member = await this.teamRepository.addMember(
+      id,
+      user.id,
+      inviteDto.role
+    );
+    return this.toMember(member);
+  }
+
+  async updateMemberRole(
+    id: string,
+    memberId: string,
+    role: TeamRole
+  ): Promise<TeamMemberDto> {
+    const currentRole = await this.findMemberRole(id, memberId);
+    if (currentRole === "owner" && role !== "owner") {
+      await this.assertNotLastOwner(id);
+    }
+
+    const member = await this.teamRepository.updateMemberRole(
+      id,
+      memberId,
+      role
+    );
+    return this.toMember(member);
+  }
+
+  /**
+   * Remove a member. Owners can remove anyone, other members can only
+   * leave the team themselves.
+   */
+  async removeMember(
+    id: string,
+    memberId: string,
+    userId: string
+  ): Promise<void> {
+    const currentRole = await this.findMemberRole(id, memberId);
+
+    if (memberId !== userId) {
+      const callerRole = await this.teamRepository.getMemberRole(id, userId);
+      if (callerRole !== "owner") {
+        throw new ForbiddenException(
+          "Only team owners can remove other members"
+        );
+      }
+    }
+    if (currentRole === "owner") {
+      await this.assertNotLastOwner(id);
+    }
+
+    await this.teamRepository.removeMember(id, memberId);
+  }
+
+  async findWorkflows(id: string) {
+    const workflows = await this.workflowRepository.findByTeamId(id);
+
+    return workflows.map((workflow) => ({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description || undefined,
+      userId: workflow.userId,
+      teamId: workflow.teamId || undefined,
+      version: workflow.version || 1,
+      updatedAt: workflow.updatedAt?.toISOString(),
+    }));
+  }
+
+  private async findMemberRole(
+    id: string,
+    memberId: string
+  ): Promise<TeamRole> {
+    const role = await this.teamRepository.getMemberRole(id, memberId);
+    if (!role) {
+      throw new NotFoundException(`Member ${memberId} not found`);
+    }
+    return role;
+  }
+
+  private async assertNotLastOwner(id: string): Promise<void> {
+    if ((await this.teamRepository.countOwners(id)) <= 1) {
+      throw new BadRequestException("A team needs at least one owner");
+    }
+  }
+
+  private toTeamWithMembers(
+    team: TeamWithMembers,
+    userId: string
+  ): TeamWithMembersDto {
+    const members = team.members.map((member) => this.toMember(member));
+
+    return {
+      id: team.id,
+      name: team.name,
+      description: team.description || undefined,
+      createdBy: team.createdBy,
+      role:
+        members.find((member) => member.userId === userId)?.role || "viewer",
+      memberCount: members.length,
+      createdAt: team.createdAt?.toISOString(),
+      updatedAt: team.updatedAt?.toISOString(),
+      members,
+    };
+  }
+
+  private toMember(member: TeamWithMembers["members"][number]): TeamMemberDto {
+    return {
+      userId: member.userId,
+      email: member.user.email || undefined,
+      role: member.role as TeamRole,
+      joinedAt: member.joinedAt?.toISOString(),
+    };
+  }
+}
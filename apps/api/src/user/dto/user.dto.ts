@@ -72,15 +72,56 @@ export class ProfileResponseDto {
   updated_at: string;
 }
 
+export class QuotaBalanceDto {
+  @ApiProperty({
+    description: "Limited resource",
+    enum: ["executions", "ai_tokens", "transactions", "concurrent_runs"],
+  })
+  resource: string;
+
+  @ApiProperty({
+    description: "Limit per period, null when unlimited",
+    nullable: true,
+    type: Number,
+  })
+  limit: number | null;
+
+  @ApiProperty({ description: "Usage in the current period" })
+  used: number;
+
+  @ApiProperty({
+    description: "What is left of the limit, null when unlimited",
+    nullable: true,
+    type: Number,
+  })
+  remaining: number | null;
+
+  @ApiProperty({ description: "Start of the current period" })
+  period_start: string;
+
+  @ApiProperty({ description: "End of the current period" })
+  period_end: string;
+}
+
 export class UsageResponseDto {
-  @ApiProperty({ description: "Monthly execution quota" })
-  monthly_execution_quota: number;
+  @ApiProperty({
+    description: "Monthly execution quota, null when unlimited",
+    nullable: true,
+    type: Number,
+  })
+  monthly_execution_quota: number | null;
 
   @ApiProperty({ description: "Monthly executions used" })
   monthly_executions_used: number;
 
   @ApiProperty({ description: "Subscription tier" })
   subscription_tier: string;
+
+  @ApiProperty({
+    description: "Balance of every quota of the plan",
+    type: [QuotaBalanceDto],
+  })
+  quotas: QuotaBalanceDto[];
 }
 
 export class CreateWalletDto {
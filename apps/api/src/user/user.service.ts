@@ -1,5 +1,5 @@
 import { Injectable, NotFoundException } from "@nestjs/common";
-import { UserRepository } from "@zzyra/database";
+import { UsageRepository, UserRepository } from "@zzyra/database";
 import {
   UpdateProfileDto,
   ProfileResponseDto,
@@ -8,7 +8,10 @@ import {
 
 @Injectable()
 export class UserService {
-  constructor(private readonly userRepository: UserRepository) {}
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly usageRepository: UsageRepository
+  ) {}
 
   async getProfile(userId: string): Promise<ProfileResponseDto> {
     const user = await this.userRepository.findWithProfileAndWallets(userId);
@@ -73,10 +76,26 @@ export class UserService {
       throw new NotFoundException("User not found");
     }
 
+    const [plan, balances] = await Promise.all([
+      this.usageRepository.getPlan(userId),
+      this.usageRepository.getBalances(userId),
+    ]);
+    const executions = balances.find(
+      (balance) => balance.resource === "executions"
+    );
+
     return {
-      monthly_execution_quota: user.profile?.monthlyExecutionQuota || 100,
-      monthly_executions_used: user.profile?.monthlyExecutionsUsed || 0,
-      subscription_tier: user.profile?.subscriptionTier || "free",
+      monthly_execution_quota: executions?.limit ?? null,
+      monthly_executions_used: executions?.used ?? 0,
+      subscription_tier: plan.tier,
+      quotas: balances.map((balance) => ({
+        resource: balance.resource,
+        limit: balance.limit,
+        used: balance.used,
+        remaining: balance.remaining,
+        period_start: balance.periodStart.toISOString(),
+        period_end: balance.periodEnd.toISOString(),
+      })),
     };
   }
 }
@@ -0,0 +1,139 @@
+import { WALLET_LISTENER_EVENT_TYPES } from "@zzyra/types";
+
+export interface WalletListenerDefinition {
+  nodeId: string;
+  network: string;
+  chainId: number;
+  rpcUrl: string | null;
+  walletAddresses: string[];
+  eventTypes: string[];
+  minAmount: number;
+  tokenDenom: string | null;
+  eventSignature: string | null;
+  pollIntervalSeconds: number;
+  startBlock: bigint | null;
+}
+
+// EVM networks the worker's listener service can poll
+const NETWORK_CHAIN_IDS: Record<string, number> = {
+  sei: 1329,
+  "sei-testnet": 1328,
+  ethereum: 1,
+  polygon: 137,
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+const MIN_POLL_INTERVAL_SECONDS = 5;
+const MAX_POLL_INTERVAL_SECONDS = 600;
+
+/**
+ * Build a listener definition from a WALLET_LISTEN node config. Addresses are
+ * normalized to lower case and the "transfer" event type is expanded into
+ * native and token transfers.
+ * @throws Error if the config is invalid
+ */
+export function toWalletListenerDefinition(
+  node: any
+): WalletListenerDefinition {
+  const config = node.data?.config || {};
+  const network = config.network || "sei";
+
+  const chainId = NETWORK_CHAIN_IDS[network];
+  if (!chainId) {
+    throw new Error(
+      `Network "${network}" is not supported by the wallet listener`
+    );
+  }
+
+  const walletAddresses = normalizeAddresses(config.walletAddresses);
+  if (walletAddresses.length === 0) {
+    throw new Error("At least one wallet address is required");
+  }
+
+  const eventTypes = normalizeEventTypes(config.eventTypes);
+
+  const minAmount = Number(config.minAmount ?? 0);
+  if (!Number.isFinite(minAmount) || minAmount < 0) {
+    throw new Error(`Invalid minimum amount: ${config.minAmount}`);
+  }
+
+  const pollIntervalSeconds = Number(
+    config.pollInterval ?? DEFAULT_POLL_INTERVAL_SECONDS
+  );
+  if (
+    !Number.isInteger(pollIntervalSeconds) ||
+    pollIntervalSeconds < MIN_POLL_INTERVAL_SECONDS ||
+    pollIntervalSeconds > MAX_POLL_INTERVAL_SECONDS
+  ) {
+    throw new Error(
+      `Invalid poll interval: ${config.pollInterval} seconds (expected ${MIN_POLL_INTERVAL_SECONDS}-${MAX_POLL_INTERVAL_SECONDS})`
+    );
+  }
+
+  let startBlock: bigint | null = null;
+  if (config.startBlock !== undefined && config.startBlock !== null) {
+    const block = Number(config.startBlock);
+    if (!Number.isInteger(block) || block < 0) {
+      throw new Error(`Invalid start block: ${config.startBlock}`);
+    }
+    startBlock = BigInt(block);
+  }
+
+  const tokenDenom = config.tokenDenom ? String(config.tokenDenom).trim() : "";
+
+  return {
+    nodeId: node.id,
+    network,
+    chainId,
+    rpcUrl: config.rpcUrl || null,
+    walletAddresses,
+    eventTypes,
+    minAmount,
+    tokenDenom: ADDRESS_PATTERN.test(tokenDenom)
+      ? tokenDenom.toLowerCase()
+      : tokenDenom || null,
+    eventSignature: config.eventSignature?.trim() || null,
+    pollIntervalSeconds,
+    startBlock,
+  };
+}
+
+function normalizeAddresses(addresses: unknown): string[] {
+  if (!Array.isArray(addresses)) {
+    return [];
+  }
+
+  const normalized = addresses.map((address) => {
+    const value = String(address).trim();
+    if (!ADDRESS_PATTERN.test(value)) {
+      throw new Error(`Invalid EVM wallet address "${value}"`);
+    }
+    return value.toLowerCase();
+  });
+
+  return [...new Set(normalized)];
+}
+
+function normalizeEventTypes(eventTypes: unknown): string[] {
+  const types = Array.isArray(eventTypes) ? eventTypes : [];
+  if (types.length === 0) {
+    throw new Error("At least one event type is required");
+  }
+
+  const normalized = new Set<string>();
+  for (const type of types) {
+    if (!(WALLET_LISTENER_EVENT_TYPES as readonly string[]).includes(type)) {
+      throw new Error(`Unsupported wallet listener event type "${type}"`);
+    }
+
+    if (type === "transfer") {
+      normalized.add("nativeTransfer");
+      normalized.add("tokenTransfer");
+    } else {
+      normalized.add(type);
+    }
+  }
+
+  return [...normalized];
+}
@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { WalletListenersService } from "./wallet-listeners.service";
+import { DatabaseModule } from "../database/database.module";
+
+/**
+ * Wallet Listeners Module
+ * Persists WALLET_LISTEN trigger settings polled by the worker
+ */
+@Module({
+  imports: [DatabaseModule],
+  providers: [WalletListenersService],
+  exports: [WalletListenersService],
+})
+export class WalletListenersModule {}
@@ -0,0 +1,113 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { WalletListener, WalletListenerRepository } from "@zzyra/database";
+import { BlockType } from "@zzyra/types";
+import { findEntryNode } from "../workflows/workflow-entry-node";
+import {
+  toWalletListenerDefinition,
+  WalletListenerDefinition,
+} from "./wallet-listener-definition";
+
+/**
+ * Keeps `wallet_listeners` in sync with workflows whose entry node is a
+ * WALLET_LISTEN block. The worker's WalletListenerService polls the chain for
+ * every active listener and starts an execution per matching event.
+ */
+@Injectable()
+export class WalletListenersService {
+  private readonly logger = new Logger(WalletListenersService.name);
+
+  constructor(
+    private readonly walletListenerRepository: WalletListenerRepository
+  ) {}
+
+  /**
+   * Create, update or remove the listener for a workflow based on its nodes.
+   * The last processed block is kept unless the chain or start block changes.
+   */
+  async syncWorkflow(workflow: {
+    id: string;
+    userId: string;
+    nodes?: unknown;
+    edges?: unknown;
+  }): Promise<WalletListener | null> {
+    const nodes = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+    const edges = Array.isArray(workflow.edges) ? workflow.edges : [];
+    const listenerNode = findEntryNode(nodes, edges, BlockType.WALLET_LISTEN);
+
+    if (!listenerNode) {
+      await this.walletListenerRepository.deleteByWorkflowId(workflow.id);
+      return null;
+    }
+
+    const existing = await this.walletListenerRepository.findByWorkflowId(
+      workflow.id
+    );
+
+    let definition: WalletListenerDefinition;
+    try {
+      definition = toWalletListenerDefinition(listenerNode);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Invalid wallet listener for workflow ${workflow.id}: ${message}`
+      );
+
+      if (existing) {
+        await this.walletListenerRepository.update(existing.id, {
+          isActive: false,
+          lastError: message,
+        });
+      }
+      return existing;
+    }
+
+    if (
+      existing &&
+      existing.lastError === null &&
+      isUnchanged(existing, definition)
+    ) {
+      return existing;
+    }
+
+    const listener = await this.walletListenerRepository.upsertForWorkflow(
+      {
+        workflowId: workflow.id,
+        userId: workflow.userId,
+        ...definition,
+      },
+      !!existing &&
+        (existing.chainId !== definition.chainId ||
+          existing.startBlock !== definition.startBlock)
+    );
+
+    this.logger.log(
+      `Listening for ${definition.eventTypes.join(", ")} on ${definition.network} for workflow ${workflow.id}`
+    );
+
+    return listener;
+  }
+
+  async getListener(workflowId: string): Promise<WalletListener | null> {
+    return this.walletListenerRepository.findByWorkflowId(workflowId);
+  }
+}
+
+function isUnchanged(
+  listener: WalletListener,
+  definition: WalletListenerDefinition
+): boolean {
+  return (
+    listener.nodeId === definition.nodeId &&
+    listener.network === definition.network &&
+    listener.chainId === definition.chainId &&
+    listener.rpcUrl === definition.rpcUrl &&
+    listener.walletAddresses.join(",") ===
+      definition.walletAddresses.join(",") &&
+    listener.eventTypes.join(",") === definition.eventTypes.join(",") &&
+    listener.minAmount === definition.minAmount &&
+    listener.tokenDenom === definition.tokenDenom &&
+    listener.eventSignature === definition.eventSignature &&
+    listener.pollIntervalSeconds === definition.pollIntervalSeconds &&
+    listener.startBlock === definition.startBlock
+  );
+}
@@ -6,6 +6,7 @@ import {
   ValidateNested,
   IsBoolean,
   IsNumber,
+  IsObject,
 } from "class-validator";
 import { Type } from "class-transformer";
 
@@ -39,6 +40,11 @@ export class CreateWorkflowDto {
   @IsOptional()
   @IsArray()
   tags?: string[];
+
+  @ApiProperty({ description: "Team that owns the workflow", required: false })
+  @IsOptional()
+  @IsString()
+  teamId?: string;
 }
 
 export class UpdateWorkflowDto {
@@ -74,6 +80,24 @@ export class UpdateWorkflowDto {
   @IsOptional()
   @IsArray()
   tags?: string[];
+
+  @ApiProperty({
+    description:
+      "Team that owns the workflow, or null to make it personal again",
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  teamId?: string | null;
+
+  @ApiProperty({
+    description: "Message stored with the version created by this save",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  versionMessage?: string;
 }
 
 export class WorkflowStatisticsDto {
@@ -122,6 +146,9 @@ export class WorkflowDto {
   @ApiProperty({ description: "User ID who created the workflow" })
   userId: string;
 
+  @ApiProperty({ description: "Team that owns the workflow", required: false })
+  teamId?: string;
+
   @ApiProperty({ description: "Whether the workflow is public" })
   isPublic: boolean;
 
@@ -170,3 +197,342 @@ export class ToggleFavoriteDto {
   @IsBoolean()
   isFavorite: boolean;
 }
+
+export class WorkflowScheduleDto {
+  @ApiProperty({ description: "ID of the SCHEDULE entry node" })
+  nodeId: string;
+
+  @ApiProperty({ description: "Cron expression", required: false })
+  cronExpression?: string;
+
+  @ApiProperty({ description: "Fixed interval in seconds", required: false })
+  intervalSeconds?: number;
+
+  @ApiProperty({ description: "IANA time zone the schedule runs in" })
+  timezone: string;
+
+  @ApiProperty({
+    description: "Policy for runs missed while the scheduler was down",
+    enum: ["skip", "latest", "all"],
+  })
+  catchUpPolicy: string;
+
+  @ApiProperty({ description: "Whether the schedule is active" })
+  isActive: boolean;
+
+  @ApiProperty({ description: "Next run timestamp", required: false })
+  nextRunAt?: string;
+
+  @ApiProperty({ description: "Last run timestamp", required: false })
+  lastRunAt?: string;
+
+  @ApiProperty({ description: "Last scheduled execution ID", required: false })
+  lastExecutionId?: string;
+
+  @ApiProperty({ description: "Last scheduling error", required: false })
+  lastError?: string;
+}
+
+export class WorkflowWebhookDto {
+  @ApiProperty({ description: "ID of the WEBHOOK entry node" })
+  nodeId: string;
+
+  @ApiProperty({ description: "Path to POST to in order to trigger a run" })
+  path: string;
+
+  @ApiProperty({ description: "Secret token embedded in the path" })
+  token: string;
+
+  @ApiProperty({
+    description:
+      "Secret used to sign `<x-zzyra-timestamp>.<request body>`; signatures older than 5 minutes are rejected",
+  })
+  signingSecret: string;
+
+  @ApiProperty({ description: "Whether requests must be signed" })
+  verifySignature: boolean;
+
+  @ApiProperty({ description: "Header carrying the HMAC-SHA256 signature" })
+  signatureHeader: string;
+
+  @ApiProperty({
+    description: "Respond immediately or with the workflow output",
+    enum: ["async", "sync"],
+  })
+  responseMode: string;
+
+  @ApiProperty({ description: "How long sync requests wait for the output" })
+  responseTimeoutMs: number;
+
+  @ApiProperty({
+    description: "Node whose output is returned in sync mode",
+    required: false,
+  })
+  responseNodeId?: string;
+
+  @ApiProperty({ description: "Maximum requests per minute" })
+  rateLimitPerMinute: number;
+
+  @ApiProperty({ description: "Whether the webhook is active" })
+  isActive: boolean;
+
+  @ApiProperty({ description: "Last trigger timestamp", required: false })
+  lastTriggeredAt?: string;
+}
+
+export class WalletListenerDto {
+  @ApiProperty({ description: "ID of the WALLET_LISTEN entry node" })
+  nodeId: string;
+
+  @ApiProperty({ description: "Network being listened to" })
+  network: string;
+
+  @ApiProperty({ description: "EVM chain ID" })
+  chainId: number;
+
+  @ApiProperty({ description: "Watched wallet addresses", type: [String] })
+  walletAddresses: string[];
+
+  @ApiProperty({
+    description: "Watched event types",
+    type: [String],
+    enum: ["nativeTransfer", "tokenTransfer", "contractEvent"],
+  })
+  eventTypes: string[];
+
+  @ApiProperty({ description: "Minimum transfer amount" })
+  minAmount: number;
+
+  @ApiProperty({
+    description: "Native symbol or ERC-20 address transfers are limited to",
+    required: false,
+  })
+  tokenDenom?: string;
+
+  @ApiProperty({ description: "Seconds between polls" })
+  pollIntervalSeconds: number;
+
+  @ApiProperty({ description: "Whether the listener is active" })
+  isActive: boolean;
+
+  @ApiProperty({ description: "Last processed block number", required: false })
+  lastProcessedBlock?: string;
+
+  @ApiProperty({ description: "Last poll timestamp", required: false })
+  lastPolledAt?: string;
+
+  @ApiProperty({
+    description: "Last matching event timestamp",
+    required: false,
+  })
+  lastEventAt?: string;
+
+  @ApiProperty({ description: "Last listener error", required: false })
+  lastError?: string;
+}
+
+export class WorkflowVersionAuthorDto {
+  @ApiProperty({ description: "User ID of the author" })
+  id: string;
+
+  @ApiProperty({ description: "Email of the author", required: false })
+  email?: string;
+}
+
+export class WorkflowVersionSummaryDto {
+  @ApiProperty({ description: "Version number" })
+  version: number;
+
+  @ApiProperty({ description: "Workflow name at this version" })
+  name: string;
+
+  @ApiProperty({
+    description: "Workflow description at this version",
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({ description: "Checksum of the nodes and edges" })
+  checksum: string;
+
+  @ApiProperty({
+    description: "Message stored with the version",
+    required: false,
+  })
+  message?: string;
+
+  @ApiProperty({
+    description: "User who saved the version",
+    required: false,
+    type: WorkflowVersionAuthorDto,
+  })
+  author?: WorkflowVersionAuthorDto;
+
+  @ApiProperty({ description: "Number of nodes" })
+  nodeCount: number;
+
+  @ApiProperty({ description: "Number of edges" })
+  edgeCount: number;
+
+  @ApiProperty({ description: "Creation timestamp" })
+  createdAt: string;
+}
+
+export class WorkflowVersionDto extends WorkflowVersionSummaryDto {
+  @ApiProperty({ description: "Workflow nodes at this version" })
+  nodes: Record<string, unknown>[];
+
+  @ApiProperty({ description: "Workflow edges at this version" })
+  edges: Record<string, unknown>[];
+}
+
+export class WorkflowVersionChangeDto {
+  @ApiProperty({ description: "Node or edge in the older version" })
+  before: Record<string, unknown>;
+
+  @ApiProperty({ description: "Node or edge in the newer version" })
+  after: Record<string, unknown>;
+
+  @ApiProperty({ description: "Changed fields" })
+  changes: string[];
+}
+
+export class WorkflowVersionDiffSummaryDto {
+  @ApiProperty({ description: "Number of added, removed and modified items" })
+  totalChanges: number;
+
+  @ApiProperty({
+    description: "Whether nodes were removed or changed block type",
+  })
+  significantChanges: boolean;
+
+  @ApiProperty({ description: "Kinds of changes, e.g. nodes_added" })
+  changeTypes: string[];
+}
+
+export class WorkflowVersionDiffDto {
+  @ApiProperty({ description: "Version compared from" })
+  fromVersion: number;
+
+  @ApiProperty({ description: "Version compared to" })
+  toVersion: number;
+
+  @ApiProperty({ description: "Nodes only in the newer version" })
+  nodesAdded: Record<string, unknown>[];
+
+  @ApiProperty({ description: "Nodes only in the older version" })
+  nodesRemoved: Record<string, unknown>[];
+
+  @ApiProperty({
+    description: "Nodes present in both versions with changes",
+    type: [WorkflowVersionChangeDto],
+  })
+  nodesModified: WorkflowVersionChangeDto[];
+
+  @ApiProperty({ description: "Edges only in the newer version" })
+  edgesAdded: Record<string, unknown>[];
+
+  @ApiProperty({ description: "Edges only in the older version" })
+  edgesRemoved: Record<string, unknown>[];
+
+  @ApiProperty({
+    description: "Edges present in both versions with changes",
+    type: [WorkflowVersionChangeDto],
+  })
+  edgesModified: WorkflowVersionChangeDto[];
+
+  @ApiProperty({ type: WorkflowVersionDiffSummaryDto })
+  summary: WorkflowVersionDiffSummaryDto;
+}
+
+export class RestoreWorkflowVersionDto {
+  @ApiProperty({
+    description: "Message stored with the restored version",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  message?: string;
+}
+
+export class ImportWorkflowDto {
+  @ApiProperty({
+    description:
+      "Exported workflow file; older format versions are migrated on import",
+  })
+  @IsObject()
+  file: Record<string, unknown>;
+
+  @ApiProperty({
+    description: "Values of the required inputs of the file, by key",
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  inputs?: Record<string, string>;
+
+  @ApiProperty({
+    description: "Name of the new workflow, instead of the exported name",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: "Team that owns the workflow", required: false })
+  @IsOptional()
+  @IsString()
+  teamId?: string;
+}
+
+export class WorkflowRequiredInputDto {
+  @ApiProperty()
+  key: string;
+
+  @ApiProperty({ enum: ["secret", "wallet_address"] })
+  kind: string;
+
+  @ApiProperty()
+  nodeId: string;
+
+  @ApiProperty({ description: "Path of the value inside the node data" })
+  path: (string | number)[];
+
+  @ApiProperty()
+  label: string;
+}
+
+export class ImportedCustomBlockDto {
+  @ApiProperty({ description: "ID of the block in the file" })
+  sourceId: string;
+
+  @ApiProperty({ description: "ID of the block the workflow now uses" })
+  id: string;
+
+  @ApiProperty({ description: "False when an existing block was reused" })
+  created: boolean;
+}
+
+export class WorkflowImportResultDto {
+  @ApiProperty({ type: WorkflowDto })
+  workflow: WorkflowDto;
+
+  @ApiProperty({ description: "Format version of the imported file" })
+  migratedFrom: number;
+
+  @ApiProperty({ type: [ImportedCustomBlockDto] })
+  customBlocks: ImportedCustomBlockDto[];
+
+  @ApiProperty({
+    description: "Required inputs that were not provided and are left empty",
+    type: [WorkflowRequiredInputDto],
+  })
+  missingInputs: WorkflowRequiredInputDto[];
+
+  @ApiProperty({
+    description:
+      "Credentials the workflow references that the user has not created",
+    type: [String],
+  })
+  missingCredentials: string[];
+}
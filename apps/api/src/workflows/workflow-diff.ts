@@ -0,0 +1,152 @@
+export interface WorkflowDefinition {
+  nodes: unknown[];
+  edges: unknown[];
+}
+
+export interface WorkflowItemChange {
+  before: unknown;
+  after: unknown;
+  changes: string[];
+}
+
+export interface VersionDiff {
+  nodesAdded: unknown[];
+  nodesRemoved: unknown[];
+  nodesModified: WorkflowItemChange[];
+  edgesAdded: unknown[];
+  edgesRemoved: unknown[];
+  edgesModified: WorkflowItemChange[];
+  summary: {
+    totalChanges: number;
+    significantChanges: boolean;
+    changeTypes: string[];
+  };
+}
+
+const NODE_DATA_FIELDS = ["label", "blockType", "config"];
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+function findNodeChanges(fromNode: any, toNode: any): string[] {
+  const changes: string[] = [];
+
+  if (fromNode.data?.label !== toNode.data?.label) {
+    changes.push("label");
+  }
+
+  if (fromNode.data?.blockType !== toNode.data?.blockType) {
+    changes.push("blockType");
+  }
+
+  if (!isEqual(fromNode.data?.config, toNode.data?.config)) {
+    changes.push("config");
+  }
+
+  if (!isEqual(fromNode.position, toNode.position)) {
+    changes.push("position");
+  }
+
+  // Settings such as retry policies live next to the config
+  const otherData = (node: any) =>
+    Object.fromEntries(
+      Object.entries(node.data ?? {}).filter(
+        ([key]) => !NODE_DATA_FIELDS.includes(key)
+      )
+    );
+  if (!isEqual(otherData(fromNode), otherData(toNode))) {
+    changes.push("data");
+  }
+
+  return changes;
+}
+
+function findEdgeChanges(fromEdge: any, toEdge: any): string[] {
+  return ["source", "target", "sourceHandle", "targetHandle"].filter(
+    (field) => fromEdge[field] !== toEdge[field]
+  );
+}
+
+function diffItems(
+  fromItems: any[],
+  toItems: any[],
+  findChanges: (before: any, after: any) => string[]
+): {
+  added: unknown[];
+  removed: unknown[];
+  modified: WorkflowItemChange[];
+} {
+  const fromById = new Map(fromItems.map((item) => [item.id, item]));
+  const toIds = new Set(toItems.map((item) => item.id));
+
+  const modified: WorkflowItemChange[] = [];
+  for (const after of toItems) {
+    const before = fromById.get(after.id);
+    if (before) {
+      const changes = findChanges(before, after);
+      if (changes.length > 0) {
+        modified.push({ before, after, changes });
+      }
+    }
+  }
+
+  return {
+    added: toItems.filter((item) => !fromById.has(item.id)),
+    removed: fromItems.filter((item) => !toIds.has(item.id)),
+    modified,
+  };
+}
+
+/**
+ * Compare two workflow definitions. Nodes and edges are matched by ID.
+ */
+export function diffWorkflowDefinitions(
+  from: WorkflowDefinition,
+  to: WorkflowDefinition
+): VersionDiff {
+  const nodes = diffItems(
+    (from.nodes ?? []) as any[],
+    (to.nodes ?? []) as any[],
+    findNodeChanges
+  );
+  const edges = diffItems(
+    (from.edges ?? []) as any[],
+    (to.edges ?? []) as any[],
+    findEdgeChanges
+  );
+
+  const totalChanges =
+    nodes.added.length +
+    nodes.removed.length +
+    nodes.modified.length +
+    edges.added.length +
+    edges.removed.length +
+    edges.modified.length;
+
+  const significantChanges =
+    totalChanges > 5 ||
+    nodes.removed.length > 0 ||
+    nodes.modified.some((node) => node.changes.includes("blockType"));
+
+  const changeTypes: string[] = [];
+  if (nodes.added.length > 0) changeTypes.push("nodes_added");
+  if (nodes.removed.length > 0) changeTypes.push("nodes_removed");
+  if (nodes.modified.length > 0) changeTypes.push("nodes_modified");
+  if (edges.added.length > 0) changeTypes.push("edges_added");
+  if (edges.removed.length > 0) changeTypes.push("edges_removed");
+  if (edges.modified.length > 0) changeTypes.push("edges_modified");
+
+  return {
+    nodesAdded: nodes.added,
+    nodesRemoved: nodes.removed,
+    nodesModified: nodes.modified,
+    edgesAdded: edges.added,
+    edgesRemoved: edges.removed,
+    edgesModified: edges.modified,
+    summary: {
+      totalChanges,
+      significantChanges,
+      changeTypes,
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { BlockType } from "@zzyra/types";
+
+/**
+ * The parts of a stored node the entry node lookup reads. Older nodes keep
+ * their block type in `data.type` or `type` instead of `data.blockType`.
+ */
+export interface StoredNode {
+  id: string;
+  type?: string;
+  data?: {
+    blockType?: string;
+    type?: string;
+    config?: Record<string, any>;
+  };
+}
+
+export interface StoredEdge {
+  source: string;
+  target: string;
+}
+
+/**
+ * Find the node of a block type a workflow starts from, i.e. one with no
+ * incoming edges. Nodes of the same type further down the graph are actions,
+ * such as WEBHOOK nodes that send outbound requests.
+ */
+export function findEntryNode<TNode extends StoredNode>(
+  nodes: TNode[] | null | undefined,
+  edges: StoredEdge[] | null | undefined,
+  blockType: BlockType
+): TNode | undefined {
+  const targets = new Set((edges || []).map((edge) => edge.target));
+
+  return (nodes || []).find(
+    (node) =>
+      (node.data?.blockType || node.data?.type || node.type) === blockType &&
+      !targets.has(node.id)
+  );
+}
@@ -0,0 +1,239 @@
+import type { WorkflowRequiredInput } from "@zzyra/types";
+
+type NodeLike = { id: string; type?: string; data?: Record<string, any> };
+type PathSegment = string | number;
+
+export interface CustomBlockReference {
+  nodeId: string;
+  customBlockId: string;
+  /** Version or range the node pins; empty runs the latest version */
+  versionRange?: string;
+}
+
+// Keys compared without case, dashes and underscores
+const SECRET_KEYS = [
+  "apikey",
+  "secret",
+  "password",
+  "passphrase",
+  "privatekey",
+  "mnemonic",
+  "seedphrase",
+  "credential",
+  "authorization",
+];
+const SECRET_KEY_SUFFIXES = [
+  "accesstoken",
+  "authtoken",
+  "apitoken",
+  "bottoken",
+  "bearertoken",
+  "refreshtoken",
+];
+// Discord and Slack webhook URLs contain their token
+const SECRET_URL_PATTERN =
+  /^https:\/\/(discord(app)?\.com\/api\/webhooks|hooks\.slack\.com)\//i;
+
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const BECH32_ADDRESS_PATTERN = /^(sei|cosmos)1[02-9ac-hj-np-z]{38,58}$/;
+// Addresses under these keys are contracts, which stay in the export
+const CONTRACT_KEY_PATTERN = /contract|token|router|pool|pair|spender|abi/i;
+
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().replace(/[-_]/g, "");
+
+function isSecretValue(key: string, value: string): boolean {
+  const normalized = normalizeKey(key);
+  return (
+    SECRET_KEYS.some((secret) => normalized.includes(secret)) ||
+    SECRET_KEY_SUFFIXES.some((suffix) => normalized.endsWith(suffix)) ||
+    SECRET_URL_PATTERN.test(value)
+  );
+}
+
+function isWalletAddress(key: string, value: string): boolean {
+  return (
+    (EVM_ADDRESS_PATTERN.test(value) || BECH32_ADDRESS_PATTERN.test(value)) &&
+    !CONTRACT_KEY_PATTERN.test(key)
+  );
+}
+
+const isCustomNode = (node: NodeLike): boolean =>
+  node.type === "CUSTOM" ||
+  node.data?.blockType === "CUSTOM" ||
+  !!node.data?.customBlockId ||
+  !!node.data?.config?.customBlockId;
+
+/**
+ * Take secrets and wallet addresses out of the data of the nodes and
+ * declare them as inputs the importer provides. Values that are template
+ * expressions are kept, as they only reference other data.
+ * @param nodes The nodes of the workflow
+ * @returns Copies of the nodes with the values blanked, and the inputs
+ */
+export function extractRequiredInputs<T extends NodeLike>(
+  nodes: T[]
+): { nodes: T[]; requiredInputs: WorkflowRequiredInput[] } {
+  const requiredInputs: WorkflowRequiredInput[] = [];
+  const keys = new Set<string>();
+
+  const strip = (
+    node: T,
+    value: unknown,
+    key: string,
+    path: PathSegment[]
+  ): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        strip(node, item, key, [...path, index])
+      );
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, child]) => [
+          childKey,
+          strip(node, child, childKey, [...path, childKey]),
+        ])
+      );
+    }
+    if (typeof value !== "string" || !value.trim() || value.includes("{{")) {
+      return value;
+    }
+
+    const kind = isSecretValue(key, value)
+      ? "secret"
+      : isWalletAddress(key, value)
+        ? "wallet_address"
+        : null;
+    if (!kind) {
+      return value;
+    }
+
+    let inputKey = `${node.id}.${path.join(".")}`.replace(
+      /[^A-Za-z0-9_.-]/g,
+      "_"
+    );
+    for (let suffix = 2; keys.has(inputKey); suffix++) {
+      inputKey = `${inputKey}_${suffix}`;
+    }
+    keys.add(inputKey);
+    requiredInputs.push({
+      key: inputKey,
+      kind,
+      nodeId: node.id,
+      path,
+      label: `${node.data?.label || node.id}: ${path.join(".")}`,
+    });
+    return "";
+  };
+
+  return {
+    nodes: nodes.map((node) =>
+      node.data
+        ? { ...node, data: strip(node, node.data, "", []) as T["data"] }
+        : node
+    ),
+    requiredInputs,
+  };
+}
+
+/**
+ * Put the values the importer provided back into the nodes
+ * @param nodes The imported nodes
+ * @param requiredInputs The inputs the file declares
+ * @param values The values by input key
+ * @returns The nodes and the keys of the inputs without a value
+ */
+export function applyRequiredInputs<T extends NodeLike>(
+  nodes: T[],
+  requiredInputs: WorkflowRequiredInput[],
+  values: Record<string, string> = {}
+): { nodes: T[]; missingInputs: string[] } {
+  const copies = structuredClone(nodes);
+  const missingInputs: string[] = [];
+
+  for (const input of requiredInputs) {
+    const value = values[input.key];
+    if (value === undefined || value === "") {
+      missingInputs.push(input.key);
+      continue;
+    }
+
+    const node = copies.find((item) => item.id === input.nodeId);
+    let target: any = node?.data;
+    for (const segment of input.path.slice(0, -1)) {
+      target = target?.[segment];
+    }
+    if (target && typeof target === "object") {
+      target[input.path[input.path.length - 1]] = value;
+    } else {
+      missingInputs.push(input.key);
+    }
+  }
+
+  return { nodes: copies, missingInputs };
+}
+
+/**
+ * Find the custom blocks the nodes run, where the worker looks for them
+ * @param nodes The nodes of the workflow
+ * @returns One reference per custom block node
+ */
+export function findCustomBlockReferences(
+  nodes: NodeLike[]
+): CustomBlockReference[] {
+  return nodes.filter(isCustomNode).flatMap((node) => {
+    const customBlockId =
+      node.data?.customBlockId ||
+      node.data?.blockId ||
+      node.data?.config?.customBlockId;
+    if (typeof customBlockId !== "string" || !customBlockId) {
+      return [];
+    }
+    const versionRange =
+      node.data?.customBlockVersion || node.data?.config?.customBlockVersion;
+    return [
+      {
+        nodeId: node.id,
+        customBlockId,
+        versionRange:
+          typeof versionRange === "string" && versionRange
+            ? versionRange
+            : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Point custom block nodes at the blocks they were imported as
+ * @param nodes The imported nodes
+ * @param blockIds The new block ID by the ID in the file
+ * @returns Copies of the nodes
+ */
+export function replaceCustomBlockIds<T extends NodeLike>(
+  nodes: T[],
+  blockIds: Map<string, string>
+): T[] {
+  const replace = (id: unknown) =>
+    typeof id === "string" && blockIds.has(id) ? blockIds.get(id) : id;
+
+  return nodes.map((node) => {
+    if (!isCustomNode(node) || !node.data) {
+      return node;
+    }
+    const data: Record<string, any> = { ...node.data };
+    for (const key of ["customBlockId", "blockId"]) {
+      if (data[key] !== undefined) {
+        data[key] = replace(data[key]);
+      }
+    }
+    if (data.config?.customBlockId !== undefined) {
+      data.config = {
+        ...data.config,
+        customBlockId: replace(data.config.customBlockId),
+      };
+    }
+    return { ...node, data };
+  });
+}
@@ -10,6 +10,7 @@ import {
   HttpStatus,
   UseGuards,
   Request,
+  ParseIntPipe,
 } from "@nestjs/common";
 import {
   ApiTags,
@@ -24,12 +25,22 @@ import {
   WorkflowDto,
   PaginatedWorkflowsResponseDto,
   ToggleFavoriteDto,
+  WorkflowScheduleDto,
+  WorkflowWebhookDto,
+  WalletListenerDto,
+  WorkflowVersionSummaryDto,
+  WorkflowVersionDto,
+  WorkflowVersionDiffDto,
+  RestoreWorkflowVersionDto,
+  ImportWorkflowDto,
+  WorkflowImportResultDto,
 } from "./dto/workflow.dto";
 import {
   ExecuteWorkflowDto,
   ExecuteWorkflowResponseDto,
 } from "./dto/execute-workflow.dto";
 import { WorkflowsService } from "./workflows.service";
+import type { WorkflowExport } from "@zzyra/types";
 import { Public } from "../auth/decorators/public.decorator";
 import { EnhancedAiService } from "../ai/enhanced-ai.service";
 
@@ -128,6 +139,187 @@ export class WorkflowsController {
     return this.workflowsService.remove(id, req.user.id);
   }
 
+  @Get(":id/schedule")
+  @ApiOperation({ summary: "Get the schedule state of a SCHEDULE workflow" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      "Returns the schedule, or null if the workflow is not scheduled",
+    type: WorkflowScheduleDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow not found",
+  })
+  async getSchedule(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<WorkflowScheduleDto | null> {
+    return this.workflowsService.getSchedule(id, req.user.id);
+  }
+
+  @Get(":id/webhook")
+  @ApiOperation({ summary: "Get the inbound URL of a WEBHOOK workflow" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      "Returns the webhook, or null if the workflow does not start with a WEBHOOK block",
+    type: WorkflowWebhookDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow not found",
+  })
+  async getWebhook(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<WorkflowWebhookDto | null> {
+    return this.workflowsService.getWebhook(id, req.user.id);
+  }
+
+  @Get(":id/wallet-listener")
+  @ApiOperation({
+    summary: "Get the on-chain listener state of a WALLET_LISTEN workflow",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      "Returns the listener, or null if the workflow does not start with a WALLET_LISTEN block",
+    type: WalletListenerDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow not found",
+  })
+  async getWalletListener(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<WalletListenerDto | null> {
+    return this.workflowsService.getWalletListener(id, req.user.id);
+  }
+
+  @Get(":id/versions")
+  @ApiOperation({ summary: "List the saved versions of a workflow" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the versions, newest first",
+    type: [WorkflowVersionSummaryDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow not found",
+  })
+  async listVersions(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<WorkflowVersionSummaryDto[]> {
+    return this.workflowsService.listVersions(id, req.user.id);
+  }
+
+  @Get(":id/versions/compare")
+  @ApiOperation({ summary: "Compare two versions of a workflow" })
+  @ApiQuery({ name: "from", required: true, type: Number })
+  @ApiQuery({ name: "to", required: true, type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the nodes and edges added, removed and modified",
+    type: WorkflowVersionDiffDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow or version not found",
+  })
+  async compareVersions(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Query("from", ParseIntPipe) from: number,
+    @Query("to", ParseIntPipe) to: number
+  ): Promise<WorkflowVersionDiffDto> {
+    return this.workflowsService.compareVersions(id, from, to, req.user.id);
+  }
+
+  @Get(":id/versions/:version")
+  @ApiOperation({ summary: "Get one version of a workflow" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Returns the version with its nodes and edges",
+    type: WorkflowVersionDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow or version not found",
+  })
+  async getVersion(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Param("version", ParseIntPipe) version: number
+  ): Promise<WorkflowVersionDto> {
+    return this.workflowsService.getVersion(id, version, req.user.id);
+  }
+
+  @Post(":id/versions/:version/restore")
+  @ApiOperation({
+    summary: "Restore an old version as the current workflow definition",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Workflow restored as a new version",
+    type: WorkflowDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow or version not found",
+  })
+  async restoreVersion(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string,
+    @Param("version", ParseIntPipe) version: number,
+    @Body() restoreDto: RestoreWorkflowVersionDto = {}
+  ): Promise<WorkflowDto> {
+    return this.workflowsService.restoreVersion(
+      id,
+      version,
+      req.user.id,
+      restoreDto.message
+    );
+  }
+
+  @Get(":id/export")
+  @ApiOperation({ summary: "Export a workflow as a portable file" })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      "Returns the file; secrets and wallet addresses are declared as required inputs",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: "Workflow not found",
+  })
+  async exportWorkflow(
+    @Request() req: { user: { id: string } },
+    @Param("id") id: string
+  ): Promise<WorkflowExport> {
+    return this.workflowsService.exportWorkflow(id, req.user.id);
+  }
+
+  @Post("import")
+  @ApiOperation({ summary: "Create a workflow from an exported file" })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Workflow imported",
+    type: WorkflowImportResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "The file is invalid or of an unsupported version",
+  })
+  async importWorkflow(
+    @Request() req: { user: { id: string } },
+    @Body() importDto: ImportWorkflowDto
+  ): Promise<WorkflowImportResultDto> {
+    return this.workflowsService.importWorkflow(importDto, req.user.id);
+  }
+
   @Post(":id/execute")
   @Public()
   @ApiOperation({ summary: "Execute a workflow" })
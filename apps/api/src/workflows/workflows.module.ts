@@ -4,9 +4,21 @@ import { WorkflowsService } from "./workflows.service";
 import { DatabaseModule } from "../database/database.module";
 import { QueueModule } from "../queue/queue.module";
 import { AiModule } from "../ai/ai.module";
+import { SchedulerModule } from "../scheduler/scheduler.module";
+import { HooksModule } from "../hooks/hooks.module";
+import { WalletListenersModule } from "../wallet-listeners/wallet-listeners.module";
+import { BlocksModule } from "../blocks/blocks.module";
 
 @Module({
-  imports: [DatabaseModule, QueueModule, AiModule],
+  imports: [
+    DatabaseModule,
+    QueueModule,
+    AiModule,
+    SchedulerModule,
+    HooksModule,
+    WalletListenersModule,
+    BlocksModule,
+  ],
   controllers: [WorkflowsController],
   providers: [WorkflowsService],
   exports: [WorkflowsService],
@@ -1,4 +1,11 @@
-import { Injectable, NotFoundException } from "@nestjs/common";
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
 import {
   CreateWorkflowDto,
   PaginatedWorkflowsResponseDto,
@@ -6,16 +13,64 @@ import {
   WorkflowDto,
   ToggleFavoriteDto,
   WorkflowStatisticsDto,
+  WorkflowScheduleDto,
+  WorkflowWebhookDto,
+  WalletListenerDto,
+  WorkflowVersionDiffDto,
+  WorkflowVersionDto,
+  WorkflowVersionSummaryDto,
+  ImportWorkflowDto,
+  WorkflowImportResultDto,
 } from "./dto/workflow.dto";
 import { QueueService } from "../queue/queue.service";
-import { WorkflowRepository, ExecutionRepository } from "@zzyra/database";
+import { SchedulerService } from "../scheduler/scheduler.service";
+import { HooksService } from "../hooks/hooks.service";
+import { WalletListenersService } from "../wallet-listeners/wallet-listeners.service";
+import {
+  WorkflowRepository,
+  ExecutionRepository,
+  WorkflowVersionRepository,
+  WorkflowVersionWithAuthor,
+  TeamRepository,
+  TeamPermission,
+  UsageRepository,
+  QuotaBalance,
+  hasQuotaFor,
+  hasTeamPermission,
+  CredentialRepository,
+  findCredentialReferences,
+} from "@zzyra/database";
+import {
+  WORKFLOW_EXPORT_FORMAT,
+  WORKFLOW_EXPORT_VERSION,
+  WorkflowExport,
+  WorkflowExportCustomBlock,
+  parseWorkflowExport,
+} from "@zzyra/types";
+import { ZodError } from "zod";
+import { diffWorkflowDefinitions } from "./workflow-diff";
+import {
+  applyRequiredInputs,
+  extractRequiredInputs,
+  findCustomBlockReferences,
+  replaceCustomBlockIds,
+} from "./workflow-export";
+import { BlocksService } from "../blocks/blocks.service";
 
 @Injectable()
 export class WorkflowsService {
   constructor(
     private workflowRepository: WorkflowRepository,
     private executionRepository: ExecutionRepository,
-    private queueService: QueueService
+    private workflowVersionRepository: WorkflowVersionRepository,
+    private teamRepository: TeamRepository,
+    private usageRepository: UsageRepository,
+    private queueService: QueueService,
+    private schedulerService: SchedulerService,
+    private hooksService: HooksService,
+    private walletListenersService: WalletListenersService,
+    private blocksService: BlocksService,
+    private credentialRepository: CredentialRepository
   ) {}
 
   async findAll(
@@ -37,6 +92,7 @@ export class WorkflowsService {
           nodes: workflow.nodes as Record<string, unknown>[],
           edges: workflow.edges as Record<string, unknown>[],
           userId: workflow.userId,
+          teamId: workflow.teamId || undefined,
           isPublic: workflow.isPublic || false,
           tags: workflow.tags || [],
           createdAt:
@@ -79,6 +135,7 @@ export class WorkflowsService {
       nodes: workflow.nodes as Record<string, unknown>[],
       edges: workflow.edges as Record<string, unknown>[],
       userId: workflow.userId,
+      teamId: workflow.teamId || undefined,
       isPublic: workflow.isPublic || false,
       tags: workflow.tags || [],
       createdAt: workflow.createdAt?.toISOString() || new Date().toISOString(),
@@ -94,6 +151,10 @@ export class WorkflowsService {
     createWorkflowDto: CreateWorkflowDto,
     userId: string
   ): Promise<WorkflowDto> {
+    if (createWorkflowDto.teamId) {
+      await this.assertCanEditInTeam(createWorkflowDto.teamId, userId);
+    }
+
     const workflow = await this.workflowRepository.create({
       name: createWorkflowDto.name,
       description: createWorkflowDto.description,
@@ -102,8 +163,24 @@ export class WorkflowsService {
       isPublic: createWorkflowDto.isPublic || false,
       tags: createWorkflowDto.tags || [],
       user: { connect: { id: userId } }, // Connect to user by ID instead of using userId directly
+      team: createWorkflowDto.teamId
+        ? { connect: { id: createWorkflowDto.teamId } }
+        : undefined,
     });
 
+    const { version } = await this.workflowVersionRepository.recordVersion({
+      workflowId: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      nodes: workflow.nodes,
+      edges: workflow.edges,
+      createdBy: userId,
+    });
+
+    await this.schedulerService.syncWorkflow(workflow);
+    await this.hooksService.syncWorkflow(workflow);
+    await this.walletListenersService.syncWorkflow(workflow);
+
     return {
       id: workflow.id,
       name: workflow.name,
@@ -111,11 +188,12 @@ export class WorkflowsService {
       nodes: workflow.nodes as Record<string, unknown>[],
       edges: workflow.edges as Record<string, unknown>[],
       userId: workflow.userId,
+      teamId: workflow.teamId || undefined,
       isPublic: workflow.isPublic || false,
       tags: workflow.tags || [],
       createdAt: workflow.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt: workflow.updatedAt?.toISOString() || new Date().toISOString(),
-      version: workflow.version || 1,
+      version: version.version,
       isFavorite: false,
       statistics: undefined,
       lastRun: undefined,
@@ -127,10 +205,18 @@ export class WorkflowsService {
     updateWorkflowDto: UpdateWorkflowDto,
     userId: string
   ): Promise<WorkflowDto> {
-    // First verify the user owns this workflow
-    const existingWorkflow = await this.workflowRepository.findById(id, userId);
-    if (!existingWorkflow) {
-      throw new NotFoundException(`Workflow with ID ${id} not found`);
+    const existingWorkflow = await this.findWithPermission(id, userId, "edit");
+
+    // Moving a workflow between teams takes the manage permission on the
+    // workflow and edit rights in the new team
+    const { teamId } = updateWorkflowDto;
+    const moveTeam =
+      teamId !== undefined && (teamId || null) !== existingWorkflow.teamId;
+    if (moveTeam) {
+      await this.findWithPermission(id, userId, "manage");
+      if (teamId) {
+        await this.assertCanEditInTeam(teamId, userId);
+      }
     }
 
     // Update the workflow
@@ -140,8 +226,28 @@ export class WorkflowsService {
       nodes: updateWorkflowDto.nodes as any,
       edges: updateWorkflowDto.edges as any,
       isPublic: updateWorkflowDto.isPublic,
+      team: moveTeam
+        ? teamId
+          ? { connect: { id: teamId } }
+          : { disconnect: true }
+        : undefined,
     });
 
+    // Saves that change the definition become a new version
+    const { version } = await this.workflowVersionRepository.recordVersion({
+      workflowId: updatedWorkflow.id,
+      name: updatedWorkflow.name,
+      description: updatedWorkflow.description,
+      nodes: updatedWorkflow.nodes,
+      edges: updatedWorkflow.edges,
+      message: updateWorkflowDto.versionMessage,
+      createdBy: userId,
+    });
+
+    await this.schedulerService.syncWorkflow(updatedWorkflow);
+    await this.hooksService.syncWorkflow(updatedWorkflow);
+    await this.walletListenersService.syncWorkflow(updatedWorkflow);
+
     // Map to DTO format
     const statistics = await this.calculateWorkflowStatistics(
       updatedWorkflow.id
@@ -154,13 +260,14 @@ export class WorkflowsService {
       nodes: updatedWorkflow.nodes as Record<string, unknown>[],
       edges: updatedWorkflow.edges as Record<string, unknown>[],
       userId: updatedWorkflow.userId,
+      teamId: updatedWorkflow.teamId || undefined,
       isPublic: updatedWorkflow.isPublic || false,
       tags: updatedWorkflow.tags || [],
       createdAt:
         updatedWorkflow.createdAt?.toISOString() || new Date().toISOString(),
       updatedAt:
         updatedWorkflow.updatedAt?.toISOString() || new Date().toISOString(),
-      version: updatedWorkflow.version || 1,
+      version: version.version,
       isFavorite: false,
       statistics,
       lastRun: statistics?.lastExecutedAt,
@@ -168,15 +275,368 @@ export class WorkflowsService {
   }
 
   async remove(id: string, userId: string): Promise<void> {
-    // First verify the user owns this workflow
-    const existingWorkflow = await this.workflowRepository.findById(id, userId);
-    if (!existingWorkflow) {
-      throw new NotFoundException(`Workflow with ID ${id} not found`);
-    }
+    await this.findWithPermission(id, userId, "manage");
 
     await this.workflowRepository.delete(id);
   }
 
+  async getSchedule(
+    id: string,
+    userId: string
+  ): Promise<WorkflowScheduleDto | null> {
+    // Only users who can change the schedule see its state
+    await this.findWithPermission(id, userId, "edit");
+
+    const schedule = await this.schedulerService.getSchedule(id);
+    if (!schedule) {
+      return null;
+    }
+
+    return {
+      nodeId: schedule.nodeId,
+      cronExpression: schedule.cronExpression || undefined,
+      intervalSeconds: schedule.intervalSeconds || undefined,
+      timezone: schedule.timezone,
+      catchUpPolicy: schedule.catchUpPolicy,
+      isActive: schedule.isActive,
+      nextRunAt: schedule.nextRunAt?.toISOString(),
+      lastRunAt: schedule.lastRunAt?.toISOString(),
+      lastExecutionId: schedule.lastExecutionId || undefined,
+      lastError: schedule.lastError || undefined,
+    };
+  }
+
+  async getWebhook(
+    id: string,
+    userId: string
+  ): Promise<WorkflowWebhookDto | null> {
+    // The token and signing secret let anyone trigger the workflow, so only
+    // users who can change it may read them; viewers and public access do not
+    await this.findWithPermission(id, userId, "edit");
+
+    const webhook = await this.hooksService.getWebhook(id);
+    if (!webhook) {
+      return null;
+    }
+
+    return {
+      nodeId: webhook.nodeId,
+      path: `/api/hooks/${webhook.workflowId}/${webhook.token}`,
+      token: webhook.token,
+      signingSecret: webhook.signingSecret,
+      verifySignature: webhook.verifySignature,
+      signatureHeader: webhook.signatureHeader,
+      responseMode: webhook.responseMode,
+      responseTimeoutMs: webhook.responseTimeoutMs,
+      responseNodeId: webhook.responseNodeId || undefined,
+      rateLimitPerMinute: webhook.rateLimitPerMinute,
+      isActive: webhook.isActive,
+      lastTriggeredAt: webhook.lastTriggeredAt?.toISOString(),
+    };
+  }
+
+  async getWalletListener(
+    id: string,
+    userId: string
+  ): Promise<WalletListenerDto | null> {
+    // The watched wallets are only shown to users who can change them
+    await this.findWithPermission(id, userId, "edit");
+
+    const listener = await this.walletListenersService.getListener(id);
+    if (!listener) {
+      return null;
+    }
+
+    return {
+      nodeId: listener.nodeId,
+      network: listener.network,
+      chainId: listener.chainId,
+      walletAddresses: listener.walletAddresses,
+      eventTypes: listener.eventTypes,
+      minAmount: listener.minAmount,
+      tokenDenom: listener.tokenDenom || undefined,
+      pollIntervalSeconds: listener.pollIntervalSeconds,
+      isActive: listener.isActive,
+      lastProcessedBlock: listener.lastProcessedBlock?.toString(),
+      lastPolledAt: listener.lastPolledAt?.toISOString(),
+      lastEventAt: listener.lastEventAt?.toISOString(),
+      lastError: listener.lastError || undefined,
+    };
+  }
+
+  async listVersions(
+    id: string,
+    userId: string
+  ): Promise<WorkflowVersionSummaryDto[]> {
+    // Old definitions can hold settings since removed, so the history is
+    // limited to users who can restore it
+    await this.findWithPermission(id, userId, "edit");
+
+    const versions = await this.workflowVersionRepository.findByWorkflowId(id);
+    return versions.map((version) => this.toVersionSummary(version));
+  }
+
+  async getVersion(
+    id: string,
+    version: number,
+    userId: string
+  ): Promise<WorkflowVersionDto> {
+    const workflowVersion = await this.findVersion(id, version, userId);
+
+    return {
+      ...this.toVersionSummary(workflowVersion),
+      nodes: workflowVersion.nodes as Record<string, unknown>[],
+      edges: workflowVersion.edges as Record<string, unknown>[],
+    };
+  }
+
+  async compareVersions(
+    id: string,
+    fromVersion: number,
+    toVersion: number,
+    userId: string
+  ): Promise<WorkflowVersionDiffDto> {
+    const from = await this.findVersion(id, fromVersion, userId);
+    const to = await this.findVersion(id, toVersion, userId);
+
+    const diff = diffWorkflowDefinitions(
+      { nodes: from.nodes as unknown[], edges: from.edges as unknown[] },
+      { nodes: to.nodes as unknown[], edges: to.edges as unknown[] }
+    );
+
+    return {
+      fromVersion,
+      toVersion,
+      ...(diff as Omit<WorkflowVersionDiffDto, "fromVersion" | "toVersion">),
+    };
+  }
+
+  /**
+   * Make an old version the current definition. The restore is saved as a
+   * new version so the history stays append-only.
+   */
+  async restoreVersion(
+    id: string,
+    version: number,
+    userId: string,
+    message?: string
+  ): Promise<WorkflowDto> {
+    const workflowVersion = await this.findVersion(id, version, userId);
+
+    const restoredWorkflow = await this.workflowRepository.update(id, {
+      name: workflowVersion.name,
+      description: workflowVersion.description,
+      nodes: workflowVersion.nodes as any,
+      edges: workflowVersion.edges as any,
+    });
+
+    await this.workflowVersionRepository.recordVersion({
+      workflowId: id,
+      name: restoredWorkflow.name,
+      description: restoredWorkflow.description,
+      nodes: restoredWorkflow.nodes,
+      edges: restoredWorkflow.edges,
+      message: message || `Restored from version ${version}`,
+      createdBy: userId,
+    });
+
+    await this.schedulerService.syncWorkflow(restoredWorkflow);
+    await this.hooksService.syncWorkflow(restoredWorkflow);
+    await this.walletListenersService.syncWorkflow(restoredWorkflow);
+
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Export a workflow as a portable file. Secrets and wallet addresses are
+   * left out and declared as inputs the importer provides, and the custom
+   * block versions the nodes pin are included. Credentials are listed by
+   * name only.
+   */
+  async exportWorkflow(id: string, userId: string): Promise<WorkflowExport> {
+    const workflow = await this.findWithPermission(id, userId, "view");
+    const { nodes, requiredInputs } = extractRequiredInputs(
+      (workflow.nodes as any[]) || []
+    );
+
+    const ranges = new Map<string, (string | undefined)[]>();
+    for (const reference of findCustomBlockReferences(nodes)) {
+      ranges.set(reference.customBlockId, [
+        ...(ranges.get(reference.customBlockId) ?? []),
+        reference.versionRange,
+      ]);
+    }
+    const customBlocks: WorkflowExportCustomBlock[] = [];
+    for (const [blockId, blockRanges] of ranges) {
+      customBlocks.push(
+        await this.blocksService.exportCustomBlock(blockId, userId, blockRanges)
+      );
+    }
+
+    return {
+      format: WORKFLOW_EXPORT_FORMAT,
+      version: WORKFLOW_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      metadata: {
+        name: workflow.name,
+        description: workflow.description || "",
+        category: null,
+        tags: workflow.tags || [],
+        sourceVersion: workflow.version || null,
+      },
+      workflow: { nodes, edges: (workflow.edges as any[]) || [] },
+      customBlocks,
+      requiredInputs,
+      credentials: findCredentialReferences(nodes),
+    };
+  }
+
+  /**
+   * Create a workflow from an exported file. The custom blocks of the file
+   * are reused when the user can see them, or created otherwise, and the
+   * provided inputs are filled in.
+   */
+  async importWorkflow(
+    data: ImportWorkflowDto,
+    userId: string
+  ): Promise<WorkflowImportResultDto> {
+    const parsed = parseWorkflowExport(data.file);
+    if (!parsed.success) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: "Bad Request",
+        message: `Invalid workflow file: ${parsed.error.message}`,
+        issues: parsed.error instanceof ZodError ? parsed.error.issues : [],
+      });
+    }
+    const file = parsed.data;
+    if (data.teamId) {
+      await this.assertCanEditInTeam(data.teamId, userId);
+    }
+
+    const blockIds = new Map<string, string>();
+    const customBlocks: WorkflowImportResultDto["customBlocks"] = [];
+    for (const exported of file.customBlocks) {
+      const { block, created } = await this.blocksService.importCustomBlock(
+        userId,
+        data.teamId || null,
+        exported
+      );
+      blockIds.set(exported.id, block.id);
+      customBlocks.push({ sourceId: exported.id, id: block.id, created });
+    }
+
+    const { nodes, missingInputs } = applyRequiredInputs(
+      replaceCustomBlockIds(file.workflow.nodes, blockIds),
+      file.requiredInputs,
+      data.inputs
+    );
+
+    const workflow = await this.create(
+      {
+        name: data.name || file.metadata.name,
+        description: file.metadata.description || undefined,
+        nodes,
+        edges: file.workflow.edges,
+        tags: file.metadata.tags,
+        teamId: data.teamId,
+      },
+      userId
+    );
+
+    const credentials = await this.credentialRepository.findByNames(
+      userId,
+      file.credentials
+    );
+
+    return {
+      workflow,
+      migratedFrom: parsed.migratedFrom,
+      customBlocks,
+      missingInputs: file.requiredInputs.filter((input) =>
+        missingInputs.includes(input.key)
+      ),
+      missingCredentials: file.credentials.filter(
+        (name) => !credentials.some((credential) => credential.name === name)
+      ),
+    };
+  }
+
+  private async findVersion(
+    id: string,
+    version: number,
+    userId: string
+  ): Promise<WorkflowVersionWithAuthor> {
+    await this.findWithPermission(id, userId, "edit");
+
+    const workflowVersion = await this.workflowVersionRepository.findByVersion(
+      id,
+      version
+    );
+    if (!workflowVersion) {
+      throw new NotFoundException(
+        `Version ${version} of workflow ${id} not found`
+      );
+    }
+    return workflowVersion;
+  }
+
+  /**
+   * Find a workflow the user may act on. Users who can see the workflow but
+   * lack the permission get a 403 instead of a 404.
+   */
+  private async findWithPermission(
+    id: string,
+    userId: string,
+    permission: TeamPermission
+  ) {
+    const workflow = await this.workflowRepository.findByIdWithPermission(
+      id,
+      userId,
+      permission
+    );
+    if (workflow) {
+      return workflow;
+    }
+
+    if (await this.workflowRepository.findById(id, userId)) {
+      throw new ForbiddenException(
+        `You do not have permission to ${permission} workflow ${id}`
+      );
+    }
+    throw new NotFoundException(`Workflow with ID ${id} not found`);
+  }
+
+  private async assertCanEditInTeam(
+    teamId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await this.teamRepository.getMemberRole(teamId, userId);
+    if (!hasTeamPermission(role, "edit")) {
+      throw new ForbiddenException(
+        `You cannot add workflows to team ${teamId}`
+      );
+    }
+  }
+
+  private toVersionSummary(
+    version: WorkflowVersionWithAuthor
+  ): WorkflowVersionSummaryDto {
+    return {
+      version: version.version,
+      name: version.name,
+      description: version.description || undefined,
+      checksum: version.checksum,
+      message: version.message || undefined,
+      author: version.author
+        ? { id: version.author.id, email: version.author.email || undefined }
+        : undefined,
+      nodeCount: Array.isArray(version.nodes) ? version.nodes.length : 0,
+      edgeCount: Array.isArray(version.edges) ? version.edges.length : 0,
+      createdAt: version.createdAt.toISOString(),
+    };
+  }
+
   async toggleFavorite(
     toggleFavoriteDto: ToggleFavoriteDto,
     userId: string
@@ -279,11 +739,8 @@ export class WorkflowsService {
     input?: Record<string, any>,
     blockchainAuthorization?: any
   ): Promise<{ executionId: string }> {
-    // First verify the user owns this workflow
-    const existingWorkflow = await this.workflowRepository.findById(id, userId);
-    if (!existingWorkflow) {
-      throw new NotFoundException(`Workflow with ID ${id} not found`);
-    }
+    await this.findWithPermission(id, userId, "execute");
+    await this.checkExecutionQuota(userId);
 
     // Create execution record
     const execution = await this.executionRepository.createExecution(
@@ -303,4 +760,46 @@ export class WorkflowsService {
 
     return { executionId: execution.id };
   }
+
+  /**
+   * Reject runs the plan of the user has no room for. The worker charges the
+   * execution when it starts, so this only checks the balances.
+   */
+  private async checkExecutionQuota(userId: string): Promise<void> {
+    const [executions, runs] = await Promise.all([
+      this.usageRepository.getBalance(userId, "executions"),
+      this.usageRepository.getBalance(userId, "concurrent_runs"),
+    ]);
+
+    if (!hasQuotaFor(executions)) {
+      throw this.quotaExceeded(
+        executions,
+        `Execution quota of ${executions.limit} per period exceeded; it resets on ${executions.periodEnd.toISOString()}`,
+        HttpStatus.PAYMENT_REQUIRED
+      );
+    }
+    if (!hasQuotaFor(runs)) {
+      throw this.quotaExceeded(
+        runs,
+        `Concurrent run limit of ${runs.limit} reached; wait for a run to finish`,
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+  }
+
+  private quotaExceeded(
+    balance: QuotaBalance,
+    message: string,
+    status: HttpStatus
+  ): HttpException {
+    return new HttpException(
+      {
+        statusCode: status,
+        error: "quota_exceeded_error",
+        message,
+        quota: balance,
+      },
+      status
+    );
+  }
 }
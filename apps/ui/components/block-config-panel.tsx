@@ -90,6 +90,8 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getNodeSchema } from "./schema-aware-connection";
@@ -413,6 +415,14 @@ export function BlockConfigPanel({
     [onChange, nodeData, node?.data]
   );
 
+  const handleContinueOnFailChange = useCallback(
+    (continueOnFail: boolean) => {
+      const currentData = nodeData || node?.data || {};
+      onChange({ ...currentData, continueOnFail });
+    },
+    [onChange, nodeData, node?.data]
+  );
+
   const blockType = getBlockType(data);
   const metadata = getBlockMetadata(blockType);
 
@@ -811,6 +821,35 @@ export function BlockConfigPanel({
               </AccordionContent>
             </AccordionItem>
 
+            <AccordionItem value='error_handling'>
+              <AccordionTrigger className='text-base font-semibold hover:bg-muted/50 px-3 rounded-md transition-colors'>
+                <div className='flex items-center gap-3'>
+                  <AlertTriangle className='w-5 h-5 text-primary' />
+                  Error Handling
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className='pt-4 space-y-3 px-3'>
+                <div className='flex items-center justify-between gap-4'>
+                  <div>
+                    <Label htmlFor='continue-on-fail'>Continue on failure</Label>
+                    <p className='text-xs text-muted-foreground mt-1'>
+                      Pass the error to the next blocks instead of failing the
+                      workflow.
+                    </p>
+                  </div>
+                  <Switch
+                    id='continue-on-fail'
+                    checked={Boolean(data.continueOnFail)}
+                    onCheckedChange={handleContinueOnFailChange}
+                  />
+                </div>
+                <p className='text-xs text-muted-foreground'>
+                  Connect the orange handle at the bottom of the block to run a
+                  fallback path when it fails.
+                </p>
+              </AccordionContent>
+            </AccordionItem>
+
             <AccordionItem value='last_run'>
               <AccordionTrigger className='text-base font-semibold hover:bg-muted/50 px-3 rounded-md transition-colors'>
                 <div className='flex items-center gap-3'>
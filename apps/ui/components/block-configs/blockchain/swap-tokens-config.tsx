@@ -197,10 +197,12 @@ export function SwapTokensConfig({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value='auto'>Auto (Best Route)</SelectItem>
-                <SelectItem value='uniswap'>Uniswap</SelectItem>
-                <SelectItem value='sushiswap'>SushiSwap</SelectItem>
-                <SelectItem value='pancakeswap'>PancakeSwap</SelectItem>
-                <SelectItem value='dragonswap'>DragonSwap (SEI)</SelectItem>
+                <SelectItem value='uniswap-v2'>
+                  Uniswap V2 and forks
+                </SelectItem>
+                <SelectItem value='uniswap-v3'>
+                  Uniswap V3 and forks
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -47,15 +47,16 @@ export function ConditionConfig({
             <Label htmlFor='condition'>Condition Expression</Label>
             <Textarea
               id='condition'
-              placeholder='Enter JavaScript condition (e.g., data.price > 100)'
+              placeholder='Enter a condition (e.g., data.price > 100)'
               value={config.condition || ""}
               onChange={(e) => handleChange("condition", e.target.value)}
               rows={4}
               className='font-mono text-sm'
             />
             <p className='text-xs text-muted-foreground'>
-              Use JavaScript expressions to evaluate conditions. Access data
-              from previous blocks using the "data" variable.
+              Conditions use the workflow expression language. Access data
+              from previous blocks using "data", or a single block with
+              nodes["Block name"].
             </p>
           </div>
 
@@ -18,14 +18,14 @@ import { walletListenerSchema } from "@zzyra/types";
 
 const NETWORKS = [
   { value: "sei", label: "Sei" },
+  { value: "sei-testnet", label: "Sei Testnet" },
 ];
 
 const EVENT_TYPES = [
-  { value: "transfer", label: "Transfer" },
-  { value: "swap", label: "Swap" },
-  { value: "contractCall", label: "Contract Call" },
-  { value: "nftMint", label: "NFT Mint" },
-  { value: "nftTransfer", label: "NFT Transfer" },
+  { value: "transfer", label: "Any Transfer" },
+  { value: "nativeTransfer", label: "Native Transfer" },
+  { value: "tokenTransfer", label: "ERC-20 Transfer" },
+  { value: "contractEvent", label: "Contract Event" },
 ];
 
 interface WalletListenerConfigProps {
@@ -252,7 +252,7 @@ export function WalletListenerConfig({
         <Label htmlFor='tokenDenom'>Token Denomination (optional)</Label>
         <Input
           id='tokenDenom'
-          placeholder='e.g. usei, eth, usdc'
+          placeholder='e.g. SEI or an ERC-20 token address'
           value={(config.tokenDenom as string) || ""}
           onChange={(e) => handleChange("tokenDenom", e.target.value)}
           className='h-11'
@@ -265,6 +265,28 @@ export function WalletListenerConfig({
         )}
       </div>
 
+      {/* Event Signature */}
+      {eventTypes.includes("contractEvent") && (
+        <div className='space-y-2'>
+          <Label htmlFor='eventSignature'>Event Signature (optional)</Label>
+          <Input
+            id='eventSignature'
+            placeholder='e.g. Deposit(address indexed user, uint256 amount)'
+            value={(config.eventSignature as string) || ""}
+            onChange={(e) =>
+              handleChange("eventSignature", e.target.value || undefined)
+            }
+            className='h-11'
+          />
+          {getFieldError("eventSignature") && (
+            <div className='flex items-center space-x-2 text-sm text-red-500'>
+              <AlertCircle className='h-4 w-4' />
+              <span>{getFieldError("eventSignature")}</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Poll Interval */}
       <div className='space-y-2'>
         <Label htmlFor='pollInterval'>Poll Interval (seconds, optional)</Label>
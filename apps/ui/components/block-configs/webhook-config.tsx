@@ -96,6 +96,76 @@ export function WebhookConfig({ config, onChange }: WebhookConfigProps) {
           max='300'
         />
       </div>
+
+      <div className='space-y-4 border-t pt-4'>
+        <div>
+          <Label>Trigger settings</Label>
+          <p className='text-xs text-muted-foreground'>
+            Used when this block starts the workflow. Copy the workflow&apos;s
+            webhook URL after saving.
+          </p>
+        </div>
+
+        <div className='space-y-2'>
+          <Label htmlFor='responseMode'>Response</Label>
+          <Select
+            value={config.responseMode || "async"}
+            onValueChange={(value) => handleChange("responseMode", value)}>
+            <SelectTrigger id='responseMode'>
+              <SelectValue placeholder='Select response mode' />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value='async'>Respond immediately</SelectItem>
+              <SelectItem value='sync'>Respond with workflow output</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.responseMode === "sync" && (
+          <div className='space-y-2'>
+            <Label htmlFor='responseTimeoutMs'>Response timeout (ms)</Label>
+            <Input
+              id='responseTimeoutMs'
+              type='number'
+              value={config.responseTimeoutMs ?? 30000}
+              onChange={(e) =>
+                handleChange("responseTimeoutMs", Number(e.target.value))
+              }
+              min='1000'
+              max='120000'
+            />
+          </div>
+        )}
+
+        <div className='flex items-center space-x-2'>
+          <Switch
+            id='verifySignature'
+            checked={config.verifySignature || false}
+            onCheckedChange={(checked) =>
+              handleChange("verifySignature", checked)
+            }
+          />
+          <Label htmlFor='verifySignature'>
+            Require a timestamped HMAC-SHA256 signature
+          </Label>
+        </div>
+
+        <div className='space-y-2'>
+          <Label htmlFor='rateLimitPerMinute'>
+            Rate limit (requests/minute)
+          </Label>
+          <Input
+            id='rateLimitPerMinute'
+            type='number'
+            value={config.rateLimitPerMinute ?? 60}
+            onChange={(e) =>
+              handleChange("rateLimitPerMinute", Number(e.target.value))
+            }
+            min='1'
+            max='6000'
+          />
+        </div>
+      </div>
     </div>
   );
 }
@@ -96,7 +96,13 @@ export interface NodeData {
   iconName?: string;
   description?: string;
   isEnabled?: boolean;
-  executionStatus?: "idle" | "pending" | "running" | "completed" | "failed";
+  executionStatus?:
+    | "idle"
+    | "pending"
+    | "running"
+    | "completed"
+    | "failed"
+    | "skipped";
   isExecuting?: boolean;
   executionProgress?: number;
   executionDuration?: number;
@@ -343,6 +349,7 @@ const StatusDisplay = ({
     completed: { text: "Completed", color: "text-green-500" },
     failed: { text: "Failed", color: "text-red-500" },
     pending: { text: "Pending", color: "text-amber-500" },
+    skipped: { text: "Skipped", color: "text-gray-400" },
     idle: { text: "Idle", color: "text-gray-500" },
   };
   const config = status ? statusConfig[status] : statusConfig.idle;
@@ -398,6 +405,8 @@ export default function CircularNode({ data }: NodeProps) {
         return "border-red-500 shadow-red-500/20";
       case "pending":
         return "border-amber-500 shadow-amber-500/20";
+      case "skipped":
+        return "border-dashed border-gray-400 opacity-60";
       default:
         return "border-gray-300 dark:border-gray-600";
     }
@@ -485,11 +494,41 @@ export default function CircularNode({ data }: NodeProps) {
             className='!bg-blue-500 !border-2 !border-background !w-4 !h-4'
             style={{ zIndex: 10 }}
           />
+          {blockType === "CONDITION" ? (
+            <>
+              <Handle
+                type='source'
+                id='true'
+                position={Position.Right}
+                className='!bg-green-500 !border-2 !border-background !w-4 !h-4'
+                style={{ zIndex: 10, top: "35%" }}
+                title='True'
+              />
+              <Handle
+                type='source'
+                id='false'
+                position={Position.Right}
+                className='!bg-red-500 !border-2 !border-background !w-4 !h-4'
+                style={{ zIndex: 10, top: "65%" }}
+                title='False'
+              />
+            </>
+          ) : (
+            <Handle
+              type='source'
+              position={Position.Right}
+              className='!bg-green-500 !border-2 !border-background !w-4 !h-4'
+              style={{ zIndex: 10 }}
+            />
+          )}
+          {/* Taken when the node fails */}
           <Handle
             type='source'
-            position={Position.Right}
-            className='!bg-green-500 !border-2 !border-background !w-4 !h-4'
+            id='error'
+            position={Position.Bottom}
+            className='!bg-orange-500 !border-2 !border-background !w-3 !h-3'
             style={{ zIndex: 10 }}
+            title='On error'
           />
         </div>
       </HoverCardTrigger>
@@ -16,6 +16,7 @@ import type { NodeLog, UnifiedLog } from "@/lib/services/logs-service";
 import { formatDistance } from "date-fns";
 import {
   AlertCircle,
+  AlertTriangle,
   CheckCircle,
   ChevronDown,
   ChevronRight,
@@ -380,6 +381,13 @@ export const ExecutionLogsList = React.memo(function ExecutionLogsList({
             Completed
           </Badge>
         );
+      case "completed_with_errors":
+        return (
+          <Badge className='bg-orange-50 text-orange-700 border-orange-200 hover:bg-orange-100 hover:text-orange-800'>
+            <AlertTriangle className='w-3 h-3 mr-1' />
+            Completed with errors
+          </Badge>
+        );
       case "failed":
         return (
           <Badge className='bg-rose-50 text-rose-700 border-rose-200 hover:bg-rose-100 hover:text-rose-800'>
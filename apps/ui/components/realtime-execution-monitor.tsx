@@ -32,6 +32,7 @@ import {
 } from "lucide-react";
 import { io, Socket } from "socket.io-client";
 import { config } from "@/lib/config";
+import useAuthStore from "@/lib/store/auth-store";
 
 interface ExecutionStatus {
   executionId: string;
@@ -142,6 +143,7 @@ export function RealtimeExecutionMonitor({
         "ws://"
       ),
       {
+        auth: (cb) => cb({ token: useAuthStore.getState().token.accessToken }),
         transports: ["websocket"],
         forceNew: true,
       }
@@ -162,7 +164,9 @@ export function RealtimeExecutionMonitor({
       console.log("Disconnected from execution monitor");
     });
 
+    // Also sent for the user's other executions
     socket.on("execution_status", (status: ExecutionStatus) => {
+      if (status.executionId !== executionId) return;
       setExecutionStatus(status);
     });
 
@@ -66,7 +66,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { executionService } from "@/lib/services/execution-service";
-import { workflowsApi, executionsApi, type NodeExecution as ApiNodeExecution, type NodeLog as ApiNodeLog } from "@/lib/services/api";
+import { workflowsApi, executionsApi, type NodeExecution as ApiNodeExecution, type NodeExecutionAttempt, type NodeLog as ApiNodeLog } from "@/lib/services/api";
 
 // Types
 interface NodeExecution {
@@ -79,6 +79,7 @@ interface NodeExecution {
   duration?: number;
   error?: string | null;
   logs?: LogEntry[];
+  attempts?: NodeExecutionAttempt[];
 }
 
 interface LogEntry {
@@ -106,6 +107,7 @@ interface TimelineDataPoint {
   start: number;
   duration: number;
   status: string;
+  attempts: number;
 }
 
 interface WorkflowNode {
@@ -213,6 +215,7 @@ export default function WorkflowTimeline({
                 started_at: nodeExec.started_at,
                 completed_at: nodeExec.completed_at,
                 error: nodeExec.error,
+                attempts: nodeExec.attempts ?? [],
                 logs: logs.map((log: ApiNodeLog, logIndex: number) => ({
                   id: `${nodeExecutionId}-log-${logIndex}`,
                   node_id: nodeExec.node_id,
@@ -232,6 +235,7 @@ export default function WorkflowTimeline({
                 started_at: nodeExec.started_at,
                 completed_at: nodeExec.completed_at,
                 error: nodeExec.error,
+                attempts: nodeExec.attempts ?? [],
                 logs: [],
               };
             }
@@ -305,6 +309,7 @@ export default function WorkflowTimeline({
           start,
           duration,
           status: node.status,
+          attempts: node.attempts?.length ?? 0,
         };
       })
       .sort((a, b) => a.start - b.start);
@@ -363,6 +368,12 @@ export default function WorkflowTimeline({
             Completed
           </Badge>
         );
+      case "completed_with_errors":
+        return (
+          <Badge className='bg-orange-100 text-orange-800 hover:bg-orange-200'>
+            Completed with errors
+          </Badge>
+        );
       case "failed":
         return (
           <Badge className='bg-red-100 text-red-800 hover:bg-red-200'>
@@ -418,6 +429,9 @@ export default function WorkflowTimeline({
           <p className='text-sm text-gray-500'>
             Duration: {formatDuration(data.duration)}
           </p>
+          {data.attempts > 1 && (
+            <p className='text-sm text-gray-500'>Attempts: {data.attempts}</p>
+          )}
           <p className='text-sm mt-1 flex items-center gap-1'>
             Status: {getStatusBadge(data.status)}
           </p>
@@ -963,6 +977,55 @@ export default function WorkflowTimeline({
               </Collapsible>
             )}
 
+            {(getSelectedNodeExecution()?.attempts?.length ?? 0) > 0 && (
+              <div className='border rounded-md mb-4'>
+                <div className='p-2 bg-muted flex items-center justify-between'>
+                  <h3 className='text-sm font-medium'>Attempts</h3>
+                  <Badge variant='outline' className='text-xs'>
+                    {getSelectedNodeExecution()!.attempts!.length}
+                  </Badge>
+                </div>
+
+                <ul className='divide-y'>
+                  {getSelectedNodeExecution()!.attempts!.map((attempt) => (
+                    <li key={attempt.attempt} className='p-2'>
+                      <div className='flex items-center justify-between gap-2'>
+                        <div className='flex items-center gap-2'>
+                          <span className='text-xs font-mono text-muted-foreground'>
+                            #{attempt.attempt}
+                          </span>
+                          {getStatusBadge(attempt.status)}
+                          {attempt.error_type && (
+                            <Badge variant='outline' className='text-[10px] px-1'>
+                              {attempt.error_type}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className='flex items-center gap-2 text-xs text-muted-foreground'>
+                          <Clock className='h-3 w-3' />
+                          <span>
+                            {format(new Date(attempt.started_at), "HH:mm:ss")}
+                          </span>
+                          <span>{formatDuration(attempt.duration_ms)}</span>
+                          {attempt.retry_delay_ms != null && (
+                            <span>
+                              retried after{" "}
+                              {formatDuration(attempt.retry_delay_ms)}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {attempt.error && (
+                        <p className='text-xs text-red-600 mt-1'>
+                          {attempt.error}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className='border rounded-md'>
               <div className='p-2 bg-muted flex items-center justify-between'>
                 <h3 className='text-sm font-medium'>Node Logs</h3>
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from "react";
 import { io, Socket } from "socket.io-client";
 import { config } from "@/lib/config";
+import useAuthStore from "@/lib/store/auth-store";
 
 export interface NodeExecutionUpdate {
   executionId: string;
@@ -126,6 +127,8 @@ export function useExecutionWebSocket({
     const socket = io(
       process.env.NEXT_PUBLIC_WORKER_WS_URL || "ws://localhost:3009/execution",
       {
+        // Read on every (re)connect so a refreshed token is used
+        auth: (cb) => cb({ token: useAuthStore.getState().token.accessToken }),
         transports: ["websocket"],
         timeout: 10000,
         forceNew: false,
@@ -210,6 +213,11 @@ export function useExecutionWebSocket({
       console.log("WebSocket subscription confirmed:", data);
     });
 
+    socket.on("subscription_error", (data) => {
+      console.error("WebSocket subscription rejected:", data);
+      setConnectionError(data.message);
+    });
+
 
     // Execution event handlers using current handlers from ref
     socket.on("execution_started", (data) => {
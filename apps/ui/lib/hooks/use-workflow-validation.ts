@@ -61,10 +61,11 @@ export function useWorkflowValidation() {
         };
       }
 
-      // Check webhook nodes for URLs
+      // Check outbound webhook nodes for URLs; entry webhooks receive requests
       const invalidWebhookNodes = nodes.filter(
         (node) =>
           node.data.blockType === BlockType.WEBHOOK &&
+          edges.some((edge) => edge.target === node.id) &&
           (!node.data.config?.url || !node.data.config.url.trim())
       );
 
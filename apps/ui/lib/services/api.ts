@@ -31,6 +31,19 @@ export interface NodeExecution {
   error: string | null;
   input_data: Record<string, unknown>;
   output_data: Record<string, unknown>;
+  retry_count?: number;
+  attempts?: NodeExecutionAttempt[];
+}
+
+export interface NodeExecutionAttempt {
+  attempt: number;
+  status: string;
+  error_type?: string;
+  error?: string;
+  retry_delay_ms?: number;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
 }
 
 export interface NodeLog {
@@ -46,6 +59,7 @@ export interface Workflow {
   description?: string;
   nodes: Record<string, unknown>[];
   edges: Record<string, unknown>[];
+  teamId?: string;
   createdAt: string;
   updatedAt: string;
 }
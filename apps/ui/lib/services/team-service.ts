@@ -1,42 +1,47 @@
-import { createClient } from "@/lib/supabase/server"
+import api from "./api"
 
-export type TeamRole = "owner" | "admin" | "member"
+export type TeamRole = "owner" | "editor" | "executor" | "viewer"
 
 export interface Team {
   id: string
   name: string
   description?: string
-  logo_url?: string
-  created_at: string
-  updated_at: string
-  created_by: string
+  createdBy: string
+  role: TeamRole
+  memberCount: number
+  createdAt?: string
+  updatedAt?: string
 }
 
 export interface TeamMember {
-  id: string
-  team_id: string
-  user_id: string
-  role: TeamRole
-  created_at: string
-  // Joined fields from profiles
-  full_name?: string
+  userId: string
   email?: string
+  role: TeamRole
+  joinedAt?: string
 }
 
 export interface TeamWithMembers extends Team {
   members: TeamMember[]
 }
 
+export interface TeamWorkflow {
+  id: string
+  name: string
+  description?: string
+  userId: string
+  teamId?: string
+  version: number
+  updatedAt?: string
+}
+
 export interface CreateTeamInput {
   name: string
   description?: string
-  logo_url?: string
 }
 
 export interface UpdateTeamInput {
   name?: string
   description?: string
-  logo_url?: string
 }
 
 export interface InviteTeamMemberInput {
@@ -45,28 +50,10 @@ export interface InviteTeamMemberInput {
 }
 
 export class TeamService {
-  private supabase = createClient()
-
   async getUserTeams(): Promise<Team[]> {
     try {
-      const user = (await this.supabase.auth.getUser()).data.user
-
-      if (!user) {
-        throw new Error("User not authenticated")
-      }
-
-      const { data, error } = await this.supabase
-        .from("teams")
-        .select("*, team_members!inner(user_id)")
-        .eq("team_members.user_id", user.id)
-        .order("created_at", { ascending: false })
-
-      if (error) {
-        throw error
-      }
-
-      // Remove the team_members field from the response
-      return data.map(({ team_members, ...team }) => team)
+      const response = await api.get("/teams")
+      return response.data
     } catch (error) {
       console.error("Error fetching user teams:", error)
       throw error
@@ -75,100 +62,38 @@ export class TeamService {
 
   async getTeam(teamId: string): Promise<TeamWithMembers> {
     try {
-      // Get team details
-      const { data: team, error: teamError } = await this.supabase.from("teams").select("*").eq("id", teamId).single()
-
-      if (teamError) {
-        throw teamError
-      }
-
-      // Get team members with profile information
-      const { data: members, error: membersError } = await this.supabase
-        .from("team_members")
-        .select(`
-          id, team_id, user_id, role, created_at,
-          profiles:user_id (full_name, email)
-        `)
-        .eq("team_id", teamId)
-
-      if (membersError) {
-        throw membersError
-      }
-
-      // Format the members data
-      const formattedMembers = members.map((member) => ({
-        id: member.id,
-        team_id: member.team_id,
-        user_id: member.user_id,
-        role: member.role,
-        created_at: member.created_at,
-        full_name: member.profiles?.full_name,
-        email: member.profiles?.email,
-      }))
-
-      return {
-        ...team,
-        members: formattedMembers,
-      }
+      const response = await api.get(`/teams/${teamId}`)
+      return response.data
     } catch (error) {
       console.error("Error fetching team:", error)
       throw error
     }
   }
 
-  async createTeam(input: CreateTeamInput): Promise<Team> {
+  async getTeamWorkflows(teamId: string): Promise<TeamWorkflow[]> {
     try {
-      const user = (await this.supabase.auth.getUser()).data.user
-
-      if (!user) {
-        throw new Error("User not authenticated")
-      }
-
-      // Create the team
-      const { data: team, error: teamError } = await this.supabase
-        .from("teams")
-        .insert({
-          name: input.name,
-          description: input.description,
-          logo_url: input.logo_url,
-          created_by: user.id,
-        })
-        .select()
-        .single()
-
-      if (teamError) {
-        throw teamError
-      }
-
-      // Add the creator as an owner
-      const { error: memberError } = await this.supabase.from("team_members").insert({
-        team_id: team.id,
-        user_id: user.id,
-        role: "owner",
-      })
-
-      if (memberError) {
-        // Rollback by deleting the team
-        await this.supabase.from("teams").delete().eq("id", team.id)
-        throw memberError
-      }
-
-      return team
+      const response = await api.get(`/teams/${teamId}/workflows`)
+      return response.data
     } catch (error) {
-      console.error("Error creating team:", error)
+      console.error("Error fetching team workflows:", error)
       throw error
     }
   }
 
-  async updateTeam(teamId: string, input: UpdateTeamInput): Promise<Team> {
+  async createTeam(input: CreateTeamInput): Promise<TeamWithMembers> {
     try {
-      const { data, error } = await this.supabase.from("teams").update(input).eq("id", teamId).select().single()
-
-      if (error) {
-        throw error
-      }
+      const response = await api.post("/teams", input)
+      return response.data
+    } catch (error) {
+      console.error("Error creating team:", error)
+      throw error
+    }
+  }
 
-      return data
+  async updateTeam(teamId: string, input: UpdateTeamInput): Promise<TeamWithMembers> {
+    try {
+      const response = await api.put(`/teams/${teamId}`, input)
+      return response.data
     } catch (error) {
       console.error("Error updating team:", error)
       throw error
@@ -177,68 +102,36 @@ export class TeamService {
 
   async deleteTeam(teamId: string): Promise<void> {
     try {
-      const { error } = await this.supabase.from("teams").delete().eq("id", teamId)
-
-      if (error) {
-        throw error
-      }
+      await api.delete(`/teams/${teamId}`)
     } catch (error) {
       console.error("Error deleting team:", error)
       throw error
     }
   }
 
-  async inviteTeamMember(teamId: string, input: InviteTeamMemberInput): Promise<void> {
+  async inviteTeamMember(teamId: string, input: InviteTeamMemberInput): Promise<TeamMember> {
     try {
-      // Check if user exists
-      const { data: user, error: userError } = await this.supabase
-        .from("profiles")
-        .select("id")
-        .eq("email", input.email)
-        .single()
-
-      if (userError) {
-        // User doesn't exist, send an invitation email
-        // This would typically be handled by a serverless function
-        throw new Error("User not found. Invitation emails not implemented yet.")
-      }
-
-      // Add user to team
-      const { error } = await this.supabase.from("team_members").insert({
-        team_id: teamId,
-        user_id: user.id,
-        role: input.role,
-      })
-
-      if (error) {
-        throw error
-      }
+      const response = await api.post(`/teams/${teamId}/members`, input)
+      return response.data
     } catch (error) {
       console.error("Error inviting team member:", error)
       throw error
     }
   }
 
-  async updateTeamMemberRole(teamMemberId: string, role: TeamRole): Promise<void> {
+  async updateTeamMemberRole(teamId: string, userId: string, role: TeamRole): Promise<TeamMember> {
     try {
-      const { error } = await this.supabase.from("team_members").update({ role }).eq("id", teamMemberId)
-
-      if (error) {
-        throw error
-      }
+      const response = await api.put(`/teams/${teamId}/members/${userId}`, { role })
+      return response.data
     } catch (error) {
       console.error("Error updating team member role:", error)
       throw error
     }
   }
 
-  async removeTeamMember(teamMemberId: string): Promise<void> {
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
     try {
-      const { error } = await this.supabase.from("team_members").delete().eq("id", teamMemberId)
-
-      if (error) {
-        throw error
-      }
+      await api.delete(`/teams/${teamId}/members/${userId}`)
     } catch (error) {
       console.error("Error removing team member:", error)
       throw error
@@ -8,10 +8,10 @@ import { ConfigModule } from '@nestjs/config';
 import { NotificationModule } from './services/notification.module';
 import { ExecutionWorker } from './workers/execution-worker';
 import { DatabaseModule } from './services/database.module';
-import { RabbitMQService } from './services/rabbitmq.service';
 import { MagicModule } from './services/magic.module';
 import { ExecutionGateway } from './gateways/execution.gateway';
 import { ExecutionMonitorService } from './services/execution-monitor.service';
+import { WalletListenerService } from './services/wallet-listener.service';
 import { BlockchainModule } from './lib/blockchain/BlockchainModule';
 
 // Exception Filters
@@ -70,7 +70,7 @@ const configValidationSchema = {
   providers: [
     AppService,
     ExecutionWorker,
-    RabbitMQService,
+    WalletListenerService,
     // Exception filters
     {
       provide: APP_FILTER,
@@ -93,7 +93,7 @@ const configValidationSchema = {
       useExisting: ExecutionGateway,
     },
   ],
-  exports: [RabbitMQService, 'CONFIG'],
+  exports: ['CONFIG'],
 })
 export class AppModule {
   private readonly logger = new Logger(AppModule.name);
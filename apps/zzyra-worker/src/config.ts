@@ -11,6 +11,8 @@ export const AMQP_CONNECTION = 'AMQP_CONNECTION';
 export const EXECUTION_QUEUE = 'ZYRA.EXECUTION_QUEUE';
 export const EXECUTION_DLQ = 'ZYRA.EXECUTION_QUEUE.DLQ'; // Dead Letter Queue
 export const EXECUTION_RETRY_QUEUE = 'ZYRA.EXECUTION_QUEUE.RETRY'; // Retry Queue
+// Timers of WAIT blocks; expired messages move to the execution queue
+export const EXECUTION_WAIT_QUEUE = 'ZYRA.EXECUTION_QUEUE.WAIT';
 
 // Circuit breaker settings
 export const CIRCUIT_BREAKER = {
@@ -33,6 +35,14 @@ export const queueOptions: (ExtendedQueueOptions & {
     },
   },
   { name: EXECUTION_RETRY_QUEUE, durable: true },
+  {
+    name: EXECUTION_WAIT_QUEUE,
+    durable: true,
+    options: {
+      deadLetterExchange: '',
+      deadLetterRoutingKey: EXECUTION_QUEUE,
+    },
+  },
   { name: EXECUTION_DLQ, durable: true }, // No dead-letter options for DLQ
 ];
 
@@ -46,6 +56,72 @@ export const WORKFLOW_SETTINGS = {
   maxRetries: Number(process.env.MAX_NODE_RETRIES || 3),
 };
 
+// Approval settings for transactions
+export const APPROVAL_SETTINGS = {
+  // Transactions above this amount get an APPROVAL step; unset disables it
+  amountThreshold: process.env.APPROVAL_AMOUNT_THRESHOLD
+    ? Number(process.env.APPROVAL_AMOUNT_THRESHOLD)
+    : undefined,
+  timeoutMinutes: Number(process.env.APPROVAL_TIMEOUT_MINUTES || 60),
+};
+
+// Limits of the isolated runtime custom block code runs in
+export const CUSTOM_BLOCK_SANDBOX = {
+  timeoutMs: Number(process.env.CUSTOM_BLOCK_TIMEOUT_MS || 10000),
+  memoryLimitMb: Number(process.env.CUSTOM_BLOCK_MEMORY_MB || 64),
+  // Hosts block code may fetch from, e.g. "api.coingecko.com,*.example.com";
+  // empty denies all network access
+  fetchAllowList: (process.env.CUSTOM_BLOCK_FETCH_ALLOWLIST || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+};
+
+// RPC endpoints of wallet listeners
+export const WALLET_LISTENER_SETTINGS = {
+  // Hosts the rpcUrl of a listener may point at, e.g. "*.alchemy.com"; the
+  // configured endpoint of each chain is always allowed
+  rpcAllowList: (process.env.WALLET_LISTENER_RPC_ALLOWLIST || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+};
+
+// Runs over the concurrent run limit of their plan are tried again after
+// this delay instead of failing
+export const CONCURRENT_RUN_SETTINGS = {
+  retryDelayMs: Number(process.env.CONCURRENT_RUN_RETRY_MS || 15000),
+};
+
+// Limits of FOR_EACH blocks
+export const FOR_EACH_SETTINGS = {
+  maxItems: Number(process.env.FOR_EACH_MAX_ITEMS || 1000),
+  maxConcurrency: Number(process.env.FOR_EACH_MAX_CONCURRENCY || 10),
+  defaultBatchSize: Number(process.env.FOR_EACH_BATCH_SIZE || 10),
+};
+
+// Limits of runs started by EXECUTE_WORKFLOW blocks
+export const SUB_WORKFLOW_SETTINGS = {
+  // A run started by another run is one level deeper than its caller
+  maxDepth: Number(process.env.SUB_WORKFLOW_MAX_DEPTH || 5),
+};
+
+// Timers of WAIT blocks
+export const WAIT_SETTINGS = {
+  // Longest TTL of a timer message. Messages only expire at the head of the
+  // queue, so longer waits are split into hops to keep timers from being
+  // held up by later ones.
+  timerHopMs: Number(process.env.WAIT_TIMER_HOP_MS || 60000),
+  maxWaitDays: Number(process.env.WAIT_MAX_DAYS || 30),
+};
+
+// Authentication of execution WebSocket clients
+export const WEBSOCKET_AUTH = {
+  // Same secret the API signs its tokens with; the worker does not start
+  // without it
+  jwtSecret: process.env.JWT_SECRET,
+};
+
 // Account Abstraction settings
 export const AA_CONFIG = {
   // ZeroDev bundler and paymaster URLs for V1 dashboard (v2 API for SEI)
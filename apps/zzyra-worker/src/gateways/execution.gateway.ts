@@ -11,7 +11,24 @@ import {
 import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Server, Socket } from 'socket.io';
+import { hasTeamPermission } from '@zzyra/database';
+import { WEBSOCKET_AUTH } from '../config';
 import { DatabaseService } from '../services/database.service';
+import {
+  getExecutionRoom,
+  getHandshakeToken,
+  getUserRoom,
+  SocketUser,
+  verifySocketToken,
+} from './socket-auth';
+
+// Statuses after which an execution no longer changes
+const FINAL_STATUSES = new Set([
+  'completed',
+  'completed_with_errors',
+  'failed',
+  'cancelled',
+]);
 
 @WebSocketGateway({
   cors: {
@@ -31,6 +48,7 @@ export class ExecutionGateway
   @WebSocketServer() server: Server;
   private logger: Logger;
   private executionSubscriptions: Map<string, Set<string>>; // executionId -> socket IDs
+  private executionOwners = new Map<string, string>(); // executionId -> user ID
 
   constructor(
     private readonly configService: ConfigService,
@@ -38,14 +56,42 @@ export class ExecutionGateway
   ) {
     this.logger = new Logger('ExecutionGateway');
     this.executionSubscriptions = new Map();
+
+    if (!WEBSOCKET_AUTH.jwtSecret) {
+      throw new Error(
+        'JWT_SECRET environment variable is required to authenticate execution WebSocket clients',
+      );
+    }
   }
 
   afterInit(server: Server) {
+    // Only clients with a token the API issued can connect
+    server.use((client, next) => {
+      const token = getHandshakeToken(client.handshake);
+      if (!token) {
+        return next(new Error('Authentication token required'));
+      }
+      try {
+        client.data.user = verifySocketToken(token, WEBSOCKET_AUTH.jwtSecret);
+        next();
+      } catch (error) {
+        this.logger.warn(
+          `Rejected execution client ${client.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        next(new Error('Invalid authentication token'));
+      }
+    });
     this.logger.log('Execution WebSocket Gateway initialized');
   }
 
   handleConnection(client: Socket, ...args: any[]) {
-    this.logger.log(`Execution client connected: ${client.id}`);
+    const user: SocketUser = client.data.user;
+    this.logger.log(
+      `Execution client connected: ${client.id} (user ${user.id})`,
+    );
+
+    // Status updates of all executions of the user
+    client.join(getUserRoom(user.id));
   }
 
   handleDisconnect(client: Socket) {
@@ -68,18 +114,28 @@ export class ExecutionGateway
     @MessageBody() data: { executionId: string },
     @ConnectedSocket() client: Socket,
   ) {
-    const { executionId } = data;
+    const executionId = data?.executionId;
+    const user: SocketUser = client.data.user;
     this.logger.log(
       `Client ${client.id} subscribing to execution ${executionId}`,
     );
 
+    if (!executionId || !(await this.canViewExecution(executionId, user.id))) {
+      // Same answer for executions that do not exist, so ids cannot be probed
+      client.emit('subscription_error', {
+        executionId,
+        message: 'Execution not found',
+      });
+      return;
+    }
+
     if (!this.executionSubscriptions.has(executionId)) {
       this.executionSubscriptions.set(executionId, new Set());
     }
     this.executionSubscriptions.get(executionId).add(client.id);
 
     // Join execution-specific room
-    client.join(`execution:${executionId}`);
+    client.join(getExecutionRoom(executionId));
 
     // Send initial connection confirmation
     client.emit('connected', {
@@ -106,13 +162,78 @@ export class ExecutionGateway
     }
 
     // Leave execution-specific room
-    client.leave(`execution:${executionId}`);
+    client.leave(getExecutionRoom(executionId));
+  }
+
+  /**
+   * The user who started an execution can watch it, as can the owner of the
+   * workflow and members of the team that owns it whose role allows viewing
+   */
+  private async canViewExecution(
+    executionId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const execution =
+      await this.databaseService.prisma.workflowExecution.findUnique({
+        where: { id: executionId },
+        select: {
+          userId: true,
+          workflow: { select: { userId: true, teamId: true } },
+        },
+      });
+    if (!execution) return false;
+    if (execution.userId === userId) return true;
+    if (execution.workflow?.userId === userId) return true;
+    if (!execution.workflow?.teamId) return false;
+
+    const member = await this.databaseService.prisma.teamMember.findUnique({
+      where: {
+        teamId_userId: { teamId: execution.workflow.teamId, userId },
+      },
+      select: { role: true },
+    });
+    return hasTeamPermission(member?.role, 'view');
+  }
+
+  private async getExecutionOwner(executionId: string): Promise<string> {
+    const cached = this.executionOwners.get(executionId);
+    if (cached) return cached;
+
+    const execution =
+      await this.databaseService.prisma.workflowExecution.findUnique({
+        where: { id: executionId },
+        select: { userId: true },
+      });
+    if (execution?.userId) {
+      this.executionOwners.set(executionId, execution.userId);
+    }
+    return execution?.userId;
   }
 
   // Methods to emit execution events from ExecutionMonitorService
+
+  /**
+   * Send a status change to the room of the user who started the execution,
+   * so dashboards see all their executions without subscribing to each
+   */
+  async emitExecutionStatus(
+    executionId: string,
+    status: { status: string; [key: string]: any },
+  ) {
+    if (!this.server) return;
+
+    const userId = await this.getExecutionOwner(executionId);
+    if (FINAL_STATUSES.has(status.status)) {
+      this.executionOwners.delete(executionId);
+    }
+    if (!userId) return;
+
+    this.server.to(getUserRoom(userId)).emit('execution_status', status);
+  }
+
   emitExecutionStarted(executionId: string, status: any) {
     this.server
-      .to(`execution:${executionId}`)
+      .to(getExecutionRoom(executionId))
       .emit('execution_started', status);
   }
 
@@ -129,32 +250,34 @@ export class ExecutionGateway
       update,
     );
     this.server
-      .to(`execution:${executionId}`)
+      .to(getExecutionRoom(executionId))
       .emit('node_execution_update', update);
     this.logger.log(`✅ WEBSOCKET EMIT: Node update sent successfully`);
   }
 
   emitExecutionCompleted(executionId: string, result: any) {
     this.server
-      .to(`execution:${executionId}`)
+      .to(getExecutionRoom(executionId))
       .emit('execution_completed', result);
   }
 
   emitExecutionFailed(executionId: string, error: any) {
-    this.server.to(`execution:${executionId}`).emit('execution_failed', error);
+    this.server
+      .to(getExecutionRoom(executionId))
+      .emit('execution_failed', error);
   }
 
   emitExecutionLog(executionId: string, log: any) {
-    this.server.to(`execution:${executionId}`).emit('execution_log', log);
+    this.server.to(getExecutionRoom(executionId)).emit('execution_log', log);
   }
 
   emitExecutionMetrics(executionId: string, metrics: any) {
     this.server
-      .to(`execution:${executionId}`)
+      .to(getExecutionRoom(executionId))
       .emit('execution_metrics', metrics);
   }
 
   emitEdgeFlow(executionId: string, edgeFlow: any) {
-    this.server.to(`execution:${executionId}`).emit('edge_flow', edgeFlow);
+    this.server.to(getExecutionRoom(executionId)).emit('edge_flow', edgeFlow);
   }
 }
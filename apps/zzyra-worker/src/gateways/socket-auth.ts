@@ -0,0 +1,80 @@
+import * as jwt from 'jsonwebtoken';
+
+// The user a socket connected as
+export interface SocketUser {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+// The parts of a socket.io handshake a token can come in
+export interface SocketHandshake {
+  auth?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+// Cookies the API reads session tokens from, in order
+const TOKEN_COOKIES = [
+  'next-auth.session-token',
+  '__Secure-next-auth.session-token',
+  'token',
+];
+
+export const getUserRoom = (userId: string) => `user:${userId}`;
+
+export const getExecutionRoom = (executionId: string) =>
+  `execution:${executionId}`;
+
+const getHeader = (
+  handshake: SocketHandshake,
+  name: string,
+): string | undefined => {
+  const value = handshake.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const parseCookies = (header = ''): Record<string, string> =>
+  Object.fromEntries(
+    header
+      .split(';')
+      .map((pair) => pair.trim())
+      .filter((pair) => pair.includes('='))
+      .map((pair) => {
+        const index = pair.indexOf('=');
+        return [
+          pair.slice(0, index),
+          decodeURIComponent(pair.slice(index + 1)),
+        ];
+      }),
+  );
+
+/**
+ * Find the token of a handshake: `auth.token` as browsers send it, else the
+ * Authorization header or session cookies the API's JwtStrategy reads
+ */
+export function getHandshakeToken(handshake: SocketHandshake): string | null {
+  const authToken = handshake.auth?.token;
+  if (typeof authToken === 'string' && authToken.trim()) {
+    return authToken.trim().replace(/^Bearer\s+/i, '');
+  }
+
+  const authorization = getHeader(handshake, 'authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookies = parseCookies(getHeader(handshake, 'cookie'));
+  const cookie = TOKEN_COOKIES.find((name) => cookies[name]);
+  return cookie ? cookies[cookie] : null;
+}
+
+/**
+ * Verify a token signed by the API and read the user it was issued to
+ */
+export function verifySocketToken(token: string, secret: string): SocketUser {
+  const payload = jwt.verify(token, secret);
+  if (typeof payload !== 'object' || typeof payload.sub !== 'string') {
+    throw new Error('Token has no subject');
+  }
+  return { id: payload.sub, email: payload.email, name: payload.name };
+}
@@ -0,0 +1,487 @@
+import { EXPRESSION_FUNCTIONS, ExpressionFunction } from './functions';
+import { ExpressionError } from './lexer';
+import {
+  ExpressionNode,
+  parseExpression,
+  parseTemplate,
+  TemplatePart,
+  walkExpression,
+} from './parser';
+
+/**
+ * What the names of an expression resolve to
+ */
+export interface ExpressionScope {
+  // `json`, and names that are not one of the roots below
+  json?: unknown;
+  // Outputs of the previous nodes by node id, in execution order
+  outputs?: Record<string, unknown>;
+  // Labels of the workflow nodes by node id, so `nodes` accepts either
+  nodeLabels?: Record<string, string>;
+  // `ctx`
+  context?: unknown;
+}
+
+/**
+ * Candidates a name or path may resolve to, first match wins. Outputs of
+ * blocks such as the AI agent nest their fields one level down, so a node
+ * output is searched along with the objects it holds.
+ */
+class Lookup {
+  constructor(readonly candidates: unknown[]) {}
+
+  get(key: string | number): Lookup {
+    return new Lookup(
+      this.candidates
+        .map((candidate) => getProperty(candidate, key))
+        .filter((value) => value !== undefined),
+    );
+  }
+}
+
+class NodeOutputs {
+  constructor(private readonly scope: ExpressionScope) {}
+
+  get(key: string | number): Lookup {
+    const outputs = this.scope.outputs ?? {};
+    const id =
+      String(key) in outputs
+        ? String(key)
+        : Object.keys(outputs).find(
+            (nodeId) => this.scope.nodeLabels?.[nodeId] === String(key),
+          );
+    return id === undefined ? new Lookup([]) : outputLookup([outputs[id]]);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return this.scope.outputs ?? {};
+  }
+}
+
+function outputLookup(outputs: unknown[]): Lookup {
+  return new Lookup(
+    outputs.flatMap((output) => [
+      output,
+      ...(output && typeof output === 'object' && !Array.isArray(output)
+        ? Object.values(output).filter(
+            (value) =>
+              value && typeof value === 'object' && !Array.isArray(value),
+          )
+        : []),
+    ]),
+  );
+}
+
+/**
+ * Read a property the way expressions may: own properties of objects,
+ * indexes and length of arrays and strings, and nothing of prototypes.
+ */
+function getProperty(value: unknown, key: string | number): unknown {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string' || Array.isArray(value)) {
+    if (key === 'length') {
+      return value.length;
+    }
+    const index = Number(key);
+    return Number.isInteger(index) ? value[index] : undefined;
+  }
+  if (typeof value === 'object') {
+    return Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }
+  return undefined;
+}
+
+function getFunction(name: string): ExpressionFunction | undefined {
+  const key = name.slice(1);
+  return Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, key)
+    ? EXPRESSION_FUNCTIONS[key]
+    : undefined;
+}
+
+function unwrap(value: unknown): unknown {
+  if (value instanceof Lookup) {
+    return value.candidates[0];
+  }
+  if (value instanceof NodeOutputs) {
+    return value.toJSON();
+  }
+  return value;
+}
+
+function resolveIdentifier(name: string, scope: ExpressionScope): unknown {
+  const outputs = Object.values(scope.outputs ?? {});
+  switch (name) {
+    case 'json':
+      return scope.json;
+    case 'ctx':
+      return scope.context;
+    case 'nodes':
+      return new NodeOutputs(scope);
+    case 'previous':
+      return outputLookup(outputs.slice(-1));
+    case 'data':
+      return new Lookup([...outputLookup(outputs).candidates, scope.json]);
+    default:
+      return getProperty(scope.json, name);
+  }
+}
+
+function toNumeric(
+  value: unknown,
+  operator: string,
+  position: number,
+): number | bigint {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    if (!Number.isNaN(number)) {
+      return number;
+    }
+  }
+  throw new ExpressionError(
+    `Operator '${operator}' expects numbers, got ${describe(value)}`,
+    position,
+  );
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return `'${value.length > 20 ? value.slice(0, 20) + '…' : value}'`;
+  }
+  return Array.isArray(value) ? 'an array' : typeof value;
+}
+
+/**
+ * Numbers and bigints mixed in one operation; integer numbers are promoted
+ * so amounts in base units keep their precision.
+ */
+function arithmetic(
+  operator: string,
+  left: number | bigint,
+  right: number | bigint,
+  position: number,
+): number | bigint {
+  if (typeof left !== typeof right) {
+    const integers = [left, right].every(
+      (value) => typeof value === 'bigint' || Number.isInteger(value),
+    );
+    left = integers ? BigInt(left) : Number(left);
+    right = integers ? BigInt(right) : Number(right);
+  }
+  if ((operator === '/' || operator === '%') && Number(right) === 0) {
+    throw new ExpressionError('Division by zero', position);
+  }
+  const [a, b] = [left, right] as [any, any];
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return a / b;
+    default:
+      return a % b;
+  }
+}
+
+function isNumeric(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    typeof value === 'bigint' ||
+    (typeof value === 'string' &&
+      value.trim() !== '' &&
+      !Number.isNaN(Number(value)))
+  );
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  // "5" == 5 holds, as values read from JSON and forms are often strings
+  if (
+    typeof left !== typeof right &&
+    isNumeric(left) &&
+    isNumeric(right) &&
+    (typeof left !== 'string' || typeof right !== 'string')
+  ) {
+    return Number(left) === Number(right);
+  }
+  return left === right || (left == null && right == null);
+}
+
+function compare(
+  operator: string,
+  left: unknown,
+  right: unknown,
+  position: number,
+): boolean {
+  const [a, b] = (
+    typeof left === 'string' && typeof right === 'string'
+      ? [left, right]
+      : [
+          toNumeric(left, operator, position),
+          toNumeric(right, operator, position),
+        ]
+  ) as [any, any];
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return resolveIdentifier(node.name, scope);
+
+    case 'array':
+      return node.elements.map((element) =>
+        unwrap(evaluateNode(element, scope)),
+      );
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope);
+      const key = unwrap(evaluateNode(node.property, scope));
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new ExpressionError(
+          `Property names must be strings or numbers, got ${describe(key)}`,
+          node.property.position,
+        );
+      }
+      return object instanceof Lookup || object instanceof NodeOutputs
+        ? object.get(key)
+        : getProperty(object, key);
+    }
+
+    case 'call': {
+      const fn = getFunction(node.name);
+      if (!fn) {
+        throw new ExpressionError(
+          `Unknown function '${node.name}'`,
+          node.position,
+        );
+      }
+      const args = node.args.map((arg) => unwrap(evaluateNode(arg, scope)));
+      try {
+        return fn(...args);
+      } catch (error) {
+        throw new ExpressionError(
+          error instanceof Error ? error.message : String(error),
+          node.position,
+        );
+      }
+    }
+
+    case 'unary': {
+      const value = unwrap(evaluateNode(node.argument, scope));
+      if (node.operator === '!') {
+        return !value;
+      }
+      const number = toNumeric(value, node.operator, node.position);
+      return node.operator === '-' ? -number : number;
+    }
+
+    case 'conditional':
+      return unwrap(evaluateNode(node.test, scope))
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'binary': {
+      const left = unwrap(evaluateNode(node.left, scope));
+      switch (node.operator) {
+        case '&&':
+          return left ? unwrap(evaluateNode(node.right, scope)) : left;
+        case '||':
+          return left ? left : unwrap(evaluateNode(node.right, scope));
+        case '??':
+          return left ?? unwrap(evaluateNode(node.right, scope));
+      }
+
+      const right = unwrap(evaluateNode(node.right, scope));
+      switch (node.operator) {
+        case '==':
+        case '===':
+          return equals(left, right);
+        case '!=':
+        case '!==':
+          return !equals(left, right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          return compare(node.operator, left, right, node.position);
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') {
+            return stringifyValue(left) + stringifyValue(right);
+          }
+      }
+      return arithmetic(
+        node.operator,
+        toNumeric(left, node.operator, node.position),
+        toNumeric(right, node.operator, node.position),
+        node.position,
+      );
+    }
+  }
+}
+
+/**
+ * Text of a value where it is interpolated into a template
+ */
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_key, item) =>
+      typeof item === 'bigint' ? item.toString() : item,
+    );
+  }
+  return String(value);
+}
+
+function assertFunctionsExist(expression: ExpressionNode): void {
+  walkExpression(expression, (node) => {
+    if (node.type === 'call' && !getFunction(node.name)) {
+      throw new ExpressionError(
+        `Unknown function '${node.name}'`,
+        node.position,
+      );
+    }
+  });
+}
+
+/**
+ * Parse a template and check that the functions it calls exist
+ */
+export function compileTemplate(template: string): TemplatePart[] {
+  const parts = parseTemplate(template);
+  for (const part of parts) {
+    if (typeof part !== 'string') {
+      assertFunctionsExist(part.expression);
+    }
+  }
+  return parts;
+}
+
+/**
+ * The paths a template reads, such as `json.amount` or `nodes["price"].usd`
+ */
+export function getTemplateReferences(template: string): string[] {
+  const references = new Set<string>();
+  const toPath = (node: ExpressionNode): string | undefined => {
+    if (node.type === 'identifier') {
+      return node.name;
+    }
+    if (node.type !== 'member') {
+      return undefined;
+    }
+    const object = toPath(node.object);
+    if (object === undefined || node.property.type !== 'literal') {
+      return object;
+    }
+    const key = node.property.value;
+    return typeof key === 'string' && /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+      ? `${object}.${key}`
+      : `${object}[${JSON.stringify(key)}]`;
+  };
+  const visit = (node: ExpressionNode): void => {
+    switch (node.type) {
+      case 'identifier':
+        references.add(node.name);
+        break;
+      case 'member': {
+        const path = toPath(node);
+        if (path === undefined) {
+          visit(node.object);
+        } else {
+          references.add(path);
+        }
+        // Computed keys may read values of their own
+        if (node.property.type !== 'literal') {
+          visit(node.property);
+        }
+        break;
+      }
+      case 'call':
+        node.args.forEach(visit);
+        break;
+      case 'array':
+        node.elements.forEach(visit);
+        break;
+      case 'unary':
+        visit(node.argument);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+    }
+  };
+  for (const part of parseTemplate(template)) {
+    if (typeof part !== 'string') {
+      visit(part.expression);
+    }
+  }
+  return [...references];
+}
+
+/**
+ * Evaluate a template. A template that is a single {{ expression }} keeps
+ * the type of its value; anything else is interpolated into a string.
+ */
+export function evaluateTemplate(
+  template: string,
+  scope: ExpressionScope,
+): unknown {
+  const parts = compileTemplate(template);
+  if (parts.length === 1 && typeof parts[0] !== 'string') {
+    return unwrap(evaluateNode(parts[0].expression, scope));
+  }
+  return parts
+    .map((part) =>
+      typeof part === 'string'
+        ? part
+        : stringifyValue(unwrap(evaluateNode(part.expression, scope))),
+    )
+    .join('');
+}
+
+/**
+ * Evaluate an expression written without braces, such as the condition of
+ * a CONDITION block
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope,
+): unknown {
+  const expression = parseExpression(source);
+  assertFunctionsExist(expression);
+  return unwrap(evaluateNode(expression, scope));
+}
@@ -0,0 +1,243 @@
+import { randomInt, randomUUID } from 'crypto';
+import { formatUnits, parseUnits } from 'viem';
+
+export type ExpressionFunction = (...args: unknown[]) => unknown;
+
+const DURATION_MS: Record<string, number> = {
+  ms: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function toNumber(value: unknown, name: string): number {
+  const number =
+    typeof value === 'string' && value.trim() !== ''
+      ? Number(value)
+      : typeof value === 'bigint'
+        ? Number(value)
+        : value;
+  if (typeof number !== 'number' || Number.isNaN(number)) {
+    throw new Error(`${name} expects a number`);
+  }
+  return number;
+}
+
+function toInteger(value: unknown, name: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (
+    (typeof value === 'number' && Number.isInteger(value)) ||
+    (typeof value === 'string' && /^-?\d+$/.test(value.trim()))
+  ) {
+    return BigInt(typeof value === 'string' ? value.trim() : value);
+  }
+  throw new Error(`${name} expects an integer`);
+}
+
+function toDate(value: unknown, name: string): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(value as string | number | undefined);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} expects a date`);
+  }
+  return date;
+}
+
+function toArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} expects an array`);
+  }
+  return value;
+}
+
+function toDuration(unit: unknown, name: string): number {
+  const ms = DURATION_MS[String(unit)];
+  if (!ms) {
+    throw new Error(
+      `${name} expects a unit of ${Object.keys(DURATION_MS).join(', ')}`,
+    );
+  }
+  return ms;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Format a date in UTC with the tokens YYYY, MM, DD, HH, mm and ss
+ */
+function formatDate(date: Date, format: string): string {
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * The functions expressions can call, by name without the leading "$"
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Dates
+  now: () => new Date().toISOString(),
+  timestamp: (value?: unknown) =>
+    value === undefined ? Date.now() : toDate(value, '$timestamp').getTime(),
+  formatDate: (value, format = 'ISO') =>
+    format === 'ISO'
+      ? toDate(value, '$formatDate').toISOString()
+      : formatDate(toDate(value, '$formatDate'), String(format)),
+  addTime: (value, amount, unit) =>
+    new Date(
+      toDate(value, '$addTime').getTime() +
+        toNumber(amount, '$addTime') * toDuration(unit, '$addTime'),
+    ).toISOString(),
+  diffTime: (from, to, unit = 'ms') =>
+    (toDate(to, '$diffTime').getTime() - toDate(from, '$diffTime').getTime()) /
+    toDuration(unit, '$diffTime'),
+
+  // Numbers
+  number: (value) => toNumber(value, '$number'),
+  round: (value, decimals = 0) => {
+    const factor = 10 ** toNumber(decimals, '$round');
+    return Math.round(toNumber(value, '$round') * factor) / factor;
+  },
+  floor: (value) => Math.floor(toNumber(value, '$floor')),
+  ceil: (value) => Math.ceil(toNumber(value, '$ceil')),
+  abs: (value) => Math.abs(toNumber(value, '$abs')),
+  min: (...values) =>
+    Math.min(...values.flat().map((value) => toNumber(value, '$min'))),
+  max: (...values) =>
+    Math.max(...values.flat().map((value) => toNumber(value, '$max'))),
+  formatNumber: (value, decimals = 2) =>
+    toNumber(value, '$formatNumber').toFixed(
+      toNumber(decimals, '$formatNumber'),
+    ),
+  formatCurrency: (value, currency = 'USD') =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: String(currency),
+    }).format(toNumber(value, '$formatCurrency')),
+  randomInt: (min, max) =>
+    randomInt(toNumber(min, '$randomInt'), toNumber(max, '$randomInt') + 1),
+  randomFloat: (min, max) => {
+    const low = toNumber(min, '$randomFloat');
+    return Number(
+      (Math.random() * (toNumber(max, '$randomFloat') - low) + low).toFixed(2),
+    );
+  },
+
+  // Strings
+  string: (value) =>
+    value === undefined || value === null
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value),
+  uppercase: (value) => String(value ?? '').toUpperCase(),
+  lowercase: (value) => String(value ?? '').toLowerCase(),
+  trim: (value) => String(value ?? '').trim(),
+  substring: (value, start, end) =>
+    String(value ?? '').substring(
+      toNumber(start, '$substring'),
+      end === undefined ? undefined : toNumber(end, '$substring'),
+    ),
+  replace: (value, search, replacement) =>
+    String(value ?? '').replaceAll(String(search), String(replacement ?? '')),
+  split: (value, separator = ',') =>
+    String(value ?? '').split(String(separator)),
+  join: (value, separator = ',') =>
+    toArray(value, '$join').join(String(separator)),
+  startsWith: (value, prefix) => String(value ?? '').startsWith(String(prefix)),
+  endsWith: (value, suffix) => String(value ?? '').endsWith(String(suffix)),
+  randomString: (length = 16) => {
+    const chars =
+      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let result = '';
+    for (let i = 0; i < toNumber(length, '$randomString'); i++) {
+      result += chars.charAt(randomInt(chars.length));
+    }
+    return result;
+  },
+  uuid: () => randomUUID(),
+  json: (value) => JSON.stringify(value),
+  parseJson: (value) => {
+    try {
+      return JSON.parse(String(value));
+    } catch {
+      throw new Error('$parseJson expects a JSON string');
+    }
+  },
+
+  // Arrays
+  length: (value) =>
+    Array.isArray(value) || typeof value === 'string'
+      ? value.length
+      : value && typeof value === 'object'
+        ? Object.keys(value).length
+        : 0,
+  contains: (value, item) =>
+    Array.isArray(value)
+      ? value.includes(item)
+      : String(value ?? '').includes(String(item)),
+  first: (value) => toArray(value, '$first')[0],
+  last: (value) => {
+    const items = toArray(value, '$last');
+    return items[items.length - 1];
+  },
+  slice: (value, start, end) =>
+    toArray(value, '$slice').slice(
+      toNumber(start, '$slice'),
+      end === undefined ? undefined : toNumber(end, '$slice'),
+    ),
+  sum: (value) =>
+    toArray(value, '$sum').reduce<number>(
+      (total, item) => total + toNumber(item, '$sum'),
+      0,
+    ),
+  avg: (value) => {
+    const items = toArray(value, '$avg');
+    return items.length
+      ? items.reduce<number>(
+          (total, item) => total + toNumber(item, '$avg'),
+          0,
+        ) / items.length
+      : null;
+  },
+  pluck: (value, key) =>
+    toArray(value, '$pluck').map((item) =>
+      item && typeof item === 'object'
+        ? (item as Record<string, unknown>)[String(key)]
+        : undefined,
+    ),
+  unique: (value) => [...new Set(toArray(value, '$unique'))],
+  sort: (value) =>
+    [...toArray(value, '$sort')].sort((a, b) =>
+      typeof a === 'number' && typeof b === 'number'
+        ? a - b
+        : String(a).localeCompare(String(b)),
+    ),
+  keys: (value) =>
+    value && typeof value === 'object' ? Object.keys(value) : [],
+  values: (value) =>
+    value && typeof value === 'object' ? Object.values(value) : [],
+
+  // Token amounts; base units are strings as they overflow numbers
+  formatUnits: (value, decimals = 18) =>
+    formatUnits(
+      toInteger(value, '$formatUnits'),
+      toNumber(decimals, '$formatUnits'),
+    ),
+  parseUnits: (value, decimals = 18) =>
+    parseUnits(String(value), toNumber(decimals, '$parseUnits')).toString(),
+  formatEther: (value) => formatUnits(toInteger(value, '$formatEther'), 18),
+  parseEther: (value) => parseUnits(String(value), 18).toString(),
+};
@@ -0,0 +1,81 @@
+/**
+ * Rewrites of the template syntaxes used before the expression language.
+ * Templates are migrated before they are parsed, so workflows saved with
+ * the old syntaxes keep working unchanged.
+ *
+ * - `{data.field}` becomes `{{ data.field }}`
+ * - `{previousBlock.field}` becomes `{{ previous.field }}`
+ * - `{nodeData.config.field}` becomes `{{ ctx.currentNode.field }}`
+ * - `{node-id.field}` becomes `{{ nodes["node-id"].field }}`
+ * - `{{json.some-field}}` and other paths with keys that are not names
+ *   become `{{ json["some-field"] }}`
+ */
+
+const DOUBLE_BRACES = /\{\{[\s\S]*?\}\}/g;
+const SINGLE_BRACE_PATH = /\{([A-Za-z0-9_-]+)\.([^{}\s"']+)\}/g;
+const LEGACY_PATH = /^\s*([A-Za-z0-9_$-]+(?:\.[A-Za-z0-9_$-]+|\[\d+\])*)\s*$/;
+const NAME = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Turn a dotted path such as `items[0].unit-price` into member accesses
+ */
+function toMembers(path: string): string {
+  return path
+    .split('.')
+    .map((segment) => {
+      const [, key, indexes] = /^([^[]*)((?:\[\d+\])*)$/.exec(segment) ?? [
+        '',
+        segment,
+        '',
+      ];
+      const member = NAME.test(key)
+        ? `.${key}`
+        : /^\d+$/.test(key)
+          ? `[${key}]`
+          : `[${JSON.stringify(key)}]`;
+      return (key ? member : '') + indexes;
+    })
+    .join('');
+}
+
+function migrateSingleBraces(text: string): string {
+  return text.replace(SINGLE_BRACE_PATH, (_match, root, path) => {
+    if (root === 'data') {
+      return `{{ data${toMembers(path)} }}`;
+    }
+    if (root === 'previousBlock') {
+      return `{{ previous${toMembers(path)} }}`;
+    }
+    if (root === 'nodeData' && path.startsWith('config.')) {
+      return `{{ ctx.currentNode${toMembers(path.slice('config.'.length))} }}`;
+    }
+    return `{{ nodes[${JSON.stringify(root)}]${toMembers(path)} }}`;
+  });
+}
+
+function migrateDoubleBraces(expression: string): string {
+  const content = expression.slice(2, -2);
+  const match = LEGACY_PATH.exec(content);
+  if (!match || !match[1].includes('-')) {
+    return expression;
+  }
+  const [root, ...rest] = match[1].split('.');
+  if (!NAME.test(root)) {
+    return `{{ json${toMembers(match[1])} }}`;
+  }
+  return `{{ ${root}${rest.length ? toMembers(rest.join('.')) : ''} }}`;
+}
+
+/**
+ * Rewrite the legacy syntaxes of a template; other text is left as it is
+ */
+export function migrateLegacyTemplate(template: string): string {
+  let result = '';
+  let index = 0;
+  for (const match of template.matchAll(DOUBLE_BRACES)) {
+    result += migrateSingleBraces(template.slice(index, match.index));
+    result += migrateDoubleBraces(match[0]);
+    index = match.index! + match[0].length;
+  }
+  return result + migrateSingleBraces(template.slice(index));
+}
@@ -0,0 +1,129 @@
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    // Offset in the template the error was found at
+    public readonly position: number,
+  ) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type TokenType =
+  'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'end';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  // Offset in the template, not in the expression
+  position: number;
+}
+
+// Longest first, so "===" is not read as "==" followed by "="
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '!',
+  '?',
+  ':',
+];
+
+const PUNCTUATION = ['(', ')', '[', ']', '.', ','];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+/**
+ * Split the expression between `start` and `end` of a template into tokens.
+ * Positions are kept relative to the template, so errors point at the
+ * character the user wrote.
+ */
+export function tokenize(source: string, start = 0, end = source.length) {
+  const tokens: Token[] = [];
+  let index = start;
+
+  while (index < end) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^(?:\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+        source.slice(index, end),
+      );
+      tokens.push({ type: 'number', value: match![0], position: index });
+      index += match![0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z0-9_$]+/.exec(source.slice(index, end));
+      tokens.push({ type: 'identifier', value: match![0], position: index });
+      index += match![0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < end && source[cursor] !== char) {
+        if (source[cursor] === '\\' && cursor + 1 < end) {
+          const escaped = source[cursor + 1];
+          value += ESCAPES[escaped] ?? escaped;
+          cursor += 2;
+        } else {
+          value += source[cursor++];
+        }
+      }
+      if (cursor >= end) {
+        throw new ExpressionError('Unterminated string', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = cursor + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) =>
+      source.startsWith(candidate, index),
+    );
+    if (operator && index + operator.length <= end) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'end', value: '', position: end });
+  return tokens;
+}
@@ -0,0 +1,369 @@
+import { ExpressionError, Token, tokenize } from './lexer';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'array'; elements: ExpressionNode[]; position: number }
+  | {
+      type: 'member';
+      object: ExpressionNode;
+      property: ExpressionNode;
+      position: number;
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | {
+      type: 'unary';
+      operator: string;
+      argument: ExpressionNode;
+      position: number;
+    }
+  | {
+      type: 'binary';
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      position: number;
+    }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+      position: number;
+    };
+
+export type TemplatePart =
+  string | { expression: ExpressionNode; start: number; end: number };
+
+// Binary operators by precedence, loosest first
+const BINARY_LEVELS = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['==', '!=', '===', '!=='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return expression;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.match('operator', '?')) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expect('operator', ':');
+    const alternate = this.parseConditional();
+    return {
+      type: 'conditional',
+      test,
+      consequent,
+      alternate,
+      position: test.position,
+    };
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level === BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (
+        token.type !== 'operator' ||
+        !BINARY_LEVELS[level].includes(token.value)
+      ) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'binary',
+        operator: token.value,
+        left,
+        right,
+        position: token.position,
+      };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && ['!', '-', '+'].includes(token.value)) {
+      this.index++;
+      return {
+        type: 'unary',
+        operator: token.value,
+        argument: this.parseUnary(),
+        position: token.position,
+      };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(object: ExpressionNode): ExpressionNode {
+    for (;;) {
+      const token = this.peek();
+      if (this.match('punctuation', '.')) {
+        const property = this.next();
+        if (property.type === 'identifier') {
+          object = this.member(object, property.value, property.position);
+        } else if (
+          property.type === 'number' &&
+          /^\d+(\.\d+)?$/.test(property.value)
+        ) {
+          // "items.0.name"; "items.0.1" reaches us as the number "0.1"
+          for (const key of property.value.split('.')) {
+            object = this.member(object, Number(key), property.position);
+          }
+        } else {
+          throw new ExpressionError(
+            `Expected a property name after '.'`,
+            property.position,
+          );
+        }
+      } else if (this.match('punctuation', '[')) {
+        const property = this.parseConditional();
+        this.expect('punctuation', ']');
+        object = { type: 'member', object, property, position: token.position };
+      } else {
+        return object;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return {
+          type: 'literal',
+          value: Number(token.value),
+          position: token.position,
+        };
+      case 'string':
+        return {
+          type: 'literal',
+          value: token.value,
+          position: token.position,
+        };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return {
+            type: 'literal',
+            value: KEYWORDS[token.value],
+            position: token.position,
+          };
+        }
+        if (token.value.startsWith('$')) {
+          // Functions are called with or without parentheses: $now, $now()
+          const args = this.match('punctuation', '(')
+            ? this.parseArguments(')')
+            : [];
+          return {
+            type: 'call',
+            name: token.value,
+            args,
+            position: token.position,
+          };
+        }
+        return {
+          type: 'identifier',
+          name: token.value,
+          position: token.position,
+        };
+      case 'punctuation':
+        if (token.value === '(') {
+          const expression = this.parseConditional();
+          this.expect('punctuation', ')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return {
+            type: 'array',
+            elements: this.parseArguments(']'),
+            position: token.position,
+          };
+        }
+        break;
+      case 'end':
+        throw new ExpressionError(
+          'Unexpected end of expression',
+          token.position,
+        );
+    }
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+  }
+
+  private parseArguments(closing: string): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.match('punctuation', closing)) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.match('punctuation', ','));
+    this.expect('punctuation', closing);
+    return args;
+  }
+
+  private member(
+    object: ExpressionNode,
+    key: string | number,
+    position: number,
+  ): ExpressionNode {
+    return {
+      type: 'member',
+      object,
+      property: { type: 'literal', value: key, position },
+      position,
+    };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private match(type: Token['type'], value: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], value: string): void {
+    if (!this.match(type, value)) {
+      const token = this.peek();
+      throw new ExpressionError(
+        token.type === 'end'
+          ? `Expected '${value}' before the end of the expression`
+          : `Expected '${value}' but found '${token.value}'`,
+        token.position,
+      );
+    }
+  }
+}
+
+/**
+ * Call `visit` for a node and each node below it
+ */
+export function walkExpression(
+  node: ExpressionNode,
+  visit: (node: ExpressionNode) => void,
+): void {
+  visit(node);
+  const children =
+    node.type === 'array'
+      ? node.elements
+      : node.type === 'call'
+        ? node.args
+        : node.type === 'member'
+          ? [node.object, node.property]
+          : node.type === 'unary'
+            ? [node.argument]
+            : node.type === 'binary'
+              ? [node.left, node.right]
+              : node.type === 'conditional'
+                ? [node.test, node.consequent, node.alternate]
+                : [];
+  children.forEach((child) => walkExpression(child, visit));
+}
+
+/**
+ * Parse the expression between `start` and `end` of a template
+ */
+export function parseExpression(
+  source: string,
+  start = 0,
+  end = source.length,
+): ExpressionNode {
+  const tokens = tokenize(source, start, end);
+  if (tokens.length === 1) {
+    throw new ExpressionError('Empty expression', start);
+  }
+  return new Parser(tokens).parse();
+}
+
+/**
+ * Split a template into its text and its {{ expression }} parts
+ */
+export function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let index = 0;
+
+  while (index < template.length) {
+    const open = template.indexOf('{{', index);
+    if (open === -1) {
+      break;
+    }
+    if (open > index) {
+      parts.push(template.slice(index, open));
+    }
+
+    // Find the closing braces, skipping those inside strings
+    let cursor = open + 2;
+    let quote: string | null = null;
+    while (cursor < template.length) {
+      const char = template[cursor];
+      if (quote) {
+        if (char === '\\') {
+          cursor++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (template.startsWith('}}', cursor)) {
+        break;
+      }
+      cursor++;
+    }
+    if (cursor >= template.length) {
+      throw new ExpressionError("Missing '}}' for '{{'", open);
+    }
+
+    parts.push({
+      expression: parseExpression(template, open + 2, cursor),
+      start: open,
+      end: cursor + 2,
+    });
+    index = cursor + 2;
+  }
+
+  if (index < template.length) {
+    parts.push(template.slice(index));
+  }
+  return parts;
+}
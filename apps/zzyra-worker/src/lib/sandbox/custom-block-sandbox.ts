@@ -0,0 +1,246 @@
+import { Worker } from 'worker_threads';
+import { CUSTOM_BLOCK_SANDBOX } from '../../config';
+import { SANDBOX_WORKER_SOURCE } from './sandbox-worker-source';
+
+export enum SandboxErrorType {
+  TIMEOUT = 'TIMEOUT',
+  MEMORY_LIMIT = 'MEMORY_LIMIT',
+  NETWORK_DENIED = 'NETWORK_DENIED',
+  SCRIPT_ERROR = 'SCRIPT_ERROR',
+  INVALID_OUTPUT = 'INVALID_OUTPUT',
+}
+
+export class SandboxError extends Error {
+  constructor(
+    public readonly type: SandboxErrorType,
+    message: string,
+    public readonly logs: string[] = [],
+  ) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+export interface SandboxOptions {
+  // Wall-clock limit of a run, including async work
+  timeoutMs: number;
+  // Heap limit of the thread the code runs in
+  memoryLimitMb: number;
+  // Hosts `fetch` may reach; entries starting with "*." match subdomains
+  fetchAllowList: string[];
+}
+
+export interface SandboxResult {
+  outputs: Record<string, any>;
+  logs: string[];
+}
+
+const MAX_LOGS = 200;
+const MAX_FETCH_BYTES = 1024 * 1024;
+
+interface FetchResult {
+  response?: string;
+  error?: string;
+  deniedHost?: string;
+}
+
+/**
+ * Whether block code may fetch from a host. Entries match the host exactly,
+ * or any subdomain when they start with "*.".
+ */
+export function isHostAllowed(hostname: string, allowList: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowList.some((entry) => {
+    const allowed = entry.toLowerCase();
+    return allowed.startsWith('*.')
+      ? host.endsWith(allowed.slice(1))
+      : host === allowed;
+  });
+}
+
+/**
+ * Make a request of block code on its behalf. Only strings go back to the
+ * sandbox, and redirects fail as they could leave the allow-list.
+ */
+async function fetchForSandbox(
+  requestJson: string,
+  options: SandboxOptions,
+): Promise<FetchResult> {
+  let url: URL;
+  let init: Record<string, any>;
+  try {
+    const request = JSON.parse(requestJson);
+    url = new URL(request.url);
+    init = request.init ?? {};
+  } catch {
+    return { error: 'Invalid fetch request' };
+  }
+
+  if (
+    (url.protocol !== 'http:' && url.protocol !== 'https:') ||
+    !isHostAllowed(url.hostname, options.fetchAllowList)
+  ) {
+    return {
+      error: `Network access to ${url.host} is not allowed`,
+      deniedHost: url.host,
+    };
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: typeof init.method === 'string' ? init.method : 'GET',
+      headers: init.headers,
+      body: typeof init.body === 'string' ? init.body : undefined,
+      redirect: 'error',
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+    const body = await response.text();
+    if (body.length > MAX_FETCH_BYTES) {
+      return { error: `Response of ${url.host} is too large` };
+    }
+    return {
+      response: JSON.stringify({
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+      }),
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run untrusted block code in a worker thread with its own heap limit, a
+ * wall-clock timeout and no access to `process`, `require` or the network
+ * beyond the allow-list. The code is the body of an async function of
+ * `inputs`, `log`, `fetch`, `console` and `outputs`; what it returns, or
+ * `outputs` when it returns nothing, must be a JSON object.
+ * @throws SandboxError when the code fails, runs too long or too large, or
+ * returns something else
+ */
+export function runInSandbox(
+  code: string,
+  inputs: Record<string, any>,
+  options: SandboxOptions = CUSTOM_BLOCK_SANDBOX,
+): Promise<SandboxResult> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      execArgv: [],
+      workerData: {
+        code,
+        inputs: JSON.parse(JSON.stringify(inputs ?? {})),
+        timeoutMs: options.timeoutMs,
+        maxLogs: MAX_LOGS,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: options.memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(
+          Math.floor(options.memoryLimitMb / 4),
+          4,
+        ),
+        stackSizeMb: 4,
+      },
+    });
+
+    const finish = (error: SandboxError | null, result?: SandboxResult) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+
+    // Catches async work the in-thread timeout cannot interrupt
+    const timer = setTimeout(
+      () =>
+        finish(
+          new SandboxError(
+            SandboxErrorType.TIMEOUT,
+            `Custom block timed out after ${options.timeoutMs}ms`,
+          ),
+        ),
+      options.timeoutMs,
+    );
+
+    worker.on('message', (message) => {
+      if (message.type === 'fetch') {
+        void fetchForSandbox(message.request, options).then((result) => {
+          if (!settled) {
+            worker.postMessage({
+              type: 'fetch-result',
+              id: message.id,
+              ...result,
+            });
+          }
+        });
+        return;
+      }
+
+      if (message.type === 'error') {
+        finish(
+          new SandboxError(
+            message.errorType as SandboxErrorType,
+            message.errorType === SandboxErrorType.TIMEOUT
+              ? `Custom block timed out after ${options.timeoutMs}ms`
+              : message.message,
+            message.logs,
+          ),
+        );
+        return;
+      }
+
+      let outputs: unknown;
+      try {
+        outputs = JSON.parse(message.outputs);
+      } catch {
+        outputs = undefined;
+      }
+      if (!outputs || typeof outputs !== 'object' || Array.isArray(outputs)) {
+        finish(
+          new SandboxError(
+            SandboxErrorType.INVALID_OUTPUT,
+            'Custom block must return an object of outputs',
+            message.logs,
+          ),
+        );
+        return;
+      }
+      finish(null, {
+        outputs: outputs as Record<string, any>,
+        logs: message.logs,
+      });
+    });
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      finish(
+        error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new SandboxError(
+              SandboxErrorType.MEMORY_LIMIT,
+              `Custom block exceeded its ${options.memoryLimitMb}MB memory limit`,
+            )
+          : new SandboxError(SandboxErrorType.SCRIPT_ERROR, error.message),
+      );
+    });
+
+    worker.on('exit', (exitCode) => {
+      finish(
+        new SandboxError(
+          SandboxErrorType.SCRIPT_ERROR,
+          `Custom block runtime exited with code ${exitCode}`,
+        ),
+      );
+    });
+  });
+}
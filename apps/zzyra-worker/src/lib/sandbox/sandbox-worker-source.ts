@@ -0,0 +1,162 @@
+/**
+ * Source of the worker thread custom block code runs in. It is evaluated as
+ * a string so the thread loads nothing but Node built-ins, whether the worker
+ * runs from `dist` or from TypeScript sources.
+ *
+ * Block code runs in its own V8 context that only holds what the bridge
+ * below creates inside it: `inputs`, `outputs`, `log`, `console` and an
+ * allow-listed `fetch`. Code generation from strings is disabled there.
+ * Values cross the context boundary as strings only, so block code never
+ * holds an object of the thread. In case one leaks anyway, the thread has
+ * an empty environment and drops `process`, `Buffer` and `fetch` from its
+ * globals before block code runs; requests are made by the parent thread.
+ */
+export const SANDBOX_WORKER_SOURCE = `
+'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+for (const name of ['process', 'Buffer', 'fetch', 'WebAssembly']) {
+  try {
+    delete globalThis[name];
+  } catch (error) {
+    globalThis[name] = undefined;
+  }
+}
+
+const { code, inputs, timeoutMs, maxLogs } = workerData;
+const logs = [];
+const pendingFetches = new Map();
+let fetchCount = 0;
+let deniedHost = null;
+
+// Requests are made by the parent thread, which checks the allow-list
+parentPort.on('message', (message) => {
+  const pending = pendingFetches.get(message.id);
+  if (message.type !== 'fetch-result' || !pending) {
+    return;
+  }
+  pendingFetches.delete(message.id);
+  if (message.deniedHost) {
+    deniedHost = message.deniedHost;
+  }
+  if (message.error) {
+    pending.reject(message.error);
+  } else {
+    pending.resolve(message.response);
+  }
+});
+
+// Callbacks block code reaches through the bridge. They only pass strings
+// and never throw, as a thrown error would hand block code an object of
+// this thread.
+const host = {
+  log(line) {
+    if (logs.length < maxLogs) {
+      logs.push(String(line));
+    }
+  },
+  fetch(requestJson, resolve, reject) {
+    const id = ++fetchCount;
+    pendingFetches.set(id, { resolve, reject });
+    parentPort.postMessage({ type: 'fetch', id, request: String(requestJson) });
+  },
+};
+
+// Evaluated inside the block context, so everything it returns belongs to it
+const BRIDGE = '(' + function (host) {
+  'use strict';
+  const format = (arg) => {
+    if (typeof arg === 'string') return arg;
+    try {
+      return JSON.stringify(arg);
+    } catch (error) {
+      return String(arg);
+    }
+  };
+  const log = (...args) => host.log(args.map(format).join(' '));
+  const fetch = (url, init) =>
+    new Promise((resolve, reject) => {
+      host.fetch(
+        JSON.stringify({ url: String(url), init: init || {} }),
+        (json) => {
+          const response = JSON.parse(json);
+          resolve({
+            ok: response.ok,
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            text: async () => response.body,
+            json: async () => JSON.parse(response.body),
+          });
+        },
+        (message) => reject(new Error(message)),
+      );
+    });
+  return { log, fetch, console: { log, info: log, warn: log, error: log } };
+}.toString() + ')';
+
+// Calls the block function; compiled separately from the block code so the
+// block cannot see its variables
+const RUNNER =
+  '(() => {' +
+  '  const block = globalThis.__block;' +
+  '  const api = (' + BRIDGE + ')(globalThis.__host);' +
+  '  const inputs = JSON.parse(globalThis.__inputs);' +
+  '  delete globalThis.__block;' +
+  '  delete globalThis.__host;' +
+  '  delete globalThis.__inputs;' +
+  '  return block(inputs, api.log, api.fetch, api.console, {}).then(' +
+  '    (result) => JSON.stringify(result === undefined ? {} : result),' +
+  '  );' +
+  '})()';
+
+function fail(errorType, error) {
+  parentPort.postMessage({
+    type: 'error',
+    errorType: deniedHost ? 'NETWORK_DENIED' : errorType,
+    message: String((error && error.message) || error),
+    logs,
+  });
+}
+
+async function run() {
+  const context = vm.createContext(Object.create(null), {
+    name: 'custom-block',
+    codeGeneration: { strings: false, wasm: false },
+  });
+
+  try {
+    context.__block = new vm.Script(
+      '(async function (inputs, log, fetch, console, outputs) {\\n' +
+        code +
+        '\\n;return outputs;\\n})',
+      { filename: 'custom-block.js' },
+    ).runInContext(context);
+  } catch (error) {
+    fail('SCRIPT_ERROR', error);
+    return;
+  }
+  context.__host = host;
+  context.__inputs = JSON.stringify(inputs === undefined ? {} : inputs);
+
+  let result;
+  try {
+    result = await new vm.Script(RUNNER, {
+      filename: 'custom-block-runner.js',
+    }).runInContext(context, { timeout: timeoutMs });
+  } catch (error) {
+    fail(
+      error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+        ? 'TIMEOUT'
+        : 'SCRIPT_ERROR',
+      error,
+    );
+    return;
+  }
+
+  parentPort.postMessage({ type: 'result', outputs: result, logs });
+}
+
+run();
+`;
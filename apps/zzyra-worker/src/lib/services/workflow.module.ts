@@ -13,6 +13,8 @@ import { DataTransformationService } from '../../services/data-transformation.se
 import { DataStateService } from '../../services/data-state.service';
 import { ParallelExecutionService } from '../../services/parallel-execution.service';
 import { BlockchainDataSyncService } from '../../services/blockchain-data-sync.service';
+import { ExecutionControlService } from '../../services/execution-control.service';
+import { RabbitMQService } from '../../services/rabbitmq.service';
 import { BlockchainModule } from '../blockchain/BlockchainModule';
 
 @Global()
@@ -30,6 +32,8 @@ import { BlockchainModule } from '../blockchain/BlockchainModule';
     DataStateService,
     ParallelExecutionService,
     BlockchainDataSyncService,
+    ExecutionControlService,
+    RabbitMQService,
   ],
   exports: [
     WorkflowService,
@@ -43,6 +47,8 @@ import { BlockchainModule } from '../blockchain/BlockchainModule';
     DataStateService,
     ParallelExecutionService,
     BlockchainDataSyncService,
+    ExecutionControlService,
+    RabbitMQService,
   ],
 })
 export class WorkflowModule {}
@@ -5,6 +5,12 @@ import {
   WorkflowRepository,
   UserRepository,
   NotificationRepository,
+  WalletListenerRepository,
+  DcaPlanRepository,
+  SubscriptionRepository,
+  UsageRepository,
+  CustomBlockVersionRepository,
+  CredentialRepository,
 } from '@zzyra/database';
 import {
   prisma as defaultPrisma,
@@ -46,6 +52,12 @@ export class DatabaseService {
   public readonly workflows = new WorkflowRepository();
   public readonly users = new UserRepository();
   public readonly notifications = new NotificationRepository();
+  public readonly walletListeners = new WalletListenerRepository();
+  public readonly dcaPlans = new DcaPlanRepository();
+  public readonly subscriptions = new SubscriptionRepository();
+  public readonly usage = new UsageRepository();
+  public readonly customBlockVersions = new CustomBlockVersionRepository();
+  public readonly credentials = new CredentialRepository();
 
   // Enhanced Prisma client access
   public readonly prisma: typeof defaultPrisma;
@@ -205,6 +217,12 @@ export class DatabaseService {
         case 'paused':
           workflowStatus = WorkflowStatus.paused;
           break;
+        case 'cancelled':
+          workflowStatus = WorkflowStatus.cancelled;
+          break;
+        case 'completed_with_errors':
+          workflowStatus = WorkflowStatus.completed_with_errors;
+          break;
         default:
           this.logger.warn(
             `Invalid status "${status}", defaulting to "pending"`,
@@ -217,7 +235,7 @@ export class DatabaseService {
         updatedAt: new Date(),
       };
 
-      if (status === 'completed') {
+      if (status === 'completed' || status === 'completed_with_errors') {
         updateData.finishedAt = new Date();
         if (output) updateData.output = output;
       }
@@ -227,6 +245,10 @@ export class DatabaseService {
         if (error) updateData.error = error;
       }
 
+      if (status === 'cancelled') {
+        updateData.finishedAt = new Date();
+      }
+
       const execution = await this.prisma.workflowExecution.update({
         where: { id: executionId },
         data: updateData,
@@ -0,0 +1,124 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+
+export type ExecutionControlAction = 'cancel' | 'pause';
+
+// How often running executions are checked for a cancel request
+const POLL_INTERVAL_MS = parseInt(
+  process.env.EXECUTION_CONTROL_POLL_MS || '2000',
+);
+
+/**
+ * Raised when a running execution is cancelled. It is also the abort reason
+ * of the execution's AbortSignal.
+ */
+export class ExecutionCancelledError extends Error {
+  constructor(executionId: string) {
+    super(`Execution ${executionId} was cancelled`);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+/**
+ * Control channel between the API and running executions.
+ *
+ * The API requests a cancel or pause by setting the execution status to
+ * `cancelled` or `paused`. The executor checks the status between nodes.
+ * While an execution is registered its status is also polled, and a cancel
+ * aborts the execution's AbortSignal so in-flight HTTP and LLM calls stop.
+ */
+@Injectable()
+export class ExecutionControlService implements OnModuleDestroy {
+  private readonly logger = new Logger(ExecutionControlService.name);
+  private readonly controllers = new Map<string, AbortController>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  onModuleDestroy(): void {
+    this.stopPolling();
+  }
+
+  /**
+   * Start watching an execution
+   * @returns The signal that is aborted when the execution is cancelled
+   */
+  register(executionId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(executionId, controller);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    }
+    return controller.signal;
+  }
+
+  unregister(executionId: string): void {
+    this.controllers.delete(executionId);
+    if (this.controllers.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  /**
+   * Read the action requested for an execution, aborting its signal when it
+   * was cancelled
+   */
+  async check(executionId: string): Promise<ExecutionControlAction | null> {
+    const execution =
+      await this.databaseService.prisma.workflowExecution.findUnique({
+        where: { id: executionId },
+        select: { status: true },
+      });
+
+    if (execution?.status === 'cancelled') {
+      this.abort(executionId);
+      return 'cancel';
+    }
+    return execution?.status === 'paused' ? 'pause' : null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.controllers.size === 0) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const cancelled =
+        await this.databaseService.prisma.workflowExecution.findMany({
+          where: {
+            id: { in: Array.from(this.controllers.keys()) },
+            status: 'cancelled',
+          },
+          select: { id: true },
+        });
+
+      for (const execution of cancelled) {
+        this.abort(execution.id);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to poll execution control state: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private abort(executionId: string): void {
+    const controller = this.controllers.get(executionId);
+    if (controller && !controller.signal.aborted) {
+      this.logger.log(`Aborting cancelled execution ${executionId}`);
+      controller.abort(new ExecutionCancelledError(executionId));
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
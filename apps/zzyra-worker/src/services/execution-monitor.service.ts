@@ -5,7 +5,14 @@ import { DatabaseService } from './database.service';
 export interface ExecutionStatus {
   executionId: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
+  status:
+    | 'pending'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'paused'
+    | 'cancelled'
+    | 'completed_with_errors';
   currentNodeId?: string;
   progress: {
     totalNodes: number;
@@ -40,7 +47,7 @@ export interface ExecutionLog {
 export interface NodeExecutionUpdate {
   executionId: string;
   nodeId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   output?: any;
   error?: string;
   duration?: number;
@@ -149,6 +156,7 @@ export class ExecutionMonitorService {
       totalNodes,
     });
 
+    this.emitStatusUpdate(status);
     this.logger.log(`Started tracking execution ${executionId}`);
   }
 
@@ -326,14 +334,18 @@ export class ExecutionMonitorService {
   /**
    * Complete execution
    */
-  async completeExecution(executionId: string, results?: Record<string, any>) {
+  async completeExecution(
+    executionId: string,
+    results?: Record<string, any>,
+    status: 'completed' | 'completed_with_errors' = 'completed',
+  ) {
     const execution = this.activeExecutions.get(executionId);
     if (!execution) {
       this.logger.warn(`Execution ${executionId} not found for completion`);
       return;
     }
 
-    execution.status = 'completed';
+    execution.status = status;
     execution.endTime = new Date();
     execution.results = results;
 
@@ -348,6 +360,7 @@ export class ExecutionMonitorService {
       try {
         this.executionGateway.emitExecutionCompleted(executionId, {
           executionId,
+          status,
           results,
           duration: execution.endTime.getTime() - execution.startTime.getTime(),
         });
@@ -361,6 +374,8 @@ export class ExecutionMonitorService {
       }
     }
 
+    this.emitStatusUpdate(execution);
+
     // Clean up after 5 minutes
     setTimeout(
       () => {
@@ -417,6 +432,8 @@ export class ExecutionMonitorService {
       }
     }
 
+    this.emitStatusUpdate(execution);
+
     // Clean up after 5 minutes
     setTimeout(
       () => {
@@ -452,9 +469,37 @@ export class ExecutionMonitorService {
       },
     );
 
+    this.emitStatusUpdate(execution);
     this.logger.log(`Execution ${executionId} paused: ${reason}`);
   }
 
+  /**
+   * Cancel execution
+   */
+  async cancelExecution(executionId: string, reason: string) {
+    const execution = this.activeExecutions.get(executionId);
+    if (!execution) {
+      this.logger.warn(`Execution ${executionId} not found for cancelling`);
+      return;
+    }
+
+    execution.status = 'cancelled';
+    execution.endTime = new Date();
+
+    // Log cancellation
+    await this.logExecutionEvent(
+      executionId,
+      'info',
+      `Execution cancelled: ${reason}`,
+      {
+        reason,
+      },
+    );
+
+    this.emitStatusUpdate(execution);
+    this.logger.log(`Execution ${executionId} cancelled: ${reason}`);
+  }
+
   /**
    * Resume execution
    */
@@ -470,9 +515,34 @@ export class ExecutionMonitorService {
     // Log resume
     await this.logExecutionEvent(executionId, 'info', 'Execution resumed');
 
+    this.emitStatusUpdate(execution);
     this.logger.log(`Execution ${executionId} resumed`);
   }
 
+  /**
+   * Send a status change to the dashboard of the user who started the
+   * execution
+   */
+  private emitStatusUpdate(execution: ExecutionStatus) {
+    if (!this.executionGateway) return;
+
+    this.executionGateway
+      .emitExecutionStatus(execution.executionId, {
+        executionId: execution.executionId,
+        workflowId: execution.workflowId,
+        status: execution.status,
+        progress: execution.progress,
+        startTime: execution.startTime,
+        endTime: execution.endTime,
+        error: execution.error,
+      })
+      .catch((error) =>
+        this.logger.error(
+          `Failed to emit WebSocket status for execution ${execution.executionId}: ${error}`,
+        ),
+      );
+  }
+
   /**
    * Get current execution status
    */
@@ -12,6 +12,7 @@ export type NotificationType =
   | 'workflow_completed'
   | 'workflow_failed'
   | 'node_error'
+  | 'approval_requested'
   | 'quota_alert'
   | 'system_alert'
   | 'new_comment'
@@ -178,6 +179,7 @@ export class NotificationService {
         email_enabled:
           type === 'workflow_failed' ||
           type === 'node_error' ||
+          type === 'approval_requested' ||
           type === 'quota_alert',
         telegram_enabled: false,
         discord_enabled: false,
@@ -314,6 +316,24 @@ export class NotificationService {
           body: 'Workflow "{{workflow_name}}" failed: {{error}}',
         },
       },
+      approval_requested: {
+        email: {
+          subject: 'Approval Required: {{workflow_name}}',
+          body: 'Workflow "{{workflow_name}}" is waiting for your approval: {{message}}. Without a decision it will {{default_action}} at {{expires_at}}.',
+        },
+        telegram: {
+          subject: null,
+          body: '✋ Workflow "{{workflow_name}}" needs your approval: {{message}}',
+        },
+        discord: {
+          subject: null,
+          body: '✋ **Approval Required**: {{workflow_name}} - {{message}}',
+        },
+        in_app: {
+          subject: 'Approval Required',
+          body: 'Workflow "{{workflow_name}}" is waiting for your approval: {{message}}',
+        },
+      },
     };
 
     const typeTemplates = templates[type] || templates.workflow_started;
@@ -15,6 +15,7 @@ import {
   EXECUTION_QUEUE,
   EXECUTION_DLQ,
   EXECUTION_RETRY_QUEUE,
+  EXECUTION_WAIT_QUEUE,
 } from '../config';
 
 export interface QueueMessage {
@@ -140,10 +141,11 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
       // Setup each queue with intelligent parameter detection
       await this.setupExecutionQueue(channel);
       await this.setupRetryQueue(channel);
+      await this.setupWaitQueue(channel);
       await this.setupDeadLetterQueue(channel);
 
       this.logger.log(
-        `✅ Production queues configured: ${EXECUTION_QUEUE}, ${EXECUTION_RETRY_QUEUE}, ${EXECUTION_DLQ}`,
+        `✅ Production queues configured: ${EXECUTION_QUEUE}, ${EXECUTION_RETRY_QUEUE}, ${EXECUTION_WAIT_QUEUE}, ${EXECUTION_DLQ}`,
       );
       this.logger.log(`📊 Prefetch count: ${prefetchCount}`);
     } catch (error) {
@@ -208,6 +210,18 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Setup the queue WAIT timers expire in. Expired timers have to reach the
+   * execution queue, so a queue without dead-lettering is not accepted.
+   */
+  private async setupWaitQueue(channel: amqp.Channel): Promise<void> {
+    await channel.assertQueue(
+      EXECUTION_WAIT_QUEUE,
+      this.getOptimalNewConfig(EXECUTION_WAIT_QUEUE),
+    );
+    this.logger.log(`✅ Wait queue configured`);
+  }
+
   /**
    * Setup dead letter queue with intelligent parameter detection
    */
@@ -325,6 +339,15 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
       };
     }
 
+    if (queueName === EXECUTION_WAIT_QUEUE) {
+      // Timers carry their own TTL
+      return {
+        durable: true,
+        deadLetterExchange: '',
+        deadLetterRoutingKey: EXECUTION_QUEUE,
+      };
+    }
+
     if (queueName === EXECUTION_DLQ) {
       return {
         ...baseConfig,
@@ -403,6 +426,59 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Publish the timer of a WAIT block. The message moves to the execution
+   * queue once `delayMs` has passed.
+   */
+  async publishWaitTimer(
+    message: QueueMessage,
+    delayMs: number,
+  ): Promise<boolean> {
+    return this.publishDelayed(message, delayMs, 'wait');
+  }
+
+  /**
+   * Put a run that has to wait for a free run slot back on the execution
+   * queue after `delayMs`
+   */
+  async publishDeferred(
+    message: QueueMessage,
+    delayMs: number,
+  ): Promise<boolean> {
+    return this.publishDelayed(message, delayMs, 'deferred');
+  }
+
+  // Expired messages of the wait queue move to the execution queue
+  private async publishDelayed(
+    message: QueueMessage,
+    delayMs: number,
+    kind: 'wait' | 'deferred',
+  ): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        throw new Error('RabbitMQ not connected');
+      }
+
+      await this.channelWrapper.sendToQueue(
+        EXECUTION_WAIT_QUEUE,
+        { ...message, timestamp: new Date().toISOString(), retryCount: 0 },
+        {
+          persistent: true,
+          expiration: Math.max(0, Math.round(delayMs)).toString(),
+          messageId: `${kind}-${message.executionId}-${Date.now()}`,
+        },
+      );
+
+      this.logger.log(
+        `⏳ Published ${kind} message: ${message.executionId} (${delayMs}ms)`,
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to publish ${kind} message: ${error}`);
+      return false;
+    }
+  }
+
   /**
    * Setup consumer for execution queue
    */
@@ -505,9 +581,10 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
     try {
       if (!this.channelWrapper) return null;
 
-      const [mainQueue, retryQueue, dlqQueue] = await Promise.all([
+      const [mainQueue, retryQueue, waitQueue, dlqQueue] = await Promise.all([
         this.channelWrapper.checkQueue(EXECUTION_QUEUE),
         this.channelWrapper.checkQueue(EXECUTION_RETRY_QUEUE),
+        this.channelWrapper.checkQueue(EXECUTION_WAIT_QUEUE),
         this.channelWrapper.checkQueue(EXECUTION_DLQ),
       ]);
 
@@ -522,6 +599,12 @@ export class RabbitMQService implements OnModuleInit, OnModuleDestroy {
           consumerCount: retryQueue.consumerCount,
           status: retryQueue.messageCount > 1000 ? 'high_retry_rate' : 'normal',
         },
+        [EXECUTION_WAIT_QUEUE]: {
+          // One message per execution waiting on a timer
+          messageCount: waitQueue.messageCount,
+          consumerCount: waitQueue.consumerCount,
+          status: 'normal',
+        },
         [EXECUTION_DLQ]: {
           messageCount: dlqQueue.messageCount,
           consumerCount: dlqQueue.consumerCount,
@@ -0,0 +1,202 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { WalletListener } from '@zzyra/database';
+import { DatabaseService } from './database.service';
+import { RabbitMQService } from './rabbitmq.service';
+import {
+  EvmEventScanner,
+  WalletEvent,
+} from '../workers/handlers/blockchain/EvmEventScanner';
+
+// How often listeners are checked for a due poll
+const TICK_INTERVAL_MS = 5000;
+// Upper bound on blocks scanned per poll so a backlog is worked off gradually
+const MAX_BLOCKS_PER_POLL = 100n;
+// Blocks to wait before treating a block as final; Sei has instant finality
+const CONFIRMATION_BLOCKS: Record<number, bigint> = {
+  1329: 0n,
+  1328: 0n,
+  1: 2n,
+  137: 5n,
+};
+
+/**
+ * Polls EVM chains for WALLET_LISTEN workflows.
+ *
+ * Listeners are stored in `wallet_listeners` by the API when workflows are
+ * saved. Each poll scans the blocks after the listener's last processed block
+ * and starts one workflow execution per matching event.
+ */
+@Injectable()
+export class WalletListenerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WalletListenerService.name);
+  private readonly scanner = new EvmEventScanner();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly rabbitMQService: RabbitMQService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (process.env.WALLET_LISTENER_ENABLED === 'false') {
+      this.logger.log('Wallet listener disabled');
+      return;
+    }
+
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    this.logger.log('Wallet listener started');
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const now = Date.now();
+      const listeners = await this.databaseService.walletListeners.findActive();
+
+      for (const listener of listeners) {
+        const lastPolledAt = listener.lastPolledAt?.getTime() ?? 0;
+        if (now - lastPolledAt < listener.pollIntervalSeconds * 1000) {
+          continue;
+        }
+
+        await this.pollListener(listener);
+      }
+    } catch (error) {
+      this.logger.error('Wallet listener tick failed', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Scan the next block range for a listener and start executions for the
+   * events found
+   */
+  async pollListener(listener: WalletListener): Promise<void> {
+    const cursor = listener.lastProcessedBlock;
+
+    try {
+      const client = this.scanner.getClient(listener.chainId, listener.rpcUrl);
+      const latest = await client.getBlockNumber();
+      const head = latest - (CONFIRMATION_BLOCKS[listener.chainId] ?? 0n);
+
+      if (cursor === null && listener.startBlock === null) {
+        // New listeners only report events from now on
+        await this.databaseService.walletListeners.claimBlocks(
+          listener.id,
+          cursor,
+          head,
+          { lastPolledAt: new Date(), lastError: null },
+        );
+        return;
+      }
+
+      const fromBlock = cursor !== null ? cursor + 1n : listener.startBlock!;
+      if (fromBlock > head) {
+        await this.databaseService.walletListeners.update(listener.id, {
+          lastPolledAt: new Date(),
+        });
+        return;
+      }
+
+      const toBlock =
+        head < fromBlock + MAX_BLOCKS_PER_POLL - 1n
+          ? head
+          : fromBlock + MAX_BLOCKS_PER_POLL - 1n;
+
+      const events = await this.scanner.scan(
+        client,
+        listener.chainId,
+        listener,
+        fromBlock,
+        toBlock,
+      );
+
+      const claimed = await this.databaseService.walletListeners.claimBlocks(
+        listener.id,
+        cursor,
+        toBlock,
+        {
+          lastPolledAt: new Date(),
+          lastError: null,
+          ...(events.length > 0 ? { lastEventAt: new Date() } : {}),
+        },
+      );
+
+      if (!claimed) {
+        // Another worker processed these blocks or the listener changed
+        return;
+      }
+
+      for (const event of events) {
+        await this.startExecution(listener, event);
+      }
+
+      if (events.length > 0) {
+        this.logger.log(
+          `Wallet listener for workflow ${listener.workflowId} matched ${events.length} event(s) in blocks ${fromBlock}-${toBlock}`,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Wallet listener poll failed for workflow ${listener.workflowId}: ${message}`,
+      );
+      await this.databaseService.walletListeners.update(listener.id, {
+        lastPolledAt: new Date(),
+        lastError: message,
+      });
+    }
+  }
+
+  private async startExecution(
+    listener: WalletListener,
+    event: WalletEvent,
+  ): Promise<void> {
+    const execution = await this.databaseService.executions.createExecution(
+      listener.workflowId,
+      listener.userId,
+      {
+        trigger: 'wallet_listener',
+        nodeId: listener.nodeId,
+        event,
+      },
+      'wallet_listener',
+    );
+
+    const published = await this.rabbitMQService.publishExecution({
+      executionId: execution.id,
+      workflowId: listener.workflowId,
+      userId: listener.userId,
+    });
+
+    if (!published) {
+      await this.databaseService.executions.updateStatus(
+        execution.id,
+        'failed',
+        'Failed to enqueue wallet listener execution',
+      );
+      this.logger.error(
+        `Failed to enqueue execution ${execution.id} for ${event.eventType} ${event.txHash}`,
+      );
+    }
+  }
+}
@@ -10,6 +10,11 @@ import {
   createParameter as sharedCreateParameter,
   createCustomBlockDefinition as sharedCreateCustomBlockDefinition,
 } from '@zzyra/types';
+import {
+  SandboxError,
+  SandboxErrorType,
+  runInSandbox,
+} from '../lib/sandbox/custom-block-sandbox';
 
 // Re-export the shared types
 export { DataType };
@@ -35,7 +40,10 @@ export type CustomBlockDefinition = SharedCustomBlockDefinition & {
   logicType: SharedLogicType | LogicType;
 };
 export type CustomBlockData = SharedCustomBlockData;
-export type ExecutionResult = SharedExecutionResult;
+export type ExecutionResult = SharedExecutionResult & {
+  // Set when code run in the sandbox failed
+  errorType?: SandboxErrorType;
+};
 
 // Use the shared helper functions to create parameters and custom blocks
 export const createParameter = sharedCreateParameter;
@@ -78,37 +86,18 @@ export async function executeCustomBlockLogic(
 ): Promise<ExecutionResult> {
   try {
     let outputs: Record<string, any> = {};
-    const logs: string[] = [];
-
-    const log = (...args: any[]) => {
-      logs.push(
-        args
-          .map((arg) =>
-            typeof arg === 'object' ? JSON.stringify(arg) : String(arg),
-          )
-          .join(' '),
-      );
-    };
+    let logs: string[] = [];
 
     // Convert logicType to string for switch case comparison
     const logicTypeStr = blockDefinition.logicType.toString();
 
     switch (logicTypeStr) {
       case SharedLogicType.JAVASCRIPT: {
-        const asyncFunction = new Function(
-          'inputs',
-          'log',
-          'outputs',
-          `
-          try {
-            ${blockDefinition.code}
-            return outputs;
-          } catch (error) {
-            throw new Error("Execution error: " + error.message);
-          }
-          `,
-        );
-        outputs = (await asyncFunction(inputs, log, {})) || {};
+        // Block code can come from the community library, so it only ever
+        // runs in the sandbox
+        const result = await runInSandbox(blockDefinition.code, inputs);
+        outputs = result.outputs;
+        logs = result.logs;
         break;
       }
       case 'json-transform': {
@@ -127,17 +116,12 @@ export async function executeCustomBlockLogic(
         break;
       }
       case 'condition': {
-        const condition = new Function(
-          'inputs',
-          `
-          try {
-            return Boolean(${blockDefinition.code});
-          } catch (error) {
-            throw new Error("Condition error: " + error.message);
-          }
-          `,
+        const result = await runInSandbox(
+          `return { result: Boolean(${blockDefinition.code}) };`,
+          inputs,
         );
-        outputs = { result: condition(inputs) };
+        outputs = result.outputs;
+        logs = result.logs;
         break;
       }
       default:
@@ -162,7 +146,8 @@ export async function executeCustomBlockLogic(
       success: false,
       outputs: {},
       error: error instanceof Error ? error.message : String(error),
-      logs: [],
+      errorType: error instanceof SandboxError ? error.type : undefined,
+      logs: error instanceof SandboxError ? error.logs : [],
     };
   }
 }
@@ -80,7 +80,12 @@ export function validateOrphans(nodes: Node[], edges: Edge[]): void {
 }
 
 // Ensure terminal nodes are action blocks (no outgoing, must be action)
-import { NodeCategory, BLOCK_CATALOG, getBlockType } from '@zzyra/types';
+import {
+  BlockType,
+  NodeCategory,
+  BLOCK_CATALOG,
+  getBlockType,
+} from '@zzyra/types';
 
 // Configurable set of allowed categories for terminal nodes (comma-separated env var)
 const TERMINAL_ALLOWED_CATEGORIES: Set<NodeCategory> = new Set(
@@ -101,6 +106,11 @@ export function validateTerminals(nodes: Node[], edges: Edge[]): void {
       const type = getBlockType(n.data as any);
       const category = BLOCK_CATALOG[type]?.category;
 
+      // The last nodes inside a FOR_EACH block are validated instead
+      if ((n.data?.blockType || n.data?.type) === BlockType.FOR_EACH) {
+        return;
+      }
+
       // If category is valid from block type, allow it
       if (category && TERMINAL_ALLOWED_CATEGORIES.has(category)) {
         return;
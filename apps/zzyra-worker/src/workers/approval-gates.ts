@@ -0,0 +1,198 @@
+import { BlockType } from '@zzyra/types';
+
+export interface ApprovalGatePolicy {
+  // Transactions moving more than this need approval
+  amountThreshold?: number;
+  // Session key operations ("send", "swap") that require confirmation
+  confirmOperations: string[];
+  timeoutMinutes: number;
+  // Transactions gated before the run paused; a resumed run gates exactly
+  // these instead of evaluating the policy again
+  gatedNodeIds?: string[];
+}
+
+export interface ProposedAction {
+  message: string | null;
+  nodes: {
+    nodeId: string;
+    blockType: string;
+    label: string | null;
+    config: Record<string, any>;
+  }[];
+}
+
+// Blocks that move funds, with the session key operation they use and the
+// config field holding the amount
+const GATED_BLOCKS: Record<string, { operation: string; amountField: string }> =
+  {
+    [BlockType.SEND_TRANSACTION]: { operation: 'send', amountField: 'amount' },
+    [BlockType.SWAP_TOKENS]: { operation: 'swap', amountField: 'amountIn' },
+  };
+
+const getBlockType = (node: any): string | undefined =>
+  node?.data?.blockType || node?.data?.type || node?.type;
+
+const positiveNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0
+    ? parsed
+    : undefined;
+};
+
+export function getApprovalGateId(nodeId: string): string {
+  return `${nodeId}-approval`;
+}
+
+/**
+ * Whether a transaction node has to be approved before it runs. The node
+ * config can set its own `approvalThreshold`. Amounts that are only known at
+ * run time, such as templates, count as exceeding the threshold.
+ */
+export function requiresApproval(
+  node: any,
+  policy: ApprovalGatePolicy,
+): boolean {
+  const gated = GATED_BLOCKS[getBlockType(node) ?? ''];
+  if (!gated) {
+    return false;
+  }
+  if (policy.gatedNodeIds) {
+    return policy.gatedNodeIds.includes(node.id);
+  }
+  if (policy.confirmOperations.includes(gated.operation)) {
+    return true;
+  }
+
+  const config = node.data?.config ?? {};
+  const threshold =
+    positiveNumber(config.approvalThreshold) ?? policy.amountThreshold;
+  const rawAmount = config[gated.amountField] ?? config.amount;
+  if (threshold === undefined || rawAmount === undefined || rawAmount === '') {
+    return false;
+  }
+
+  const amount = Number(rawAmount);
+  return !Number.isFinite(amount) || amount > threshold;
+}
+
+/**
+ * The transactions of a workflow that need approval
+ */
+export function getGatedNodeIds(
+  nodes: any[],
+  policy: ApprovalGatePolicy,
+): string[] {
+  return nodes
+    .filter((node) => requiresApproval(node, policy))
+    .map((node) => node.id);
+}
+
+/**
+ * Insert an APPROVAL node in front of every transaction that needs one. The
+ * approval gets copies of the incoming edges of the transaction, so it runs
+ * on the same branch and before it, and an edge to the transaction so a
+ * rejection skips it. Transactions that already follow an APPROVAL block are
+ * left alone.
+ */
+export function insertApprovalGates(
+  nodes: any[],
+  edges: any[],
+  policy: ApprovalGatePolicy,
+): { nodes: any[]; edges: any[] } {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const gatedNodes = [...nodes];
+  const gatedEdges = [...edges];
+
+  for (const node of nodes) {
+    if (!requiresApproval(node, policy)) {
+      continue;
+    }
+
+    const incomingEdges = edges.filter((edge) => edge.target === node.id);
+    const gateId = getApprovalGateId(node.id);
+    if (
+      nodesById.has(gateId) ||
+      incomingEdges.some(
+        (edge) =>
+          getBlockType(nodesById.get(edge.source)) === BlockType.APPROVAL,
+      )
+    ) {
+      continue;
+    }
+
+    gatedNodes.push({
+      id: gateId,
+      type: node.type,
+      position: node.position,
+      data: {
+        blockType: BlockType.APPROVAL,
+        label: `Approve ${node.data?.label || node.id}`,
+        config: {
+          approvers: [],
+          timeoutMinutes: policy.timeoutMinutes,
+          defaultAction: 'reject',
+          targetNodeId: node.id,
+        },
+      },
+    });
+    for (const edge of incomingEdges) {
+      gatedEdges.push({
+        id: `${edge.id}-approval`,
+        source: edge.source,
+        sourceHandle: edge.sourceHandle,
+        target: gateId,
+      });
+    }
+    gatedEdges.push({
+      id: `${gateId}-${node.id}`,
+      source: gateId,
+      target: node.id,
+    });
+  }
+
+  return { nodes: gatedNodes, edges: gatedEdges };
+}
+
+/**
+ * What an approver is asked to approve: the transaction an approval was
+ * inserted for, or the nodes an APPROVAL block leads to
+ */
+export function getProposedAction(
+  approvalNode: any,
+  nodes: any[],
+  edges: any[],
+): ProposedAction {
+  const config = approvalNode.data?.config ?? {};
+  const targetIds: string[] = config.targetNodeId
+    ? [config.targetNodeId]
+    : edges
+        .filter(
+          (edge) =>
+            edge.source === approvalNode.id && edge.sourceHandle !== 'rejected',
+        )
+        .map((edge) => edge.target);
+
+  return {
+    message: config.message || null,
+    nodes: [...new Set(targetIds)]
+      .map((id) => nodes.find((node) => node.id === id))
+      .filter(Boolean)
+      .map((node) => ({
+        nodeId: node.id,
+        blockType: getBlockType(node) ?? BlockType.UNKNOWN,
+        label: node.data?.label ?? null,
+        config: node.data?.config ?? {},
+      })),
+  };
+}
+
+/**
+ * An APPROVAL node whose decision was a rejection
+ */
+export function isRejectedApproval(node: any, output: any): boolean {
+  return (
+    getBlockType(node) === BlockType.APPROVAL &&
+    !!output &&
+    output.approved === false
+  );
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DatabaseService } from '../services/database.service';
 import { ExecutionEventsService } from '../lib/services/execution-events.service';
+import { EnhancedExecutionError } from './execution-errors';
 
 @Injectable()
 export class ErrorHandler {
@@ -44,6 +45,11 @@ export class ErrorHandler {
         error_details: details,
         node_id: nodeId || 'system',
         user_id: userId,
+        // Classified errors carry details such as the exhausted quota
+        ...(error instanceof EnhancedExecutionError && {
+          execution_error_type: error.type,
+          context: error.context,
+        }),
       },
     );
 
@@ -0,0 +1,210 @@
+// Enhanced error classification
+export enum ExecutionErrorType {
+  VALIDATION_ERROR = 'validation_error',
+  CONFIGURATION_ERROR = 'configuration_error',
+  NETWORK_ERROR = 'network_error',
+  AUTHENTICATION_ERROR = 'auth_error',
+  RATE_LIMIT_ERROR = 'rate_limit_error',
+  TIMEOUT_ERROR = 'timeout_error',
+  EXTERNAL_SERVICE_ERROR = 'external_service_error',
+  CIRCUIT_BREAKER_ERROR = 'circuit_breaker_error',
+  RESOURCE_ERROR = 'resource_error',
+  QUOTA_EXCEEDED_ERROR = 'quota_exceeded_error',
+  UNKNOWN_ERROR = 'unknown_error',
+}
+
+export class EnhancedExecutionError extends Error {
+  public readonly type: ExecutionErrorType;
+  public readonly isRetryable: boolean;
+  public readonly retryDelay: number;
+  public readonly context: Record<string, any>;
+
+  constructor(
+    type: ExecutionErrorType,
+    message: string,
+    isRetryable = false,
+    retryDelay = 1000,
+    context: Record<string, any> = {},
+  ) {
+    super(message);
+    this.type = type;
+    this.isRetryable = isRetryable;
+    this.retryDelay = retryDelay;
+    this.context = context;
+    this.name = 'EnhancedExecutionError';
+  }
+}
+
+/**
+ * Classify errors for better handling and retry logic
+ */
+export function classifyExecutionError(error: any): EnhancedExecutionError {
+  if (error instanceof EnhancedExecutionError) {
+    return error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  // Network errors
+  if (
+    errorMessage.includes('fetch failed') ||
+    errorMessage.includes('ENOTFOUND') ||
+    errorMessage.includes('ECONNREFUSED') ||
+    errorMessage.includes('ETIMEDOUT')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.NETWORK_ERROR,
+      errorMessage,
+      true, // Retryable
+      2000, // 2 second delay
+      { originalError: error },
+    );
+  }
+
+  // Timeouts of a node attempt or an outgoing call
+  if (
+    error?.name === 'TimeoutError' ||
+    errorMessage.includes('timeout') ||
+    errorMessage.includes('timed out')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.TIMEOUT_ERROR,
+      errorMessage,
+      true, // Retryable
+      2000, // 2 second delay
+      { originalError: error },
+    );
+  }
+
+  // Rate limit errors
+  if (
+    errorMessage.includes('rate limit') ||
+    errorMessage.includes('429') ||
+    errorMessage.includes('too many requests')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.RATE_LIMIT_ERROR,
+      errorMessage,
+      true, // Retryable
+      5000, // 5 second delay for rate limits
+      { originalError: error },
+    );
+  }
+
+  // Authentication errors
+  if (
+    errorMessage.includes('unauthorized') ||
+    errorMessage.includes('401') ||
+    errorMessage.includes('403') ||
+    errorMessage.includes('invalid token')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.AUTHENTICATION_ERROR,
+      errorMessage,
+      false, // Not retryable
+      0,
+      { originalError: error },
+    );
+  }
+
+  // Configuration errors
+  if (
+    errorMessage.includes('missing') ||
+    errorMessage.includes('required') ||
+    errorMessage.includes('invalid configuration')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.CONFIGURATION_ERROR,
+      errorMessage,
+      false, // Not retryable
+      0,
+      { originalError: error },
+    );
+  }
+
+  // Quota exceeded errors
+  if (
+    errorMessage.includes('quota exceeded') ||
+    errorMessage.includes('limit exceeded')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.QUOTA_EXCEEDED_ERROR,
+      errorMessage,
+      false, // Not retryable
+      0,
+      { originalError: error },
+    );
+  }
+
+  // Circuit breaker errors
+  if (errorMessage.includes('Circuit breaker is OPEN')) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.CIRCUIT_BREAKER_ERROR,
+      errorMessage,
+      true, // Retryable after cooldown
+      30000, // 30 second delay
+      { originalError: error },
+    );
+  }
+
+  // External service errors (5xx status codes)
+  if (
+    errorMessage.includes('HTTP 5') ||
+    errorMessage.includes('Internal Server Error')
+  ) {
+    return new EnhancedExecutionError(
+      ExecutionErrorType.EXTERNAL_SERVICE_ERROR,
+      errorMessage,
+      true, // Retryable
+      3000, // 3 second delay
+      { originalError: error },
+    );
+  }
+
+  // Default to unknown retryable error
+  return new EnhancedExecutionError(
+    ExecutionErrorType.UNKNOWN_ERROR,
+    errorMessage,
+    true, // Default to retryable
+    1000, // 1 second delay
+    { originalError: error },
+  );
+}
+
+/**
+ * Output of a node that failed while an error branch or `continueOnFail`
+ * handled the failure. It is passed downstream in place of the node output.
+ */
+export interface NodeErrorOutput {
+  failed: true;
+  error: {
+    message: string;
+    type: ExecutionErrorType;
+    nodeId: string;
+    blockType?: string;
+    failedAt: string;
+  };
+}
+
+export function createNodeErrorOutput(error: any, node: any): NodeErrorOutput {
+  const classified = classifyExecutionError(error);
+  return {
+    failed: true,
+    error: {
+      message: classified.message,
+      type: classified.type,
+      nodeId: node.id,
+      blockType: node.data?.blockType || node.data?.type || node.type,
+      failedAt: new Date().toISOString(),
+    },
+  };
+}
+
+export function isNodeErrorOutput(output: any): output is NodeErrorOutput {
+  return (
+    !!output &&
+    typeof output === 'object' &&
+    output.failed === true &&
+    typeof output.error === 'object'
+  );
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DatabaseService } from '../services/database.service';
 import { BlockExecutionContext } from '@zzyra/types';
+import { redactSecrets } from '@zzyra/database';
 
 // Extended logger interface with the 'log' method for compatibility
 interface ExtendedLogger {
@@ -67,22 +68,42 @@ export class ExecutionLogger {
     }
   }
 
-  createNodeLogger(executionId: string, nodeId: string): ExtendedLogger {
+  /**
+   * Logger for a block. Values of the credentials the block uses are
+   * redacted from the messages and data it logs.
+   */
+  createNodeLogger(
+    executionId: string,
+    nodeId: string,
+    secrets: string[] = [],
+  ): ExtendedLogger {
+    const logNodeEvent = (
+      level: 'info' | 'warn' | 'error',
+      message: string,
+      data?: any,
+    ) =>
+      this.logNodeEvent(
+        executionId,
+        nodeId,
+        level,
+        redactSecrets(message, secrets),
+        redactSecrets(data, secrets),
+      );
+
     return {
       // Use log for standard informational messages (same as info for compatibility)
-      log: (message: string, data?: any) =>
-        this.logNodeEvent(executionId, nodeId, 'info', message, data),
+      log: (message: string, data?: any) => logNodeEvent('info', message, data),
       // info is an alias for log to maintain interface compatibility
       info: (message: string, data?: any) =>
-        this.logNodeEvent(executionId, nodeId, 'info', message, data),
+        logNodeEvent('info', message, data),
       error: (message: string, data?: any) =>
-        this.logNodeEvent(executionId, nodeId, 'error', message, data),
+        logNodeEvent('error', message, data),
       warn: (message: string, data?: any) =>
-        this.logNodeEvent(executionId, nodeId, 'warn', message, data),
+        logNodeEvent('warn', message, data),
       debug: (message: string, data?: any) => {
-        this.logger.debug(message);
+        this.logger.debug(redactSecrets(message, secrets));
         // Map debug to info since LogLevel enum doesn't support debug
-        return this.logNodeEvent(executionId, nodeId, 'info', message, data);
+        return logNodeEvent('info', message, data);
       },
     };
   }
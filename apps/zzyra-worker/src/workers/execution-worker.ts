@@ -14,43 +14,18 @@ import { ErrorHandler } from './error-handler';
 import { DatabaseService } from '../services/database.service';
 import { RabbitMQService, QueueMessage } from '../services/rabbitmq.service';
 import { CircuitBreakerDbService } from '../lib/blockchain/CircuitBreakerDbService';
-
-// Enhanced error classification
-export enum ExecutionErrorType {
-  VALIDATION_ERROR = 'validation_error',
-  CONFIGURATION_ERROR = 'configuration_error',
-  NETWORK_ERROR = 'network_error',
-  AUTHENTICATION_ERROR = 'auth_error',
-  RATE_LIMIT_ERROR = 'rate_limit_error',
-  TIMEOUT_ERROR = 'timeout_error',
-  EXTERNAL_SERVICE_ERROR = 'external_service_error',
-  CIRCUIT_BREAKER_ERROR = 'circuit_breaker_error',
-  RESOURCE_ERROR = 'resource_error',
-  QUOTA_EXCEEDED_ERROR = 'quota_exceeded_error',
-  UNKNOWN_ERROR = 'unknown_error',
-}
-
-export class EnhancedExecutionError extends Error {
-  public readonly type: ExecutionErrorType;
-  public readonly isRetryable: boolean;
-  public readonly retryDelay: number;
-  public readonly context: Record<string, any>;
-
-  constructor(
-    type: ExecutionErrorType,
-    message: string,
-    isRetryable = false,
-    retryDelay = 1000,
-    context: Record<string, any> = {},
-  ) {
-    super(message);
-    this.type = type;
-    this.isRetryable = isRetryable;
-    this.retryDelay = retryDelay;
-    this.context = context;
-    this.name = 'EnhancedExecutionError';
-  }
-}
+import {
+  hasTeamPermission,
+  QuotaBalance,
+  WAIT_PAUSE_REASON,
+} from '@zzyra/database';
+import { CONCURRENT_RUN_SETTINGS } from '../config';
+import {
+  EnhancedExecutionError,
+  classifyExecutionError,
+} from './execution-errors';
+import { createQuotaExceededError } from './quota';
+import { createWaitOutput, getTimerDelay } from './wait';
 
 @Global()
 @Injectable()
@@ -61,9 +36,9 @@ export class ExecutionWorker implements OnModuleInit {
     max: 100,
     ttl: 60 * 60 * 1000,
   });
-  private profileCache = new LRUCache<string, any>({
+  // Versions are immutable, so they are cached without a TTL
+  private versionCache = new LRUCache<string, { nodes: any[]; edges: any[] }>({
     max: 100,
-    ttl: 60 * 60 * 1000,
   });
   private isInitialized = false;
 
@@ -92,123 +67,6 @@ export class ExecutionWorker implements OnModuleInit {
     }
   }
 
-  /**
-   * Classify errors for better handling and retry logic
-   */
-  private classifyError(error: any): EnhancedExecutionError {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    // Network errors
-    if (
-      errorMessage.includes('fetch failed') ||
-      errorMessage.includes('ENOTFOUND') ||
-      errorMessage.includes('ECONNREFUSED') ||
-      errorMessage.includes('ETIMEDOUT')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.NETWORK_ERROR,
-        errorMessage,
-        true, // Retryable
-        2000, // 2 second delay
-        { originalError: error },
-      );
-    }
-
-    // Rate limit errors
-    if (
-      errorMessage.includes('rate limit') ||
-      errorMessage.includes('429') ||
-      errorMessage.includes('too many requests')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.RATE_LIMIT_ERROR,
-        errorMessage,
-        true, // Retryable
-        5000, // 5 second delay for rate limits
-        { originalError: error },
-      );
-    }
-
-    // Authentication errors
-    if (
-      errorMessage.includes('unauthorized') ||
-      errorMessage.includes('401') ||
-      errorMessage.includes('403') ||
-      errorMessage.includes('invalid token')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.AUTHENTICATION_ERROR,
-        errorMessage,
-        false, // Not retryable
-        0,
-        { originalError: error },
-      );
-    }
-
-    // Configuration errors
-    if (
-      errorMessage.includes('missing') ||
-      errorMessage.includes('required') ||
-      errorMessage.includes('invalid configuration')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.CONFIGURATION_ERROR,
-        errorMessage,
-        false, // Not retryable
-        0,
-        { originalError: error },
-      );
-    }
-
-    // Quota exceeded errors
-    if (
-      errorMessage.includes('quota exceeded') ||
-      errorMessage.includes('limit exceeded')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.QUOTA_EXCEEDED_ERROR,
-        errorMessage,
-        false, // Not retryable
-        0,
-        { originalError: error },
-      );
-    }
-
-    // Circuit breaker errors
-    if (errorMessage.includes('Circuit breaker is OPEN')) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.CIRCUIT_BREAKER_ERROR,
-        errorMessage,
-        true, // Retryable after cooldown
-        30000, // 30 second delay
-        { originalError: error },
-      );
-    }
-
-    // External service errors (5xx status codes)
-    if (
-      errorMessage.includes('HTTP 5') ||
-      errorMessage.includes('Internal Server Error')
-    ) {
-      return new EnhancedExecutionError(
-        ExecutionErrorType.EXTERNAL_SERVICE_ERROR,
-        errorMessage,
-        true, // Retryable
-        3000, // 3 second delay
-        { originalError: error },
-      );
-    }
-
-    // Default to unknown retryable error
-    return new EnhancedExecutionError(
-      ExecutionErrorType.UNKNOWN_ERROR,
-      errorMessage,
-      true, // Default to retryable
-      1000, // 1 second delay
-      { originalError: error },
-    );
-  }
-
   /**
    * Enhanced retry logic with circuit breaker integration
    */
@@ -298,7 +156,7 @@ export class ExecutionWorker implements OnModuleInit {
         }
       } catch (err) {
         // Classify the error for better handling
-        const classifiedError = this.classifyError(err);
+        const classifiedError = classifyExecutionError(err);
 
         this.logger.error(
           `Message processing failed (${classifiedError.type}): ${classifiedError.message}`,
@@ -390,6 +248,13 @@ export class ExecutionWorker implements OnModuleInit {
     }
 
     try {
+      // Due WAIT timers turn into a resume of their execution
+      if (message.payload?.waitTimer) {
+        const resume = await this.fireWaitTimer(message);
+        if (!resume) return;
+        message = resume;
+      }
+
       // Verify execution exists and is in a processable state
       const execution =
         await this.databaseService.executions.findById(executionId);
@@ -398,8 +263,13 @@ export class ExecutionWorker implements OnModuleInit {
         return;
       }
 
-      // Check if execution is already completed or failed
-      if (execution.status === 'completed' || execution.status === 'failed') {
+      // Check if execution is already completed, failed or cancelled
+      if (
+        execution.status === 'completed' ||
+        execution.status === 'completed_with_errors' ||
+        execution.status === 'failed' ||
+        execution.status === 'cancelled'
+      ) {
         this.logger.warn(
           `Skipping already ${execution.status} execution: ${executionId}`,
         );
@@ -473,6 +343,77 @@ export class ExecutionWorker implements OnModuleInit {
     }
   }
 
+  /**
+   * Handle a WAIT timer that expired into the execution queue. Timers of
+   * waits that were resumed or cancelled are dropped and timers that are not
+   * due yet are published again for the next hop. A due timer resumes the
+   * execution after its WAIT node.
+   * @returns The resume message, or null when there is nothing to run
+   */
+  private async fireWaitTimer(
+    message: QueueMessage,
+  ): Promise<QueueMessage | null> {
+    const { executionId } = message;
+    const [execution, pause] = await Promise.all([
+      this.databaseService.executions.findById(executionId),
+      this.databaseService.executions.findLatestPause(executionId),
+    ]);
+    if (
+      execution?.status !== 'paused' ||
+      pause?.id !== message.payload.pauseId ||
+      pause.reason !== WAIT_PAUSE_REASON ||
+      !pause.resumeAt
+    ) {
+      this.logger.log(`Dropping stale wait timer of execution ${executionId}`);
+      return null;
+    }
+
+    const now = new Date();
+    if (pause.resumeAt > now) {
+      const published = await this.rabbitmqService.publishWaitTimer(
+        message,
+        getTimerDelay(pause.resumeAt, now),
+      );
+      if (!published) {
+        throw new Error(
+          `Failed to publish the wait timer of execution ${executionId}`,
+        );
+      }
+      return null;
+    }
+
+    // A callback can arrive at the same time; only one may resume
+    const claimed =
+      await this.databaseService.executions.markPausedAsPending(executionId);
+    if (!claimed) {
+      return null;
+    }
+
+    const output = createWaitOutput(pause, now);
+    await this.databaseService.executions.deletePause(pause.id);
+    await this.databaseService.executions.addLog(
+      executionId,
+      'info',
+      output.timedOut
+        ? `Wait for a callback at node ${pause.nodeId} timed out`
+        : `Wait at node ${pause.nodeId} finished`,
+      { node_id: pause.nodeId, ...output },
+    );
+
+    return {
+      ...message,
+      payload: {
+        resumed: true,
+        lastCompletedNodeId: pause.nodeId,
+        gatedNodeIds: pause.gatedNodeIds,
+        resumeData: {
+          ...((pause.resumeData as Record<string, any>) ?? {}),
+          [pause.nodeId]: output,
+        },
+      },
+    };
+  }
+
   private async processJob(job: any): Promise<void> {
     try {
       const {
@@ -484,42 +425,35 @@ export class ExecutionWorker implements OnModuleInit {
       } = job;
       const isRetry = payload?.retried === true;
       const isResume = payload?.resumed === true;
-      const resumeData = isResume ? payload?.resumeData || {} : {};
+      // Re-runs execute one node and its descendants on top of the stored
+      // outputs of the parent execution
+      const rerunFromNodeId: string | undefined = payload?.rerunFromNodeId;
+      const resumeData =
+        isResume || rerunFromNodeId ? payload?.resumeData || {} : {};
 
       // Get workflow using existing method
       const workflow =
         this.workflowCache.get(workflowId) ||
         (await this.fetchWorkflow(workflowId));
-      if (workflow.user_id !== userId)
+      if (!(await this.canExecute(workflow, userId)))
         throw new Error('User does not have permission');
 
-      // Get or create profile using DatabaseService
-      const profile =
-        this.profileCache.get(userId) ||
-        (await this.databaseService.getOrCreateUserProfile(userId));
-      if (profile.monthlyExecutionCount >= profile.monthlyExecutionQuota) {
-        throw new EnhancedExecutionError(
-          ExecutionErrorType.QUOTA_EXCEEDED_ERROR,
-          'Monthly execution quota exceeded',
-          false, // Not retryable
-          0,
-          {
-            userId,
-            currentCount: profile.monthlyExecutionCount,
-            quota: profile.monthlyExecutionQuota,
-          },
-        );
-      }
+      await this.databaseService.getOrCreateUserProfile(userId);
 
-      // Increment execution count
-      await this.databaseService.prisma.profile.update({
-        where: { id: userId },
-        data: {
-          monthlyExecutionCount: {
-            increment: 1,
-          },
-        },
-      });
+      // Charge the execution against the plan of the user; resumed and
+      // redelivered runs are only checked against the concurrent run limit
+      const quota = await this.databaseService.usage.startExecution(
+        userId,
+        executionId,
+      );
+      if (!quota.allowed) {
+        // Runs over the concurrent run limit wait for another run to finish
+        if (quota.balance.resource === 'concurrent_runs') {
+          await this.deferRun(job, quota.balance);
+          return;
+        }
+        throw createQuotaExceededError(quota.balance, { userId });
+      }
 
       // Check execution status
       const execution =
@@ -534,8 +468,11 @@ export class ExecutionWorker implements OnModuleInit {
         undefined,
       );
 
-      // Extract workflow definition
-      const { nodes, edges } = this.extractNodesAndEdges(workflow);
+      // Run the version the execution was pinned to when it was created,
+      // falling back to the current definition for older executions
+      const { nodes, edges } = execution?.workflowVersionId
+        ? await this.fetchWorkflowVersion(execution.workflowVersionId)
+        : this.extractNodesAndEdges(workflow);
 
       // Execute workflow
       const result = await this.workflowExecutor.executeWorkflow(
@@ -546,6 +483,8 @@ export class ExecutionWorker implements OnModuleInit {
         isResume ? payload?.lastCompletedNodeId : undefined,
         resumeData,
         blockchainAuthorization,
+        rerunFromNodeId,
+        isResume ? payload?.gatedNodeIds : undefined,
       );
 
       // Update final status
@@ -564,6 +503,41 @@ export class ExecutionWorker implements OnModuleInit {
     }
   }
 
+  /**
+   * Queue a run again after a delay. The execution stays pending and is
+   * unlocked, so the worker that receives it next can claim it.
+   */
+  private async deferRun(job: any, balance: QuotaBalance): Promise<void> {
+    const {
+      executionId,
+      workflowId,
+      userId,
+      payload,
+      blockchainAuthorization,
+    } = job;
+
+    await this.databaseService.prisma.workflowExecution.update({
+      where: { id: executionId },
+      data: { lockedBy: null },
+    });
+    const published = await this.rabbitmqService.publishDeferred(
+      { executionId, workflowId, userId, payload, blockchainAuthorization },
+      CONCURRENT_RUN_SETTINGS.retryDelayMs,
+    );
+    if (!published) {
+      throw new Error(
+        `Failed to queue execution ${executionId} until a run slot is free`,
+      );
+    }
+
+    await this.databaseService.executions.addLog(
+      executionId,
+      'info',
+      `Waiting for a run slot: ${balance.used} of ${balance.limit} runs in progress`,
+      { retry_in_ms: CONCURRENT_RUN_SETTINGS.retryDelayMs },
+    );
+  }
+
   private async fetchWorkflow(workflowId: string) {
     const workflowResult = await this.workflowService.getWorkflow(workflowId);
     if ('error' in workflowResult && workflowResult.error)
@@ -574,6 +548,41 @@ export class ExecutionWorker implements OnModuleInit {
     return workflow;
   }
 
+  /**
+   * The owner of a workflow can run it, as can members of the team that
+   * owns it whose role allows executing
+   */
+  private async canExecute(workflow: any, userId: string): Promise<boolean> {
+    if (workflow.user_id === userId) return true;
+    if (!workflow.teamId) return false;
+
+    const member = await this.databaseService.prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId: workflow.teamId, userId } },
+      select: { role: true },
+    });
+    return hasTeamPermission(member?.role, 'execute');
+  }
+
+  private async fetchWorkflowVersion(workflowVersionId: string) {
+    const cached = this.versionCache.get(workflowVersionId);
+    if (cached) return cached;
+
+    const version =
+      await this.databaseService.prisma.workflowVersion.findUnique({
+        where: { id: workflowVersionId },
+        select: { nodes: true, edges: true },
+      });
+    if (!version)
+      throw new Error(`Workflow version ${workflowVersionId} not found`);
+
+    const definition = {
+      nodes: (version.nodes as any[]) || [],
+      edges: (version.edges as any[]) || [],
+    };
+    this.versionCache.set(workflowVersionId, definition);
+    return definition;
+  }
+
   private extractNodesAndEdges(workflow: any) {
     if (workflow.nodes && workflow.edges)
       return { nodes: workflow.nodes, edges: workflow.edges };
@@ -0,0 +1,260 @@
+import { BlockType } from '@zzyra/types';
+import { FOR_EACH_SETTINGS } from '../config';
+import { ApprovalGatePolicy, requiresApproval } from './approval-gates';
+import { createNodeErrorOutput } from './execution-errors';
+
+export type ItemErrorMode = 'fail' | 'continue' | 'skip';
+
+export interface ForEachOptions {
+  concurrency: number;
+  batchSize: number;
+  // What a failed item does: fail the block, add its error to the results
+  // or leave it out of them
+  onItemError: ItemErrorMode;
+}
+
+// The nodes placed inside a FOR_EACH block and the edges between them
+export interface LoopBody {
+  nodes: any[];
+  edges: any[];
+}
+
+export type IterationOutcome =
+  { index: number; result: unknown } | { index: number; error: unknown };
+
+export interface ForEachOutput {
+  results: unknown[];
+  count: number;
+  succeeded: number;
+  failed: number;
+  errors: { index: number; message: string }[];
+}
+
+const ITEM_ERROR_MODES: ItemErrorMode[] = ['fail', 'continue', 'skip'];
+
+const getBlockType = (node: any): string | undefined =>
+  node?.data?.blockType || node?.data?.type || node?.type;
+
+const getParentId = (node: any): string | undefined =>
+  node?.parentId ?? node?.parentNode;
+
+const positiveInteger = (value: unknown, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function isForEachNode(node: any): boolean {
+  return getBlockType(node) === BlockType.FOR_EACH;
+}
+
+/**
+ * Id the node execution of one item is recorded under, e.g. "send#3"
+ */
+export function getIterationNodeId(nodeId: string, index: number): string {
+  return `${nodeId}#${index}`;
+}
+
+/**
+ * Take the nodes inside FOR_EACH blocks out of the workflow graph. Each
+ * block keeps its child nodes as a body that runs once per item; the
+ * remaining graph runs the block as a single node. Edges may not cross the
+ * border of a block, and blocks may not be nested.
+ */
+export function extractLoopBodies(
+  nodes: any[],
+  edges: any[],
+): { nodes: any[]; edges: any[]; bodies: Map<string, LoopBody> } {
+  const bodies = new Map<string, LoopBody>(
+    nodes
+      .filter(isForEachNode)
+      .map((node) => [node.id, { nodes: [], edges: [] }]),
+  );
+  if (bodies.size === 0) {
+    return { nodes, edges, bodies };
+  }
+
+  const loopOf = new Map<string, string>();
+  for (const node of nodes) {
+    const parentId = getParentId(node);
+    if (!parentId || !bodies.has(parentId)) {
+      continue;
+    }
+    if (isForEachNode(node)) {
+      throw new Error(
+        `FOR_EACH block ${node.id} cannot be placed inside FOR_EACH block ${parentId}`,
+      );
+    }
+    loopOf.set(node.id, parentId);
+    bodies.get(parentId)!.nodes.push(node);
+  }
+
+  const outerEdges: any[] = [];
+  for (const edge of edges) {
+    const sourceLoop = loopOf.get(edge.source);
+    const targetLoop = loopOf.get(edge.target);
+    if (sourceLoop !== targetLoop) {
+      throw new Error(
+        `Edge ${edge.id} crosses the border of FOR_EACH block ${sourceLoop ?? targetLoop}; connect the block itself instead`,
+      );
+    }
+    if (sourceLoop) {
+      bodies.get(sourceLoop)!.edges.push(edge);
+    } else {
+      outerEdges.push(edge);
+    }
+  }
+
+  bodies.forEach((body, loopId) => {
+    if (body.nodes.length === 0) {
+      throw new Error(`FOR_EACH block ${loopId} has no nodes inside it`);
+    }
+  });
+
+  return {
+    nodes: nodes.filter((node) => !loopOf.has(node.id)),
+    edges: outerEdges,
+    bodies,
+  };
+}
+
+/**
+ * Approvals and waits pause the whole execution, which a single item cannot
+ * do, so loop bodies may not contain APPROVAL or WAIT blocks or transactions
+ * that need an approval
+ */
+export function validateLoopBody(
+  loopId: string,
+  body: LoopBody,
+  policy: ApprovalGatePolicy,
+): void {
+  for (const node of body.nodes) {
+    if (getBlockType(node) === BlockType.WAIT) {
+      throw new Error(
+        `WAIT block ${node.id} cannot be placed inside FOR_EACH block ${loopId}`,
+      );
+    }
+    if (
+      getBlockType(node) === BlockType.APPROVAL ||
+      requiresApproval(node, policy)
+    ) {
+      throw new Error(
+        `Node ${node.id} in FOR_EACH block ${loopId} needs an approval, which cannot run inside a loop`,
+      );
+    }
+  }
+}
+
+export function resolveForEachOptions(
+  config: Record<string, any> = {},
+): ForEachOptions {
+  return {
+    concurrency: Math.min(
+      positiveInteger(config.concurrency, 1),
+      FOR_EACH_SETTINGS.maxConcurrency,
+    ),
+    batchSize: positiveInteger(
+      config.batchSize,
+      FOR_EACH_SETTINGS.defaultBatchSize,
+    ),
+    onItemError: ITEM_ERROR_MODES.includes(config.onItemError)
+      ? config.onItemError
+      : 'fail',
+  };
+}
+
+/**
+ * Run `run` for every item, `batchSize` items at a time with at most
+ * `concurrency` of them in flight. `beforeBatch` runs before each batch
+ * starts, e.g. to stop on cancellation. After an item throws no new items
+ * start; the ones in flight finish and the error is rethrown.
+ */
+export async function runInBatches<T, R>(
+  items: T[],
+  options: Pick<ForEachOptions, 'concurrency' | 'batchSize'>,
+  run: (item: T, index: number) => Promise<R>,
+  beforeBatch?: (start: number) => Promise<void>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+
+  for (let start = 0; start < items.length; start += options.batchSize) {
+    await beforeBatch?.(start);
+
+    const end = Math.min(start + options.batchSize, items.length);
+    let next = start;
+    let failure: { error: unknown } | undefined;
+
+    const worker = async () => {
+      while (!failure && next < end) {
+        const index = next++;
+        try {
+          results[index] = await run(items[index], index);
+        } catch (error) {
+          failure ??= { error };
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(options.concurrency, end - start) }, () =>
+        worker(),
+      ),
+    );
+
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Result of one item: the output of the body's last node, or the outputs of
+ * its last nodes by id when the body ends in more than one
+ */
+export function getIterationResult(
+  body: LoopBody,
+  outputs: Record<string, any>,
+): unknown {
+  const sources = new Set(body.edges.map((edge) => edge.source));
+  const terminals = body.nodes.filter((node) => !sources.has(node.id));
+  if (terminals.length === 1) {
+    return outputs[terminals[0].id];
+  }
+  return Object.fromEntries(
+    terminals
+      .filter((node) => node.id in outputs)
+      .map((node) => [node.id, outputs[node.id]]),
+  );
+}
+
+/**
+ * Output of a FOR_EACH block, with the results in the order of the items
+ */
+export function collectForEachOutput(
+  loopNode: any,
+  outcomes: IterationOutcome[],
+  onItemError: ItemErrorMode,
+): ForEachOutput {
+  const results: unknown[] = [];
+  const errors: ForEachOutput['errors'] = [];
+
+  for (const outcome of outcomes) {
+    if (!('error' in outcome)) {
+      results.push(outcome.result);
+      continue;
+    }
+    const errorOutput = createNodeErrorOutput(outcome.error, loopNode);
+    errors.push({ index: outcome.index, message: errorOutput.error.message });
+    if (onItemError === 'continue') {
+      results.push(errorOutput);
+    }
+  }
+
+  return {
+    results,
+    count: outcomes.length,
+    succeeded: outcomes.length - errors.length,
+    failed: errors.length,
+    errors,
+  };
+}
@@ -125,10 +125,29 @@ export class AIAgentHandler implements BlockHandler {
       this.logger.log(
         `[AI_AGENT] Initializing LLM provider for node: ${nodeId}`,
       );
-      const provider = await this.llmProviderManager.getProvider(
+      const llmProvider = await this.llmProviderManager.getProvider(
         config.provider.type,
         config.provider,
       );
+      // Abort every LLM call of this run when the execution is cancelled,
+      // and meter the tokens each call uses against the plan quota
+      const provider = {
+        ...llmProvider,
+        generateText: async (
+          params: Parameters<typeof llmProvider.generateText>[0],
+        ) => {
+          const response = await llmProvider.generateText(
+            ctx.signal ? { ...params, abortSignal: ctx.signal } : params,
+          );
+          await this.recordTokenUsage(response?.usage?.totalTokens, {
+            executionId,
+            nodeId,
+            userId,
+            model: config.provider.model,
+          });
+          return response;
+        },
+      };
       this.logger.debug(`[AI_AGENT] LLM provider initialized:`, {
         providerType: config.provider.type,
         model: config.provider.model,
@@ -278,6 +297,38 @@ export class AIAgentHandler implements BlockHandler {
     }
   }
 
+  private async recordTokenUsage(
+    totalTokens: number | undefined,
+    usage: {
+      executionId: string;
+      nodeId: string;
+      userId: string;
+      model: string;
+    },
+  ): Promise<void> {
+    if (!totalTokens) {
+      return;
+    }
+
+    try {
+      await this.databaseService.usage.record(
+        usage.userId,
+        'ai_tokens',
+        totalTokens,
+        {
+          executionId: usage.executionId,
+          nodeId: usage.nodeId,
+          model: usage.model,
+        },
+      );
+    } catch (error) {
+      // Losing a usage record must not fail the agent
+      this.logger.warn(
+        `[AI_AGENT] Failed to record token usage for node ${usage.nodeId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   private parseConfiguration(data: any): AIAgentConfig | null {
     try {
       // Handle both direct data and nested config structure from UI
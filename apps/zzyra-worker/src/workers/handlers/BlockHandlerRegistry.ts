@@ -9,9 +9,11 @@ import { DataTransformHandler } from './DataTransformHandler';
 import { EdgeTransformHandler } from './EdgeTransformHandler';
 import { CustomBlockHandler } from './CustomBlockHandler';
 import { ScheduleBlockHandler } from './ScheduleBlockHandler';
-import { HttpRequestHandler } from './HttpRequestHandler';
+import { ConditionBlockHandler } from './ConditionBlockHandler';
+import { WebhookTriggerHandler } from './WebhookTriggerHandler';
+import { WalletListenerHandler } from './blockchain/WalletListenerHandler';
 import { ZyraTemplateProcessor } from '../../utils/template-processor';
-import * as vm from 'vm';
+import { runInSandbox } from '../../lib/sandbox/custom-block-sandbox';
 
 // Sei blockchain operations now handled by official @sei-js/mcp-server
 import { AIAgentHandler } from './AIAgentHandler';
@@ -33,9 +35,6 @@ export class BlockHandlerRegistry {
   private handlers: Record<string, BlockHandler>;
   private enhancedRegistry: EnhancedBlockRegistry;
 
-  // Maximum execution time for JavaScript blocks in milliseconds
-  private readonly MAX_EXECUTION_TIME = 30000; // 30 seconds
-
   constructor(
     private readonly logger: Logger,
     private readonly databaseService: DatabaseService,
@@ -73,25 +72,26 @@ export class BlockHandlerRegistry {
         new CustomBlockHandler(this.databaseService),
       ),
 
-      // Legacy block types mapped to new handlers
-      [BlockType.CONDITION]: new MetricsBlockHandler(BlockType.CONDITION, {
-        execute: (node: any, context: BlockExecutionContext) => {
-          return Promise.resolve({
-            result: 'condition',
-          });
-        },
-      }),
-
       // Logic blocks with dedicated handlers
+      [BlockType.CONDITION]: new MetricsBlockHandler(
+        BlockType.CONDITION,
+        new ConditionBlockHandler(),
+      ),
       [BlockType.SCHEDULE]: new MetricsBlockHandler(
         BlockType.SCHEDULE,
         new ScheduleBlockHandler(),
       ),
 
-      // Additional block types mapped to existing handlers
+      // Webhook blocks receive the inbound request or send an outbound one
       [BlockType.WEBHOOK]: new MetricsBlockHandler(
         BlockType.WEBHOOK,
-        new HttpRequestHandler(),
+        new WebhookTriggerHandler(this.databaseService),
+      ),
+
+      // Wallet listeners output the on-chain event that started the run
+      [BlockType.WALLET_LISTEN]: new MetricsBlockHandler(
+        BlockType.WALLET_LISTEN,
+        new WalletListenerHandler(this.databaseService),
       ),
 
       // Sei blockchain operations now available through @sei-js/mcp-server via AI_AGENT blocks
@@ -241,45 +241,13 @@ export class BlockHandlerRegistry {
     nodeId: string,
     executionId: string,
   ): Promise<any> {
-    const sandbox = {
-      inputs,
-      console: {
-        log: (...args: any[]) => {
-          this.logger.log(`[Block ${blockDefinition.id}] ${args.join(' ')}`);
-          this.logToDatabase(executionId, nodeId, 'info', args.join(' '));
-        },
-        error: (...args: any[]) => {
-          this.logger.error(`[Block ${blockDefinition.id}] ${args.join(' ')}`);
-          this.logToDatabase(executionId, nodeId, 'error', args.join(' '));
-        },
-      },
-      // Safe utilities
-      JSON: { parse: JSON.parse, stringify: JSON.stringify },
-      Math,
-      Date,
-    };
-
-    const context = vm.createContext(sandbox);
-    const script = new vm.Script(`
-      (async () => {
-        ${blockDefinition.code}
-      })();
-    `);
-
-    const result = await Promise.race([
-      script.runInContext(context, {
-        timeout: this.MAX_EXECUTION_TIME,
-        displayErrors: true,
-      }),
-      new Promise((_, reject) =>
-        setTimeout(
-          () => reject(new Error('Execution timeout')),
-          this.MAX_EXECUTION_TIME,
-        ),
-      ),
-    ]);
+    const result = await runInSandbox(blockDefinition.code, inputs);
+    for (const log of result.logs) {
+      this.logger.log(`[Block ${blockDefinition.id}] ${log}`);
+      await this.logToDatabase(executionId, nodeId, 'info', log);
+    }
 
-    return this.validateOutputs(blockDefinition.outputs, result);
+    return this.validateOutputs(blockDefinition.outputs, result.outputs);
   }
 
   private validateInputs(
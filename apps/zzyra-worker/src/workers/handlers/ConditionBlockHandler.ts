@@ -0,0 +1,285 @@
+import {
+  BlockExecutionContext,
+  BlockHandler,
+  enhancedConditionSchema,
+} from '@zzyra/types';
+import { Logger } from '@nestjs/common';
+import {
+  evaluateExpression,
+  evaluateTemplate,
+  ExpressionScope,
+} from '../../lib/expressions/evaluator';
+
+// Operators of the comparator config CONDITION nodes were saved with before
+// they took an expression
+const COMPARATOR_OPERATORS = new Set([
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'greaterThanOrEqual',
+  'lessThan',
+  'lessThanOrEqual',
+  'contains',
+  'notContains',
+  'startsWith',
+  'endsWith',
+  'isEmpty',
+  'isNotEmpty',
+  'regex',
+]);
+
+/**
+ * Condition Handler
+ * Evaluates an expression (docs/expressions.md) against upstream outputs.
+ * The boolean `outcome` selects which of the node's `true`/`false` output
+ * handles the workflow executor follows.
+ *
+ * Nodes saved with the comparator config (`leftValue`, `operator`,
+ * `rightValue`) are still evaluated as comparisons.
+ */
+export class ConditionBlockHandler implements BlockHandler {
+  // Use the enhanced schema from @zzyra/types
+  static readonly inputSchema = enhancedConditionSchema.inputSchema;
+  static readonly outputSchema = enhancedConditionSchema.outputSchema;
+  static readonly configSchema = enhancedConditionSchema.configSchema;
+
+  private readonly logger = new Logger(ConditionBlockHandler.name);
+
+  async execute(
+    node: any,
+    context: BlockExecutionContext,
+  ): Promise<Record<string, any>> {
+    const config = node.data?.config || {};
+    const outputs = this.unwrapPreviousOutputs(context.previousOutputs || {});
+    const data = this.mergeOutputs(outputs);
+    const scope: ExpressionScope = { json: data, outputs };
+
+    if (
+      !(typeof config.condition === 'string' && config.condition.trim()) &&
+      COMPARATOR_OPERATORS.has(config.operator)
+    ) {
+      return this.executeComparison(config, scope, data, context);
+    }
+
+    const condition =
+      typeof config.condition === 'string' ? config.condition.trim() : '';
+
+    if (!condition) {
+      throw new Error('Condition expression is required');
+    }
+
+    let value: unknown;
+    try {
+      // Conditions are usually written without braces; a condition saved
+      // as a {{ template }} is evaluated as one
+      value = condition.includes('{{')
+        ? evaluateTemplate(condition, scope)
+        : evaluateExpression(condition, scope);
+    } catch (error) {
+      throw new Error(
+        `Failed to evaluate condition "${condition}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+
+    const outcome = Boolean(value);
+
+    this.logger.debug(
+      `Condition "${condition}" evaluated to ${outcome} for node ${context.nodeId}`,
+    );
+
+    return {
+      result: outcome,
+      outcome,
+      condition,
+      evaluatedAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private executeComparison(
+    config: Record<string, any>,
+    scope: ExpressionScope,
+    data: any,
+    context: BlockExecutionContext,
+  ): Record<string, any> {
+    const { operator } = config;
+    const [left, right] = this.convertValues(
+      this.resolveOperand(config.leftValue, scope),
+      this.resolveOperand(config.rightValue, scope),
+      config.dataType,
+    );
+    const outcome = this.compare(
+      left,
+      right,
+      operator,
+      config.caseSensitive !== false,
+    );
+    const condition = `${config.leftValue ?? ''} ${operator} ${config.rightValue ?? ''}`;
+
+    this.logger.debug(
+      `Comparison "${condition}" evaluated to ${outcome} for node ${context.nodeId}`,
+    );
+
+    return {
+      result: outcome,
+      outcome,
+      condition: condition.trim(),
+      evaluatedAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private resolveOperand(value: unknown, scope: ExpressionScope): unknown {
+    if (typeof value !== 'string' || !value.includes('{{')) {
+      return value ?? '';
+    }
+    return evaluateTemplate(value, scope);
+  }
+
+  private convertValues(
+    left: unknown,
+    right: unknown,
+    dataType = 'string',
+  ): [any, any] {
+    if (dataType === 'auto') {
+      dataType =
+        typeof left === 'number' ||
+        (typeof left === 'string' &&
+          left.trim() !== '' &&
+          !Number.isNaN(Number(left)))
+          ? 'number'
+          : typeof left === 'boolean' || left === 'true' || left === 'false'
+            ? 'boolean'
+            : 'string';
+    }
+
+    switch (dataType) {
+      case 'number': {
+        const [a, b] = [Number(left), Number(right)];
+        if (Number.isNaN(a) || Number.isNaN(b)) {
+          throw new Error(`Cannot compare "${left}" and "${right}" as numbers`);
+        }
+        return [a, b];
+      }
+      case 'boolean':
+        return [left, right].map((value) =>
+          typeof value === 'string'
+            ? value.toLowerCase() === 'true'
+            : Boolean(value),
+        ) as [boolean, boolean];
+      case 'date': {
+        const [a, b] = [new Date(left as any), new Date(right as any)];
+        if (Number.isNaN(a.getTime()) || Number.isNaN(b.getTime())) {
+          throw new Error(`Cannot compare "${left}" and "${right}" as dates`);
+        }
+        return [a.getTime(), b.getTime()];
+      }
+      default:
+        // Empty operators such as isEmpty look at the value itself
+        return [
+          left == null || Array.isArray(left) ? left : String(left),
+          String(right ?? ''),
+        ];
+    }
+  }
+
+  private compare(
+    left: any,
+    right: any,
+    operator: string,
+    caseSensitive: boolean,
+  ): boolean {
+    if (
+      !caseSensitive &&
+      typeof left === 'string' &&
+      typeof right === 'string'
+    ) {
+      left = left.toLowerCase();
+      right = right.toLowerCase();
+    }
+    const isEmpty =
+      left == null || left === '' || (Array.isArray(left) && left.length === 0);
+
+    switch (operator) {
+      case 'equals':
+        return left === right;
+      case 'notEquals':
+        return left !== right;
+      case 'greaterThan':
+        return left > right;
+      case 'greaterThanOrEqual':
+        return left >= right;
+      case 'lessThan':
+        return left < right;
+      case 'lessThanOrEqual':
+        return left <= right;
+      case 'contains':
+        return String(left).includes(String(right));
+      case 'notContains':
+        return !String(left).includes(String(right));
+      case 'startsWith':
+        return String(left).startsWith(String(right));
+      case 'endsWith':
+        return String(left).endsWith(String(right));
+      case 'isEmpty':
+        return isEmpty;
+      case 'isNotEmpty':
+        return !isEmpty;
+      default: {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(String(right), caseSensitive ? '' : 'i');
+        } catch {
+          throw new Error(`Invalid regex pattern: ${right}`);
+        }
+        return pattern.test(String(left));
+      }
+    }
+  }
+
+  /**
+   * The executor keys previous outputs by source node id, and each entry may
+   * itself be keyed by node id after edge processing. Flatten that back to
+   * `{ [nodeId]: output }`.
+   */
+  private unwrapPreviousOutputs(
+    previousOutputs: Record<string, any>,
+  ): Record<string, any> {
+    const outputs: Record<string, any> = {};
+
+    for (const [nodeId, output] of Object.entries(previousOutputs)) {
+      if (
+        output &&
+        typeof output === 'object' &&
+        !Array.isArray(output) &&
+        nodeId in output
+      ) {
+        Object.assign(outputs, output);
+      } else {
+        outputs[nodeId] = output;
+      }
+    }
+
+    return outputs;
+  }
+
+  /**
+   * With a single upstream node `data` is its output; otherwise the upstream
+   * outputs are shallow-merged in order.
+   */
+  private mergeOutputs(outputs: Record<string, any>): any {
+    const values = Object.values(outputs);
+    if (values.length === 1) {
+      return values[0];
+    }
+
+    return values.reduce<Record<string, any>>((merged, value) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(merged, value);
+      }
+      return merged;
+    }, {});
+  }
+}
@@ -7,6 +7,20 @@ import {
 import { DatabaseService } from '../../services/database.service';
 import { AbstractBlockHandler } from './AbstractBlockHandler';
 import { executeCustomBlockLogic } from '../../types/custom-block';
+import { SandboxErrorType } from '../../lib/sandbox/custom-block-sandbox';
+import {
+  EnhancedExecutionError,
+  ExecutionErrorType,
+} from '../execution-errors';
+
+// How failures of the sandbox are classified for retries and error branches
+const SANDBOX_ERROR_TYPES: Record<SandboxErrorType, ExecutionErrorType> = {
+  [SandboxErrorType.TIMEOUT]: ExecutionErrorType.TIMEOUT_ERROR,
+  [SandboxErrorType.MEMORY_LIMIT]: ExecutionErrorType.RESOURCE_ERROR,
+  [SandboxErrorType.NETWORK_DENIED]: ExecutionErrorType.CONFIGURATION_ERROR,
+  [SandboxErrorType.SCRIPT_ERROR]: ExecutionErrorType.VALIDATION_ERROR,
+  [SandboxErrorType.INVALID_OUTPUT]: ExecutionErrorType.VALIDATION_ERROR,
+};
 
 @Injectable()
 export class CustomBlockHandler
@@ -68,13 +82,42 @@ export class CustomBlockHandler
         );
       }
 
+      // Nodes run the highest published version in the range they pin, or
+      // the latest one; edits of the block only reach them once published
+      const versionRange =
+        node.data?.customBlockVersion ||
+        node.data?.config?.customBlockVersion ||
+        ctx.config?.customBlockVersion ||
+        node.config?.customBlockVersion;
+      const publishedVersion =
+        await this.databaseService.customBlockVersions.resolve(
+          customBlockId,
+          versionRange,
+        );
+
+      if (!publishedVersion && versionRange) {
+        throw new EnhancedExecutionError(
+          ExecutionErrorType.CONFIGURATION_ERROR,
+          `No published version of custom block ${customBlockId} matches ${versionRange}`,
+          false,
+          0,
+          { customBlockId, versionRange },
+        );
+      }
+      if (!publishedVersion) {
+        this.logger.warn(
+          `Custom block ${customBlockId} has no published versions, running its draft`,
+        );
+      }
+      const definition = publishedVersion ?? customBlock;
+
       // Parse block data (inputs/outputs definitions)
       let blockData: any = {};
       try {
         blockData =
-          typeof customBlock.blockData === 'string'
-            ? JSON.parse(customBlock.blockData)
-            : customBlock.blockData || {};
+          typeof definition.blockData === 'string'
+            ? JSON.parse(definition.blockData)
+            : definition.blockData || {};
       } catch (error) {
         this.logger.warn(
           `Failed to parse blockData for custom block ${customBlockId}`,
@@ -86,18 +129,21 @@ export class CustomBlockHandler
       // Create CustomBlockDefinition from database record
       const blockDefinition: CustomBlockDefinition = {
         id: customBlock.id,
-        name: customBlock.name,
-        description: customBlock.description || '',
-        category: customBlock.category as any,
+        name: definition.name,
+        description: definition.description || '',
+        category: definition.category as any,
         inputs: blockData.inputs || [],
         outputs: blockData.outputs || [],
-        code: customBlock.code,
-        logicType: customBlock.logicType as any,
+        code: definition.code,
+        logicType: definition.logicType as any,
         isPublic: customBlock.isPublic || false,
         createdAt: customBlock.createdAt?.toISOString(),
-        updatedAt: customBlock.updatedAt?.toISOString(),
+        updatedAt: (
+          publishedVersion?.createdAt ?? customBlock.updatedAt
+        )?.toISOString(),
         createdBy: customBlock.userId,
         tags: [],
+        version: publishedVersion?.version,
       };
 
       // Extract inputs from node data
@@ -112,6 +158,7 @@ export class CustomBlockHandler
       this.logger.debug(`Custom block definition:`, {
         id: blockDefinition.id,
         name: blockDefinition.name,
+        version: blockDefinition.version ?? 'draft',
         logicType: blockDefinition.logicType,
         inputCount: blockDefinition.inputs.length,
         outputCount: blockDefinition.outputs.length,
@@ -120,10 +167,6 @@ export class CustomBlockHandler
       // Execute the custom block logic
       const result = await executeCustomBlockLogic(blockDefinition, inputs);
 
-      if (!result.success) {
-        throw new Error(result.error || 'Custom block execution failed');
-      }
-
       // Log execution details
       if (result.logs && result.logs.length > 0) {
         result.logs.forEach((log) => {
@@ -131,6 +174,25 @@ export class CustomBlockHandler
         });
       }
 
+      if (!result.success) {
+        const message = result.error || 'Custom block execution failed';
+        // Block code fails the same way on every attempt, so sandbox
+        // failures are not retried unless the retry policy asks for it
+        throw result.errorType
+          ? new EnhancedExecutionError(
+              SANDBOX_ERROR_TYPES[result.errorType],
+              message,
+              false,
+              0,
+              {
+                sandboxError: result.errorType,
+                customBlockId,
+                customBlockVersion: blockDefinition.version,
+              },
+            )
+          : new Error(message);
+      }
+
       // Update execution status to completed
       if (blockExecutionId) {
         await this.databaseService.prisma.blockExecution.update({
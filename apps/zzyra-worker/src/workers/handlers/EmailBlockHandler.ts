@@ -36,6 +36,7 @@ export class EmailBlockHandler implements BlockHandler {
       const templateContext = {
         previousOutputs: ctx.previousOutputs || {},
         blockOutputs: ctx.previousOutputs || {},
+        nodeLabels: ctx.nodeLabels,
         currentNode: config,
       };
 
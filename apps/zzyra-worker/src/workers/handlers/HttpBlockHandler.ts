@@ -522,6 +522,7 @@ export class HttpBlockHandler implements EnhancedBlockHandler {
           timeout: options.timeout,
           maxRedirects: options.followRedirects ? 5 : 0,
           validateStatus: () => true, // Don't throw on HTTP errors
+          signal: context.signal,
         });
 
         if (attempt > 0) {
@@ -187,14 +187,21 @@ export class HttpRequestHandler implements BlockHandler {
         : undefined;
 
       const response = await retry(
-        async () => {
+        async (bail) => {
+          // Cancelled executions are not retried
+          if (ctx.signal?.aborted) {
+            bail(ctx.signal.reason);
+          }
+
           const fetchOptions: RequestInit = {
             method: finalMethod,
             headers: {
               'Content-Type': 'application/json',
               ...processedHeaders,
             },
-            signal: AbortSignal.timeout(timeout),
+            signal: ctx.signal
+              ? AbortSignal.any([ctx.signal, AbortSignal.timeout(timeout)])
+              : AbortSignal.timeout(timeout),
           };
 
           if (processedBody && method !== 'GET') {
@@ -245,11 +252,13 @@ export class HttpRequestHandler implements BlockHandler {
   }
 
   /**
-   * Process template variables in objects using unified template processor
+   * Process template variables in objects using unified template processor.
+   * Values that are a single expression keep their type, so JSON bodies
+   * get numbers and arrays rather than their text.
    */
   private processTemplateObject(obj: any, inputs: Record<string, any>): any {
     if (typeof obj === 'string') {
-      return this.templateProcessor.process(obj, inputs);
+      return this.templateProcessor.evaluate(obj, inputs);
     }
     if (Array.isArray(obj)) {
       return obj.map((item) => this.processTemplateObject(item, inputs));
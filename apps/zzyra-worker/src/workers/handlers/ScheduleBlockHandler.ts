@@ -2,8 +2,20 @@ import { BlockExecutionContext, BlockHandler } from '@zzyra/types';
 
 export class ScheduleBlockHandler implements BlockHandler {
   async execute(node: any, ctx: BlockExecutionContext): Promise<any> {
-    const cfg = (node.data as any).config;
-    // Return schedule config; scheduling is handled by external trigger
-    return { interval: cfg.interval, time: cfg.time };
+    const cfg = (node.data as any).config || {};
+    // Runs are triggered by the API's SchedulerService; this node only reports the schedule
+    const schedule =
+      cfg.cron ||
+      (cfg.intervalSeconds
+        ? `every ${cfg.intervalSeconds}s`
+        : `${cfg.interval || 'daily'}${cfg.time ? ` at ${cfg.time}` : ''}`);
+
+    return {
+      triggered: true,
+      schedule: cfg.timezone ? `${schedule} (${cfg.timezone})` : schedule,
+      timestamp: new Date().toISOString(),
+      interval: cfg.interval,
+      time: cfg.time,
+    };
   }
 }
@@ -0,0 +1,54 @@
+import {
+  BlockExecutionContext,
+  BlockHandler,
+  enhancedWebhookSchema,
+} from '@zzyra/types';
+import { Logger } from '@nestjs/common';
+import { DatabaseService } from '../../services/database.service';
+import { HttpRequestHandler } from './HttpRequestHandler';
+
+/**
+ * Handler for WEBHOOK blocks.
+ *
+ * When the block is the entry node of a run started by the API's webhook
+ * endpoint, it outputs the inbound request (body, headers, query) stored on
+ * the execution. Anywhere else it sends an outbound request, as before.
+ */
+export class WebhookTriggerHandler implements BlockHandler {
+  static readonly inputSchema = enhancedWebhookSchema.inputSchema;
+  static readonly outputSchema = enhancedWebhookSchema.outputSchema;
+  static readonly configSchema = enhancedWebhookSchema.configSchema;
+  private readonly logger = new Logger(WebhookTriggerHandler.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly httpRequestHandler = new HttpRequestHandler(),
+  ) {}
+
+  async execute(node: any, ctx: BlockExecutionContext): Promise<any> {
+    const execution = await this.databaseService.executions.findById(
+      ctx.executionId,
+    );
+    const input = (execution?.input || {}) as Record<string, any>;
+
+    if (execution?.triggerType === 'webhook' && input.nodeId === node.id) {
+      this.logger.debug(
+        `Webhook trigger received for node ${node.id} in execution ${ctx.executionId}`,
+      );
+
+      return {
+        success: true,
+        triggered: true,
+        method: input.method,
+        body: input.body ?? null,
+        headers: input.headers || {},
+        query: input.query || {},
+        receivedAt: input.receivedAt,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const result = await this.httpRequestHandler.execute(node, ctx);
+    return { ...result, response: result.data };
+  }
+}
@@ -113,8 +113,8 @@ import { AIAgentEnhancementsAPI } from './AIAgentEnhancementsAPI';
     },
     {
       provide: SubscriptionService,
-      useFactory: () => new SubscriptionService(),
-      inject: [],
+      useFactory: (databaseService) => new SubscriptionService(databaseService),
+      inject: [DatabaseService],
     },
     {
       provide: ReasoningEngine,
@@ -15,6 +15,7 @@ interface GenerateTextParams {
   maxTokens?: number;
   tools?: any[];
   maxSteps?: number;
+  abortSignal?: AbortSignal;
 }
 
 interface GenerateTextResult {
@@ -184,6 +185,7 @@ export class LLMProviderManager {
             model: openrouter('openai/gpt-4o-mini'),
             prompt: params.prompt,
             system: params.systemPrompt,
+            abortSignal: params.abortSignal,
             temperature: params.temperature || 0.7,
             maxTokens: params.maxTokens || 4000,
             tools: (params.tools || []) as any,
@@ -243,6 +245,7 @@ export class LLMProviderManager {
               model: openai('gpt-4'),
               prompt: params.prompt,
               system: params.systemPrompt,
+              abortSignal: params.abortSignal,
               temperature: params.temperature || 0.7,
               maxTokens: params.maxTokens || 4000,
               tools: (params.tools || []) as any,
@@ -279,6 +282,7 @@ export class LLMProviderManager {
               model: openrouter('openai/gpt-4'),
               prompt: params.prompt,
               system: params.systemPrompt,
+              abortSignal: params.abortSignal,
               temperature: params.temperature || 0.7,
               maxTokens: params.maxTokens || 4000,
               tools: (params.tools || []) as any,
@@ -340,6 +344,7 @@ export class LLMProviderManager {
             model: openrouter('anthropic/claude-3.5-sonnet'),
             prompt: params.prompt,
             system: params.systemPrompt,
+            abortSignal: params.abortSignal,
             temperature: params.temperature || 0.7,
             maxTokens: params.maxTokens || 4000,
             tools: (params.tools || []) as any,
@@ -391,6 +396,7 @@ export class LLMProviderManager {
             model: ollama('llama3'),
             prompt: params.prompt,
             system: params.systemPrompt,
+            abortSignal: params.abortSignal,
             temperature: params.temperature || 0.7,
             maxTokens: params.maxTokens || 4000,
           });
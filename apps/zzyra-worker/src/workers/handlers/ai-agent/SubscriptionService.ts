@@ -1,9 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { LRUCache } from 'lru-cache';
+import { ACTIVE_SUBSCRIPTION_STATUSES, getTierFeatures } from '@zzyra/database';
+import { DatabaseService } from '../../../services/database.service';
 
 export interface UserSubscription {
   userId: string;
-  plan: 'free' | 'pro' | 'enterprise';
-  status: 'active' | 'expired' | 'cancelled';
+  plan: string;
+  status: string;
   features: string[];
   expiresAt?: Date;
 }
@@ -18,44 +21,50 @@ export interface FeatureAccess {
 export class SubscriptionService {
   private readonly logger = new Logger(SubscriptionService.name);
 
-  // In-memory storage for demo purposes
-  private subscriptions = new Map<string, UserSubscription>();
+  // Subscriptions change through billing webhooks; a short cache keeps
+  // feature checks during a run off the database
+  private subscriptionCache = new LRUCache<string, UserSubscription | 'none'>({
+    max: 1000,
+    ttl: 60 * 1000,
+  });
 
-  constructor() {
-    this.initializeDemoSubscriptions();
-  }
-
-  private initializeDemoSubscriptions(): void {
-    // Demo user with pro subscription
-    this.subscriptions.set('demo-user', {
-      userId: 'demo-user',
-      plan: 'pro',
-      status: 'active',
-      features: [
-        'basic_ai',
-        'advanced_thinking',
-        'multi_step_reasoning',
-        'tool_integration',
-        'mcp_access',
-        'blockchain_operations',
-        'collaborative_thinking',
-        'deliberate_thinking',
-      ],
-      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-    });
-
-    // Free user example
-    this.subscriptions.set('free-user', {
-      userId: 'free-user',
-      plan: 'free',
-      status: 'active',
-      features: ['basic_ai', 'simple_thinking'],
-      expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
-    });
-  }
+  constructor(private readonly databaseService: DatabaseService) {}
 
   async getUserSubscription(userId: string): Promise<UserSubscription | null> {
-    return this.subscriptions.get(userId) || null;
+    const cached = this.subscriptionCache.get(userId);
+    if (cached) {
+      return cached === 'none' ? null : cached;
+    }
+
+    let subscription;
+    try {
+      subscription =
+        await this.databaseService.subscriptions.findByUserId(userId);
+    } catch (error) {
+      // Gated features stay off while the subscription cannot be read
+      this.logger.error(
+        `Failed to load subscription of user ${userId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+    if (!subscription) {
+      this.subscriptionCache.set(userId, 'none');
+      return null;
+    }
+
+    const userSubscription: UserSubscription = {
+      userId,
+      plan: subscription.tier.name.toLowerCase(),
+      status: subscription.status,
+      features: getTierFeatures(subscription.tier.features),
+      // Renewing subscriptions get a new period through the webhooks
+      expiresAt:
+        subscription.cancelAtPeriodEnd || subscription.canceledAt
+          ? subscription.currentPeriodEnd
+          : undefined,
+    };
+    this.subscriptionCache.set(userId, userSubscription);
+    return userSubscription;
   }
 
   async checkFeatureAccess(
@@ -72,7 +81,7 @@ export class SubscriptionService {
       };
     }
 
-    if (subscription.status !== 'active') {
+    if (!ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
       return {
         feature,
         allowed: false,
@@ -118,63 +127,16 @@ export class SubscriptionService {
   }
 
   async getAvailableThinkingModes(userId: string): Promise<string[]> {
-    const subscription = await this.getUserSubscription(userId);
-
-    if (!subscription || subscription.status !== 'active') {
-      return ['fast']; // Only fast thinking for free users
-    }
-
     const modes = ['fast']; // Fast thinking is always available
 
-    if (subscription.features.includes('advanced_thinking')) {
+    if (await this.canUseAdvancedThinking(userId)) {
       modes.push('deliberate');
     }
 
-    if (subscription.features.includes('collaborative_thinking')) {
+    if (await this.canUseCollaborativeThinking(userId)) {
       modes.push('collaborative');
     }
 
     return modes;
   }
-
-  async upgradeSubscription(
-    userId: string,
-    plan: 'pro' | 'enterprise',
-  ): Promise<void> {
-    const currentSubscription = await this.getUserSubscription(userId);
-
-    const newFeatures =
-      plan === 'pro'
-        ? [
-            'basic_ai',
-            'advanced_thinking',
-            'multi_step_reasoning',
-            'tool_integration',
-            'mcp_access',
-            'blockchain_operations',
-            'deliberate_thinking',
-          ]
-        : [
-            'basic_ai',
-            'advanced_thinking',
-            'multi_step_reasoning',
-            'tool_integration',
-            'mcp_access',
-            'blockchain_operations',
-            'collaborative_thinking',
-            'deliberate_thinking',
-            'enterprise_features',
-          ];
-
-    const subscription: UserSubscription = {
-      userId,
-      plan,
-      status: 'active',
-      features: newFeatures,
-      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-    };
-
-    this.subscriptions.set(userId, subscription);
-    this.logger.log(`Upgraded user ${userId} to ${plan} plan`);
-  }
 }
@@ -0,0 +1,528 @@
+import {
+  AbiEvent,
+  Chain,
+  createPublicClient,
+  defineChain,
+  formatUnits,
+  http,
+  parseAbiItem,
+  PublicClient,
+  Transport,
+} from 'viem';
+import { isIP } from 'net';
+import { WALLET_LISTENER_SETTINGS } from '../../../config';
+import { isHostAllowed } from '../../../lib/sandbox/custom-block-sandbox';
+
+/**
+ * Normalized wallet listener settings, as stored in `wallet_listeners`
+ */
+export interface WalletEventFilter {
+  network: string;
+  walletAddresses: string[];
+  eventTypes: string[];
+  minAmount: number;
+  tokenDenom: string | null;
+  eventSignature: string | null;
+}
+
+export interface WalletEvent {
+  eventType: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex?: number;
+  timestamp: string;
+  fromAddress: string;
+  toAddress: string;
+  walletAddress: string;
+  amount: number;
+  tokenDenom: string;
+  network: string;
+  rawEvent: Record<string, any>;
+  success: true;
+}
+
+const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+);
+const DECIMALS_ABI = [
+  {
+    type: 'function',
+    name: 'decimals',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint8' }],
+  },
+] as const;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const NATIVE_SYMBOLS: Record<number, string> = {
+  1329: 'SEI',
+  1328: 'SEI',
+  1: 'ETH',
+  137: 'POL',
+};
+
+/**
+ * Whether a host is the machine itself or on a private, shared or link-local
+ * network, such as cloud metadata endpoints
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal')
+  ) {
+    return true;
+  }
+
+  const version = isIP(host);
+  if (version === 6) {
+    // IPv4-mapped addresses, which URLs write as hex: ::ffff:7f00:1
+    const mapped =
+      /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(
+        host,
+      );
+    if (mapped) {
+      const ipv4 =
+        mapped[1] ??
+        [mapped[2], mapped[3]]
+          .map((group) => parseInt(group, 16))
+          .flatMap((value) => [value >> 8, value & 255])
+          .join('.');
+      return isPrivateHost(ipv4);
+    }
+    return (
+      host === '::' ||
+      host === '::1' ||
+      /^f[cd]/.test(host) || // Unique local, fc00::/7
+      /^fe[89ab]/.test(host) // Link-local, fe80::/10
+    );
+  }
+  if (version !== 4) {
+    return false;
+  }
+
+  const [a, b] = host.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/**
+ * Resolve the RPC endpoint for an EVM chain, preferring environment overrides.
+ * A listener's own RPC URL is requested from worker infrastructure, so it
+ * has to point at a public host on the allow-list.
+ */
+export function resolveRpcUrl(
+  chainId: number,
+  rpcUrl?: string | null,
+  allowList = WALLET_LISTENER_SETTINGS.rpcAllowList,
+): string {
+  const defaults: Record<number, string | undefined> = {
+    1329: process.env.SEI_MAINNET_RPC || 'https://evm-rpc.sei-apis.com',
+    1328: process.env.SEI_TESTNET_RPC || 'https://evm-rpc-testnet.sei-apis.com',
+    1: process.env.ETH_RPC_URL,
+    137: process.env.POLYGON_RPC_URL,
+  };
+
+  const url = defaults[chainId];
+  if (rpcUrl && rpcUrl !== url) {
+    return checkRpcUrl(rpcUrl, allowList);
+  }
+  if (!url) {
+    throw new Error(`No RPC URL configured for chain ${chainId}`);
+  }
+  return url;
+}
+
+function checkRpcUrl(rpcUrl: string, allowList: string[]): string {
+  let url: URL;
+  try {
+    url = new URL(rpcUrl);
+  } catch {
+    throw new Error(`Invalid RPC URL "${rpcUrl}"`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`RPC URL must use http or https, got ${url.protocol}`);
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new Error(`RPC host ${url.hostname} is on a private network`);
+  }
+  if (!isHostAllowed(url.hostname, allowList)) {
+    throw new Error(
+      `RPC host ${url.hostname} is not allowed; add it to WALLET_LISTENER_RPC_ALLOWLIST`,
+    );
+  }
+  return url.toString();
+}
+
+/**
+ * Reads native transfers, ERC-20 `Transfer` logs and contract events for a
+ * set of wallets from an EVM JSON-RPC endpoint.
+ *
+ * Native transfers are found by scanning block transactions, so only
+ * top-level value transfers are reported (not internal calls).
+ */
+export class EvmEventScanner {
+  private readonly clients = new Map<string, PublicClient<Transport, Chain>>();
+  private readonly tokenDecimals = new Map<string, number>();
+
+  getClient(
+    chainId: number,
+    rpcUrl?: string | null,
+  ): PublicClient<Transport, Chain> {
+    const url = resolveRpcUrl(chainId, rpcUrl);
+    const key = `${chainId}:${url}`;
+
+    let client = this.clients.get(key);
+    if (!client) {
+      const symbol = NATIVE_SYMBOLS[chainId] || 'ETH';
+      // Without strictNullChecks viem infers a JSON-RPC account from the
+      // missing one; `never` keeps the client account-less
+      client = createPublicClient<Transport, Chain, never>({
+        chain: defineChain({
+          id: chainId,
+          name: `Chain ${chainId}`,
+          nativeCurrency: { name: symbol, symbol, decimals: 18 },
+          rpcUrls: { default: { http: [url] } },
+        }),
+        transport: http(url),
+      });
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Collect matching events in the inclusive block range, oldest first
+   */
+  async scan(
+    client: PublicClient,
+    chainId: number,
+    filter: WalletEventFilter,
+    fromBlock: bigint,
+    toBlock: bigint,
+  ): Promise<WalletEvent[]> {
+    const wallets = filter.walletAddresses.map((a) => a.toLowerCase());
+    const tokenAddress =
+      filter.tokenDenom && ADDRESS_PATTERN.test(filter.tokenDenom)
+        ? (filter.tokenDenom.toLowerCase() as `0x${string}`)
+        : null;
+    const blockTimestamps = new Map<bigint, string>();
+    const events: WalletEvent[] = [];
+
+    // A token address limits transfers to that token; a symbol to native ones
+    if (filter.eventTypes.includes('nativeTransfer') && !tokenAddress) {
+      events.push(
+        ...(await this.scanNativeTransfers(
+          client,
+          chainId,
+          filter,
+          wallets,
+          fromBlock,
+          toBlock,
+          blockTimestamps,
+        )),
+      );
+    }
+
+    if (
+      filter.eventTypes.includes('tokenTransfer') &&
+      (tokenAddress || !filter.tokenDenom)
+    ) {
+      events.push(
+        ...(await this.scanTokenTransfers(
+          client,
+          filter,
+          wallets,
+          tokenAddress,
+          fromBlock,
+          toBlock,
+          blockTimestamps,
+        )),
+      );
+    }
+
+    if (filter.eventTypes.includes('contractEvent')) {
+      events.push(
+        ...(await this.scanContractEvents(
+          client,
+          filter,
+          wallets,
+          fromBlock,
+          toBlock,
+          blockTimestamps,
+        )),
+      );
+    }
+
+    return events.sort(
+      (a, b) =>
+        a.blockNumber - b.blockNumber ||
+        (a.logIndex ?? -1) - (b.logIndex ?? -1),
+    );
+  }
+
+  private async scanNativeTransfers(
+    client: PublicClient,
+    chainId: number,
+    filter: WalletEventFilter,
+    wallets: string[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    blockTimestamps: Map<bigint, string>,
+  ): Promise<WalletEvent[]> {
+    const events: WalletEvent[] = [];
+    const symbol = filter.tokenDenom || NATIVE_SYMBOLS[chainId] || 'native';
+
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const block = await client.getBlock({
+        blockNumber: number,
+        includeTransactions: true,
+      });
+      const timestamp = new Date(Number(block.timestamp) * 1000).toISOString();
+      blockTimestamps.set(number, timestamp);
+
+      for (const tx of block.transactions) {
+        if (typeof tx === 'string' || !tx.value) {
+          continue;
+        }
+
+        const from = tx.from.toLowerCase();
+        const to = tx.to?.toLowerCase() || '';
+        const walletAddress = wallets.find((w) => w === from || w === to);
+        if (!walletAddress) {
+          continue;
+        }
+
+        const amount = Number(formatUnits(tx.value, 18));
+        if (amount < filter.minAmount) {
+          continue;
+        }
+
+        events.push({
+          eventType: 'nativeTransfer',
+          txHash: tx.hash,
+          blockNumber: Number(number),
+          timestamp,
+          fromAddress: from,
+          toAddress: to,
+          walletAddress,
+          amount,
+          tokenDenom: symbol,
+          network: filter.network,
+          rawEvent: toJsonSafe({
+            hash: tx.hash,
+            from: tx.from,
+            to: tx.to,
+            value: tx.value,
+            nonce: tx.nonce,
+            transactionIndex: tx.transactionIndex,
+          }),
+          success: true,
+        });
+      }
+    }
+
+    return events;
+  }
+
+  private async scanTokenTransfers(
+    client: PublicClient,
+    filter: WalletEventFilter,
+    wallets: string[],
+    tokenAddress: `0x${string}` | null,
+    fromBlock: bigint,
+    toBlock: bigint,
+    blockTimestamps: Map<bigint, string>,
+  ): Promise<WalletEvent[]> {
+    const addresses = wallets as `0x${string}`[];
+    const query = {
+      ...(tokenAddress ? { address: tokenAddress } : {}),
+      event: TRANSFER_EVENT,
+      fromBlock,
+      toBlock,
+    };
+
+    const [outgoing, incoming] = await Promise.all([
+      client.getLogs({ ...query, args: { from: addresses } }),
+      client.getLogs({ ...query, args: { to: addresses } }),
+    ]);
+
+    const events: WalletEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const log of [...outgoing, ...incoming]) {
+      const key = `${log.transactionHash}:${log.logIndex}`;
+      if (seen.has(key) || log.blockNumber === null) {
+        continue;
+      }
+      seen.add(key);
+
+      const from = (log.args.from || '').toLowerCase();
+      const to = (log.args.to || '').toLowerCase();
+      const walletAddress = wallets.find((w) => w === from || w === to)!;
+      const token = log.address.toLowerCase();
+      const decimals = await this.getTokenDecimals(client, token);
+      const amount = Number(formatUnits(log.args.value ?? 0n, decimals));
+      if (amount < filter.minAmount) {
+        continue;
+      }
+
+      events.push({
+        eventType: 'tokenTransfer',
+        txHash: log.transactionHash!,
+        blockNumber: Number(log.blockNumber),
+        logIndex: log.logIndex ?? undefined,
+        timestamp: await this.getBlockTimestamp(
+          client,
+          log.blockNumber,
+          blockTimestamps,
+        ),
+        fromAddress: from,
+        toAddress: to,
+        walletAddress,
+        amount,
+        tokenDenom: token,
+        network: filter.network,
+        rawEvent: toJsonSafe({
+          address: log.address,
+          topics: log.topics,
+          data: log.data,
+          args: log.args,
+        }),
+        success: true,
+      });
+    }
+
+    return events;
+  }
+
+  private async scanContractEvents(
+    client: PublicClient,
+    filter: WalletEventFilter,
+    wallets: string[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    blockTimestamps: Map<bigint, string>,
+  ): Promise<WalletEvent[]> {
+    let event: AbiEvent | undefined;
+    if (filter.eventSignature) {
+      const signature = filter.eventSignature.startsWith('event ')
+        ? filter.eventSignature
+        : `event ${filter.eventSignature}`;
+      try {
+        event = parseAbiItem(signature) as AbiEvent;
+      } catch (error) {
+        throw new Error(
+          `Invalid event signature "${filter.eventSignature}": ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    const address = wallets as `0x${string}`[];
+    const logs = event
+      ? await client.getLogs({ address, event, fromBlock, toBlock })
+      : await client.getLogs({ address, fromBlock, toBlock });
+
+    const events: WalletEvent[] = [];
+    for (const log of logs as any[]) {
+      if (log.blockNumber === null) {
+        continue;
+      }
+
+      const emitter = log.address.toLowerCase();
+      events.push({
+        eventType: 'contractEvent',
+        txHash: log.transactionHash,
+        blockNumber: Number(log.blockNumber),
+        logIndex: log.logIndex ?? undefined,
+        timestamp: await this.getBlockTimestamp(
+          client,
+          log.blockNumber,
+          blockTimestamps,
+        ),
+        fromAddress: emitter,
+        toAddress: '',
+        walletAddress: emitter,
+        amount: 0,
+        tokenDenom: '',
+        network: filter.network,
+        rawEvent: toJsonSafe({
+          address: log.address,
+          topics: log.topics,
+          data: log.data,
+          eventName: log.eventName,
+          args: log.args,
+        }),
+        success: true,
+      });
+    }
+
+    return events;
+  }
+
+  private async getBlockTimestamp(
+    client: PublicClient,
+    blockNumber: bigint,
+    cache: Map<bigint, string>,
+  ): Promise<string> {
+    let timestamp = cache.get(blockNumber);
+    if (!timestamp) {
+      const block = await client.getBlock({ blockNumber });
+      timestamp = new Date(Number(block.timestamp) * 1000).toISOString();
+      cache.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+
+  private async getTokenDecimals(
+    client: PublicClient,
+    token: string,
+  ): Promise<number> {
+    let decimals = this.tokenDecimals.get(token);
+    if (decimals === undefined) {
+      try {
+        decimals = Number(
+          await client.readContract({
+            address: token as `0x${string}`,
+            abi: DECIMALS_ABI,
+            functionName: 'decimals',
+          }),
+        );
+      } catch {
+        // Tokens without decimals() are treated like 18-decimal tokens
+        decimals = 18;
+      }
+      this.tokenDecimals.set(token, decimals);
+    }
+    return decimals;
+  }
+}
+
+/**
+ * Convert bigint values so events can be stored as JSON
+ */
+export function toJsonSafe(value: any): any {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonSafe);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonSafe(entry)]),
+    );
+  }
+  return value;
+}
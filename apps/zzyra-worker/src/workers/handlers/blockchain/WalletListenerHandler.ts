@@ -1,5 +1,6 @@
-import { z } from 'zod';
-import { walletListenerSchema } from '@zzyra/types';
+import { BlockExecutionContext, walletListenerSchema } from '@zzyra/types';
+import { DatabaseService } from '../../../services/database.service';
+import { EvmEventScanner, WalletEventFilter } from './EvmEventScanner';
 
 // Explicit type definitions to avoid Zod inference issues
 interface WalletListenerConfig {
@@ -8,158 +9,111 @@ interface WalletListenerConfig {
   eventTypes: string[];
   minAmount?: number;
   tokenDenom?: string;
+  eventSignature?: string;
+  rpcUrl?: string;
   startBlock?: number;
   pollInterval: number;
   description?: string;
 }
 
-interface WalletListenerInput {
-  data?: Record<string, any>;
-  context?: {
-    workflowId?: string;
-    executionId?: string;
-    userId?: string;
-    timestamp: string;
-  };
-  variables?: Record<string, any>;
-}
+const NETWORK_CHAIN_IDS: Record<string, number> = {
+  sei: 1329,
+  'sei-testnet': 1328,
+  ethereum: 1,
+  polygon: 137,
+};
 
-interface BlockExecutionContext {
-  inputs?: Record<string, any>;
-  previousOutputs?: Record<string, any>;
-  variables?: Record<string, any>;
-  workflowId?: string;
-  executionId?: string;
-  userId?: string;
-}
+// Blocks searched when the workflow is run manually
+const MANUAL_SCAN_BLOCKS = 100n;
 
 /**
  * Generic Wallet Listener Handler
- * Monitors wallet addresses for blockchain events across different networks
+ *
+ * Runs started by the WalletListenerService carry the matched on-chain event,
+ * which this block outputs. Manual runs look up the most recent matching
+ * event in the latest blocks instead.
  */
 export class WalletListenerHandler {
   static readonly inputSchema = walletListenerSchema.inputSchema;
   static readonly outputSchema = walletListenerSchema.outputSchema;
   static readonly configSchema = walletListenerSchema.configSchema;
 
-  async execute(node: any, ctx: BlockExecutionContext): Promise<any> {
-    try {
-      const config = this.validateAndExtractConfig(node, ctx);
-      const inputs = this.validateInputs(
-        ctx.inputs || {},
-        ctx.previousOutputs || {},
-        ctx,
-      );
-
-      // Extract configuration parameters
-      const { network } = config;
-      const { walletAddresses, eventTypes, minAmount, tokenDenom, startBlock } =
-        config;
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly scanner = new EvmEventScanner(),
+  ) {}
 
-      // Simulate event monitoring (in real implementation, this would connect to blockchain)
-      const events = await this.monitorEvents(
-        network,
-        walletAddresses,
-        eventTypes,
-        minAmount,
-        tokenDenom,
-        startBlock,
-      );
+  async execute(node: any, ctx: BlockExecutionContext): Promise<any> {
+    const execution = await this.databaseService.executions.findById(
+      ctx.executionId,
+    );
+    const input = (execution?.input || {}) as Record<string, any>;
 
-      return {
-        success: true,
-        events: events,
-        network: network,
-        walletAddresses: walletAddresses,
-        eventTypes: eventTypes,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message,
-        timestamp: new Date().toISOString(),
-      };
+    if (
+      execution?.triggerType === 'wallet_listener' &&
+      input.nodeId === node.id &&
+      input.event
+    ) {
+      return { ...input.event, success: true };
     }
+
+    const config = this.validateAndExtractConfig(node);
+    return this.findLatestEvent(config);
   }
 
-  private validateAndExtractConfig(
-    node: any,
-    ctx: BlockExecutionContext,
-  ): WalletListenerConfig {
-    if (!node.config) {
+  private validateAndExtractConfig(node: any): WalletListenerConfig {
+    const config = node.data?.config || node.config;
+    if (!config) {
       throw new Error('Block configuration is missing');
     }
 
-    try {
-      const result = walletListenerSchema.configSchema.safeParse(node.config);
-      if (!result.success) {
-        throw new Error(
-          `Configuration validation failed: ${result.error.message}`,
-        );
-      }
-      return result.data as WalletListenerConfig;
-    } catch (error) {
-      throw new Error(`Configuration validation failed: ${error}`);
+    const result = walletListenerSchema.configSchema.safeParse(config);
+    if (!result.success) {
+      throw new Error(
+        `Configuration validation failed: ${result.error.message}`,
+      );
     }
+    return result.data as WalletListenerConfig;
   }
 
-  private validateInputs(
-    inputs: Record<string, any>,
-    previousOutputs: Record<string, any>,
-    ctx: BlockExecutionContext,
-  ): WalletListenerInput {
-    try {
-      const result = walletListenerSchema.inputSchema.safeParse({
-        data: inputs,
-        context: {
-          workflowId: ctx.workflowId,
-          executionId: ctx.executionId,
-          userId: ctx.userId,
-          timestamp: new Date().toISOString(),
-        },
-        variables: ctx.variables,
-      });
-      if (!result.success) {
-        throw new Error(`Input validation failed: ${result.error.message}`);
-      }
-      return result.data as WalletListenerInput;
-    } catch (error) {
-      throw new Error(`Input validation failed: ${error}`);
+  private async findLatestEvent(config: WalletListenerConfig): Promise<any> {
+    const chainId = NETWORK_CHAIN_IDS[config.network];
+    if (!chainId) {
+      throw new Error(
+        `Network "${config.network}" is not supported by the wallet listener`,
+      );
     }
-  }
 
-  private async monitorEvents(
-    network: string,
-    walletAddresses: string[],
-    eventTypes: string[],
-    minAmount?: number,
-    tokenDenom?: string,
-    startBlock?: number,
-  ): Promise<any[]> {
-    // Simulate event monitoring
-    const events: any[] = [];
+    const eventTypes = config.eventTypes.flatMap((type) =>
+      type === 'transfer' ? ['nativeTransfer', 'tokenTransfer'] : [type],
+    );
+    const filter: WalletEventFilter = {
+      network: config.network,
+      walletAddresses: config.walletAddresses.map((a) => a.toLowerCase()),
+      eventTypes,
+      minAmount: config.minAmount || 0,
+      tokenDenom: config.tokenDenom || null,
+      eventSignature: config.eventSignature || null,
+    };
 
-    // In a real implementation, this would:
-    // 1. Connect to the blockchain network
-    // 2. Monitor the specified wallet addresses
-    // 3. Filter events by type and amount
-    // 4. Return the filtered events
+    const client = this.scanner.getClient(chainId, config.rpcUrl);
+    const toBlock = await client.getBlockNumber();
+    const fromBlock =
+      toBlock >= MANUAL_SCAN_BLOCKS ? toBlock - MANUAL_SCAN_BLOCKS + 1n : 0n;
 
-    // For now, return a mock event
-    if (walletAddresses.length > 0 && eventTypes.length > 0) {
-      events.push({
-        eventType: eventTypes[0],
-        network: network,
-        walletAddress: walletAddresses[0],
-        amount: minAmount || 0,
-        tokenDenom: tokenDenom || 'usei',
-        blockNumber: startBlock || 0,
-        timestamp: new Date().toISOString(),
-        txHash: '0x' + Math.random().toString(16).substr(2, 64),
-      });
+    const events = await this.scanner.scan(
+      client,
+      chainId,
+      filter,
+      fromBlock,
+      toBlock,
+    );
+    if (events.length === 0) {
+      throw new Error(
+        `No matching wallet events found in blocks ${fromBlock}-${toBlock}`,
+      );
     }
 
-    return events;
+    return events[events.length - 1];
   }
 }
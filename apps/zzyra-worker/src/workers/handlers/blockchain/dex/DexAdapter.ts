@@ -0,0 +1,60 @@
+import { PublicClient } from 'viem';
+
+export type Address = `0x${string}`;
+
+/**
+ * Token pair and input amount to quote. Native tokens are already replaced
+ * by the chain's wrapped native token; `nativeIn`/`nativeOut` record that so
+ * adapters can pick the router method that (un)wraps.
+ */
+export interface DexQuoteRequest {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  nativeIn: boolean;
+  nativeOut: boolean;
+}
+
+export interface DexQuote {
+  dex: string;
+  router: Address;
+  amountOut: bigint;
+  route: Address[];
+  /** Pool fee in hundredths of a bip, for concentrated-liquidity pools */
+  fee?: number;
+}
+
+export interface DexSwapRequest extends DexQuoteRequest {
+  quote: DexQuote;
+  amountOutMinimum: bigint;
+  recipient: Address;
+  /** Unix timestamp in seconds */
+  deadline: bigint;
+}
+
+/**
+ * A call for the smart account to execute
+ */
+export interface DexCall {
+  to: Address;
+  value: bigint;
+  data: `0x${string}`;
+}
+
+/**
+ * A router protocol that can quote on-chain and encode an exact-input swap
+ */
+export interface DexAdapter {
+  readonly id: string;
+  readonly router: Address;
+
+  /**
+   * Quote an exact-input swap; resolves to null when no pool can fill it
+   */
+  quote(
+    client: PublicClient,
+    request: DexQuoteRequest,
+  ): Promise<DexQuote | null>;
+
+  buildSwapCall(request: DexSwapRequest): DexCall;
+}
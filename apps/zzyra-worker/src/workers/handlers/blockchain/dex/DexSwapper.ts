@@ -0,0 +1,315 @@
+import {
+  Chain,
+  createPublicClient,
+  defineChain,
+  encodeFunctionData,
+  http,
+  parseAbi,
+  parseEventLogs,
+  parseUnits,
+  PublicClient,
+  Transport,
+} from 'viem';
+import { Address, DexAdapter, DexCall, DexQuote } from './DexAdapter';
+import { DexChainConfig, getDexChainConfig } from './dexRouters';
+import { UniswapV2Adapter } from './UniswapV2Adapter';
+import { UniswapV3Adapter } from './UniswapV3Adapter';
+
+export const NATIVE_TOKEN = 'native';
+
+const ERC20_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+export interface SwapQuoteRequest {
+  fromToken: string;
+  toToken: string;
+  /** Human-readable amount of `fromToken` */
+  amountIn: string;
+  /** Adapter id, or `auto` for the best quote across all routers */
+  dexPlatform: string;
+}
+
+export interface SwapQuote extends DexQuote {
+  chainId: number;
+  tokenIn: Address;
+  tokenOut: Address;
+  nativeIn: boolean;
+  nativeOut: boolean;
+  amountIn: bigint;
+  decimalsIn: number;
+  decimalsOut: number;
+}
+
+export interface SwapFill {
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Apply a slippage tolerance in percent to a quoted output amount
+ */
+export function applySlippage(
+  amountOut: bigint,
+  slippageTolerance: number,
+): bigint {
+  const bps = BigInt(Math.round(slippageTolerance * 100));
+  return (amountOut * (10000n - bps)) / 10000n;
+}
+
+/**
+ * Quotes and encodes exact-input swaps against the DEX routers configured
+ * for a chain. Execution is left to the caller so swaps can be sent through
+ * a smart account as one batched user operation.
+ */
+export class DexSwapper {
+  private readonly clients = new Map<number, PublicClient<Transport, Chain>>();
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  getChainConfig(chainId: number): DexChainConfig {
+    return getDexChainConfig(chainId, this.env);
+  }
+
+  getClient(config: DexChainConfig): PublicClient<Transport, Chain> {
+    let client = this.clients.get(config.chainId);
+    if (!client) {
+      // Without strictNullChecks viem infers a JSON-RPC account from the
+      // missing one; `never` keeps the client account-less
+      client = createPublicClient<Transport, Chain, never>({
+        chain: defineChain({
+          id: config.chainId,
+          name: `Chain ${config.chainId}`,
+          nativeCurrency: { name: 'Native', symbol: 'NATIVE', decimals: 18 },
+          rpcUrls: { default: { http: [config.rpcUrl] } },
+        }),
+        transport: http(config.rpcUrl),
+      });
+      this.clients.set(config.chainId, client);
+    }
+    return client;
+  }
+
+  getAdapters(config: DexChainConfig, dexPlatform: string): DexAdapter[] {
+    const routers = config.routers.filter(
+      (router) => dexPlatform === 'auto' || router.id === dexPlatform,
+    );
+
+    if (routers.length === 0) {
+      throw new Error(
+        dexPlatform === 'auto'
+          ? `No DEX routers configured for chain ${config.chainId}. Set DEX_V2_ROUTER_${config.chainId} or DEX_V3_ROUTER_${config.chainId} and DEX_V3_QUOTER_${config.chainId}`
+          : `DEX platform "${dexPlatform}" is not configured for chain ${config.chainId}`,
+      );
+    }
+
+    return routers.map((router) =>
+      router.id === 'uniswap-v3'
+        ? new UniswapV3Adapter(router.router, router.quoter!)
+        : new UniswapV2Adapter(router.router, config.wrappedNative),
+    );
+  }
+
+  /**
+   * Quote a swap on every eligible router and return the best output
+   */
+  async quote(chainId: number, request: SwapQuoteRequest): Promise<SwapQuote> {
+    const config = this.getChainConfig(chainId);
+    const adapters = this.getAdapters(config, request.dexPlatform);
+    const client = this.getClient(config);
+
+    const nativeIn = request.fromToken === NATIVE_TOKEN;
+    const nativeOut = request.toToken === NATIVE_TOKEN;
+    if ((nativeIn || nativeOut) && !config.wrappedNative) {
+      throw new Error(
+        `Native token swaps need DEX_WRAPPED_NATIVE_${chainId} to be configured`,
+      );
+    }
+
+    const tokenIn = nativeIn
+      ? config.wrappedNative!
+      : (request.fromToken as Address);
+    const tokenOut = nativeOut
+      ? config.wrappedNative!
+      : (request.toToken as Address);
+    if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+      throw new Error('Wrapping and unwrapping the native token is not a swap');
+    }
+
+    const [decimalsIn, decimalsOut] = await Promise.all([
+      nativeIn ? 18 : this.getDecimals(client, tokenIn),
+      nativeOut ? 18 : this.getDecimals(client, tokenOut),
+    ]);
+    const amountIn = parseUnits(request.amountIn, decimalsIn);
+
+    const quotes = await Promise.all(
+      adapters.map((adapter) =>
+        adapter.quote(client, {
+          tokenIn,
+          tokenOut,
+          amountIn,
+          nativeIn,
+          nativeOut,
+        }),
+      ),
+    );
+
+    let best: DexQuote | null = null;
+    for (const quote of quotes) {
+      if (quote && (!best || quote.amountOut > best.amountOut)) {
+        best = quote;
+      }
+    }
+
+    if (!best) {
+      throw new Error(
+        `No liquidity found for ${request.fromToken} → ${request.toToken} on chain ${chainId}`,
+      );
+    }
+
+    return {
+      ...best,
+      chainId,
+      tokenIn,
+      tokenOut,
+      nativeIn,
+      nativeOut,
+      amountIn,
+      decimalsIn,
+      decimalsOut,
+    };
+  }
+
+  /**
+   * Encode the calls that perform a quoted swap from `account`, approving the
+   * router first when its allowance is too low
+   */
+  async buildSwapCalls(
+    quote: SwapQuote,
+    params: { account: Address; amountOutMinimum: bigint; deadline: bigint },
+  ): Promise<DexCall[]> {
+    const config = this.getChainConfig(quote.chainId);
+    const adapter = this.getAdapters(config, quote.dex)[0];
+    const calls: DexCall[] = [];
+
+    if (!quote.nativeIn) {
+      const allowance = await this.getClient(config).readContract({
+        address: quote.tokenIn,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [params.account, quote.router],
+      });
+
+      if (allowance < quote.amountIn) {
+        // Tokens like USDT reject changing a non-zero allowance directly
+        if (allowance > 0n) {
+          calls.push(this.approveCall(quote.tokenIn, quote.router, 0n));
+        }
+        calls.push(
+          this.approveCall(quote.tokenIn, quote.router, quote.amountIn),
+        );
+      }
+    }
+
+    calls.push(
+      adapter.buildSwapCall({
+        tokenIn: quote.tokenIn,
+        tokenOut: quote.tokenOut,
+        amountIn: quote.amountIn,
+        nativeIn: quote.nativeIn,
+        nativeOut: quote.nativeOut,
+        quote,
+        amountOutMinimum: params.amountOutMinimum,
+        recipient: params.account,
+        deadline: params.deadline,
+      }),
+    );
+
+    return calls;
+  }
+
+  /**
+   * Read the amounts actually swapped from the transaction's token events
+   */
+  async readFill(
+    quote: SwapQuote,
+    transactionHash: string,
+    account: Address,
+  ): Promise<SwapFill> {
+    const client = this.getClient(this.getChainConfig(quote.chainId));
+    const receipt = await client.getTransactionReceipt({
+      hash: transactionHash as `0x${string}`,
+    });
+    const logs = parseEventLogs({ abi: ERC20_ABI, logs: receipt.logs });
+
+    const owner = account.toLowerCase();
+    const router = quote.router.toLowerCase();
+    const tokenIn = quote.tokenIn.toLowerCase();
+    const tokenOut = quote.tokenOut.toLowerCase();
+    let amountIn = quote.nativeIn ? quote.amountIn : 0n;
+    let amountOut = 0n;
+
+    for (const log of logs) {
+      const token = log.address.toLowerCase();
+
+      if (log.eventName === 'Transfer') {
+        if (
+          !quote.nativeIn &&
+          token === tokenIn &&
+          log.args.from.toLowerCase() === owner
+        ) {
+          amountIn += log.args.value;
+        }
+        if (
+          !quote.nativeOut &&
+          token === tokenOut &&
+          log.args.to.toLowerCase() === owner
+        ) {
+          amountOut += log.args.value;
+        }
+      } else if (
+        quote.nativeOut &&
+        token === tokenOut &&
+        log.args.src.toLowerCase() === router
+      ) {
+        // Native output is unwrapped by the router before it is sent on
+        amountOut += log.args.wad;
+      }
+    }
+
+    return { amountIn, amountOut };
+  }
+
+  private approveCall(token: Address, spender: Address, amount: bigint) {
+    return {
+      to: token,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [spender, amount],
+      }),
+    };
+  }
+
+  private async getDecimals(
+    client: PublicClient,
+    token: Address,
+  ): Promise<number> {
+    try {
+      return Number(
+        await client.readContract({
+          address: token,
+          abi: ERC20_ABI,
+          functionName: 'decimals',
+        }),
+      );
+    } catch {
+      throw new Error(`Could not read decimals for token ${token}`);
+    }
+  }
+}
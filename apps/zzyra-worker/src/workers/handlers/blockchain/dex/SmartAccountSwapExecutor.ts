@@ -0,0 +1,105 @@
+import { EnhancedBlockExecutionContext } from '@zzyra/types';
+import { ZeroDevService } from '../../../../services/zerodev.service';
+import { formatPrivateKey, loadSessionKeyWallet } from '../sessionKeyWallet';
+import { Address } from './DexAdapter';
+import { DexSwapper, SwapFill, SwapQuote } from './DexSwapper';
+import { resolveSwapChainId } from './dexRouters';
+
+export interface SmartAccountSwapResult extends SwapFill {
+  transactionHash: string;
+  account: Address;
+  gasUsed?: number;
+  blockNumber?: number;
+  explorerUrl?: string;
+}
+
+/**
+ * Executes quoted swaps from the user's smart account. Approvals and the
+ * swap are batched into one user operation signed with the workflow's
+ * session key.
+ */
+export class SmartAccountSwapExecutor {
+  constructor(
+    private readonly zeroDevService: ZeroDevService,
+    private readonly swapper: DexSwapper,
+  ) {}
+
+  async execute(
+    context: EnhancedBlockExecutionContext,
+    chainId: string,
+    quote: SwapQuote,
+    params: { amountOutMinimum: bigint; deadlineMinutes: number },
+  ): Promise<SmartAccountSwapResult> {
+    const kernelClient = await this.createKernelClient(context, chainId);
+    const account = kernelClient.account.address as Address;
+
+    const calls = await this.swapper.buildSwapCalls(quote, {
+      account,
+      amountOutMinimum: params.amountOutMinimum,
+      deadline: BigInt(
+        Math.floor(Date.now() / 1000) + params.deadlineMinutes * 60,
+      ),
+    });
+
+    context.logger.info('Executing token swap', {
+      chainId,
+      account,
+      router: quote.router,
+      dex: quote.dex,
+      calls: calls.length,
+    });
+
+    const result = await this.zeroDevService.executeBatchTransactions(
+      kernelClient,
+      calls,
+      resolveSwapChainId(chainId),
+    );
+
+    const fill = await this.swapper.readFill(
+      quote,
+      result.transactionHash,
+      account,
+    );
+    if (fill.amountOut === 0n) {
+      context.logger.warn('No output transfer found in swap transaction', {
+        transactionHash: result.transactionHash,
+      });
+    }
+
+    return {
+      ...fill,
+      transactionHash: result.transactionHash,
+      account,
+      gasUsed: result.gasUsed,
+      blockNumber: result.blockNumber,
+      explorerUrl: result.explorerUrl,
+    };
+  }
+
+  /**
+   * Create a kernel client that signs with the workflow's session key on
+   * behalf of the user's smart wallet
+   */
+  private async createKernelClient(
+    context: EnhancedBlockExecutionContext,
+    chainId: string,
+  ): Promise<any> {
+    let smartWalletAddress: string | undefined;
+    try {
+      const delegation = JSON.parse(
+        context.blockchainAuthorization?.delegationSignature || '',
+      );
+      smartWalletAddress = delegation?.smartWallet;
+    } catch {
+      // Plain delegation signatures carry no smart wallet address
+    }
+
+    const sessionWallet = await loadSessionKeyWallet(context, chainId);
+    return this.zeroDevService.createKernelAccount(
+      formatPrivateKey(sessionWallet.privateKey),
+      resolveSwapChainId(chainId),
+      smartWalletAddress ? 'delegated' : 'hybrid',
+      smartWalletAddress,
+    );
+  }
+}
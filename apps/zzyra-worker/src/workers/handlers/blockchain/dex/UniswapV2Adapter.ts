@@ -0,0 +1,96 @@
+import { encodeFunctionData, parseAbi, PublicClient } from 'viem';
+import {
+  Address,
+  DexAdapter,
+  DexCall,
+  DexQuote,
+  DexQuoteRequest,
+  DexSwapRequest,
+} from './DexAdapter';
+
+const ROUTER_ABI = parseAbi([
+  'function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+]);
+
+/**
+ * Uniswap V2 style routers (Uniswap V2, SushiSwap, DragonSwap and other
+ * forks). Quotes the direct pair and a hop through the wrapped native token.
+ */
+export class UniswapV2Adapter implements DexAdapter {
+  readonly id = 'uniswap-v2';
+
+  constructor(
+    readonly router: Address,
+    private readonly wrappedNative?: Address,
+  ) {}
+
+  async quote(
+    client: PublicClient,
+    request: DexQuoteRequest,
+  ): Promise<DexQuote | null> {
+    const paths: Address[][] = [[request.tokenIn, request.tokenOut]];
+    const wrapped = this.wrappedNative?.toLowerCase();
+    if (
+      wrapped &&
+      request.tokenIn.toLowerCase() !== wrapped &&
+      request.tokenOut.toLowerCase() !== wrapped
+    ) {
+      paths.push([request.tokenIn, this.wrappedNative!, request.tokenOut]);
+    }
+
+    let best: DexQuote | null = null;
+    for (const path of paths) {
+      let amounts: readonly bigint[];
+      try {
+        amounts = await client.readContract({
+          address: this.router,
+          abi: ROUTER_ABI,
+          functionName: 'getAmountsOut',
+          args: [request.amountIn, path],
+        });
+      } catch {
+        // The router reverts when a pair on the path does not exist
+        continue;
+      }
+
+      const amountOut = amounts[amounts.length - 1];
+      if (amountOut > 0n && (!best || amountOut > best.amountOut)) {
+        best = { dex: this.id, router: this.router, amountOut, route: path };
+      }
+    }
+
+    return best;
+  }
+
+  buildSwapCall(request: DexSwapRequest): DexCall {
+    const { quote, amountIn, amountOutMinimum, recipient, deadline } = request;
+    const path = quote.route;
+
+    if (request.nativeIn) {
+      return {
+        to: this.router,
+        value: amountIn,
+        data: encodeFunctionData({
+          abi: ROUTER_ABI,
+          functionName: 'swapExactETHForTokens',
+          args: [amountOutMinimum, path, recipient, deadline],
+        }),
+      };
+    }
+
+    return {
+      to: this.router,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: ROUTER_ABI,
+        functionName: request.nativeOut
+          ? 'swapExactTokensForETH'
+          : 'swapExactTokensForTokens',
+        args: [amountIn, amountOutMinimum, path, recipient, deadline],
+      }),
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { encodeFunctionData, parseAbi, PublicClient } from 'viem';
+import {
+  Address,
+  DexAdapter,
+  DexCall,
+  DexQuote,
+  DexQuoteRequest,
+  DexSwapRequest,
+} from './DexAdapter';
+
+const QUOTER_ABI = parseAbi([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+
+const SWAP_ROUTER_ABI = parseAbi([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+]);
+
+// SwapRouter02 treats this recipient as "keep the output in the router"
+const ROUTER_AS_RECIPIENT: Address =
+  '0x0000000000000000000000000000000000000002';
+
+export const V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+/**
+ * Uniswap V3 style SwapRouter02 + QuoterV2 deployments. Quotes single-pool
+ * swaps across the standard fee tiers and keeps the best one.
+ */
+export class UniswapV3Adapter implements DexAdapter {
+  readonly id = 'uniswap-v3';
+
+  constructor(
+    readonly router: Address,
+    private readonly quoter: Address,
+    private readonly feeTiers: number[] = V3_FEE_TIERS,
+  ) {}
+
+  async quote(
+    client: PublicClient,
+    request: DexQuoteRequest,
+  ): Promise<DexQuote | null> {
+    let best: DexQuote | null = null;
+
+    for (const fee of this.feeTiers) {
+      let amountOut: bigint;
+      try {
+        // QuoterV2 is not a view contract; it reverts internally to report
+        // the result, so it has to be simulated rather than read
+        const { result } = await client.simulateContract({
+          address: this.quoter,
+          abi: QUOTER_ABI,
+          functionName: 'quoteExactInputSingle',
+          args: [
+            {
+              tokenIn: request.tokenIn,
+              tokenOut: request.tokenOut,
+              amountIn: request.amountIn,
+              fee,
+              sqrtPriceLimitX96: 0n,
+            },
+          ],
+        });
+        amountOut = result[0];
+      } catch {
+        // No pool for this fee tier
+        continue;
+      }
+
+      if (amountOut > 0n && (!best || amountOut > best.amountOut)) {
+        best = {
+          dex: this.id,
+          router: this.router,
+          amountOut,
+          route: [request.tokenIn, request.tokenOut],
+          fee,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  buildSwapCall(request: DexSwapRequest): DexCall {
+    const { quote, amountIn, amountOutMinimum, recipient, deadline } = request;
+    if (quote.fee === undefined) {
+      throw new Error('Uniswap V3 quote is missing the pool fee');
+    }
+
+    const swap = encodeFunctionData({
+      abi: SWAP_ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [
+        {
+          tokenIn: request.tokenIn,
+          tokenOut: request.tokenOut,
+          fee: quote.fee,
+          recipient: request.nativeOut ? ROUTER_AS_RECIPIENT : recipient,
+          amountIn,
+          amountOutMinimum,
+          sqrtPriceLimitX96: 0n,
+        },
+      ],
+    });
+
+    // Native output is received as the wrapped token and unwrapped in the
+    // same transaction
+    const calls = request.nativeOut
+      ? [
+          swap,
+          encodeFunctionData({
+            abi: SWAP_ROUTER_ABI,
+            functionName: 'unwrapWETH9',
+            args: [amountOutMinimum, recipient],
+          }),
+        ]
+      : [swap];
+
+    return {
+      to: this.router,
+      // The router wraps native input sent as value
+      value: request.nativeIn ? amountIn : 0n,
+      data: encodeFunctionData({
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'multicall',
+        args: [deadline, calls],
+      }),
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { Address } from './DexAdapter';
+
+export type DexProtocol = 'uniswap-v2' | 'uniswap-v3';
+
+export interface DexRouterConfig {
+  id: DexProtocol;
+  router: Address;
+  /** QuoterV2 contract, required for `uniswap-v3` */
+  quoter?: Address;
+}
+
+export interface DexChainConfig {
+  chainId: number;
+  rpcUrl: string;
+  wrappedNative?: Address;
+  routers: DexRouterConfig[];
+}
+
+interface DexChainDefaults {
+  rpcUrl?: string;
+  wrappedNative?: string;
+  v2Router?: string;
+  v3Router?: string;
+  v3Quoter?: string;
+}
+
+// Official Uniswap testnet deployments. V3 routers are SwapRouter02.
+// SEI testnet has no canonical deployment, so its routers come from the
+// DEX_*_<chainId> environment variables only.
+const CHAIN_DEFAULTS: Record<number, DexChainDefaults> = {
+  1328: {
+    rpcUrl: 'https://evm-rpc-testnet.sei-apis.com',
+  },
+  11155111: {
+    rpcUrl: 'https://rpc.sepolia.org',
+    wrappedNative: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+    v2Router: '0xeE567Fe1712Faf6149d80dA1E6934E354124CfE3',
+    v3Router: '0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E',
+    v3Quoter: '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3',
+  },
+  84532: {
+    rpcUrl: 'https://sepolia.base.org',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    v2Router: '0x1689E7B1F10000AE47eBfE339a4f69dECd19F602',
+    v3Router: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
+    v3Quoter: '0xC5290058841028F1614F3A6F0F5816cAd0df5E27',
+  },
+};
+
+const RPC_ENV: Record<number, string> = {
+  1328: 'SEI_TESTNET_RPC',
+  11155111: 'SEPOLIA_RPC_URL',
+  84532: 'BASE_SEPOLIA_RPC_URL',
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// Chain option values used by the swap blocks
+const SWAP_CHAIN_IDS: Record<string, number> = {
+  '1328': 1328,
+  'ethereum-sepolia': 11155111,
+  'base-sepolia': 84532,
+};
+
+/**
+ * Map a swap block's chain option to its EVM chain id
+ */
+export function resolveSwapChainId(chainId: string): number {
+  const chainIdNumber = SWAP_CHAIN_IDS[chainId];
+  if (!chainIdNumber) {
+    throw new Error(`Unsupported chain for swaps: ${chainId}`);
+  }
+  return chainIdNumber;
+}
+
+/**
+ * Resolve the routers available on a chain. Every address can be overridden
+ * per chain, e.g. `DEX_V2_ROUTER_1328`, `DEX_V3_ROUTER_1328`,
+ * `DEX_V3_QUOTER_1328` and `DEX_WRAPPED_NATIVE_1328`.
+ */
+export function getDexChainConfig(
+  chainId: number,
+  env: NodeJS.ProcessEnv = process.env,
+): DexChainConfig {
+  const defaults = CHAIN_DEFAULTS[chainId] || {};
+  const setting = (name: string, fallback?: string): Address | undefined => {
+    const value = env[`DEX_${name}_${chainId}`] || fallback;
+    if (!value) {
+      return undefined;
+    }
+    if (!ADDRESS_PATTERN.test(value)) {
+      throw new Error(
+        `DEX_${name}_${chainId} must be a contract address, got "${value}"`,
+      );
+    }
+    return value as Address;
+  };
+
+  const rpcUrl = (RPC_ENV[chainId] && env[RPC_ENV[chainId]]) || defaults.rpcUrl;
+  if (!rpcUrl) {
+    throw new Error(`No RPC URL configured for chain ${chainId}`);
+  }
+
+  const routers: DexRouterConfig[] = [];
+  const v2Router = setting('V2_ROUTER', defaults.v2Router);
+  if (v2Router) {
+    routers.push({ id: 'uniswap-v2', router: v2Router });
+  }
+
+  const v3Router = setting('V3_ROUTER', defaults.v3Router);
+  const v3Quoter = setting('V3_QUOTER', defaults.v3Quoter);
+  if (v3Router && v3Quoter) {
+    routers.push({ id: 'uniswap-v3', router: v3Router, quoter: v3Quoter });
+  }
+
+  return {
+    chainId,
+    rpcUrl,
+    wrappedNative: setting('WRAPPED_NATIVE', defaults.wrappedNative),
+    routers,
+  };
+}
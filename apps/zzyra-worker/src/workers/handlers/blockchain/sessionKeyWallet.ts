@@ -0,0 +1,165 @@
+import { Logger } from '@nestjs/common';
+import { EnhancedBlockExecutionContext } from '@zzyra/types';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const logger = new Logger('SessionKeyWallet');
+
+/**
+ * Session key wallet interface for secure transaction signing
+ */
+export interface SessionKeyWallet {
+  address: string;
+  privateKey: string;
+  chainId: string;
+  sessionKeyId: string;
+  permissions: any[];
+}
+
+/**
+ * Get session key-based wallet connection for secure transaction signing
+ */
+export async function loadSessionKeyWallet(
+  context: EnhancedBlockExecutionContext,
+  chainId: string,
+): Promise<SessionKeyWallet> {
+  const sessionKeyId = context.blockchainAuthorization?.sessionKeyId;
+
+  if (!sessionKeyId) {
+    throw new Error('No session key provided for transaction signing');
+  }
+
+  try {
+    // Fetch session key from API with HMAC service auth
+    const getTimestamp = Date.now().toString();
+    const getNonce = `${getTimestamp}-${Math.random().toString(36).slice(2)}`;
+    const getBody = '';
+    const getBodyHash = crypto
+      .createHash('sha256')
+      .update(getBody)
+      .digest('hex');
+    const getPath = `/api/session-keys/${sessionKeyId}`;
+    const getCanonical = `GET\n${getPath}\n${getBodyHash}\n${getTimestamp}\n${getNonce}`;
+    const getSignature = crypto
+      .createHmac('sha256', process.env.SERVICE_AUTH_WORKER_SECRET as string)
+      .update(getCanonical)
+      .digest('base64');
+
+    const response = await fetch(`${process.env.API_BASE_URL}${getPath}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Service-Id': process.env.SERVICE_AUTH_WORKER_ID || '',
+        'X-Timestamp': getTimestamp,
+        'X-Nonce': getNonce,
+        'X-Signature': getSignature,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch session key: ${response.statusText}`);
+    }
+
+    const { data: sessionKey } = await response.json();
+
+    // Determine the decryption message: support wrapped JSON or raw string
+    const rawDelegation = context.blockchainAuthorization.delegationSignature;
+    let decryptionMessage = rawDelegation;
+    try {
+      const parsed = JSON.parse(rawDelegation);
+      if (parsed && typeof parsed.encryptionMessage === 'string') {
+        decryptionMessage = parsed.encryptionMessage;
+      }
+    } catch {
+      // keep raw string
+    }
+
+    // Decrypt the session private key using the delegation message
+    const privateKey = await decryptSessionKey(
+      sessionKey.encryptedPrivateKey,
+      decryptionMessage,
+    );
+
+    return {
+      address: sessionKey.walletAddress,
+      privateKey: privateKey,
+      chainId: chainId,
+      sessionKeyId: sessionKeyId,
+      permissions: sessionKey.permissions,
+    };
+  } catch (error) {
+    logger.error('Failed to get session key wallet', {
+      sessionKeyId,
+      chainId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error(
+      `Session key wallet initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+/**
+ * Normalize a hex private key to 0x-prefixed 32-byte format
+ */
+export function formatPrivateKey(privateKey: string): `0x${string}` {
+  const hex = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Invalid session key format: expected 32-byte hex');
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Decrypt session key private key using delegation signature
+ * Must match the SessionKeyCryptoService encryption format
+ */
+async function decryptSessionKey(
+  encryptedPrivateKey: string,
+  delegationSignature: string,
+): Promise<string> {
+  try {
+    // Constants matching SessionKeyCryptoService
+    const algorithm = 'aes-256-gcm';
+    const keyLength = 32;
+    const ivLength = 16;
+    const tagLength = 16;
+    const saltLength = 32;
+
+    // Parse the base64 encoded data (salt + iv + tag + encrypted)
+    const combined = Buffer.from(encryptedPrivateKey, 'base64');
+
+    // Extract components
+    const salt = combined.subarray(0, saltLength);
+    const iv = combined.subarray(saltLength, saltLength + ivLength);
+    const tag = combined.subarray(
+      saltLength + ivLength,
+      saltLength + ivLength + tagLength,
+    );
+    const encrypted = combined.subarray(saltLength + ivLength + tagLength);
+
+    // Derive key from delegation signature using scrypt (same as encryption)
+    const scryptAsync = promisify(crypto.scrypt) as (
+      password: string,
+      salt: Buffer,
+      keylen: number,
+    ) => Promise<Buffer>;
+    const key = await scryptAsync(delegationSignature, salt, keyLength);
+
+    // Create decipher
+    const decipher = crypto.createDecipheriv(algorithm, key, iv);
+    decipher.setAuthTag(tag);
+
+    // Decrypt the private key
+    let decrypted = decipher.update(encrypted, undefined, 'utf8');
+    decrypted += decipher.final('utf8');
+
+    logger.debug('Session key decrypted successfully');
+    return decrypted;
+  } catch (error) {
+    logger.error('Failed to decrypt session key', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Session key decryption failed');
+  }
+}
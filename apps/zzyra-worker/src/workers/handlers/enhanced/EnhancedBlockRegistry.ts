@@ -15,7 +15,6 @@ import { ExecutionLogger } from '../../execution-logger';
 
 // Import enhanced blocks
 import { HttpBlockHandler } from '../HttpBlockHandler';
-import { EnhancedComparatorBlock } from './EnhancedComparatorBlock';
 import { NotificationBlockHandler } from '../NotificationBlockHandler';
 import { PriceMonitorBlockHandler } from '../PriceMonitorBlockHandler';
 import { CalculatorBlockHandler } from './CalculatorBlockHandler';
@@ -52,7 +51,6 @@ export class EnhancedBlockRegistry {
   private initializeBlocks(): void {
     // Register enhanced blocks
     this.registerEnhancedBlock(new HttpBlockHandler());
-    this.registerEnhancedBlock(new EnhancedComparatorBlock());
     this.registerEnhancedBlock(
       new NotificationBlockHandler(this.databaseService),
     );
@@ -67,9 +65,15 @@ export class EnhancedBlockRegistry {
     this.registerEnhancedBlock(
       new SendTransactionBlock(this.configService, zeroDevService, this.databaseService),
     );
-    this.registerEnhancedBlock(new SeiDcaTradingBlock(this.configService));
+    this.registerEnhancedBlock(
+      new SeiDcaTradingBlock(
+        this.configService,
+        zeroDevService,
+        this.databaseService,
+      ),
+    );
     this.registerEnhancedBlock(new CheckBalanceBlock());
-    this.registerEnhancedBlock(new SwapTokensBlock());
+    this.registerEnhancedBlock(new SwapTokensBlock(zeroDevService));
     this.registerEnhancedBlock(new CreateWalletBlock());
 
     // Register legacy blocks for backward compatibility
@@ -341,6 +345,7 @@ export class EnhancedBlockRegistry {
     const templateContext = {
       previousOutputs,
       blockOutputs: previousOutputs, // Alternative naming for clarity
+      nodeLabels: context.nodeLabels,
       // Add current node data for fallback
       currentNode: node.data?.config || {},
     };
@@ -413,6 +418,7 @@ export class EnhancedBlockRegistry {
             method: options.method || 'GET',
             headers: options.headers,
             body: options.body ? JSON.stringify(options.body) : undefined,
+            signal: context.signal,
           });
           return response.json();
         },
@@ -552,7 +558,7 @@ export class EnhancedBlockRegistry {
     const issues: string[] = [];
 
     // Check for essential blocks
-    const essentialBlocks = [BlockType.HTTP_REQUEST, BlockType.CONDITION];
+    const essentialBlocks = [BlockType.HTTP_REQUEST];
     for (const blockType of essentialBlocks) {
       if (!this.enhancedBlocks.has(blockType)) {
         issues.push(`Missing essential enhanced block: ${blockType}`);
@@ -22,6 +22,10 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { ConfigService } from '@nestjs/config';
 import { ZeroDevService } from '../../../../services/zerodev.service';
 import { DatabaseService } from '../../../../services/database.service';
+import {
+  formatPrivateKey,
+  loadSessionKeyWallet,
+} from '../../blockchain/sessionKeyWallet';
 
 /**
  * SEI Network Configuration
@@ -66,17 +70,6 @@ interface WalletConnection {
   chainId: string;
 }
 
-/**
- * Session key wallet interface for secure transaction signing
- */
-interface SessionKeyWallet {
-  address: string;
-  privateKey: string;
-  chainId: string;
-  sessionKeyId: string;
-  permissions: any[];
-}
-
 /**
  * Transaction result interface
  */
@@ -495,7 +488,7 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
       // If we have sessionKeyId but no aaData, create minimal aaData for ZeroDev
       if (authMethod.sessionKeyId && !authMethod.aaData) {
-        const sessionWallet = await this.getSessionKeyWallet(
+        const sessionWallet = await loadSessionKeyWallet(
           context,
           params.chainId,
         );
@@ -757,11 +750,11 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
             case 'delegated':
               // Session key operates on behalf of smart wallet
-              const sessionWallet = await this.getSessionKeyWallet(
+              const sessionWallet = await loadSessionKeyWallet(
                 context,
                 chainId,
               );
-              const formattedPk = this.formatPrivateKey(
+              const formattedPk = formatPrivateKey(
                 sessionWallet.privateKey,
               );
 
@@ -837,11 +830,11 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
             case 'hybrid':
               // Support both patterns - start with session key for automated execution
-              const hybridSessionWallet = await this.getSessionKeyWallet(
+              const hybridSessionWallet = await loadSessionKeyWallet(
                 context,
                 chainId,
               );
-              const hybridFormattedPk = this.formatPrivateKey(
+              const hybridFormattedPk = formatPrivateKey(
                 hybridSessionWallet.privateKey,
               );
 
@@ -1023,12 +1016,12 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
         try {
           // Prefer session key-based kernel client for automated AA execution
-          const sessionWallet = await this.getSessionKeyWallet(
+          const sessionWallet = await loadSessionKeyWallet(
             context,
             chainId,
           );
 
-          const formattedPk = this.formatPrivateKey(sessionWallet.privateKey);
+          const formattedPk = formatPrivateKey(sessionWallet.privateKey);
 
           // createKernelAccount now returns the kernel client directly
           aaData.kernelClient = await this.zeroDevService.createKernelAccount(
@@ -1596,154 +1589,6 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
     throw new Error('UserOperation confirmation timeout');
   }
 
-  /**
-   * Get session key-based wallet connection for secure transaction signing
-   */
-  private async getSessionKeyWallet(
-    context: EnhancedBlockExecutionContext,
-    chainId: string,
-  ): Promise<SessionKeyWallet> {
-    const sessionKeyId = context.blockchainAuthorization?.sessionKeyId;
-
-    if (!sessionKeyId) {
-      throw new Error('No session key provided for transaction signing');
-    }
-
-    try {
-      // Fetch session key from API with HMAC service auth
-      const crypto = require('crypto');
-      const getTimestamp = Date.now().toString();
-      const getNonce = `${getTimestamp}-${Math.random().toString(36).slice(2)}`;
-      const getBody = '';
-      const getBodyHash = crypto
-        .createHash('sha256')
-        .update(getBody)
-        .digest('hex');
-      const getPath = `/api/session-keys/${sessionKeyId}`;
-      const getCanonical = `GET\n${getPath}\n${getBodyHash}\n${getTimestamp}\n${getNonce}`;
-      const getSignature = crypto
-        .createHmac('sha256', process.env.SERVICE_AUTH_WORKER_SECRET as string)
-        .update(getCanonical)
-        .digest('base64');
-
-      const response = await fetch(`${process.env.API_BASE_URL}${getPath}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Service-Id': process.env.SERVICE_AUTH_WORKER_ID || '',
-          'X-Timestamp': getTimestamp,
-          'X-Nonce': getNonce,
-          'X-Signature': getSignature,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch session key: ${response.statusText}`);
-      }
-
-      const { data: sessionKey } = await response.json();
-
-      // Determine the decryption message: support wrapped JSON or raw string
-      const rawDelegation = context.blockchainAuthorization.delegationSignature;
-      let decryptionMessage = rawDelegation;
-      try {
-        const parsed = JSON.parse(rawDelegation);
-        if (parsed && typeof parsed.encryptionMessage === 'string') {
-          decryptionMessage = parsed.encryptionMessage;
-        }
-      } catch {
-        // keep raw string
-      }
-
-      // Decrypt the session private key using the delegation message
-      const privateKey = await this.decryptSessionKey(
-        sessionKey.encryptedPrivateKey,
-        decryptionMessage,
-      );
-
-      return {
-        address: sessionKey.walletAddress,
-        privateKey: privateKey,
-        chainId: chainId,
-        sessionKeyId: sessionKeyId,
-        permissions: sessionKey.permissions,
-      };
-    } catch (error) {
-      this.logger.error('Failed to get session key wallet', {
-        sessionKeyId,
-        chainId,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw new Error(
-        `Session key wallet initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      );
-    }
-  }
-
-  /**
-   * Normalize a hex private key to 0x-prefixed 32-byte format
-   */
-  private formatPrivateKey(privateKey: string): `0x${string}` {
-    const hex = privateKey.startsWith('0x') ? privateKey.slice(2) : privateKey;
-    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
-      throw new Error('Invalid session key format: expected 32-byte hex');
-    }
-    return `0x${hex}`;
-  }
-
-  /**
-   * Decrypt session key private key using delegation signature
-   * Must match the SessionKeyCryptoService encryption format
-   */
-  private async decryptSessionKey(
-    encryptedPrivateKey: string,
-    delegationSignature: string,
-  ): Promise<string> {
-    try {
-      const crypto = require('crypto');
-      const { promisify } = require('util');
-
-      // Constants matching SessionKeyCryptoService
-      const algorithm = 'aes-256-gcm';
-      const keyLength = 32;
-      const ivLength = 16;
-      const tagLength = 16;
-      const saltLength = 32;
-
-      // Parse the base64 encoded data (salt + iv + tag + encrypted)
-      const combined = Buffer.from(encryptedPrivateKey, 'base64');
-
-      // Extract components
-      const salt = combined.slice(0, saltLength);
-      const iv = combined.slice(saltLength, saltLength + ivLength);
-      const tag = combined.slice(
-        saltLength + ivLength,
-        saltLength + ivLength + tagLength,
-      );
-      const encrypted = combined.slice(saltLength + ivLength + tagLength);
-
-      // Derive key from delegation signature using scrypt (same as encryption)
-      const scryptAsync = promisify(crypto.scrypt);
-      const key = await scryptAsync(delegationSignature, salt, keyLength);
-
-      // Create decipher
-      const decipher = crypto.createDecipheriv(algorithm, key, iv);
-      decipher.setAuthTag(tag);
-
-      // Decrypt the private key
-      let decrypted = decipher.update(encrypted, null, 'utf8');
-      decrypted += decipher.final('utf8');
-
-      this.logger.debug('Session key decrypted successfully');
-      return decrypted;
-    } catch (error) {
-      this.logger.error('Failed to decrypt session key', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw new Error('Session key decryption failed');
-    }
-  }
-
   /**
    * Execute SEI testnet transaction (EVM-compatible)
    */
@@ -1759,10 +1604,10 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
     try {
       // Get session key wallet for secure transaction signing
-      const sessionWallet = await this.getSessionKeyWallet(context, chainId);
+      const sessionWallet = await loadSessionKeyWallet(context, chainId);
 
       // Create account from session key private key
-      const formattedPk = this.formatPrivateKey(sessionWallet.privateKey);
+      const formattedPk = formatPrivateKey(sessionWallet.privateKey);
       const account = privateKeyToAccount(formattedPk);
 
       context.logger.info('Connecting to SEI testnet EVM', {
@@ -1888,7 +1733,7 @@ export class SendTransactionBlock implements EnhancedBlockHandler {
 
     try {
       // Get session key wallet for secure transaction signing
-      const sessionWallet = await this.getSessionKeyWallet(context, chainId);
+      const sessionWallet = await loadSessionKeyWallet(context, chainId);
 
       // Get RPC URL for chain
       const rpcUrl = this.getRpcUrl(chainId);
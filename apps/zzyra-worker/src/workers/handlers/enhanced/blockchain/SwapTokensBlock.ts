@@ -9,15 +9,34 @@ import {
   ConnectionType,
   ValidationResult,
 } from '@zzyra/types';
+import { formatUnits, parseUnits } from 'viem';
+import { ZeroDevService } from '../../../../services/zerodev.service';
+import {
+  applySlippage,
+  DexSwapper,
+  SwapQuote,
+} from '../../blockchain/dex/DexSwapper';
+import { resolveSwapChainId } from '../../blockchain/dex/dexRouters';
+import { SmartAccountSwapExecutor } from '../../blockchain/dex/SmartAccountSwapExecutor';
 
 /**
  * Enhanced block for swapping tokens on decentralized exchanges
- * Supports multiple chains with SEI testnet focus
+ * Quotes on-chain through the routers configured for the chain and executes
+ * the swap from the user's smart account via ZeroDev
  */
 @Injectable()
 export class SwapTokensBlock implements EnhancedBlockHandler {
   private readonly logger = new Logger(SwapTokensBlock.name);
 
+  private readonly executor: SmartAccountSwapExecutor;
+
+  constructor(
+    zeroDevService: ZeroDevService,
+    private readonly swapper = new DexSwapper(),
+  ) {
+    this.executor = new SmartAccountSwapExecutor(zeroDevService, swapper);
+  }
+
   definition: EnhancedBlockDefinition = {
     displayName: 'Swap Tokens',
     name: 'SWAP_TOKENS',
@@ -89,9 +108,8 @@ export class SwapTokensBlock implements EnhancedBlockHandler {
         default: 'auto',
         options: [
           { name: 'Auto (Best Price)', value: 'auto' },
-          { name: 'Uniswap V3', value: 'uniswap-v3' },
-          { name: 'SushiSwap', value: 'sushiswap' },
-          { name: 'SEI DEX', value: 'sei-dex' },
+          { name: 'Uniswap V2 and forks', value: 'uniswap-v2' },
+          { name: 'Uniswap V3 and forks', value: 'uniswap-v3' },
         ],
         description: 'Decentralized exchange platform to use',
       },
@@ -154,28 +172,32 @@ export class SwapTokensBlock implements EnhancedBlockHandler {
         fromToken,
         toToken,
         amountIn,
-        slippageTolerance,
         dexPlatform,
         context,
       });
 
-      // Validate minimum amount out
-      if (
-        minAmountOut &&
-        parseFloat(swapQuote.amountOut) < parseFloat(minAmountOut)
-      ) {
-        throw new Error(
-          `Expected output ${swapQuote.amountOut} is below minimum ${minAmountOut}`,
-        );
+      // Enforce slippage tolerance and the optional explicit minimum
+      let amountOutMinimum = applySlippage(
+        swapQuote.amountOut,
+        slippageTolerance,
+      );
+      if (minAmountOut) {
+        const minimum = parseUnits(minAmountOut, swapQuote.decimalsOut);
+        if (swapQuote.amountOut < minimum) {
+          throw new Error(
+            `Expected output ${formatUnits(swapQuote.amountOut, swapQuote.decimalsOut)} is below minimum ${minAmountOut}`,
+          );
+        }
+        if (minimum > amountOutMinimum) {
+          amountOutMinimum = minimum;
+        }
       }
 
       // Execute swap
       const swapResult = await this.executeSwap({
         chainId,
-        fromToken,
-        toToken,
-        amountIn,
         quote: swapQuote,
+        amountOutMinimum,
         deadline,
         context,
       });
@@ -188,7 +210,7 @@ export class SwapTokensBlock implements EnhancedBlockHandler {
           chainId,
           fromToken,
           toToken,
-          amountIn,
+          amountIn: swapResult.amountIn,
           amountOut: swapResult.amountOut,
           txHash: swapResult.transactionHash,
         },
@@ -202,11 +224,24 @@ export class SwapTokensBlock implements EnhancedBlockHandler {
             chainId,
             fromToken,
             toToken,
-            amountIn,
+            amountIn: swapResult.amountIn,
             amountOut: swapResult.amountOut,
+            quotedAmountOut: formatUnits(
+              swapQuote.amountOut,
+              swapQuote.decimalsOut,
+            ),
+            amountOutMinimum: formatUnits(
+              amountOutMinimum,
+              swapQuote.decimalsOut,
+            ),
             effectiveSlippage: swapResult.effectiveSlippage,
             gasUsed: swapResult.gasUsed,
-            dexPlatform: swapResult.dexUsed,
+            blockNumber: swapResult.blockNumber,
+            explorerUrl: swapResult.explorerUrl,
+            dexPlatform: swapQuote.dex,
+            router: swapQuote.router,
+            route: swapQuote.route,
+            smartWalletAddress: swapResult.account,
             executionTime,
             timestamp: new Date().toISOString(),
           },
@@ -373,93 +408,81 @@ export class SwapTokensBlock implements EnhancedBlockHandler {
   }
 
   /**
-   * Get swap quote from DEX
+   * Get the best on-chain swap quote from the configured DEX routers
    */
   private async getSwapQuote(params: {
     chainId: string;
     fromToken: string;
     toToken: string;
     amountIn: string;
-    slippageTolerance: number;
     dexPlatform: string;
     context: EnhancedBlockExecutionContext;
-  }): Promise<{
-    amountOut: string;
-    priceImpact: number;
-    route: string[];
-    dex: string;
-  }> {
+  }): Promise<SwapQuote> {
     const { chainId, fromToken, toToken, amountIn, dexPlatform, context } =
       params;
 
-    context.logger.info('Getting swap quote (MOCK)', {
-      chainId,
+    const quote = await this.swapper.quote(resolveSwapChainId(chainId), {
       fromToken,
       toToken,
       amountIn,
       dexPlatform,
     });
 
-    // Mock quote fetching delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // Mock swap quote
-    const exchangeRate = 0.95 + Math.random() * 0.1; // Random rate between 0.95-1.05
-    const amountOut = (parseFloat(amountIn) * exchangeRate).toFixed(6);
+    context.logger.info('Received swap quote', {
+      chainId,
+      fromToken,
+      toToken,
+      amountIn,
+      amountOut: formatUnits(quote.amountOut, quote.decimalsOut),
+      dex: quote.dex,
+      route: quote.route,
+      fee: quote.fee,
+    });
 
-    return {
-      amountOut,
-      priceImpact: Math.random() * 2, // 0-2% price impact
-      route: [fromToken, toToken],
-      dex: dexPlatform === 'auto' ? 'sei-dex' : dexPlatform,
-    };
+    return quote;
   }
 
   /**
-   * Execute the token swap
+   * Execute the quoted swap from the user's smart account
    */
   private async executeSwap(params: {
     chainId: string;
-    fromToken: string;
-    toToken: string;
-    amountIn: string;
-    quote: any;
+    quote: SwapQuote;
+    amountOutMinimum: bigint;
     deadline: number;
     context: EnhancedBlockExecutionContext;
   }): Promise<{
     transactionHash: string;
+    account: string;
+    amountIn: string;
     amountOut: string;
     effectiveSlippage: number;
-    gasUsed: number;
-    dexUsed: string;
+    gasUsed?: number;
+    blockNumber?: number;
+    explorerUrl?: string;
   }> {
-    const { chainId, fromToken, toToken, amountIn, quote, context } = params;
+    const { chainId, quote, amountOutMinimum, deadline, context } = params;
 
-    context.logger.info('Executing token swap (MOCK)', {
-      chainId,
-      fromToken,
-      toToken,
-      amountIn,
-      expectedAmountOut: quote.amountOut,
+    const result = await this.executor.execute(context, chainId, quote, {
+      amountOutMinimum,
+      deadlineMinutes: deadline,
     });
 
-    // Mock swap execution delay
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    // Simulate actual slippage vs expected
-    const slippageVariance = (Math.random() - 0.5) * 0.02; // ±1% variance
-    const actualAmountOut = (
-      parseFloat(quote.amountOut) *
-      (1 + slippageVariance)
-    ).toFixed(6);
-    const effectiveSlippage = Math.abs(slippageVariance) * 100;
+    // Positive when the fill is worse than the quote
+    const effectiveSlippage =
+      Number(
+        ((quote.amountOut - result.amountOut) * 1000000n) / quote.amountOut,
+      ) / 10000;
 
     return {
-      transactionHash: `0x${Math.random().toString(16).substring(2, 66)}`,
-      amountOut: actualAmountOut,
+      transactionHash: result.transactionHash,
+      account: result.account,
+      amountIn: formatUnits(result.amountIn, quote.decimalsIn),
+      amountOut: formatUnits(result.amountOut, quote.decimalsOut),
       effectiveSlippage,
-      gasUsed: Math.floor(Math.random() * 100000) + 150000,
-      dexUsed: quote.dex,
+      gasUsed: result.gasUsed,
+      blockNumber: result.blockNumber,
+      explorerUrl: result.explorerUrl,
     };
   }
 
@@ -9,16 +9,41 @@ import {
   ConnectionType,
   ZyraNodeData,
 } from '@zzyra/types';
+import { DcaPlan } from '@zzyra/database';
+import { formatUnits } from 'viem';
+import { DatabaseService } from '../../../../services/database.service';
+import { ZeroDevService } from '../../../../services/zerodev.service';
+import {
+  applySlippage,
+  DexSwapper,
+  SwapQuote,
+} from '../../blockchain/dex/DexSwapper';
+import { resolveSwapChainId } from '../../blockchain/dex/dexRouters';
+import { SmartAccountSwapExecutor } from '../../blockchain/dex/SmartAccountSwapExecutor';
+
+// Minutes a DCA swap may wait in the mempool before the router rejects it
+const SWAP_DEADLINE_MINUTES = 20;
 
 /**
  * SEI Network DCA (Dollar Cost Averaging) Trading Bot
- * Executes automated buy/sell orders on SEI Network using session keys
+ *
+ * Each DCA block owns a persistent plan in `dca_plans`. Every scheduled run
+ * prices the trade with an on-chain DEX quote, checks the plan's budget and
+ * price band, swaps from the user's smart account and records the fill.
  */
 @Injectable()
 export class SeiDcaTradingBlock implements EnhancedBlockHandler {
   private readonly logger = new Logger(SeiDcaTradingBlock.name);
-
-  constructor(private readonly configService: ConfigService) {}
+  private readonly executor: SmartAccountSwapExecutor;
+
+  constructor(
+    private readonly configService: ConfigService,
+    zeroDevService: ZeroDevService,
+    private readonly databaseService: DatabaseService,
+    private readonly swapper = new DexSwapper(),
+  ) {
+    this.executor = new SmartAccountSwapExecutor(zeroDevService, swapper);
+  }
 
   definition: EnhancedBlockDefinition = {
     displayName: 'SEI DCA Trading Bot',
@@ -33,6 +58,19 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
     outputs: [ConnectionType.MAIN],
 
     properties: [
+      {
+        displayName: 'Chain',
+        name: 'chainId',
+        type: PropertyType.OPTIONS,
+        required: true,
+        default: '1328',
+        options: [
+          { name: 'SEI Testnet', value: '1328' },
+          { name: 'Ethereum Sepolia', value: 'ethereum-sepolia' },
+          { name: 'Base Sepolia', value: 'base-sepolia' },
+        ],
+        description: 'Blockchain network to trade on',
+      },
       {
         displayName: 'Trading Strategy',
         name: 'strategy',
@@ -40,9 +78,8 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
         required: true,
         default: 'dca_buy',
         options: [
-          { name: 'DCA Buy (accumulate SEI)', value: 'dca_buy' },
+          { name: 'DCA Buy (accumulate base token)', value: 'dca_buy' },
           { name: 'DCA Sell (take profits)', value: 'dca_sell' },
-          { name: 'Grid Trading', value: 'grid_trading' },
         ],
         description: 'Trading strategy to execute',
       },
@@ -51,54 +88,55 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
         name: 'baseToken',
         type: PropertyType.STRING,
         required: true,
-        default: 'SEI',
-        description: 'Base token symbol (e.g., SEI)',
+        default: 'native',
+        description:
+          'Token being accumulated or sold (address, or "native" for SEI)',
       },
       {
         displayName: 'Quote Token',
         name: 'quoteToken',
         type: PropertyType.STRING,
         required: true,
-        default: 'USDC',
-        description: 'Quote token symbol (e.g., USDC)',
+        description: 'Token the base token is priced in, e.g. a USDC address',
       },
       {
-        displayName: 'Trade Amount (USDC)',
+        displayName: 'Amount Per Interval',
         name: 'tradeAmount',
         type: PropertyType.STRING,
         required: true,
         default: '10',
-        description: 'Amount to trade per execution (in USDC)',
+        description:
+          'Amount spent per run: quote token when buying, base token when selling',
       },
       {
-        displayName: 'Price Target (%)',
-        name: 'priceTarget',
-        type: PropertyType.NUMBER,
+        displayName: 'Total Budget',
+        name: 'totalBudget',
+        type: PropertyType.STRING,
         required: false,
-        default: 5,
-        description: 'Target price change percentage for execution',
+        description:
+          'Total amount the plan may spend across all runs (optional)',
       },
       {
-        displayName: 'Max Slippage (%)',
-        name: 'maxSlippage',
+        displayName: 'Min Price',
+        name: 'minPrice',
         type: PropertyType.NUMBER,
         required: false,
-        default: 2.5,
-        description: 'Maximum acceptable slippage percentage',
+        description: 'Skip runs while the price (quote per base) is below this',
       },
       {
-        displayName: 'Stop Loss (%)',
-        name: 'stopLoss',
+        displayName: 'Max Price',
+        name: 'maxPrice',
         type: PropertyType.NUMBER,
         required: false,
-        description: 'Stop loss percentage (optional)',
+        description: 'Skip runs while the price (quote per base) is above this',
       },
       {
-        displayName: 'Take Profit (%)',
-        name: 'takeProfit',
+        displayName: 'Max Slippage (%)',
+        name: 'maxSlippage',
         type: PropertyType.NUMBER,
         required: false,
-        description: 'Take profit percentage (optional)',
+        default: 2.5,
+        description: 'Maximum acceptable slippage percentage',
       },
     ],
   };
@@ -114,16 +152,18 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
     }
 
     // Extract parameters
-    const strategy = context.getNodeParameter('strategy');
-    const baseToken = context.getNodeParameter('baseToken');
+    const chainId = context.getNodeParameter('chainId') || '1328';
+    const strategy = context.getNodeParameter('strategy') || 'dca_buy';
+    const baseToken = context.getNodeParameter('baseToken') || 'native';
     const quoteToken = context.getNodeParameter('quoteToken');
-    const tradeAmount = parseFloat(context.getNodeParameter('tradeAmount'));
-    const priceTarget = context.getNodeParameter('priceTarget') || 5;
+    const tradeAmount = String(context.getNodeParameter('tradeAmount') ?? '');
+    const totalBudget = context.getNodeParameter('totalBudget');
+    const minPrice = context.getNodeParameter('minPrice');
+    const maxPrice = context.getNodeParameter('maxPrice');
     const maxSlippage = context.getNodeParameter('maxSlippage') || 2.5;
-    const stopLoss = context.getNodeParameter('stopLoss');
-    const takeProfit = context.getNodeParameter('takeProfit');
 
     context.logger.info('Starting SEI DCA Trading Bot execution', {
+      chainId,
       strategy,
       baseToken,
       quoteToken,
@@ -132,62 +172,94 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
     });
 
     try {
-      // Step 1: Analyze market conditions
-      const marketAnalysis = await this.analyzeMarketConditions(
+      this.validateParameters({
+        strategy,
         baseToken,
         quoteToken,
-        context,
-      );
+        tradeAmount,
+        totalBudget,
+        minPrice,
+        maxPrice,
+        maxSlippage,
+      });
 
-      // Step 2: Check trading conditions
-      const shouldExecuteTrade = await this.shouldExecuteTrade(
-        strategy,
-        marketAnalysis,
-        priceTarget,
-        stopLoss,
-        takeProfit,
-        context,
-      );
-
-      if (!shouldExecuteTrade.execute) {
-        context.logger.info('Trading conditions not met, skipping execution', {
-          reason: shouldExecuteTrade.reason,
-          currentPrice: marketAnalysis.currentPrice,
-          priceChange24h: marketAnalysis.priceChange24h,
-        });
+      // Step 1: Load the plan, applying the current block settings
+      const side = strategy === 'dca_sell' ? 'sell' : 'buy';
+      const plan = await this.databaseService.dcaPlans.syncForNode({
+        workflowId: context.workflowId,
+        userId: context.userId,
+        nodeId: context.nodeId,
+        chainId,
+        side,
+        baseToken,
+        quoteToken,
+        amountPerInterval: tradeAmount,
+        totalBudget: this.optionalAmount(totalBudget),
+        minPrice: this.optionalAmount(minPrice),
+        maxPrice: this.optionalAmount(maxPrice),
+      });
 
-        return [
-          {
-            json: {
-              status: 'skipped',
-              reason: shouldExecuteTrade.reason,
-              marketData: marketAnalysis,
-              executionTime: Date.now() - startTime,
-            },
-          },
-        ];
+      if (plan.status === 'completed') {
+        return this.skipped(
+          'Plan budget is fully spent',
+          plan,
+          undefined,
+          startTime,
+        );
       }
 
-      // Step 3: Execute the trade
-      const tradeResult = await this.executeTrade(
-        strategy,
-        baseToken,
-        quoteToken,
-        tradeAmount,
-        maxSlippage,
-        context,
-      );
+      // Step 2: Price the trade with an on-chain quote
+      const amountIn = this.getRunAmount(plan);
+      const quote = await this.swapper.quote(resolveSwapChainId(chainId), {
+        fromToken: side === 'buy' ? quoteToken : baseToken,
+        toToken: side === 'buy' ? baseToken : quoteToken,
+        amountIn,
+        dexPlatform: 'auto',
+      });
+      const marketData = this.getMarketData(side, quote);
+
+      // Step 3: Check the price band
+      if (minPrice && marketData.price < Number(minPrice)) {
+        return this.skipped(
+          `Price ${marketData.price} is below the minimum ${minPrice}`,
+          plan,
+          marketData,
+          startTime,
+        );
+      }
+      if (maxPrice && marketData.price > Number(maxPrice)) {
+        return this.skipped(
+          `Price ${marketData.price} is above the maximum ${maxPrice}`,
+          plan,
+          marketData,
+          startTime,
+        );
+      }
+
+      // Step 4: Execute the trade
+      const result = await this.executor.execute(context, chainId, quote, {
+        amountOutMinimum: applySlippage(quote.amountOut, maxSlippage),
+        deadlineMinutes: SWAP_DEADLINE_MINUTES,
+      });
 
-      // Step 4: Update portfolio tracking
-      await this.updatePortfolioTracking(tradeResult, context);
+      // Step 5: Append the fill to the plan
+      const { plan: updatedPlan, fill } =
+        await this.databaseService.dcaPlans.recordFill(plan.id, {
+          executionId: context.executionId,
+          transactionHash: result.transactionHash,
+          amountIn: formatUnits(result.amountIn, quote.decimalsIn),
+          amountOut: formatUnits(result.amountOut, quote.decimalsOut),
+        });
 
       const executionTime = Date.now() - startTime;
 
       context.logger.info('SEI DCA Trading Bot execution completed', {
         strategy,
-        tradeHash: tradeResult.transactionHash,
-        amountTraded: tradeResult.amountTraded,
-        price: tradeResult.executionPrice,
+        tradeHash: result.transactionHash,
+        amountIn: fill.amountIn.toFixed(),
+        amountOut: fill.amountOut.toFixed(),
+        price: fill.price.toFixed(),
+        fillCount: updatedPlan.fillCount,
         executionTime,
       });
 
@@ -196,8 +268,18 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
           json: {
             status: 'success',
             strategy,
-            tradeResult,
-            marketAnalysis,
+            tradeResult: {
+              transactionHash: result.transactionHash,
+              explorerUrl: result.explorerUrl,
+              amountIn: fill.amountIn.toFixed(),
+              amountOut: fill.amountOut.toFixed(),
+              executionPrice: fill.price.toNumber(),
+              gasUsed: result.gasUsed,
+              dex: quote.dex,
+              timestamp: fill.createdAt.toISOString(),
+            },
+            marketData,
+            plan: this.toPlanStats(updatedPlan),
             executionTime,
             sessionKeyId: context.blockchainAuthorization.sessionKeyId,
           },
@@ -226,216 +308,133 @@ export class SeiDcaTradingBlock implements EnhancedBlockHandler {
     }
   }
 
-  /**
-   * Analyze current market conditions for the trading pair
-   */
-  private async analyzeMarketConditions(
-    baseToken: string,
-    quoteToken: string,
-    context: EnhancedBlockExecutionContext,
-  ): Promise<MarketAnalysis> {
-    try {
-      // In production, this would fetch from real price feeds
-      // For now, simulate realistic market data
-      const currentPrice = 0.82 + (Math.random() - 0.5) * 0.1; // SEI price around $0.82
-      const priceChange24h = (Math.random() - 0.5) * 10; // -5% to +5% change
-      const volume24h = 50000000 + Math.random() * 20000000; // Volume variation
-
-      const rsi = 30 + Math.random() * 40; // RSI between 30-70
-      const macd = (Math.random() - 0.5) * 0.02;
-
-      // Simple trend analysis
-      const trend =
-        priceChange24h > 2
-          ? 'bullish'
-          : priceChange24h < -2
-            ? 'bearish'
-            : 'neutral';
-
-      context.logger.info('Market analysis completed', {
-        baseToken,
-        quoteToken,
-        currentPrice,
-        priceChange24h: `${priceChange24h.toFixed(2)}%`,
-        trend,
-        rsi: rsi.toFixed(2),
-      });
+  private validateParameters(params: {
+    strategy: string;
+    baseToken: string;
+    quoteToken: string;
+    tradeAmount: string;
+    totalBudget?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    maxSlippage: number;
+  }): void {
+    if (params.strategy !== 'dca_buy' && params.strategy !== 'dca_sell') {
+      throw new Error(`Unsupported DCA strategy: ${params.strategy}`);
+    }
 
-      return {
-        baseToken,
-        quoteToken,
-        currentPrice,
-        priceChange24h,
-        volume24h,
-        rsi,
-        macd,
-        trend,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      context.logger.error('Market analysis failed', { error });
-      throw new Error(
-        `Market analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      );
+    for (const [label, token] of [
+      ['Base token', params.baseToken],
+      ['Quote token', params.quoteToken],
+    ]) {
+      if (
+        !token ||
+        (token !== 'native' && !/^0x[a-fA-F0-9]{40}$/.test(token))
+      ) {
+        throw new Error(`${label} must be a token address or "native"`);
+      }
+    }
+    if (params.baseToken.toLowerCase() === params.quoteToken.toLowerCase()) {
+      throw new Error('Base token and quote token cannot be the same');
+    }
+
+    if (!this.isPositive(params.tradeAmount)) {
+      throw new Error('Amount per interval must be a positive number');
+    }
+    if (params.totalBudget && !this.isPositive(params.totalBudget)) {
+      throw new Error('Total budget must be a positive number');
+    }
+    if (
+      params.minPrice &&
+      params.maxPrice &&
+      Number(params.minPrice) > Number(params.maxPrice)
+    ) {
+      throw new Error('Min price cannot be greater than max price');
+    }
+    if (params.maxSlippage < 0.1 || params.maxSlippage > 10) {
+      throw new Error('Max slippage must be between 0.1% and 10%');
     }
   }
 
   /**
-   * Determine if trading conditions are met
+   * Amount to spend this run: one interval, capped by the remaining budget
    */
-  private async shouldExecuteTrade(
-    strategy: string,
-    marketAnalysis: MarketAnalysis,
-    priceTarget: number,
-    stopLoss?: number,
-    takeProfit?: number,
-    context?: EnhancedBlockExecutionContext,
-  ): Promise<{ execute: boolean; reason: string }> {
-    switch (strategy) {
-      case 'dca_buy':
-        // DCA buy: Execute regularly, but consider market conditions
-        if (marketAnalysis.rsi > 75) {
-          return { execute: false, reason: 'RSI too high (overbought)' };
-        }
-        if (marketAnalysis.priceChange24h > priceTarget * 2) {
-          return { execute: false, reason: 'Price pumped too much today' };
-        }
-        return { execute: true, reason: 'DCA buy conditions met' };
-
-      case 'dca_sell':
-        // DCA sell: Take profits when price is up
-        if (marketAnalysis.priceChange24h < priceTarget) {
-          return {
-            execute: false,
-            reason: `Price change ${marketAnalysis.priceChange24h.toFixed(2)}% below target ${priceTarget}%`,
-          };
-        }
-        return { execute: true, reason: 'DCA sell conditions met' };
-
-      case 'grid_trading':
-        // Grid trading: Execute on price movements
-        const absPriceChange = Math.abs(marketAnalysis.priceChange24h);
-        if (absPriceChange < priceTarget) {
-          return {
-            execute: false,
-            reason: `Price movement ${absPriceChange.toFixed(2)}% below threshold`,
-          };
-        }
-        return { execute: true, reason: 'Grid trading conditions met' };
-
-      default:
-        return { execute: false, reason: 'Unknown strategy' };
+  private getRunAmount(plan: DcaPlan): string {
+    if (!plan.totalBudget) {
+      return plan.amountPerInterval.toFixed();
     }
+
+    const remaining = plan.totalBudget.minus(plan.totalSpent);
+    return (
+      remaining.lessThan(plan.amountPerInterval)
+        ? remaining
+        : plan.amountPerInterval
+    ).toFixed();
   }
 
   /**
-   * Execute the actual trade on SEI Network
+   * Price in quote token per base token implied by a quote
    */
-  private async executeTrade(
-    strategy: string,
-    baseToken: string,
-    quoteToken: string,
-    tradeAmount: number,
-    maxSlippage: number,
-    context: EnhancedBlockExecutionContext,
-  ): Promise<TradeResult> {
-    try {
-      context.logger.info('Executing trade on SEI Network', {
-        strategy,
-        baseToken,
-        quoteToken,
-        tradeAmount,
-        maxSlippage,
-      });
-
-      // Simulate realistic trade execution
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      const executionPrice = 0.82 + (Math.random() - 0.5) * 0.02;
-      const slippage = Math.random() * maxSlippage;
-      const gasUsed = 180000 + Math.random() * 50000;
-      const amountTraded =
-        strategy === 'dca_buy'
-          ? tradeAmount / executionPrice // Buying SEI with USDC
-          : tradeAmount; // Selling SEI for USDC
-
-      const transactionHash = `0x${Array(64)
-        .fill(0)
-        .map(() => Math.floor(Math.random() * 16).toString(16))
-        .join('')}`;
+  private getMarketData(side: 'buy' | 'sell', quote: SwapQuote) {
+    const amountIn = Number(formatUnits(quote.amountIn, quote.decimalsIn));
+    const amountOut = Number(formatUnits(quote.amountOut, quote.decimalsOut));
+
+    return {
+      price: side === 'buy' ? amountIn / amountOut : amountOut / amountIn,
+      source: 'dex_quote',
+      dex: quote.dex,
+      route: quote.route,
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-      return {
-        transactionHash,
-        strategy,
-        baseToken,
-        quoteToken,
-        amountTraded: parseFloat(amountTraded.toFixed(6)),
-        executionPrice: parseFloat(executionPrice.toFixed(6)),
-        slippage: parseFloat(slippage.toFixed(3)),
-        gasUsed: Math.floor(gasUsed),
-        timestamp: new Date().toISOString(),
-        status: 'success',
-      };
-    } catch (error) {
-      context.logger.error('Trade execution failed', { error });
-      throw new Error(
-        `Trade execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      );
-    }
+  private toPlanStats(plan: DcaPlan) {
+    return {
+      id: plan.id,
+      status: plan.status,
+      side: plan.side,
+      baseToken: plan.baseToken,
+      quoteToken: plan.quoteToken,
+      amountPerInterval: plan.amountPerInterval.toFixed(),
+      totalBudget: plan.totalBudget?.toFixed() ?? null,
+      remainingBudget: plan.totalBudget
+        ? plan.totalBudget.minus(plan.totalSpent).toFixed()
+        : null,
+      fillCount: plan.fillCount,
+      totalSpent: plan.totalSpent.toFixed(),
+      totalReceived: plan.totalReceived.toFixed(),
+      averagePrice: plan.averagePrice?.toNumber() ?? null,
+      lastFillAt: plan.lastFillAt?.toISOString() ?? null,
+    };
   }
 
-  /**
-   * Update portfolio tracking after trade execution
-   */
-  private async updatePortfolioTracking(
-    tradeResult: TradeResult,
-    context: EnhancedBlockExecutionContext,
-  ): Promise<void> {
-    try {
-      // In production, this would update database records
-      context.logger.info('Updating portfolio tracking', {
-        transactionHash: tradeResult.transactionHash,
-        strategy: tradeResult.strategy,
-        amountTraded: tradeResult.amountTraded,
-        executionPrice: tradeResult.executionPrice,
-      });
+  private skipped(
+    reason: string,
+    plan: DcaPlan,
+    marketData: ReturnType<SeiDcaTradingBlock['getMarketData']> | undefined,
+    startTime: number,
+  ): ZyraNodeData[] {
+    this.logger.log(`DCA plan ${plan.id} skipped: ${reason}`);
 
-      // Simulate database update
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    } catch (error) {
-      context.logger.warn('Portfolio tracking update failed', { error });
-      // Don't fail the entire execution for tracking errors
-    }
+    return [
+      {
+        json: {
+          status: 'skipped',
+          reason,
+          marketData,
+          plan: this.toPlanStats(plan),
+          executionTime: Date.now() - startTime,
+        },
+      },
+    ];
   }
-}
 
-/**
- * Market analysis interface
- */
-interface MarketAnalysis {
-  baseToken: string;
-  quoteToken: string;
-  currentPrice: number;
-  priceChange24h: number;
-  volume24h: number;
-  rsi: number;
-  macd: number;
-  trend: 'bullish' | 'bearish' | 'neutral';
-  timestamp: string;
-}
+  private optionalAmount(value: unknown): string | null {
+    return value === undefined || value === null || value === ''
+      ? null
+      : String(value);
+  }
 
-/**
- * Trade result interface
- */
-interface TradeResult {
-  transactionHash: string;
-  strategy: string;
-  baseToken: string;
-  quoteToken: string;
-  amountTraded: number;
-  executionPrice: number;
-  slippage: number;
-  gasUsed: number;
-  timestamp: string;
-  status: 'success' | 'failed';
+  private isPositive(value: string): boolean {
+    return !isNaN(parseFloat(value)) && parseFloat(value) > 0;
+  }
 }
@@ -9,7 +9,25 @@ import { CircuitBreakerDbService } from '../lib/blockchain/CircuitBreakerDbServi
 import { BlockHandlerRegistry } from './handlers/BlockHandlerRegistry';
 import { EnhancedBlockRegistry } from './handlers/enhanced/EnhancedBlockRegistry';
 import { getEnhancedBlockSchema } from '@zzyra/types';
+import {
+  QuotaCheck,
+  decryptCredential,
+  findCredentialReferences,
+  hasQuotaFor,
+  redactSecrets,
+} from '@zzyra/database';
 import { ZyraTemplateProcessor } from '../utils/template-processor';
+import {
+  EnhancedExecutionError,
+  ExecutionErrorType,
+  classifyExecutionError,
+} from './execution-errors';
+import {
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from './retry-policy';
+import { createQuotaExceededError, getMeteredResource } from './quota';
 
 @Injectable()
 export class NodeExecutor {
@@ -19,6 +37,7 @@ export class NodeExecutor {
   private blockHandlerRegistry: BlockHandlerRegistry;
   private enhancedBlockRegistry: EnhancedBlockRegistry;
   private circuitBreakerService: CircuitBreakerDbService;
+  private readonly templateProcessor = new ZyraTemplateProcessor();
 
   private static readonly MAX_RETRIES = parseInt(
     process.env.NODE_EXECUTION_MAX_RETRIES || '3',
@@ -26,9 +45,6 @@ export class NodeExecutor {
   private static readonly RETRY_BACKOFF_MS = parseInt(
     process.env.NODE_EXECUTION_RETRY_BACKOFF_MS || '1000',
   );
-  private static readonly RETRY_JITTER_MS = parseInt(
-    process.env.NODE_EXECUTION_RETRY_JITTER_MS || '100',
-  );
   private static readonly NODE_EXECUTION_TIMEOUT = parseInt(
     process.env.NODE_EXECUTION_TIMEOUT || '300000', // 5 minutes to match AI Agent timeout
   );
@@ -50,9 +66,8 @@ export class NodeExecutor {
       this.configService,
     );
     // Initialize EnhancedBlockRegistry with template processor
-    const templateProcessor = new ZyraTemplateProcessor();
     this.enhancedBlockRegistry = new EnhancedBlockRegistry(
-      templateProcessor,
+      this.templateProcessor,
       this.databaseService,
       this.executionLogger,
       this.configService,
@@ -66,16 +81,28 @@ export class NodeExecutor {
     userId: string,
     previousOutputs: Record<string, any>,
     blockchainAuthorization?: any,
+    signal?: AbortSignal,
+    nodeLabels?: Record<string, string>,
   ): Promise<any> {
     const span = this.tracer.startSpan('execute_node', {
       attributes: { nodeId: node.id, executionId, userId },
     });
 
+    const retryPolicy = resolveRetryPolicy(node.data, {
+      maxAttempts: NodeExecutor.MAX_RETRIES,
+      delayMs: NodeExecutor.RETRY_BACKOFF_MS,
+      timeoutMs: NodeExecutor.NODE_EXECUTION_TIMEOUT,
+    });
+
     let attempt = 0;
     let result: any;
+    let quotaChecked = false;
+    let credentials: Record<string, string> | undefined;
+    let secrets: string[] = [];
 
-    while (attempt < NodeExecutor.MAX_RETRIES) {
+    while (attempt < retryPolicy.maxAttempts) {
       const startTime = Date.now();
+      let timeoutHandle: NodeJS.Timeout | undefined;
 
       try {
         // Get block type - prioritize blockType from data over generic type
@@ -84,6 +111,16 @@ export class NodeExecutor {
           throw new Error(`Node ${node.id} has no block type specified`);
         }
 
+        if (!quotaChecked) {
+          await this.checkNodeQuota(node, blockType, executionId, userId);
+          quotaChecked = true;
+        }
+
+        if (!credentials) {
+          credentials = await this.loadCredentials(node, userId);
+          secrets = Object.values(credentials);
+        }
+
         // Get enhanced schema for validation
         const enhancedSchema = getEnhancedBlockSchema(blockType as BlockType);
 
@@ -162,15 +199,17 @@ export class NodeExecutor {
           );
         }
 
-        // Create timeout promise
+        // Create timeout promise for this attempt
         const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => {
+          timeoutHandle = setTimeout(() => {
             reject(
-              new Error(
-                `Node execution timeout after ${NodeExecutor.NODE_EXECUTION_TIMEOUT}ms`,
+              new EnhancedExecutionError(
+                ExecutionErrorType.TIMEOUT_ERROR,
+                `Node execution timeout after ${retryPolicy.timeoutMs}ms`,
+                true,
               ),
             );
-          }, NodeExecutor.NODE_EXECUTION_TIMEOUT);
+          }, retryPolicy.timeoutMs);
         });
 
         // Log node start
@@ -199,25 +238,45 @@ export class NodeExecutor {
         // Create context with logger
         const blockData = this.prepareBlockData(node, blockType);
 
+        // Credentials are resolved in copies, so the node and the logs of
+        // its config keep the references
         const ctx: BlockExecutionContext = {
           nodeId: node.id,
           executionId,
           workflowId: execution.workflowId,
           userId,
           inputs: node.data?.inputs || {},
-          config: node.data || {},
+          config: this.templateProcessor.resolveCredentials(
+            node.data || {},
+            credentials,
+          ),
           previousOutputs,
-          logger: this.executionLogger.createNodeLogger(executionId, node.id),
+          nodeLabels,
+          logger: this.executionLogger.createNodeLogger(
+            executionId,
+            node.id,
+            secrets,
+          ),
           workflowData: {
             nodeId: node.id,
             nodeType: blockType,
             executionTime: new Date().toISOString(),
           },
           blockchainAuthorization,
+          signal,
         };
 
         // Update node with prepared data
         node.data = blockData;
+        const executableNode = secrets.length
+          ? {
+              ...node,
+              data: this.templateProcessor.resolveCredentials(
+                blockData,
+                credentials,
+              ),
+            }
+          : node;
 
         // Generate circuit ID for this node type
         const circuitId = this.circuitBreakerService.generateCircuitId(
@@ -232,24 +291,49 @@ export class NodeExecutor {
           throw new Error(`Circuit breaker is OPEN for ${blockType}`);
         }
 
+        // Stop waiting as soon as the execution is cancelled, even for
+        // blocks that ignore the signal
+        signal?.throwIfAborted();
+        let onAbort: (() => void) | undefined;
+        const abortPromise = new Promise((_, reject) => {
+          onAbort = () => reject(signal?.reason);
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
         // Execute with timeout protection
-        if (isEnhancedBlock) {
-          // Use enhanced block execution
-          result = await Promise.race([
-            this.enhancedBlockRegistry.executeBlock(node, ctx, previousOutputs),
-            timeoutPromise,
-          ]);
-        } else {
-          // Use legacy block execution
-          result = await Promise.race([
-            handler.execute(node, ctx),
-            timeoutPromise,
-          ]);
+        try {
+          if (isEnhancedBlock) {
+            // Use enhanced block execution
+            result = await Promise.race([
+              this.enhancedBlockRegistry.executeBlock(
+                executableNode,
+                ctx,
+                previousOutputs,
+              ),
+              timeoutPromise,
+              abortPromise,
+            ]);
+          } else {
+            // Use legacy block execution
+            result = await Promise.race([
+              handler.execute(executableNode, ctx),
+              timeoutPromise,
+              abortPromise,
+            ]);
+          }
+        } finally {
+          clearTimeout(timeoutHandle);
+          if (onAbort) {
+            signal?.removeEventListener('abort', onAbort);
+          }
         }
 
         // Record success
         await this.circuitBreakerService.recordSuccess(circuitId);
 
+        // Outputs are stored and passed on, so they must not hold secrets
+        result = redactSecrets(result, secrets);
+
         // Validate output data against enhanced schema if available
         if (enhancedSchema && result) {
           try {
@@ -317,10 +401,32 @@ export class NodeExecutor {
           { duration_ms: duration },
         );
 
+        await this.recordAttempt(executionId, node.id, {
+          attempt: attempt + 1,
+          status: 'completed',
+          startedAt: new Date(startTime),
+          durationMs: duration,
+        });
+
         return result;
       } catch (err: any) {
+        clearTimeout(timeoutHandle);
+        if (secrets.length && err instanceof Error) {
+          err.message = redactSecrets(err.message, secrets);
+        }
+
+        // Cancelled executions are not retried
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+
         attempt++;
         const duration = Date.now() - startTime;
+        const classifiedError = classifyExecutionError(err);
+        const willRetry =
+          attempt < retryPolicy.maxAttempts &&
+          isRetryableError(retryPolicy, classifiedError);
+        const delay = willRetry ? getRetryDelay(retryPolicy, attempt) : null;
 
         // Record circuit breaker failure
         const blockType = node.data?.blockType || node.data?.type || node.type;
@@ -348,12 +454,13 @@ export class NodeExecutor {
           config: node.data?.config,
           inputs: previousOutputs,
           attempt,
-          maxRetries: NodeExecutor.MAX_RETRIES,
+          maxRetries: retryPolicy.maxAttempts,
+          errorType: classifiedError.type,
         };
 
         // Log detailed error
         this.logger.error(
-          `Node ${node.id} execution failed (attempt ${attempt}/${NodeExecutor.MAX_RETRIES}):\n` +
+          `Node ${node.id} execution failed (attempt ${attempt}/${retryPolicy.maxAttempts}):\n` +
             `Type: ${node.type}\n` +
             `Error: ${err.message}\n` +
             `Config: ${JSON.stringify(node.data?.config, null, 2)}\n` +
@@ -369,14 +476,19 @@ export class NodeExecutor {
           errorDetails,
         );
 
-        // Note: Block execution status is handled by WorkflowExecutor
+        await this.recordAttempt(executionId, node.id, {
+          attempt,
+          status: 'failed',
+          startedAt: new Date(startTime),
+          durationMs: duration,
+          errorType: classifiedError.type,
+          error: err.message,
+          retryDelayMs: delay,
+        });
 
-        if (attempt < NodeExecutor.MAX_RETRIES) {
-          const jitter = Math.floor(
-            Math.random() * NodeExecutor.RETRY_JITTER_MS,
-          );
-          const delay = NodeExecutor.RETRY_BACKOFF_MS * attempt + jitter;
+        // Note: Block execution status is handled by WorkflowExecutor
 
+        if (delay !== null) {
           this.logger.warn(
             `Node ${node.id} failed, retrying after ${delay}ms: ${err.message}`,
           );
@@ -386,11 +498,26 @@ export class NodeExecutor {
             node.id,
             'warn',
             `Retrying after ${delay}ms`,
-            { attempt, max_retries: NodeExecutor.MAX_RETRIES },
+            {
+              attempt,
+              max_retries: retryPolicy.maxAttempts,
+              backoff: retryPolicy.backoff,
+              error_type: classifiedError.type,
+            },
           );
 
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          await this.waitForRetry(delay, signal);
         } else {
+          if (attempt < retryPolicy.maxAttempts) {
+            await this.executionLogger.logNodeEvent(
+              executionId,
+              node.id,
+              'info',
+              `Not retrying ${classifiedError.type}`,
+              { attempt, error_type: classifiedError.type },
+            );
+          }
+
           span.recordException(err);
           span.setStatus({ code: 2, message: err.message });
           throw err;
@@ -399,10 +526,182 @@ export class NodeExecutor {
     }
 
     throw new Error(
-      `Node ${node.id} failed after ${NodeExecutor.MAX_RETRIES} attempts`,
+      `Node ${node.id} failed after ${retryPolicy.maxAttempts} attempts`,
     );
   }
 
+  /**
+   * Load and decrypt the credentials the config of a node references. A
+   * missing credential fails the node without retries, as retrying cannot
+   * fix it.
+   */
+  private async loadCredentials(
+    node: any,
+    userId: string,
+  ): Promise<Record<string, string>> {
+    const names = findCredentialReferences(node.data);
+    if (!names.length) {
+      return {};
+    }
+
+    const encryptionKey = this.configService.get<string>(
+      'CREDENTIALS_ENCRYPTION_KEY',
+    );
+    if (!encryptionKey) {
+      throw new EnhancedExecutionError(
+        ExecutionErrorType.CONFIGURATION_ERROR,
+        'Credentials are not configured on this worker',
+        false,
+        0,
+      );
+    }
+
+    const stored = await this.databaseService.credentials.findByNames(
+      userId,
+      names,
+    );
+    const missing = names.filter(
+      (name) => !stored.some((credential) => credential.name === name),
+    );
+    if (missing.length) {
+      throw new EnhancedExecutionError(
+        ExecutionErrorType.CONFIGURATION_ERROR,
+        `Credentials not found: ${missing.join(', ')}`,
+        false,
+        0,
+        { nodeId: node.id, missing },
+      );
+    }
+
+    const credentials: Record<string, string> = {};
+    for (const credential of stored) {
+      try {
+        credentials[credential.name] = await decryptCredential(
+          credential.encryptedValue,
+          encryptionKey,
+          userId,
+        );
+      } catch {
+        throw new EnhancedExecutionError(
+          ExecutionErrorType.CONFIGURATION_ERROR,
+          `Credential ${credential.name} could not be decrypted`,
+          false,
+          0,
+          { nodeId: node.id },
+        );
+      }
+    }
+    await this.databaseService.credentials.markUsed(
+      stored.map((credential) => credential.id),
+    );
+    return credentials;
+  }
+
+  /**
+   * Check the plan quota a block uses before it runs. A transaction is
+   * charged once per node run, however many attempts it takes; AI tokens are
+   * recorded by the agent once the provider reports them.
+   */
+  private async checkNodeQuota(
+    node: any,
+    blockType: string,
+    executionId: string,
+    userId: string,
+  ): Promise<void> {
+    const resource = getMeteredResource(blockType);
+    if (!resource) {
+      return;
+    }
+
+    const context = { executionId, nodeId: node.id, blockType };
+    let quota: QuotaCheck;
+    if (resource === 'transactions') {
+      quota = await this.databaseService.usage.consume(
+        userId,
+        resource,
+        1,
+        context,
+      );
+    } else {
+      const balance = await this.databaseService.usage.getBalance(
+        userId,
+        resource,
+      );
+      quota = { allowed: hasQuotaFor(balance), balance };
+    }
+    if (!quota.allowed) {
+      throw createQuotaExceededError(quota.balance, context);
+    }
+  }
+
+  /**
+   * Store one attempt of a node and keep the retry count of the node
+   * execution in step. Failures are logged, never thrown.
+   */
+  private async recordAttempt(
+    executionId: string,
+    nodeId: string,
+    attempt: {
+      attempt: number;
+      status: 'completed' | 'failed';
+      startedAt: Date;
+      durationMs: number;
+      errorType?: string;
+      error?: string;
+      retryDelayMs?: number | null;
+    },
+  ): Promise<void> {
+    try {
+      await this.databaseService.prisma.nodeExecution.update({
+        where: { executionId_nodeId: { executionId, nodeId } },
+        data: {
+          retryCount: attempt.attempt - 1,
+          attempts: {
+            create: {
+              attempt: attempt.attempt,
+              status: attempt.status,
+              errorType: attempt.errorType,
+              error: attempt.error,
+              retryDelayMs: attempt.retryDelayMs ?? undefined,
+              startedAt: attempt.startedAt,
+              finishedAt: new Date(
+                attempt.startedAt.getTime() + attempt.durationMs,
+              ),
+              durationMs: attempt.durationMs,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record attempt ${attempt.attempt} of node ${nodeId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Sleep until the next attempt, waking up early when the execution is
+   * cancelled
+   */
+  private waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   private prepareBlockData(node: any, blockType: BlockType) {
     const baseData = node.data || {};
 
@@ -0,0 +1,60 @@
+import type {
+  MeteredResource,
+  QuotaBalance,
+  QuotaResource,
+} from '@zzyra/database';
+import { BlockType } from '@zzyra/types';
+import { EnhancedExecutionError, ExecutionErrorType } from './execution-errors';
+
+// Blocks whose runs use up a metered resource of the plan
+const METERED_BLOCKS: Record<string, MeteredResource> = {
+  [BlockType.AI_AGENT]: 'ai_tokens',
+  [BlockType.SEND_TRANSACTION]: 'transactions',
+  [BlockType.SWAP_TOKENS]: 'transactions',
+};
+
+const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  executions: 'Execution quota',
+  ai_tokens: 'AI token quota',
+  transactions: 'On-chain transaction quota',
+  concurrent_runs: 'Concurrent run limit',
+};
+
+export function getMeteredResource(
+  blockType: string | undefined,
+): MeteredResource | undefined {
+  return METERED_BLOCKS[blockType ?? ''];
+}
+
+/**
+ * A non-retryable error carrying the balance of the exhausted quota, so the
+ * execution logs show what is left and when it resets
+ */
+export function createQuotaExceededError(
+  balance: QuotaBalance,
+  context: Record<string, any> = {},
+): EnhancedExecutionError {
+  const label = RESOURCE_LABELS[balance.resource];
+  const message =
+    balance.resource === 'concurrent_runs'
+      ? `${label} exceeded: ${balance.used} of ${balance.limit} runs in progress`
+      : `${label} exceeded: ${balance.used} of ${balance.limit} used, resets on ${balance.periodEnd.toISOString()}`;
+
+  return new EnhancedExecutionError(
+    ExecutionErrorType.QUOTA_EXCEEDED_ERROR,
+    message,
+    false, // Not retryable
+    0,
+    {
+      ...context,
+      quota: {
+        resource: balance.resource,
+        limit: balance.limit,
+        used: balance.used,
+        remaining: balance.remaining,
+        periodStart: balance.periodStart.toISOString(),
+        periodEnd: balance.periodEnd.toISOString(),
+      },
+    },
+  );
+}
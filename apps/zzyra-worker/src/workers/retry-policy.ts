@@ -0,0 +1,90 @@
+import { NodeRetryPolicy, RetryBackoffStrategy } from '@zzyra/types';
+import { EnhancedExecutionError } from './execution-errors';
+
+export interface ResolvedRetryPolicy {
+  maxAttempts: number;
+  backoff: RetryBackoffStrategy;
+  delayMs: number;
+  maxDelayMs: number;
+  retryOn?: string[];
+  timeoutMs: number;
+}
+
+const BACKOFF_STRATEGIES: RetryBackoffStrategy[] = [
+  'fixed',
+  'exponential',
+  'jitter',
+];
+
+const positiveInt = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0
+    ? Math.floor(parsed)
+    : undefined;
+};
+
+/**
+ * Merge the retry policy of a node with the worker defaults. The policy is
+ * read from `data.retryPolicy`, or from `data.config.retryPolicy` for blocks
+ * that keep all their settings in the config.
+ */
+export function resolveRetryPolicy(
+  nodeData: Record<string, any> | undefined,
+  defaults: Pick<ResolvedRetryPolicy, 'maxAttempts' | 'delayMs' | 'timeoutMs'>,
+): ResolvedRetryPolicy {
+  const policy: NodeRetryPolicy =
+    nodeData?.retryPolicy ?? nodeData?.config?.retryPolicy ?? {};
+
+  const delayMs = policy.delayMs === 0 ? 0 : positiveInt(policy.delayMs);
+  const retryOn = Array.isArray(policy.retryOn)
+    ? policy.retryOn.filter((type) => typeof type === 'string')
+    : undefined;
+
+  return {
+    maxAttempts: positiveInt(policy.maxAttempts) ?? defaults.maxAttempts,
+    backoff: BACKOFF_STRATEGIES.includes(policy.backoff as RetryBackoffStrategy)
+      ? (policy.backoff as RetryBackoffStrategy)
+      : 'exponential',
+    delayMs: delayMs ?? defaults.delayMs,
+    maxDelayMs: positiveInt(policy.maxDelayMs) ?? 30000,
+    retryOn,
+    timeoutMs: positiveInt(policy.timeoutMs) ?? defaults.timeoutMs,
+  };
+}
+
+/**
+ * Whether a failed attempt should be tried again. Without `retryOn` the
+ * classification of the error decides.
+ */
+export function isRetryableError(
+  policy: ResolvedRetryPolicy,
+  error: EnhancedExecutionError,
+): boolean {
+  return policy.retryOn
+    ? policy.retryOn.includes(error.type)
+    : error.isRetryable;
+}
+
+/**
+ * Delay before the next attempt
+ * @param attempt The attempt that just failed, starting at 1
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(
+    policy.delayMs * Math.pow(2, attempt - 1),
+    policy.maxDelayMs,
+  );
+
+  switch (policy.backoff) {
+    case 'fixed':
+      return Math.min(policy.delayMs, policy.maxDelayMs);
+    case 'jitter':
+      return Math.floor(random() * exponential);
+    default:
+      return exponential;
+  }
+}
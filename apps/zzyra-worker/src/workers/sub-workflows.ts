@@ -0,0 +1,146 @@
+import { BLOCK_CATALOG, BlockType, NodeCategory } from '@zzyra/types';
+import { SUB_WORKFLOW_SETTINGS } from '../config';
+import { ApprovalGatePolicy, requiresApproval } from './approval-gates';
+
+export type SubWorkflowMode = 'sync' | 'async';
+
+export interface SubWorkflowOptions {
+  workflowId: string;
+  // sync waits for the run and returns its outputs, async only starts it
+  mode: SubWorkflowMode;
+  // Trigger payload of the run; strings can hold expressions
+  inputs: Record<string, unknown>;
+}
+
+export interface SubWorkflowOutput {
+  executionId: string;
+  workflowId: string;
+  status: string;
+  outputs?: Record<string, any>;
+}
+
+// Trigger type of executions started by an EXECUTE_WORKFLOW node
+export const SUB_WORKFLOW_TRIGGER_TYPE = 'workflow';
+
+const getBlockType = (node: any): string | undefined =>
+  node?.data?.blockType || node?.data?.type || node?.type;
+
+export function isExecuteWorkflowNode(node: any): boolean {
+  return getBlockType(node) === BlockType.EXECUTE_WORKFLOW;
+}
+
+export function resolveSubWorkflowOptions(
+  config: Record<string, any> = {},
+): SubWorkflowOptions {
+  if (typeof config.workflowId !== 'string' || !config.workflowId.trim()) {
+    throw new Error('EXECUTE_WORKFLOW block needs the id of a workflow');
+  }
+  const inputs = config.inputs;
+  return {
+    workflowId: config.workflowId.trim(),
+    mode: config.mode === 'async' ? 'async' : 'sync',
+    inputs:
+      inputs && typeof inputs === 'object' && !Array.isArray(inputs)
+        ? inputs
+        : {},
+  };
+}
+
+/**
+ * Stop runs that call workflows too deeply, such as a workflow that calls
+ * itself
+ */
+export function assertCallDepth(
+  depth: number,
+  maxDepth = SUB_WORKFLOW_SETTINGS.maxDepth,
+): void {
+  if (depth > maxDepth) {
+    throw new Error(
+      `Sub-workflows can be nested ${maxDepth} levels deep; this run would be level ${depth}`,
+    );
+  }
+}
+
+/**
+ * The caller of a sync run waits for it in the same worker, so the run
+ * cannot pause: it may not contain APPROVAL or WAIT blocks or transactions
+ * that need an approval
+ */
+export function validateSyncSubWorkflow(
+  workflowName: string,
+  nodes: any[],
+  policy: ApprovalGatePolicy,
+): void {
+  for (const node of nodes) {
+    if (getBlockType(node) === BlockType.WAIT) {
+      throw new Error(
+        `Workflow ${workflowName} waits at node ${node.id}; run it with mode "async"`,
+      );
+    }
+    if (
+      getBlockType(node) === BlockType.APPROVAL ||
+      requiresApproval(node, policy)
+    ) {
+      throw new Error(
+        `Workflow ${workflowName} needs an approval at node ${node.id}; run it with mode "async"`,
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate the strings of the input mapping, keeping its shape
+ */
+export function mapSubWorkflowInputs(
+  inputs: unknown,
+  evaluate: (template: string) => unknown,
+): any {
+  if (typeof inputs === 'string') {
+    return evaluate(inputs);
+  }
+  if (Array.isArray(inputs)) {
+    return inputs.map((value) => mapSubWorkflowInputs(value, evaluate));
+  }
+  if (inputs && typeof inputs === 'object') {
+    return Object.fromEntries(
+      Object.entries(inputs).map(([key, value]) => [
+        key,
+        mapSubWorkflowInputs(value, evaluate),
+      ]),
+    );
+  }
+  return inputs;
+}
+
+/**
+ * Trigger nodes a run started by another workflow begins with. Instead of
+ * running, they output the payload the caller mapped.
+ */
+export function getSubWorkflowTriggerIds(
+  nodes: any[],
+  edges: any[],
+): Set<string> {
+  const targets = new Set(edges.map((edge) => edge.target));
+  return new Set(
+    nodes
+      .filter(
+        (node) =>
+          !targets.has(node.id) &&
+          BLOCK_CATALOG[getBlockType(node) as BlockType]?.category ===
+            NodeCategory.TRIGGER,
+      )
+      .map((node) => node.id),
+  );
+}
+
+export function createSubWorkflowTriggerOutput(execution: {
+  input?: unknown;
+  callerExecutionId?: string | null;
+}) {
+  return {
+    triggered: true,
+    triggerType: SUB_WORKFLOW_TRIGGER_TYPE,
+    callerExecutionId: execution.callerExecutionId ?? null,
+    input: (execution.input ?? {}) as Record<string, any>,
+  };
+}
@@ -0,0 +1,167 @@
+import { randomBytes } from 'crypto';
+import { BlockType } from '@zzyra/types';
+import { WAIT_SETTINGS } from '../config';
+
+export type WaitMode = 'duration' | 'until' | 'callback';
+
+// When a WAIT block resumes
+export interface WaitPlan {
+  mode: WaitMode;
+  // When the timer fires; for callbacks when the wait times out
+  resumeAt: Date;
+  // Random token the callback has to present, for callbacks only
+  callbackToken?: string;
+  // Reference of the external system, returned with the output; never
+  // accepted in place of the token
+  correlationId?: string;
+}
+
+export interface WaitOutput {
+  resumedBy: 'timer' | 'callback' | 'timeout';
+  waitedSince: string;
+  resumedAt: string;
+  timedOut: boolean;
+  correlationId?: string;
+  payload?: unknown;
+}
+
+const UNIT_MS: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+const getBlockType = (node: any): string | undefined =>
+  node?.data?.blockType || node?.data?.type || node?.type;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+export function isWaitNode(node: any): boolean {
+  return getBlockType(node) === BlockType.WAIT;
+}
+
+/**
+ * Read the time a WAIT block waits until: an ISO date-time, or "HH:mm" for
+ * the next such time in UTC
+ */
+export function parseWaitUntil(value: unknown, now: Date): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const text = String(value ?? '').trim();
+  const timeOfDay = /^(\d{1,2}):(\d{2})$/.exec(text);
+  if (timeOfDay) {
+    const hours = Number(timeOfDay[1]);
+    const minutes = Number(timeOfDay[2]);
+    if (hours > 23 || minutes > 59) {
+      throw new Error(`WAIT block cannot read "${text}" as a time of day`);
+    }
+    const next = new Date(now);
+    next.setUTCHours(hours, minutes, 0, 0);
+    if (next <= now) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+    return next;
+  }
+
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `WAIT block cannot read "${text}" as a time; use an ISO date-time or HH:mm`,
+    );
+  }
+  return new Date(time);
+}
+
+/**
+ * Work out when a WAIT block resumes. `evaluate` resolves the expressions of
+ * `until` and `correlationToken`. Callbacks always get a random token, since
+ * the callback endpoint is public; the configured `correlationToken` is only
+ * kept as the correlation ID of the wait.
+ */
+export function resolveWaitPlan(
+  config: Record<string, any> = {},
+  now: Date,
+  evaluate: (template: string) => unknown = (template) => template,
+): WaitPlan {
+  const mode: WaitMode =
+    config.mode === 'until' || config.mode === 'callback'
+      ? config.mode
+      : 'duration';
+  const latest = new Date(
+    now.getTime() + WAIT_SETTINGS.maxWaitDays * UNIT_MS.days,
+  );
+
+  let plan: WaitPlan;
+  if (mode === 'duration') {
+    const amount = Number(config.duration);
+    if (!(amount > 0)) {
+      throw new Error('WAIT block needs a positive duration');
+    }
+    const unitMs = UNIT_MS[config.unit] ?? UNIT_MS.minutes;
+    plan = { mode, resumeAt: new Date(now.getTime() + amount * unitMs) };
+  } else if (mode === 'until') {
+    plan = {
+      mode,
+      resumeAt: parseWaitUntil(evaluate(String(config.until ?? '')), now),
+    };
+  } else {
+    const correlationId = evaluate(String(config.correlationToken ?? ''));
+    const timeoutMinutes = Number(config.timeoutMinutes);
+    plan = {
+      mode,
+      resumeAt:
+        timeoutMinutes > 0
+          ? new Date(now.getTime() + timeoutMinutes * UNIT_MS.minutes)
+          : latest,
+      callbackToken: randomBytes(24).toString('base64url'),
+      ...(!isBlank(correlationId) && {
+        correlationId: String(correlationId).trim(),
+      }),
+    };
+  }
+
+  if (plan.resumeAt > latest) {
+    throw new Error(
+      `WAIT blocks can wait up to ${WAIT_SETTINGS.maxWaitDays} days`,
+    );
+  }
+  return plan;
+}
+
+/**
+ * TTL of the next timer message. Timers never wait longer than a hop; a
+ * timer that is not due yet when it expires is published again.
+ */
+export function getTimerDelay(
+  resumeAt: Date,
+  now: Date,
+  hopMs = WAIT_SETTINGS.timerHopMs,
+): number {
+  return Math.min(Math.max(resumeAt.getTime() - now.getTime(), 0), hopMs);
+}
+
+/**
+ * Output of a WAIT block whose timer fired. For a callback that never
+ * arrived the wait timed out.
+ */
+export function createWaitOutput(
+  pause: {
+    createdAt: Date;
+    callbackToken?: string | null;
+    correlationId?: string | null;
+  },
+  now: Date,
+): WaitOutput {
+  const timedOut = !!pause.callbackToken;
+  return {
+    resumedBy: timedOut ? 'timeout' : 'timer',
+    waitedSince: pause.createdAt.toISOString(),
+    resumedAt: now.toISOString(),
+    timedOut,
+    ...(pause.correlationId && { correlationId: pause.correlationId }),
+  };
+}
@@ -23,6 +23,52 @@ import { DataTransformationService } from '../services/data-transformation.servi
 import { DataStateService } from '../services/data-state.service';
 import { ParallelExecutionService } from '../services/parallel-execution.service';
 import { BlockchainDataSyncService } from '../services/blockchain-data-sync.service';
+import {
+  ExecutionCancelledError,
+  ExecutionControlService,
+} from '../services/execution-control.service';
+import { createNodeErrorOutput, isNodeErrorOutput } from './execution-errors';
+import {
+  ApprovalGatePolicy,
+  getApprovalGateId,
+  getGatedNodeIds,
+  getProposedAction,
+  insertApprovalGates,
+  isRejectedApproval,
+  ProposedAction,
+} from './approval-gates';
+import {
+  collectForEachOutput,
+  extractLoopBodies,
+  ForEachOutput,
+  getIterationNodeId,
+  getIterationResult,
+  IterationOutcome,
+  LoopBody,
+  resolveForEachOptions,
+  runInBatches,
+  validateLoopBody,
+} from './for-each';
+import {
+  assertCallDepth,
+  createSubWorkflowTriggerOutput,
+  getSubWorkflowTriggerIds,
+  isExecuteWorkflowNode,
+  mapSubWorkflowInputs,
+  resolveSubWorkflowOptions,
+  SUB_WORKFLOW_TRIGGER_TYPE,
+  SubWorkflowOutput,
+  validateSyncSubWorkflow,
+} from './sub-workflows';
+import { getTimerDelay, isWaitNode, resolveWaitPlan, WaitPlan } from './wait';
+import { ZyraTemplateProcessor } from '../utils/template-processor';
+import { APPROVAL_SETTINGS, FOR_EACH_SETTINGS } from '../config';
+import {
+  APPROVAL_PAUSE_REASON,
+  hasTeamPermission,
+  WAIT_PAUSE_REASON,
+} from '@zzyra/database';
+import { RabbitMQService } from '../services/rabbitmq.service';
 import {
   BlockType,
   getEnhancedBlockSchema,
@@ -31,6 +77,24 @@ import {
 } from '@zzyra/types';
 import { z } from 'zod';
 
+interface ApprovalRequest {
+  approvers: string[];
+  proposedAction: ProposedAction;
+  expiresAt: Date;
+  defaultAction: 'approve' | 'reject';
+}
+
+// What the blocks the executor runs itself need from the execution
+interface NodeRun {
+  executionId: string;
+  userId: string;
+  blockchainAuthorization?: any;
+  signal: AbortSignal;
+  nodeLabels: Record<string, string>;
+  // Transactions with an approval gate, stored with every pause
+  gatedNodeIds: string[];
+}
+
 @Injectable()
 export class WorkflowExecutor {
   private readonly logger = new Logger(WorkflowExecutor.name);
@@ -47,6 +111,8 @@ export class WorkflowExecutor {
     private readonly dataStateService: DataStateService,
     private readonly parallelExecutionService: ParallelExecutionService,
     private readonly blockchainDataSyncService: BlockchainDataSyncService,
+    private readonly executionControl: ExecutionControlService,
+    private readonly rabbitmqService: RabbitMQService,
   ) {}
 
   /**
@@ -437,6 +503,8 @@ export class WorkflowExecutor {
     resumeFromNodeId?: string,
     resumeData: Record<string, any> = {},
     blockchainAuthorization?: any,
+    rerunFromNodeId?: string,
+    gatedNodeIds?: string[],
   ): Promise<{
     status: string;
     outputs: Record<string, any>;
@@ -457,10 +525,18 @@ export class WorkflowExecutor {
     // Define execution context for circuit breaker - accessible in both try and catch blocks
     let executionContext: ExecutionContext;
 
+    // Aborted when the execution is cancelled through the API
+    const signal = this.executionControl.register(executionId);
+
     try {
       // Fetch execution details to get workflow info
       const execution =
         await this.databaseService.executions.findById(executionId);
+      // Runs started by another workflow begin with the payload it mapped
+      const subWorkflowTrigger =
+        execution?.triggerType === SUB_WORKFLOW_TRIGGER_TYPE
+          ? createSubWorkflowTriggerOutput(execution)
+          : undefined;
       if (execution) {
         workflowId = execution.workflowId;
         const workflow =
@@ -490,6 +566,7 @@ export class WorkflowExecutor {
           nodes_count: nodes.length,
           edges_count: edges.length,
           resume_from_node: resumeFromNodeId || 'none',
+          rerun_from_node: rerunFromNodeId || 'none',
         },
       });
 
@@ -516,10 +593,35 @@ export class WorkflowExecutor {
       );
       this.logger.log(`=====================================`);
 
+      // Nodes inside FOR_EACH blocks run once per item as part of their
+      // block, so each body is validated as a graph of its own
+      const extracted = extractLoopBodies(nodes, edges);
+      const loopBodies = extracted.bodies;
+      ({ nodes, edges } = extracted);
+
       validateAcyclic(nodes, edges);
       validateOrphans(nodes, edges);
       validateTerminals(nodes, edges);
 
+      const approvalPolicy = await this.getApprovalGatePolicy(
+        blockchainAuthorization,
+        gatedNodeIds,
+      );
+      loopBodies.forEach((body, loopId) => {
+        validateAcyclic(body.nodes, body.edges);
+        validateOrphans(body.nodes, body.edges);
+        validateTerminals(body.nodes, body.edges);
+        validateLoopBody(loopId, body, approvalPolicy);
+      });
+
+      // Transactions that need approval get an APPROVAL node in front
+      const approvalGatedNodeIds = getGatedNodeIds(nodes, approvalPolicy);
+      ({ nodes, edges } = insertApprovalGates(nodes, edges, approvalPolicy));
+
+      const subWorkflowTriggerIds = subWorkflowTrigger
+        ? getSubWorkflowTriggerIds(nodes, edges)
+        : new Set<string>();
+
       // Check multi-level circuit breaker before execution
       if (!workflowId || workflowId === 'unknown') {
         this.logger.error(
@@ -546,6 +648,22 @@ export class WorkflowExecutor {
         executionId,
       };
 
+      // Expressions reference nodes by id or by label
+      const nodeLabels: Record<string, string> = Object.fromEntries(
+        nodes
+          .concat(...Array.from(loopBodies.values(), (body) => body.nodes))
+          .filter((node) => node.data?.label)
+          .map((node) => [node.id, String(node.data.label)]),
+      );
+      const run: NodeRun = {
+        executionId,
+        userId,
+        blockchainAuthorization,
+        signal,
+        nodeLabels,
+        gatedNodeIds: approvalGatedNodeIds,
+      };
+
       const circuitCheck =
         await this.multiLevelCircuitBreaker.shouldAllowExecution(
           executionContext,
@@ -694,6 +812,35 @@ export class WorkflowExecutor {
       let shouldExecute = !resumeFromNodeId;
       let resumeNodeFound = false;
 
+      // Nodes on CONDITION branches that were not taken
+      const skippedNodes = new Set<string>();
+
+      // Nodes whose failure was handled by an `error` branch or
+      // continueOnFail; their output is the structured node error
+      const failedNodes = new Set<string>();
+
+      // Last node that was executed, skipped or reused; a pause resumes
+      // after it
+      let lastProcessedNodeId = resumeFromNodeId;
+
+      // When re-running from a node, only it and its descendants execute
+      let rerunNodeIds: Set<string> | null = null;
+      if (rerunFromNodeId) {
+        if (!nodes.some((node) => node.id === rerunFromNodeId)) {
+          throw new Error(
+            `Re-run node ${rerunFromNodeId} not found in workflow definition`,
+          );
+        }
+        rerunNodeIds = this.collectDescendants(rerunFromNodeId, edges);
+        // Re-run transactions have to be approved again
+        for (const nodeId of Array.from(rerunNodeIds)) {
+          const gateId = getApprovalGateId(nodeId);
+          if (nodes.some((node) => node.id === gateId)) {
+            rerunNodeIds.add(gateId);
+          }
+        }
+      }
+
       // Create block execution records for all nodes
       await Promise.all(
         nodes.map(async (node) => {
@@ -760,10 +907,109 @@ export class WorkflowExecutor {
             continue;
           } else {
             this.logger.debug(`Skipping already executed node: ${node.id}`);
+            // Nodes without an output were on an untaken branch
+            if (!(node.id in outputs)) {
+              skippedNodes.add(node.id);
+            } else if (isNodeErrorOutput(outputs[node.id])) {
+              failedNodes.add(node.id);
+            }
             continue;
           }
         }
 
+        // Stop scheduling nodes once the execution is cancelled or paused.
+        // A pause only takes effect after at least one node has run, so it
+        // has a node to resume after.
+        const controlAction = await this.executionControl.check(executionId);
+        if (controlAction === 'cancel') {
+          throw new ExecutionCancelledError(executionId);
+        }
+        if (controlAction === 'pause' && lastProcessedNodeId) {
+          await this.persistPause(
+            executionId,
+            workflowId,
+            lastProcessedNodeId,
+            outputs,
+            run.gatedNodeIds,
+          );
+          finalStatus = 'paused';
+          return { status: 'paused', outputs, error: null };
+        }
+
+        if (rerunNodeIds && !rerunNodeIds.has(node.id)) {
+          if (node.id in outputs) {
+            await this.markNodeReused(node, executionId, outputs[node.id]);
+            if (isNodeErrorOutput(outputs[node.id])) {
+              failedNodes.add(node.id);
+            }
+          } else {
+            skippedNodes.add(node.id);
+            await this.markNodeSkipped(
+              node,
+              executionId,
+              'no output in the parent execution',
+            );
+          }
+          lastProcessedNodeId = node.id;
+          continue;
+        }
+
+        if (
+          this.isNodeOnInactiveBranch(
+            node.id,
+            edges,
+            nodes,
+            outputs,
+            skippedNodes,
+            failedNodes,
+          )
+        ) {
+          skippedNodes.add(node.id);
+          await this.markNodeSkipped(node, executionId);
+          lastProcessedNodeId = node.id;
+          continue;
+        }
+
+        // Wait for a decision; the API resumes after the approval node with
+        // the decision as its output
+        if (
+          (node.data?.blockType || node.data?.type || node.type) ===
+          BlockType.APPROVAL
+        ) {
+          const approval = this.createApprovalRequest(
+            node,
+            nodes,
+            edges,
+            userId,
+          );
+          await this.persistPause(
+            executionId,
+            workflowId,
+            node.id,
+            outputs,
+            run.gatedNodeIds,
+            approval,
+          );
+          await this.notifyApprovers(
+            node,
+            approval,
+            executionId,
+            workflowId,
+            workflowName,
+          );
+          finalStatus = 'paused';
+          return { status: 'paused', outputs, error: null };
+        }
+
+        // Release the worker until the timer fires or the callback arrives;
+        // the execution resumes after the WAIT node with the wait as its
+        // output
+        if (isWaitNode(node)) {
+          await this.startWait(node, outputs, workflowId, run);
+          finalStatus = 'paused';
+          return { status: 'paused', outputs, error: null };
+        }
+
         this.logger.log(
           `Starting execution of node ${node.id} at ${new Date().toISOString()}`,
         );
@@ -904,13 +1150,18 @@ export class WorkflowExecutor {
               },
             });
 
-            const nodeOutput = await this.nodeExecutor.executeNode(
-              node,
-              executionId,
-              userId,
-              edgeProcessedOutputs,
-              blockchainAuthorization,
-            );
+            const loopBody = loopBodies.get(node.id);
+            const isSubWorkflowTrigger = subWorkflowTriggerIds.has(node.id);
+            const nodeOutput = isSubWorkflowTrigger
+              ? subWorkflowTrigger
+              : loopBody
+                ? await this.executeForEach(
+                    node,
+                    loopBody,
+                    edgeProcessedOutputs,
+                    run,
+                  )
+                : await this.runNode(node, edgeProcessedOutputs, run);
 
             const nodeDuration = Date.now() - nodeStartTime;
             const outputSummary = this.summarizeData(nodeOutput);
@@ -940,11 +1191,15 @@ export class WorkflowExecutor {
             });
 
             // Validate output data after execution
-            const outputValidationResult = await this.validateNodeOutputData(
-              node,
-              nodeOutput,
-              executionId,
-            );
+            // The payload of a sub-workflow run is not the output of the
+            // trigger block, so it has no schema to match
+            const outputValidationResult = isSubWorkflowTrigger
+              ? { isValid: true, errors: [] }
+              : await this.validateNodeOutputData(
+                  node,
+                  nodeOutput,
+                  executionId,
+                );
 
             if (!outputValidationResult.isValid) {
               this.logger.error(
@@ -1084,6 +1339,7 @@ export class WorkflowExecutor {
 
           // Remove from active executions after successful completion
           activeNodeExecutions.delete(node.id);
+          lastProcessedNodeId = node.id;
         } catch (nodeError: any) {
           // Remove from active executions on error
           activeNodeExecutions.delete(node.id);
@@ -1097,6 +1353,33 @@ export class WorkflowExecutor {
             nodeError,
           );
 
+          // Route the failure to the node's error branch, or pass it on
+          // when the node continues on failure
+          if (
+            !signal.aborted &&
+            !(nodeError instanceof ExecutionCancelledError) &&
+            this.canHandleNodeFailure(node, edges)
+          ) {
+            outputs[node.id] = createNodeErrorOutput(nodeError, node);
+            failedNodes.add(node.id);
+
+            await this.dataStateService.saveDataState(
+              executionId,
+              node.id,
+              outputs[node.id],
+              { tags: ['output', 'failed'] },
+            );
+            await this.executionLogger.logExecutionEvent(executionId, {
+              level: 'warn',
+              message: `Node ${node.id} failed, continuing with its error output`,
+              node_id: node.id,
+              data: outputs[node.id].error,
+            });
+
+            lastProcessedNodeId = node.id;
+            continue;
+          }
+
           // Clean up any active node executions
           await this.cleanupActiveNodeExecutions(
             executionId,
@@ -1111,35 +1394,53 @@ export class WorkflowExecutor {
       }
 
       const duration = (Date.now() - start) / 1000;
+      const completedStatus =
+        failedNodes.size > 0 ? 'completed_with_errors' : 'completed';
       this.logger.log(
-        `[executionId=${executionId}] Workflow completed successfully in ${duration}s`,
+        `[executionId=${executionId}] Workflow ${completedStatus} in ${duration}s`,
       );
 
       // Send real-time update: workflow completed
       await this.executionMonitorService.completeExecution(
         executionId,
         outputs,
+        completedStatus,
       );
 
       // Log workflow completion
       await this.executionLogger.logExecutionEvent(executionId, {
-        level: 'info',
-        message: `Workflow execution completed successfully in ${duration}s`,
+        level: failedNodes.size > 0 ? 'warn' : 'info',
+        message:
+          failedNodes.size > 0
+            ? `Workflow execution completed with ${failedNodes.size} failed node(s) in ${duration}s`
+            : `Workflow execution completed successfully in ${duration}s`,
         node_id: 'system',
         data: {
           duration_seconds: duration,
           output_nodes: Object.keys(outputs),
+          failed_nodes: Array.from(failedNodes),
         },
       });
 
       // Record successful execution in circuit breaker
       await this.multiLevelCircuitBreaker.recordSuccess(executionContext);
 
-      finalStatus = 'completed';
+      finalStatus = completedStatus;
       finalError = null;
 
-      return { status: 'completed', outputs, error: null };
+      return { status: completedStatus, outputs, error: null };
     } catch (error) {
+      if (signal.aborted || error instanceof ExecutionCancelledError) {
+        finalStatus = 'cancelled';
+        finalError = `Execution ${executionId} was cancelled`;
+        await this.handleCancellation(
+          executionId,
+          activeNodeExecutions,
+          finalError,
+        );
+        return { status: 'cancelled', outputs: {}, error: finalError };
+      }
+
       finalStatus = 'failed';
       finalError = error instanceof Error ? error.message : String(error);
       this.logger.error(
@@ -1206,21 +1507,29 @@ export class WorkflowExecutor {
 
       return { status: 'failed', outputs: {}, error: finalError };
     } finally {
-      // Send final notification
-      const notificationType: NotificationType =
-        finalStatus === 'completed' ? 'workflow_completed' : 'workflow_failed';
-      await this.notificationService.sendNotification(
-        userId,
-        notificationType,
-        {
-          workflow_id: workflowId,
-          execution_id: executionId,
-          workflow_name: workflowName,
-          status: finalStatus,
-          error: finalError,
-          duration_ms: Date.now() - start,
-        },
-      );
+      this.executionControl.unregister(executionId);
+
+      // Send final notification; cancels and pauses are user initiated
+      if (
+        finalStatus === 'completed' ||
+        finalStatus === 'completed_with_errors' ||
+        finalStatus === 'failed'
+      ) {
+        const notificationType: NotificationType =
+          finalStatus === 'failed' ? 'workflow_failed' : 'workflow_completed';
+        await this.notificationService.sendNotification(
+          userId,
+          notificationType,
+          {
+            workflow_id: workflowId,
+            execution_id: executionId,
+            workflow_name: workflowName,
+            status: finalStatus,
+            error: finalError,
+            duration_ms: Date.now() - start,
+          },
+        );
+      }
 
       const duration = Date.now() - start;
       this.logger.log(
@@ -1232,6 +1541,927 @@ export class WorkflowExecutor {
     }
   }
 
+  /**
+   * Check whether an edge carries execution. Edges leaving a skipped node are
+   * inactive, as are CONDITION `true`/`false` handles that don't match the
+   * evaluated outcome. An APPROVAL `rejected` handle is only active after a
+   * rejection, its other edges only after an approval. An `error` handle is
+   * only active when its source failed; the other edges of a failed node stay
+   * active only when the node continues on failure.
+   */
+  private isEdgeActive(
+    edge: any,
+    nodes: any[],
+    outputs: Record<string, any>,
+    skippedNodes: Set<string>,
+    failedNodes: Set<string>,
+  ): boolean {
+    if (skippedNodes.has(edge.source)) {
+      return false;
+    }
+
+    const handle = edge.sourceHandle;
+    const sourceNode = nodes.find((n) => n.id === edge.source);
+    if (handle === 'error') {
+      return failedNodes.has(edge.source);
+    }
+    if (failedNodes.has(edge.source)) {
+      return this.shouldContinueOnFail(sourceNode);
+    }
+
+    const sourceBlockType =
+      sourceNode?.data?.blockType || sourceNode?.data?.type || sourceNode?.type;
+    const sourceOutput = outputs[edge.source];
+    if (sourceBlockType === BlockType.APPROVAL && sourceOutput) {
+      return (
+        (handle === 'rejected') === isRejectedApproval(sourceNode, sourceOutput)
+      );
+    }
+
+    if (handle !== 'true' && handle !== 'false') {
+      return true;
+    }
+
+    if (sourceBlockType !== BlockType.CONDITION || !sourceOutput) {
+      return true;
+    }
+
+    const outcome = sourceOutput.outcome ?? sourceOutput.result;
+    return String(Boolean(outcome)) === handle;
+  }
+
+  /**
+   * A node is skipped when it has incoming edges and none of them is active,
+   * or when it follows a rejected approval.
+   */
+  private isNodeOnInactiveBranch(
+    nodeId: string,
+    edges: any[],
+    nodes: any[],
+    outputs: Record<string, any>,
+    skippedNodes: Set<string>,
+    failedNodes: Set<string>,
+  ): boolean {
+    const incomingEdges = edges.filter((edge) => edge.target === nodeId);
+    if (incomingEdges.length === 0) {
+      return false;
+    }
+
+    const rejected = incomingEdges.some(
+      (edge) =>
+        edge.sourceHandle !== 'rejected' &&
+        isRejectedApproval(
+          nodes.find((n) => n.id === edge.source),
+          outputs[edge.source],
+        ),
+    );
+    if (rejected) {
+      return true;
+    }
+
+    return !incomingEdges.some((edge) =>
+      this.isEdgeActive(edge, nodes, outputs, skippedNodes, failedNodes),
+    );
+  }
+
+  /**
+   * `continueOnFail` is read from the node data, or from its config for
+   * blocks that keep all their settings there
+   */
+  private shouldContinueOnFail(node: any): boolean {
+    return Boolean(
+      node?.data?.continueOnFail ?? node?.data?.config?.continueOnFail,
+    );
+  }
+
+  /**
+   * A failed node does not fail the workflow when it continues on failure
+   * or has an `error` branch to take
+   */
+  private canHandleNodeFailure(node: any, edges: any[]): boolean {
+    return (
+      this.shouldContinueOnFail(node) ||
+      edges.some(
+        (edge) => edge.source === node.id && edge.sourceHandle === 'error',
+      )
+    );
+  }
+
+  /**
+   * Run a node: EXECUTE_WORKFLOW blocks start another workflow, other blocks
+   * run through their handler
+   */
+  private runNode(
+    node: any,
+    inputs: Record<string, any>,
+    run: NodeRun,
+  ): Promise<any> {
+    if (isExecuteWorkflowNode(node)) {
+      return this.executeSubWorkflow(node, inputs, run);
+    }
+    return this.nodeExecutor.executeNode(
+      node,
+      run.executionId,
+      run.userId,
+      inputs,
+      run.blockchainAuthorization,
+      run.signal,
+      run.nodeLabels,
+    );
+  }
+
+  /**
+   * Run the workflow an EXECUTE_WORKFLOW block points at as an execution
+   * linked to this one. Sync runs execute here as part of this run and return
+   * the outputs of the called workflow; async runs are queued and only return
+   * the id of their execution.
+   */
+  private async executeSubWorkflow(
+    node: any,
+    inputs: Record<string, any>,
+    run: NodeRun,
+  ): Promise<SubWorkflowOutput> {
+    const options = resolveSubWorkflowOptions(node.data?.config);
+    const caller = await this.databaseService.executions.findById(
+      run.executionId,
+    );
+    if (!caller) {
+      throw new Error(`Execution ${run.executionId} not found`);
+    }
+    assertCallDepth(caller.callDepth + 1);
+
+    const workflow = await this.databaseService.prisma.workflow.findUnique({
+      where: { id: options.workflowId },
+      select: {
+        id: true,
+        name: true,
+        userId: true,
+        teamId: true,
+        nodes: true,
+        edges: true,
+      },
+    });
+    // Workflows the user cannot run are reported as missing
+    if (!workflow || !(await this.canRunWorkflow(workflow, run.userId))) {
+      throw new Error(`Workflow ${options.workflowId} not found`);
+    }
+
+    const processor = new ZyraTemplateProcessor();
+    const input = mapSubWorkflowInputs(options.inputs, (template) =>
+      processor.evaluate(template, inputs, {
+        previousOutputs: inputs,
+        nodeLabels: run.nodeLabels,
+      }),
+    );
+    const child =
+      await this.databaseService.executions.createSubWorkflowExecution(
+        caller,
+        node.id,
+        workflow.id,
+        input,
+      );
+
+    await this.executionLogger.logExecutionEvent(run.executionId, {
+      level: 'info',
+      message: `Node ${node.id} started workflow ${workflow.name} as execution ${child.id}`,
+      node_id: node.id,
+      data: {
+        workflow_id: workflow.id,
+        sub_execution_id: child.id,
+        mode: options.mode,
+      },
+    });
+
+    if (options.mode === 'async') {
+      const queued = await this.rabbitmqService.publishExecution({
+        executionId: child.id,
+        workflowId: workflow.id,
+        userId: run.userId,
+        blockchainAuthorization: run.blockchainAuthorization,
+      });
+      if (!queued) {
+        await this.databaseService.updateExecutionStatusWithLogging(
+          child.id,
+          'failed',
+          'Could not queue the execution',
+        );
+        throw new Error(`Could not queue workflow ${workflow.name}`);
+      }
+      return {
+        executionId: child.id,
+        workflowId: workflow.id,
+        status: 'queued',
+      };
+    }
+
+    const version = child.workflowVersionId
+      ? await this.databaseService.prisma.workflowVersion.findUnique({
+          where: { id: child.workflowVersionId },
+          select: { nodes: true, edges: true },
+        })
+      : null;
+    const { nodes, edges } = version ?? workflow;
+    try {
+      validateSyncSubWorkflow(
+        workflow.name,
+        (nodes as any[]) || [],
+        await this.getApprovalGatePolicy(run.blockchainAuthorization),
+      );
+    } catch (error) {
+      await this.databaseService.updateExecutionStatusWithLogging(
+        child.id,
+        'failed',
+        error instanceof Error ? error.message : String(error),
+      );
+      throw error;
+    }
+
+    // Cancelling this run cancels the run it waits for, the same way the API
+    // requests a cancel
+    const cancelChild = () => {
+      void this.databaseService.prisma.workflowExecution.updateMany({
+        where: { id: child.id, status: { in: ['pending', 'running'] } },
+        data: { status: 'cancelled' },
+      });
+    };
+    run.signal.addEventListener('abort', cancelChild);
+    try {
+      await this.databaseService.updateExecutionStatusWithLogging(
+        child.id,
+        'running',
+      );
+      const result = await this.executeWorkflow(
+        (nodes as any[]) || [],
+        (edges as any[]) || [],
+        child.id,
+        run.userId,
+        undefined,
+        {},
+        run.blockchainAuthorization,
+      );
+      await this.databaseService.updateExecutionStatusWithLogging(
+        child.id,
+        result.status,
+        result.error ?? undefined,
+        result.outputs,
+      );
+
+      if (
+        result.status !== 'completed' &&
+        result.status !== 'completed_with_errors'
+      ) {
+        throw new Error(
+          `Workflow ${workflow.name} ${result.status}${result.error ? `: ${result.error}` : ''}`,
+        );
+      }
+      return {
+        executionId: child.id,
+        workflowId: workflow.id,
+        status: result.status,
+        outputs: result.outputs,
+      };
+    } finally {
+      run.signal.removeEventListener('abort', cancelChild);
+    }
+  }
+
+  /**
+   * The owner of a workflow can run it, as can members of the team that
+   * owns it whose role allows executing
+   */
+  private async canRunWorkflow(
+    workflow: { userId: string; teamId: string | null },
+    userId: string,
+  ): Promise<boolean> {
+    if (workflow.userId === userId) return true;
+    if (!workflow.teamId) return false;
+
+    const member = await this.databaseService.prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId: workflow.teamId, userId } },
+      select: { role: true },
+    });
+    return hasTeamPermission(member?.role, 'execute');
+  }
+
+  /**
+   * Run the nodes inside a FOR_EACH block once per item of its `items`
+   * expression. Items run in batches; cancellation is checked before each
+   * batch starts.
+   */
+  private async executeForEach(
+    node: any,
+    body: LoopBody,
+    inputs: Record<string, any>,
+    run: NodeRun,
+  ): Promise<ForEachOutput> {
+    const config = node.data?.config ?? {};
+    const items = Array.isArray(config.items)
+      ? config.items
+      : new ZyraTemplateProcessor().evaluate(
+          String(config.items ?? ''),
+          inputs,
+          {
+            previousOutputs: inputs,
+            nodeLabels: run.nodeLabels,
+          },
+        );
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `FOR_EACH block ${node.id} expects its items to be an array, got ${items === null ? 'null' : typeof items}`,
+      );
+    }
+    if (items.length > FOR_EACH_SETTINGS.maxItems) {
+      throw new Error(
+        `FOR_EACH block ${node.id} got ${items.length} items; the limit is ${FOR_EACH_SETTINGS.maxItems}`,
+      );
+    }
+
+    const options = resolveForEachOptions(config);
+    const outcomes = await runInBatches<unknown, IterationOutcome>(
+      items,
+      options,
+      async (item, index) => {
+        try {
+          return {
+            index,
+            result: await this.runForEachIteration(
+              node,
+              body,
+              item,
+              index,
+              inputs,
+              run,
+            ),
+          };
+        } catch (error) {
+          if (
+            options.onItemError === 'fail' ||
+            run.signal.aborted ||
+            error instanceof ExecutionCancelledError
+          ) {
+            throw error;
+          }
+          return { index, error };
+        }
+      },
+      async () => {
+        if ((await this.executionControl.check(run.executionId)) === 'cancel') {
+          throw new ExecutionCancelledError(run.executionId);
+        }
+      },
+    );
+
+    const output = collectForEachOutput(node, outcomes, options.onItemError);
+    await this.executionLogger.logExecutionEvent(run.executionId, {
+      level: output.failed > 0 ? 'warn' : 'info',
+      message: `FOR_EACH node ${node.id} processed ${output.count} item(s), ${output.failed} failed`,
+      node_id: node.id,
+      data: { errors: output.errors },
+    });
+    return output;
+  }
+
+  /**
+   * Run the nodes inside a FOR_EACH block for one item. The item is the
+   * output of the block for its nodes: `{ item, index }`. Every node run is
+   * recorded as a node execution of its own, e.g. "send#3".
+   */
+  private async runForEachIteration(
+    loopNode: any,
+    body: LoopBody,
+    item: unknown,
+    index: number,
+    inputs: Record<string, any>,
+    run: NodeRun,
+  ): Promise<unknown> {
+    const outputs: Record<string, any> = { [loopNode.id]: { item, index } };
+    const skippedNodes = new Set<string>();
+    const failedNodes = new Set<string>();
+
+    for (const child of topologicalSort(body.nodes, body.edges)) {
+      if (
+        this.isNodeOnInactiveBranch(
+          child.id,
+          body.edges,
+          body.nodes,
+          outputs,
+          skippedNodes,
+          failedNodes,
+        )
+      ) {
+        skippedNodes.add(child.id);
+        continue;
+      }
+
+      const iterationNode = {
+        ...child,
+        id: getIterationNodeId(child.id, index),
+      };
+      const startTime = new Date();
+      await this.recordIterationNode(run, loopNode, child, index, {
+        status: 'running',
+        startTime,
+      });
+
+      try {
+        outputs[child.id] = await this.runNode(
+          iterationNode,
+          { ...inputs, ...outputs },
+          run,
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.recordIterationNode(run, loopNode, child, index, {
+          status: 'failed',
+          startTime,
+          error: message,
+        });
+        if (
+          run.signal.aborted ||
+          error instanceof ExecutionCancelledError ||
+          !this.canHandleNodeFailure(child, body.edges)
+        ) {
+          throw error;
+        }
+        outputs[child.id] = createNodeErrorOutput(error, child);
+        failedNodes.add(child.id);
+        continue;
+      }
+
+      await this.recordIterationNode(run, loopNode, child, index, {
+        status: 'completed',
+        startTime,
+        output: outputs[child.id],
+      });
+    }
+
+    return getIterationResult(body, outputs);
+  }
+
+  /**
+   * Write the node execution of one item and send it to the monitor, so
+   * each iteration shows up in the execution timeline
+   */
+  private async recordIterationNode(
+    run: NodeRun,
+    loopNode: any,
+    child: any,
+    index: number,
+    update: {
+      status: 'running' | 'completed' | 'failed';
+      startTime: Date;
+      output?: any;
+      error?: string;
+    },
+  ): Promise<void> {
+    const nodeId = getIterationNodeId(child.id, index);
+    const endTime = update.status === 'running' ? undefined : new Date();
+    const duration = endTime
+      ? endTime.getTime() - update.startTime.getTime()
+      : undefined;
+
+    try {
+      await this.databaseService.prisma.nodeExecution.upsert({
+        where: {
+          executionId_nodeId: { executionId: run.executionId, nodeId },
+        },
+        create: {
+          executionId: run.executionId,
+          nodeId,
+          loopNodeId: loopNode.id,
+          iteration: index,
+          status: update.status,
+          startedAt: update.startTime,
+          completedAt: endTime,
+          durationMs: duration,
+          outputData: update.output,
+          error: update.error,
+        },
+        update: {
+          status: update.status,
+          startedAt: update.startTime,
+          completedAt: endTime,
+          durationMs: duration,
+          outputData: update.output,
+          error: update.error ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error recording node_execution ${nodeId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    await this.executionMonitorService.updateNodeExecution({
+      executionId: run.executionId,
+      nodeId,
+      status: update.status,
+      output: update.output,
+      error: update.error,
+      duration,
+      nodeType: child.data?.type || child.data?.blockType || child.type,
+      nodeLabel: `${child.data?.label || child.data?.name || child.id} #${index + 1}`,
+      startTime: update.startTime,
+      endTime,
+    });
+  }
+
+  /**
+   * Persist the state of a paused execution so `resume` can continue after
+   * the last processed node, with the same approval gates. Approval pauses
+   * also record what is waiting to be approved and when the request times
+   * out; WAIT pauses record when they resume.
+   * @returns The ID of the pause
+   */
+  private async persistPause(
+    executionId: string,
+    workflowId: string,
+    lastProcessedNodeId: string,
+    outputs: Record<string, any>,
+    gatedNodeIds: string[],
+    approval?: ApprovalRequest,
+    wait?: WaitPlan,
+  ): Promise<string> {
+    const reason = approval
+      ? APPROVAL_PAUSE_REASON
+      : wait
+        ? WAIT_PAUSE_REASON
+        : 'Paused by user';
+
+    // Release the worker lock so the resumed execution can be claimed again
+    const [pause] = await this.databaseService.prisma.$transaction([
+      this.databaseService.prisma.workflowPause.create({
+        data: {
+          workflowId,
+          executionId,
+          nodeId: lastProcessedNodeId,
+          reason,
+          resumeData: outputs,
+          gatedNodeIds,
+          ...(approval && {
+            approvers: approval.approvers,
+            proposedAction: approval.proposedAction as any,
+            expiresAt: approval.expiresAt,
+            defaultAction: approval.defaultAction,
+          }),
+          ...(wait && {
+            resumeAt: wait.resumeAt,
+            callbackToken: wait.callbackToken,
+            correlationId: wait.correlationId,
+          }),
+        },
+      }),
+      this.databaseService.prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { lockedBy: null },
+      }),
+    ]);
+
+    // The API only sets the status for pauses it requested
+    if (approval || wait) {
+      await this.databaseService.prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { status: 'paused' },
+      });
+    }
+
+    await this.executionMonitorService.pauseExecution(executionId, reason);
+
+    if (!wait) {
+      await this.executionLogger.logExecutionEvent(executionId, {
+        level: 'info',
+        message: approval
+          ? `Execution waiting for approval at node ${lastProcessedNodeId}`
+          : `Execution paused after node ${lastProcessedNodeId}`,
+        node_id: approval ? lastProcessedNodeId : 'system',
+        data: approval
+          ? {
+              approvers: approval.approvers,
+              expires_at: approval.expiresAt.toISOString(),
+              default_action: approval.defaultAction,
+            }
+          : { last_processed_node: lastProcessedNodeId },
+      });
+    }
+    return pause.id;
+  }
+
+  /**
+   * Pause the execution at a WAIT node and publish its timer. Waits for a
+   * callback also get a timer, which resumes them when they time out.
+   */
+  private async startWait(
+    node: any,
+    outputs: Record<string, any>,
+    workflowId: string,
+    run: NodeRun,
+  ): Promise<void> {
+    const processor = new ZyraTemplateProcessor();
+    const plan = resolveWaitPlan(node.data?.config, new Date(), (template) =>
+      processor.evaluate(template, outputs, {
+        previousOutputs: outputs,
+        nodeLabels: run.nodeLabels,
+      }),
+    );
+    const pauseId = await this.persistPause(
+      run.executionId,
+      workflowId,
+      node.id,
+      outputs,
+      run.gatedNodeIds,
+      undefined,
+      plan,
+    );
+    await this.executionLogger.logExecutionEvent(run.executionId, {
+      level: 'info',
+      message: plan.callbackToken
+        ? `Execution waiting at node ${node.id} for a callback until ${plan.resumeAt.toISOString()}`
+        : `Execution waiting at node ${node.id} until ${plan.resumeAt.toISOString()}`,
+      node_id: node.id,
+      data: {
+        mode: plan.mode,
+        resume_at: plan.resumeAt.toISOString(),
+        ...(plan.callbackToken && {
+          callback_path: `/api/executions/callbacks/${encodeURIComponent(plan.callbackToken)}`,
+        }),
+      },
+    });
+
+    const published = await this.rabbitmqService.publishWaitTimer(
+      {
+        executionId: run.executionId,
+        workflowId,
+        userId: run.userId,
+        blockchainAuthorization: run.blockchainAuthorization,
+        payload: { waitTimer: true, pauseId },
+      },
+      getTimerDelay(plan.resumeAt, new Date()),
+    );
+    if (!published) {
+      throw new Error(`Could not schedule the timer of WAIT node ${node.id}`);
+    }
+  }
+
+  /**
+   * Approvers, timeout and proposed action of an APPROVAL node. Without
+   * approvers the user running the workflow decides.
+   */
+  private createApprovalRequest(
+    node: any,
+    nodes: any[],
+    edges: any[],
+    userId: string,
+  ): ApprovalRequest {
+    const config = node.data?.config ?? {};
+    const timeoutMinutes =
+      Number(config.timeoutMinutes) > 0
+        ? Number(config.timeoutMinutes)
+        : APPROVAL_SETTINGS.timeoutMinutes;
+
+    return {
+      approvers:
+        Array.isArray(config.approvers) && config.approvers.length > 0
+          ? config.approvers
+          : [userId],
+      proposedAction: getProposedAction(node, nodes, edges),
+      expiresAt: new Date(Date.now() + timeoutMinutes * 60 * 1000),
+      defaultAction: config.defaultAction === 'approve' ? 'approve' : 'reject',
+    };
+  }
+
+  private async notifyApprovers(
+    node: any,
+    request: ApprovalRequest,
+    executionId: string,
+    workflowId: string,
+    workflowName: string,
+  ): Promise<void> {
+    await Promise.all(
+      request.approvers.map((approverId) =>
+        this.notificationService.sendNotification(
+          approverId,
+          'approval_requested',
+          {
+            workflow_id: workflowId,
+            execution_id: executionId,
+            workflow_name: workflowName,
+            node_id: node.id,
+            message:
+              request.proposedAction.message ||
+              `Approval required for ${node.data?.label || node.id}`,
+            proposed_action: request.proposedAction,
+            expires_at: request.expiresAt.toISOString(),
+            default_action: request.defaultAction,
+          },
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Which transactions need an APPROVAL node: those above the configured
+   * amount threshold, and all operations the session key wants confirmed.
+   * A resumed run keeps the gates it was paused with, since it may resume
+   * without the session key; pauses without gates evaluate the policy again.
+   */
+  private async getApprovalGatePolicy(
+    blockchainAuthorization?: any,
+    gatedNodeIds?: string[],
+  ): Promise<ApprovalGatePolicy> {
+    if (gatedNodeIds?.length) {
+      return {
+        confirmOperations: [],
+        timeoutMinutes: APPROVAL_SETTINGS.timeoutMinutes,
+        gatedNodeIds,
+      };
+    }
+
+    const sessionKeyId = blockchainAuthorization?.sessionKeyId;
+    const permissions = sessionKeyId
+      ? await this.databaseService.prisma.sessionPermission.findMany({
+          where: { sessionKeyId, requireConfirmation: true },
+          select: { operation: true },
+        })
+      : [];
+
+    return {
+      amountThreshold: APPROVAL_SETTINGS.amountThreshold,
+      confirmOperations: permissions.map((permission) => permission.operation),
+      timeoutMinutes: APPROVAL_SETTINGS.timeoutMinutes,
+    };
+  }
+
+  /**
+   * Mark a cancelled execution and its in-flight nodes
+   */
+  private async handleCancellation(
+    executionId: string,
+    activeNodeExecutions: Set<string>,
+    message: string,
+  ): Promise<void> {
+    this.logger.log(`[executionId=${executionId}] ${message}`);
+
+    await this.cleanupActiveNodeExecutions(
+      executionId,
+      activeNodeExecutions,
+      message,
+    );
+
+    await this.executionMonitorService.cancelExecution(executionId, message);
+
+    await this.executionLogger.logExecutionEvent(executionId, {
+      level: 'warn',
+      message,
+      node_id: 'system',
+    });
+  }
+
+  /**
+   * A node and every node reachable from it
+   */
+  private collectDescendants(nodeId: string, edges: any[]): Set<string> {
+    const descendants = new Set<string>([nodeId]);
+    const queue = [nodeId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of edges) {
+        if (edge.source === current && !descendants.has(edge.target)) {
+          descendants.add(edge.target);
+          queue.push(edge.target);
+        }
+      }
+    }
+    return descendants;
+  }
+
+  /**
+   * Record a node as completed with the output it produced in the parent
+   * execution, so a re-run can itself be re-run later
+   */
+  private async markNodeReused(
+    node: any,
+    executionId: string,
+    output: any,
+  ): Promise<void> {
+    const completedAt = new Date();
+    const nodeType = node.data?.type || node.data?.blockType || node.type;
+    const nodeLabel = node.data?.label || node.data?.name || node.id;
+
+    try {
+      await this.dataStateService.saveDataState(executionId, node.id, output, {
+        tags: ['output', 'completed', 'reused'],
+      });
+
+      await this.databaseService.prisma.blockExecution.updateMany({
+        where: {
+          executionId,
+          nodeId: node.id,
+        },
+        data: {
+          status: 'completed',
+          endTime: completedAt,
+          output,
+        },
+      });
+
+      await this.databaseService.prisma.nodeExecution.update({
+        where: {
+          executionId_nodeId: {
+            executionId,
+            nodeId: node.id,
+          },
+        },
+        data: {
+          status: 'completed',
+          completedAt,
+          outputData: output,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error recording reused output for node ${node.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    await this.executionMonitorService.updateNodeExecution({
+      executionId,
+      nodeId: node.id,
+      status: 'completed',
+      output,
+      nodeType,
+      nodeLabel,
+      endTime: completedAt,
+    });
+
+    await this.executionLogger.logExecutionEvent(executionId, {
+      level: 'info',
+      message: `Node ${node.id} reused its output from the parent execution`,
+      node_id: node.id,
+    });
+  }
+
+  /**
+   * Record a node as skipped without executing it
+   */
+  private async markNodeSkipped(
+    node: any,
+    executionId: string,
+    reason = 'condition branch not taken',
+  ): Promise<void> {
+    const skippedAt = new Date();
+    const nodeType = node.data?.type || node.data?.blockType || node.type;
+    const nodeLabel = node.data?.label || node.data?.name || node.id;
+
+    this.logger.log(
+      `[executionId=${executionId}] Skipping node ${node.id}: ${reason}`,
+    );
+
+    try {
+      await this.databaseService.prisma.blockExecution.updateMany({
+        where: {
+          executionId,
+          nodeId: node.id,
+        },
+        data: {
+          status: 'skipped',
+          endTime: skippedAt,
+        },
+      });
+
+      await this.databaseService.prisma.nodeExecution.update({
+        where: {
+          executionId_nodeId: {
+            executionId,
+            nodeId: node.id,
+          },
+        },
+        data: {
+          status: 'skipped',
+          completedAt: skippedAt,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error marking node ${node.id} as skipped: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    await this.executionMonitorService.updateNodeExecution({
+      executionId,
+      nodeId: node.id,
+      status: 'skipped',
+      nodeType,
+      nodeLabel,
+      endTime: skippedAt,
+    });
+
+    await this.executionLogger.logExecutionEvent(executionId, {
+      level: 'info',
+      message: `Node ${node.id} skipped: ${reason}`,
+      node_id: node.id,
+    });
+  }
+
   /**
    * Clean up any active node executions that might be stuck
    */
@@ -1416,12 +2646,22 @@ export class WorkflowExecutor {
       // Additional validation based on block type
       switch (blockType) {
         case BlockType.HTTP_REQUEST:
-        case BlockType.WEBHOOK:
           if (outputData && typeof outputData.status !== 'number') {
             errors.push('HTTP response should include status code');
           }
           break;
 
+        case BlockType.WEBHOOK:
+          // Inbound triggers carry the request payload instead of a response
+          if (
+            outputData &&
+            !outputData.triggered &&
+            typeof outputData.statusCode !== 'number'
+          ) {
+            errors.push('Webhook response should include status code');
+          }
+          break;
+
         case BlockType.EMAIL:
           if (outputData && !outputData.messageId) {
             errors.push('Email output should include messageId');
@@ -0,0 +1,70 @@
+import * as jwt from 'jsonwebtoken';
+import {
+  getHandshakeToken,
+  verifySocketToken,
+} from '../../src/gateways/socket-auth';
+
+describe('socket-auth', () => {
+  const secret = 'test-secret';
+
+  describe('getHandshakeToken', () => {
+    it('should prefer the token of the auth payload', () => {
+      expect(
+        getHandshakeToken({
+          auth: { token: 'Bearer from-auth' },
+          headers: { authorization: 'Bearer from-header' },
+        }),
+      ).toBe('from-auth');
+      expect(
+        getHandshakeToken({ headers: { authorization: 'Bearer from-header' } }),
+      ).toBe('from-header');
+    });
+
+    it('should fall back to the session cookies the API reads', () => {
+      expect(
+        getHandshakeToken({
+          headers: {
+            cookie: 'theme=dark; __Secure-next-auth.session-token=abc%3D',
+          },
+        }),
+      ).toBe('abc=');
+      expect(getHandshakeToken({ headers: { cookie: 'theme=dark' } })).toBe(
+        null,
+      );
+      expect(getHandshakeToken({})).toBe(null);
+    });
+  });
+
+  describe('verifySocketToken', () => {
+    it('should read the user of a token the API signed', () => {
+      const token = jwt.sign(
+        { sub: 'user-1', email: 'ada@example.com', name: 'Ada' },
+        secret,
+      );
+
+      expect(verifySocketToken(token, secret)).toEqual({
+        id: 'user-1',
+        email: 'ada@example.com',
+        name: 'Ada',
+      });
+    });
+
+    it('should reject forged, expired and anonymous tokens', () => {
+      expect(() =>
+        verifySocketToken(jwt.sign({ sub: 'user-1' }, 'other'), secret),
+      ).toThrow('invalid signature');
+      expect(() =>
+        verifySocketToken(
+          jwt.sign({ sub: 'user-1' }, secret, { expiresIn: -10 }),
+          secret,
+        ),
+      ).toThrow('jwt expired');
+      expect(() =>
+        verifySocketToken(
+          jwt.sign({ email: 'ada@example.com' }, secret),
+          secret,
+        ),
+      ).toThrow('Token has no subject');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  evaluateTemplate,
+  getTemplateReferences,
+} from '../../../src/lib/expressions/evaluator';
+import { ExpressionError } from '../../../src/lib/expressions/lexer';
+import { migrateLegacyTemplate } from '../../../src/lib/expressions/legacy-migration';
+
+describe('evaluateTemplate', () => {
+  const scope = {
+    json: { amount: '2500000', tags: ['defi', 'alerts'], 'unit-price': 3 },
+    outputs: {
+      'price-1': { price: 1850.5, token: { symbol: 'ETH' } },
+      'agent-2': { result: { summary: 'Buy', confidence: 0.8 } },
+    },
+    nodeLabels: { 'price-1': 'Fetch price' },
+  };
+
+  const evaluate = (template: string) => evaluateTemplate(template, scope);
+
+  it('should keep the type of a template that is a single expression', () => {
+    expect(evaluate('{{ nodes["price-1"].price }}')).toBe(1850.5);
+    expect(evaluate('{{ json.tags }}')).toEqual(['defi', 'alerts']);
+    expect(evaluate('{{ json.amount > 1000 }}')).toBe(true);
+  });
+
+  it('should interpolate expressions into surrounding text', () => {
+    expect(
+      evaluate(
+        '{{ nodes["price-1"].token.symbol }} is at {{ $round(nodes["price-1"].price) }}',
+      ),
+    ).toBe('ETH is at 1851');
+    expect(evaluate('Tags: {{ json.tags }}')).toBe('Tags: ["defi","alerts"]');
+    expect(evaluate('Missing: {{ json.nothing }}')).toBe('Missing: ');
+  });
+
+  it('should resolve nodes by id or label and search nested outputs', () => {
+    expect(evaluate('{{ nodes["Fetch price"].price }}')).toBe(1850.5);
+    expect(evaluate('{{ nodes["agent-2"].summary }}')).toBe('Buy');
+    expect(evaluate('{{ previous.confidence }}')).toBe(0.8);
+    expect(evaluate('{{ data.price }}')).toBe(1850.5);
+    expect(evaluate('{{ data.amount }}')).toBe('2500000');
+  });
+
+  it('should apply arithmetic, comparison and ternaries by precedence', () => {
+    expect(evaluate('{{ 1 + 2 * 3 }}')).toBe(7);
+    expect(evaluate('{{ (1 + 2) * 3 }}')).toBe(9);
+    expect(evaluate('{{ json["unit-price"] * 2 }}')).toBe(6);
+    expect(evaluate('{{ json.amount == 2500000 }}')).toBe(true);
+    expect(evaluate('{{ previous.confidence >= 0.5 ? "act" : "wait" }}')).toBe(
+      'act',
+    );
+    expect(evaluate('{{ json.nothing ?? "n/a" }}')).toBe('n/a');
+    expect(evaluate('{{ "a" + 1 }}')).toBe('a1');
+  });
+
+  it('should call nested functions', () => {
+    expect(evaluate('{{ $formatUnits(json.amount, 6) }}')).toBe('2.5');
+    expect(evaluate('{{ $uppercase($join($sort(json.tags), "-")) }}')).toBe(
+      'ALERTS-DEFI',
+    );
+    expect(
+      evaluate('{{ $formatDate("2025-01-05T10:00:00Z", "DD/MM/YYYY") }}'),
+    ).toBe('05/01/2025');
+    expect(evaluate('{{ $length(json.tags) + 1 }}')).toBe(3);
+    expect(typeof evaluate('{{ $now }}')).toBe('string');
+  });
+
+  it('should not expose prototypes', () => {
+    expect(evaluate('{{ json.constructor }}')).toBeUndefined();
+    expect(evaluate('{{ json["__proto__"] }}')).toBeUndefined();
+    expect(() => evaluate('{{ $constructor() }}')).toThrow(
+      "Unknown function '$constructor'",
+    );
+  });
+
+  it('should report errors with the position in the template', () => {
+    const errorOf = (template: string) => {
+      try {
+        evaluate(template);
+      } catch (error) {
+        return error as ExpressionError;
+      }
+      throw new Error('Expected an error');
+    };
+
+    expect(errorOf('Total: {{ 1 + }}')).toMatchObject({
+      name: 'ExpressionError',
+      position: 14,
+    });
+    expect(errorOf('{{ $nope(1) }}').position).toBe(3);
+    expect(errorOf('Hi {{ json.amount')).toMatchObject({
+      message: "Missing '}}' for '{{' at position 3",
+    });
+    expect(errorOf('{{ json.tags * 2 }}').message).toBe(
+      "Operator '*' expects numbers, got an array at position 13",
+    );
+    expect(errorOf('{{ 1 / 0 }}').message).toBe(
+      'Division by zero at position 5',
+    );
+  });
+});
+
+describe('migrateLegacyTemplate', () => {
+  it('should rewrite single brace references', () => {
+    expect(
+      migrateLegacyTemplate(
+        'Price {data.price}, last {previousBlock.result.text}, node {BLOCK-1.items[0].name}',
+      ),
+    ).toBe(
+      'Price {{ data.price }}, last {{ previous.result.text }}, node {{ nodes["BLOCK-1"].items[0].name }}',
+    );
+  });
+
+  it('should rewrite paths that are not names and leave the rest', () => {
+    expect(migrateLegacyTemplate('{{json.unit-price}} {{ $now }}')).toBe(
+      '{{ json["unit-price"] }} {{ $now }}',
+    );
+    expect(migrateLegacyTemplate('{"a": 1} {{ a - b }}')).toBe(
+      '{"a": 1} {{ a - b }}',
+    );
+  });
+});
+
+describe('getTemplateReferences', () => {
+  it('should list the paths read by a template', () => {
+    expect(
+      getTemplateReferences(
+        '{{ nodes["price-1"].price > json.limit ? $uppercase(json.name) : ctx.x }}',
+      ),
+    ).toEqual(['nodes["price-1"].price', 'json.limit', 'json.name', 'ctx.x']);
+  });
+});
@@ -0,0 +1,165 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  SandboxErrorType,
+  isHostAllowed,
+  runInSandbox,
+} from '../../../src/lib/sandbox/custom-block-sandbox';
+
+describe('isHostAllowed', () => {
+  it('should match hosts exactly or by subdomain wildcard', () => {
+    const allowList = ['api.coingecko.com', '*.example.com'];
+
+    expect(isHostAllowed('API.coingecko.com', allowList)).toBe(true);
+    expect(isHostAllowed('prices.example.com', allowList)).toBe(true);
+    expect(isHostAllowed('example.com', allowList)).toBe(false);
+    expect(isHostAllowed('evil-example.com', allowList)).toBe(false);
+    expect(isHostAllowed('coingecko.com', allowList)).toBe(false);
+  });
+});
+
+describe('runInSandbox', () => {
+  const options = { timeoutMs: 2000, memoryLimitMb: 32, fetchAllowList: [] };
+
+  const expectSandboxError = async (
+    run: Promise<unknown>,
+    type: SandboxErrorType,
+  ) => {
+    await expect(run).rejects.toEqual(
+      expect.objectContaining({ name: 'SandboxError', type }),
+    );
+  };
+
+  it('should return the outputs and logs of the code', async () => {
+    const result = await runInSandbox(
+      `log('doubling', inputs.value);
+       outputs.doubled = inputs.value * 2;`,
+      { value: 21 },
+      options,
+    );
+
+    expect(result).toEqual({
+      outputs: { doubled: 42 },
+      logs: ['doubling 21'],
+    });
+  });
+
+  it('should use the returned object over outputs', async () => {
+    const result = await runInSandbox(
+      'await Promise.resolve(); return { sum: inputs.a + inputs.b };',
+      { a: 1, b: 2 },
+      options,
+    );
+
+    expect(result.outputs).toEqual({ sum: 3 });
+  });
+
+  it('should not expose the process, require or code generation', async () => {
+    const result = await runInSandbox(
+      `return {
+         process: typeof process,
+         require: typeof require,
+         buffer: typeof Buffer,
+       };`,
+      {},
+      options,
+    );
+    expect(result.outputs).toEqual({
+      process: 'undefined',
+      require: 'undefined',
+      buffer: 'undefined',
+    });
+
+    await expectSandboxError(
+      runInSandbox(
+        "return log.constructor.constructor('return process')();",
+        {},
+        options,
+      ),
+      SandboxErrorType.SCRIPT_ERROR,
+    );
+  });
+
+  it('should report errors thrown by the code', async () => {
+    await expect(
+      runInSandbox("throw new Error('bad input');", {}, options),
+    ).rejects.toEqual(
+      expect.objectContaining({
+        type: SandboxErrorType.SCRIPT_ERROR,
+        message: 'bad input',
+      }),
+    );
+  });
+
+  it('should stop synchronous and asynchronous loops', async () => {
+    const fast = { ...options, timeoutMs: 300 };
+
+    await expectSandboxError(
+      runInSandbox('while (true) {}', {}, fast),
+      SandboxErrorType.TIMEOUT,
+    );
+    await expectSandboxError(
+      runInSandbox('await null; while (true) {}', {}, fast),
+      SandboxErrorType.TIMEOUT,
+    );
+  });
+
+  it('should stop code that exceeds the memory limit', async () => {
+    await expectSandboxError(
+      runInSandbox(
+        'const chunks = []; while (true) { chunks.push(new Array(1e6).fill(1)); }',
+        {},
+        { ...options, memoryLimitMb: 16, timeoutMs: 10000 },
+      ),
+      SandboxErrorType.MEMORY_LIMIT,
+    );
+  });
+
+  it('should reject outputs that are not an object', async () => {
+    await expectSandboxError(
+      runInSandbox('return [1, 2];', {}, options),
+      SandboxErrorType.INVALID_OUTPUT,
+    );
+  });
+
+  describe('fetch', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = createServer((_, res) => {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ price: 42 }));
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/price`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should fetch from allowed hosts', async () => {
+      const result = await runInSandbox(
+        'const response = await fetch(inputs.url); return await response.json();',
+        { url },
+        { ...options, fetchAllowList: ['127.0.0.1'] },
+      );
+
+      expect(result.outputs).toEqual({ price: 42 });
+    });
+
+    it('should deny hosts that are not allowed', async () => {
+      await expectSandboxError(
+        runInSandbox(
+          'await fetch(inputs.url); return {};',
+          { url },
+          { ...options, fetchAllowList: ['*.example.com'] },
+        ),
+        SandboxErrorType.NETWORK_DENIED,
+      );
+    });
+  });
+});
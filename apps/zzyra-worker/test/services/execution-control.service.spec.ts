@@ -0,0 +1,80 @@
+import {
+  ExecutionCancelledError,
+  ExecutionControlService,
+} from '../../src/services/execution-control.service';
+
+jest.mock('../../src/services/database.service', () => ({
+  DatabaseService: jest.fn(),
+}));
+
+describe('ExecutionControlService', () => {
+  let service: ExecutionControlService;
+  let workflowExecution: { findUnique: jest.Mock; findMany: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    workflowExecution = {
+      findUnique: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+    };
+    service = new ExecutionControlService({
+      prisma: { workflowExecution },
+    } as any);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should report a pause without aborting the signal', async () => {
+    const signal = service.register('execution-1');
+    workflowExecution.findUnique.mockResolvedValue({ status: 'paused' });
+
+    await expect(service.check('execution-1')).resolves.toBe('pause');
+    expect(signal.aborted).toBe(false);
+  });
+
+  it('should abort the signal when the execution was cancelled', async () => {
+    const signal = service.register('execution-1');
+    workflowExecution.findUnique.mockResolvedValue({ status: 'cancelled' });
+
+    await expect(service.check('execution-1')).resolves.toBe('cancel');
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(ExecutionCancelledError);
+  });
+
+  it('should return null while the execution keeps running', async () => {
+    service.register('execution-1');
+    workflowExecution.findUnique.mockResolvedValue({ status: 'running' });
+
+    await expect(service.check('execution-1')).resolves.toBeNull();
+  });
+
+  it('should abort cancelled executions found while polling', async () => {
+    const cancelled = service.register('execution-1');
+    const running = service.register('execution-2');
+    workflowExecution.findMany.mockResolvedValue([{ id: 'execution-1' }]);
+
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(workflowExecution.findMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['execution-1', 'execution-2'] },
+        status: 'cancelled',
+      },
+      select: { id: true },
+    });
+    expect(cancelled.aborted).toBe(true);
+    expect(running.aborted).toBe(false);
+  });
+
+  it('should stop polling once nothing is registered', async () => {
+    service.register('execution-1');
+    service.unregister('execution-1');
+
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(workflowExecution.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { WalletListenerService } from '../../src/services/wallet-listener.service';
+import { EvmEventScanner } from '../../src/workers/handlers/blockchain/EvmEventScanner';
+
+jest.mock('../../src/services/database.service', () => ({
+  DatabaseService: jest.fn(),
+}));
+jest.mock('../../src/services/rabbitmq.service', () => ({
+  RabbitMQService: jest.fn(),
+}));
+
+describe('WalletListenerService', () => {
+  let service: WalletListenerService;
+  let walletListeners: {
+    findActive: jest.Mock;
+    claimBlocks: jest.Mock;
+    update: jest.Mock;
+  };
+  let executions: { createExecution: jest.Mock; updateStatus: jest.Mock };
+  let rabbitMQService: { publishExecution: jest.Mock };
+  let client: { getBlockNumber: jest.Mock };
+
+  const createListener = (overrides: Record<string, any> = {}) => ({
+    id: 'listener-1',
+    workflowId: 'workflow-1',
+    userId: 'user-1',
+    nodeId: 'listen-1',
+    network: 'sei',
+    chainId: 1329,
+    rpcUrl: 'http://127.0.0.1:8545',
+    walletAddresses: ['0x1111111111111111111111111111111111111111'],
+    eventTypes: ['nativeTransfer'],
+    minAmount: 0,
+    tokenDenom: null,
+    eventSignature: null,
+    pollIntervalSeconds: 30,
+    startBlock: null,
+    lastProcessedBlock: 100n,
+    isActive: true,
+    lastPolledAt: null,
+    ...overrides,
+  });
+
+  const event = {
+    eventType: 'nativeTransfer',
+    txHash: '0xabc',
+    blockNumber: 101,
+  };
+
+  beforeEach(() => {
+    walletListeners = {
+      findActive: jest.fn(),
+      claimBlocks: jest.fn().mockResolvedValue(true),
+      update: jest.fn(),
+    };
+    executions = {
+      createExecution: jest.fn().mockResolvedValue({ id: 'execution-1' }),
+      updateStatus: jest.fn(),
+    };
+    rabbitMQService = {
+      publishExecution: jest.fn().mockResolvedValue(true),
+    };
+    client = { getBlockNumber: jest.fn().mockResolvedValue(105n) };
+
+    jest
+      .spyOn(EvmEventScanner.prototype, 'getClient')
+      .mockReturnValue(client as any);
+    jest
+      .spyOn(EvmEventScanner.prototype, 'scan')
+      .mockResolvedValue([event] as any);
+
+    service = new WalletListenerService(
+      { walletListeners, executions } as any,
+      rabbitMQService as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should scan after the last processed block and start an execution per event', async () => {
+    await service.pollListener(createListener() as any);
+
+    expect(EvmEventScanner.prototype.scan).toHaveBeenCalledWith(
+      client,
+      1329,
+      expect.objectContaining({ id: 'listener-1' }),
+      101n,
+      105n,
+    );
+    expect(walletListeners.claimBlocks).toHaveBeenCalledWith(
+      'listener-1',
+      100n,
+      105n,
+      expect.objectContaining({ lastError: null }),
+    );
+    expect(executions.createExecution).toHaveBeenCalledWith(
+      'workflow-1',
+      'user-1',
+      { trigger: 'wallet_listener', nodeId: 'listen-1', event },
+      'wallet_listener',
+    );
+    expect(rabbitMQService.publishExecution).toHaveBeenCalledWith({
+      executionId: 'execution-1',
+      workflowId: 'workflow-1',
+      userId: 'user-1',
+    });
+  });
+
+  it('should start new listeners at the chain head without scanning', async () => {
+    await service.pollListener(
+      createListener({ lastProcessedBlock: null }) as any,
+    );
+
+    expect(EvmEventScanner.prototype.scan).not.toHaveBeenCalled();
+    expect(walletListeners.claimBlocks).toHaveBeenCalledWith(
+      'listener-1',
+      null,
+      105n,
+      expect.any(Object),
+    );
+  });
+
+  it('should not start executions when another worker claimed the blocks', async () => {
+    walletListeners.claimBlocks.mockResolvedValue(false);
+
+    await service.pollListener(createListener() as any);
+
+    expect(executions.createExecution).not.toHaveBeenCalled();
+  });
+
+  it('should record RPC failures without advancing the cursor', async () => {
+    client.getBlockNumber.mockRejectedValue(new Error('connection refused'));
+
+    await service.pollListener(createListener() as any);
+
+    expect(walletListeners.claimBlocks).not.toHaveBeenCalled();
+    expect(walletListeners.update).toHaveBeenCalledWith(
+      'listener-1',
+      expect.objectContaining({ lastError: 'connection refused' }),
+    );
+  });
+
+  it('should mark the execution failed when it cannot be enqueued', async () => {
+    rabbitMQService.publishExecution.mockResolvedValue(false);
+
+    await service.pollListener(createListener() as any);
+
+    expect(executions.updateStatus).toHaveBeenCalledWith(
+      'execution-1',
+      'failed',
+      'Failed to enqueue wallet listener execution',
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { ZyraTemplateProcessor } from '../../src/utils/template-processor';
+
+// Only the credential helpers, without connecting to the database
+jest.mock('@zzyra/database', () =>
+  jest.requireActual('@zzyra/database/dist/policies/credentials'),
+);
+
+describe('ZyraTemplateProcessor', () => {
+  const templateProcessor = new ZyraTemplateProcessor();
+
+  describe('process', () => {
+    const context = {
+      previousOutputs: {
+        'BLOCK-1': { price: 1850.5 },
+        'agent-2': { result: { text: 'Buy ETH' } },
+      },
+      nodeLabels: { 'BLOCK-1': 'Fetch price' },
+      currentNode: { threshold: 1800 },
+    };
+
+    it('migrates the legacy syntaxes', () => {
+      expect(
+        templateProcessor.process(
+          '{data.price} / {previousBlock.text} / {BLOCK-1.price} / {{json.user}} / {{user}} / {nodeData.config.threshold}',
+          { user: 'alice' },
+          context,
+        ),
+      ).toBe('1850.5 / Buy ETH / 1850.5 / alice / alice / 1800');
+    });
+
+    it('evaluates expressions with node labels and functions', () => {
+      expect(
+        templateProcessor.process(
+          'ETH {{ nodes["Fetch price"].price > ctx.currentNode.threshold ? "above" : "below" }} {{ $formatNumber(nodes["Fetch price"].price, 1) }}',
+          {},
+          context,
+        ),
+      ).toBe('ETH above 1850.5');
+    });
+
+    it('throws errors with their position', () => {
+      expect(() => templateProcessor.process('Hi {{ json. }}', {})).toThrow(
+        "Expected a property name after '.' at position 12",
+      );
+    });
+  });
+
+  describe('evaluate', () => {
+    it('keeps the type of single expressions', () => {
+      expect(
+        templateProcessor.evaluate('{{ json.amount * 2 }}', { amount: 21 }),
+      ).toBe(42);
+      expect(
+        templateProcessor.evaluate('{{json.items}}', { items: [1] }),
+      ).toEqual([1]);
+    });
+  });
+
+  describe('validate', () => {
+    it('accepts legacy and current syntaxes', () => {
+      expect(templateProcessor.validate('{data.x} {{ $uuid }}')).toBe(true);
+      expect(templateProcessor.validate('{{ $unknown(1) }}')).toBe(false);
+      expect(templateProcessor.validate('{{ 1 + }}')).toBe(false);
+    });
+  });
+
+  describe('resolveCredentials', () => {
+    const credentials = { openai: 'sk-live-123', smtp_pass: 'hunter22' };
+
+    it('resolves credential references at any depth', () => {
+      const config = {
+        headers: { Authorization: 'Bearer {{credentials.openai}}' },
+        smtp: [{ password: '{{ credentials.smtp_pass }}', port: 587 }],
+      };
+
+      expect(templateProcessor.resolveCredentials(config, credentials)).toEqual(
+        {
+          headers: { Authorization: 'Bearer sk-live-123' },
+          smtp: [{ password: 'hunter22', port: 587 }],
+        },
+      );
+    });
+
+    it('leaves the config it was given unchanged', () => {
+      const config = { apiKey: '{{credentials.openai}}' };
+
+      templateProcessor.resolveCredentials(config, credentials);
+
+      expect(config.apiKey).toBe('{{credentials.openai}}');
+    });
+
+    it('keeps unknown references and other templates', () => {
+      expect(
+        templateProcessor.resolveCredentials(
+          '{{credentials.missing}} {{json.field}}',
+          credentials,
+        ),
+      ).toBe('{{credentials.missing}} {{json.field}}');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { BlockType } from '@zzyra/types';
+import {
+  getGatedNodeIds,
+  getProposedAction,
+  insertApprovalGates,
+  isRejectedApproval,
+  requiresApproval,
+} from '../../src/workers/approval-gates';
+
+describe('approval gates', () => {
+  const policy = { confirmOperations: [], timeoutMinutes: 60 };
+
+  const node = (id: string, blockType: BlockType, config = {}) => ({
+    id,
+    type: 'custom',
+    position: { x: 0, y: 0 },
+    data: { blockType, label: id, config },
+  });
+
+  describe('requiresApproval', () => {
+    it('should gate transactions above the threshold', () => {
+      const send = node('send', BlockType.SEND_TRANSACTION, { amount: '5' });
+
+      expect(requiresApproval(send, { ...policy, amountThreshold: 1 })).toBe(
+        true,
+      );
+      expect(requiresApproval(send, { ...policy, amountThreshold: 10 })).toBe(
+        false,
+      );
+      expect(requiresApproval(send, policy)).toBe(false);
+    });
+
+    it('should read the swap amount and a threshold set on the node', () => {
+      const swap = node('swap', BlockType.SWAP_TOKENS, {
+        amountIn: '2',
+        approvalThreshold: 1,
+      });
+
+      expect(requiresApproval(swap, policy)).toBe(true);
+    });
+
+    it('should gate amounts that are only known at run time', () => {
+      const send = node('send', BlockType.SEND_TRANSACTION, {
+        amount: '{{price.amount}}',
+      });
+
+      expect(requiresApproval(send, { ...policy, amountThreshold: 1 })).toBe(
+        true,
+      );
+    });
+
+    it('should gate operations the session key wants confirmed', () => {
+      const send = node('send', BlockType.SEND_TRANSACTION, { amount: '0.1' });
+
+      expect(
+        requiresApproval(send, { ...policy, confirmOperations: ['send'] }),
+      ).toBe(true);
+      expect(
+        requiresApproval(send, { ...policy, confirmOperations: ['swap'] }),
+      ).toBe(false);
+    });
+
+    it('should gate the transactions a paused run gated when it resumes', () => {
+      const send = node('send', BlockType.SEND_TRANSACTION, { amount: '0.1' });
+      const resumed = { ...policy, amountThreshold: 1, gatedNodeIds: ['send'] };
+
+      expect(requiresApproval(send, resumed)).toBe(true);
+      expect(
+        requiresApproval(send, {
+          ...resumed,
+          confirmOperations: ['send'],
+          gatedNodeIds: [],
+        }),
+      ).toBe(false);
+      expect(
+        getGatedNodeIds([send, node('http', BlockType.HTTP_REQUEST)], {
+          ...policy,
+          confirmOperations: ['send'],
+        }),
+      ).toEqual(['send']);
+    });
+
+    it('should ignore blocks that do not move funds', () => {
+      expect(
+        requiresApproval(node('http', BlockType.HTTP_REQUEST), {
+          ...policy,
+          confirmOperations: ['send', 'swap'],
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('insertApprovalGates', () => {
+    const nodes = [
+      node('trigger', BlockType.SCHEDULE),
+      node('check', BlockType.CONDITION),
+      node('send', BlockType.SEND_TRANSACTION, { amount: '5' }),
+    ];
+    const edges = [
+      { id: 'e1', source: 'trigger', target: 'check' },
+      { id: 'e2', source: 'check', sourceHandle: 'true', target: 'send' },
+    ];
+
+    it('should put an approval in front of the transaction', () => {
+      const gated = insertApprovalGates(nodes, edges, {
+        ...policy,
+        amountThreshold: 1,
+      });
+
+      expect(gated.nodes).toHaveLength(4);
+      expect(gated.nodes[3]).toEqual(
+        expect.objectContaining({
+          id: 'send-approval',
+          data: expect.objectContaining({
+            blockType: BlockType.APPROVAL,
+            config: expect.objectContaining({
+              targetNodeId: 'send',
+              defaultAction: 'reject',
+            }),
+          }),
+        }),
+      );
+      expect(gated.edges).toEqual([
+        ...edges,
+        {
+          id: 'e2-approval',
+          source: 'check',
+          sourceHandle: 'true',
+          target: 'send-approval',
+        },
+        { id: 'send-approval-send', source: 'send-approval', target: 'send' },
+      ]);
+    });
+
+    it('should leave transactions that already follow an approval alone', () => {
+      const approvalNodes = [...nodes, node('approve', BlockType.APPROVAL)];
+      const approvalEdges = [
+        ...edges,
+        { id: 'e3', source: 'approve', target: 'send' },
+      ];
+
+      const gated = insertApprovalGates(approvalNodes, approvalEdges, {
+        ...policy,
+        amountThreshold: 1,
+      });
+
+      expect(gated.nodes).toEqual(approvalNodes);
+      expect(gated.edges).toEqual(approvalEdges);
+    });
+  });
+
+  describe('getProposedAction', () => {
+    it('should describe the nodes after an approval block', () => {
+      const approval = node('approve', BlockType.APPROVAL, {
+        message: 'Pay the invoice?',
+      });
+      const send = node('send', BlockType.SEND_TRANSACTION, { amount: '5' });
+      const notify = node('notify', BlockType.NOTIFICATION);
+
+      expect(
+        getProposedAction(
+          approval,
+          [approval, send, notify],
+          [
+            { id: 'e1', source: 'approve', target: 'send' },
+            {
+              id: 'e2',
+              source: 'approve',
+              sourceHandle: 'rejected',
+              target: 'notify',
+            },
+          ],
+        ),
+      ).toEqual({
+        message: 'Pay the invoice?',
+        nodes: [
+          {
+            nodeId: 'send',
+            blockType: BlockType.SEND_TRANSACTION,
+            label: 'send',
+            config: { amount: '5' },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('isRejectedApproval', () => {
+    it('should only match rejected approvals', () => {
+      const approval = node('approve', BlockType.APPROVAL);
+
+      expect(isRejectedApproval(approval, { approved: false })).toBe(true);
+      expect(isRejectedApproval(approval, { approved: true })).toBe(false);
+      expect(isRejectedApproval(approval, undefined)).toBe(false);
+      expect(
+        isRejectedApproval(node('check', BlockType.CONDITION), {
+          approved: false,
+        }),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { BlockType } from '@zzyra/types';
+import {
+  collectForEachOutput,
+  extractLoopBodies,
+  getIterationResult,
+  resolveForEachOptions,
+  runInBatches,
+  validateLoopBody,
+} from '../../src/workers/for-each';
+
+describe('for each', () => {
+  const node = (
+    id: string,
+    blockType: BlockType,
+    parentId?: string,
+    config = {},
+  ) => ({
+    id,
+    type: 'custom',
+    parentId,
+    position: { x: 0, y: 0 },
+    data: { blockType, label: id, config },
+  });
+  const edge = (source: string, target: string) => ({
+    id: `${source}-${target}`,
+    source,
+    target,
+  });
+
+  describe('extractLoopBodies', () => {
+    it('should move the child nodes of a FOR_EACH block into its body', () => {
+      const nodes = [
+        node('fetch', BlockType.HTTP_REQUEST),
+        node('loop', BlockType.FOR_EACH),
+        node('price', BlockType.HTTP_REQUEST, 'loop'),
+        node('email', BlockType.EMAIL, 'loop'),
+        node('notify', BlockType.NOTIFICATION),
+      ];
+      const edges = [
+        edge('fetch', 'loop'),
+        edge('price', 'email'),
+        edge('loop', 'notify'),
+      ];
+
+      const result = extractLoopBodies(nodes, edges);
+
+      expect(result.nodes.map((n) => n.id)).toEqual([
+        'fetch',
+        'loop',
+        'notify',
+      ]);
+      expect(result.edges).toEqual([edges[0], edges[2]]);
+      expect(result.bodies.get('loop')).toEqual({
+        nodes: [nodes[2], nodes[3]],
+        edges: [edges[1]],
+      });
+    });
+
+    it('should reject edges across the border, nesting and empty blocks', () => {
+      const loop = node('loop', BlockType.FOR_EACH);
+      const child = node('email', BlockType.EMAIL, 'loop');
+
+      expect(() =>
+        extractLoopBodies(
+          [node('fetch', BlockType.HTTP_REQUEST), loop, child],
+          [edge('fetch', 'email')],
+        ),
+      ).toThrow('Edge fetch-email crosses the border of FOR_EACH block loop');
+      expect(() =>
+        extractLoopBodies(
+          [loop, child, node('inner', BlockType.FOR_EACH, 'loop')],
+          [],
+        ),
+      ).toThrow('FOR_EACH block inner cannot be placed inside');
+      expect(() => extractLoopBodies([loop], [])).toThrow(
+        'FOR_EACH block loop has no nodes inside it',
+      );
+    });
+  });
+
+  it('should reject approvals and waits inside a loop body', () => {
+    const policy = { confirmOperations: ['send'], timeoutMinutes: 60 };
+    const body = {
+      nodes: [node('send', BlockType.SEND_TRANSACTION, 'loop')],
+      edges: [],
+    };
+
+    expect(() => validateLoopBody('loop', body, policy)).toThrow(
+      'Node send in FOR_EACH block loop needs an approval',
+    );
+    expect(() =>
+      validateLoopBody('loop', body, { ...policy, confirmOperations: [] }),
+    ).not.toThrow();
+    expect(() =>
+      validateLoopBody(
+        'loop',
+        { nodes: [node('pause', BlockType.WAIT, 'loop')], edges: [] },
+        policy,
+      ),
+    ).toThrow('WAIT block pause cannot be placed inside FOR_EACH block loop');
+  });
+
+  it('should resolve options with defaults and limits', () => {
+    expect(resolveForEachOptions({})).toEqual({
+      concurrency: 1,
+      batchSize: 10,
+      onItemError: 'fail',
+    });
+    expect(
+      resolveForEachOptions({
+        concurrency: 50,
+        batchSize: '5',
+        onItemError: 'skip',
+      }),
+    ).toEqual({ concurrency: 10, batchSize: 5, onItemError: 'skip' });
+    expect(
+      resolveForEachOptions({ concurrency: 0, onItemError: 'retry' }),
+    ).toMatchObject({ concurrency: 1, onItemError: 'fail' });
+  });
+
+  describe('runInBatches', () => {
+    it('should keep the order of the items and bound the concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const batches: number[] = [];
+
+      const results = await runInBatches(
+        [30, 10, 20, 5, 15],
+        { concurrency: 2, batchSize: 4 },
+        async (delay, index) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          running--;
+          return index * 2;
+        },
+        async (start) => {
+          batches.push(start);
+        },
+      );
+
+      expect(results).toEqual([0, 2, 4, 6, 8]);
+      expect(maxRunning).toBe(2);
+      expect(batches).toEqual([0, 4]);
+    });
+
+    it('should stop starting items after one fails', async () => {
+      const started: number[] = [];
+
+      await expect(
+        runInBatches(
+          [1, 2, 3, 4],
+          { concurrency: 1, batchSize: 10 },
+          async (item) => {
+            started.push(item);
+            if (item === 2) {
+              throw new Error('item 2 failed');
+            }
+            return item;
+          },
+        ),
+      ).rejects.toThrow('item 2 failed');
+      expect(started).toEqual([1, 2]);
+    });
+  });
+
+  it('should return the output of the last node or of each last node', () => {
+    const outputs = { price: { price: 1 }, email: { messageId: 'm1' } };
+
+    expect(
+      getIterationResult(
+        {
+          nodes: [{ id: 'price' }, { id: 'email' }],
+          edges: [edge('price', 'email')],
+        },
+        outputs,
+      ),
+    ).toEqual({ messageId: 'm1' });
+    expect(
+      getIterationResult(
+        { nodes: [{ id: 'price' }, { id: 'email' }], edges: [] },
+        outputs,
+      ),
+    ).toEqual(outputs);
+  });
+
+  describe('collectForEachOutput', () => {
+    const loop = node('loop', BlockType.FOR_EACH);
+    const outcomes = [
+      { index: 0, result: 'a' },
+      { index: 1, error: new Error('boom') },
+      { index: 2, result: 'c' },
+    ];
+
+    it('should add the errors of failed items when continuing', () => {
+      const output = collectForEachOutput(loop, outcomes, 'continue');
+
+      expect(output).toMatchObject({
+        count: 3,
+        succeeded: 2,
+        failed: 1,
+        errors: [{ index: 1, message: 'boom' }],
+      });
+      expect(output.results[1]).toMatchObject({
+        failed: true,
+        error: { message: 'boom', nodeId: 'loop' },
+      });
+    });
+
+    it('should leave failed items out when skipping', () => {
+      expect(collectForEachOutput(loop, outcomes, 'skip').results).toEqual([
+        'a',
+        'c',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { ConditionBlockHandler } from '../../../src/workers/handlers/ConditionBlockHandler';
+import { BlockExecutionContext } from '@zzyra/types';
+
+describe('ConditionBlockHandler', () => {
+  let handler: ConditionBlockHandler;
+
+  const createContext = (
+    previousOutputs: Record<string, any>,
+  ): BlockExecutionContext =>
+    ({
+      nodeId: 'condition-1',
+      executionId: 'test-execution-id',
+      workflowId: 'test-workflow-id',
+      userId: 'test-user-id',
+      inputs: {},
+      config: {},
+      previousOutputs,
+      logger: {
+        log: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+      },
+    }) as unknown as BlockExecutionContext;
+
+  const createNode = (condition: string | Record<string, any>) => ({
+    id: 'condition-1',
+    data: {
+      blockType: 'CONDITION',
+      config: typeof condition === 'string' ? { condition } : condition,
+    },
+  });
+
+  beforeEach(() => {
+    handler = new ConditionBlockHandler();
+  });
+
+  it('should evaluate to true against the upstream output', async () => {
+    const result = await handler.execute(
+      createNode('data.price > 45000'),
+      createContext({ 'price-1': { price: 50000 } }),
+    );
+
+    expect(result.outcome).toBe(true);
+    expect(result.result).toBe(true);
+    expect(result.condition).toBe('data.price > 45000');
+    expect(result.data).toEqual({ price: 50000 });
+  });
+
+  it('should evaluate to false when the expression does not hold', async () => {
+    const result = await handler.execute(
+      createNode('data.price > 45000'),
+      createContext({ 'price-1': { price: 40000 } }),
+    );
+
+    expect(result.outcome).toBe(false);
+  });
+
+  it('should unwrap outputs keyed by node id after edge processing', async () => {
+    const result = await handler.execute(
+      createNode("nodes['price-1'].price === 42"),
+      createContext({ 'price-1': { 'price-1': { price: 42 } } }),
+    );
+
+    expect(result.outcome).toBe(true);
+  });
+
+  it('should throw when the condition is missing', async () => {
+    await expect(
+      handler.execute(createNode('   '), createContext({})),
+    ).rejects.toThrow('Condition expression is required');
+  });
+
+  it('should throw when the expression is invalid', async () => {
+    await expect(
+      handler.execute(createNode('data.price >'), createContext({})),
+    ).rejects.toThrow(/Failed to evaluate condition/);
+  });
+
+  it('should evaluate a condition saved as a template', async () => {
+    const result = await handler.execute(
+      createNode('{{ $contains(data.tags, "eth") }}'),
+      createContext({ 'tags-1': { tags: ['btc', 'eth'] } }),
+    );
+
+    expect(result.outcome).toBe(true);
+  });
+
+  it('should not reach the prototypes of values', async () => {
+    const context = createContext({ 'price-1': { price: 42 } });
+
+    await expect(
+      handler.execute(
+        createNode('data.constructor.constructor("return process.pid")()'),
+        context,
+      ),
+    ).rejects.toThrow(/Failed to evaluate condition/);
+    await expect(
+      handler.execute(createNode('process.pid == null'), context),
+    ).resolves.toMatchObject({ outcome: true });
+    await expect(
+      handler.execute(createNode('data.constructor'), context),
+    ).resolves.toMatchObject({ outcome: false });
+  });
+
+  it('should evaluate nodes saved with the comparator config', async () => {
+    const context = createContext({ 'price-1': { price: 1850, pair: 'ETH' } });
+    const compare = (config: Record<string, any>) =>
+      handler
+        .execute(createNode(config), context)
+        .then((result) => result.outcome);
+
+    await expect(
+      compare({
+        leftValue: '{{json.price}}',
+        operator: 'lessThan',
+        rightValue: '2000',
+        dataType: 'number',
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      compare({
+        leftValue: '{{ data.pair }}',
+        operator: 'equals',
+        rightValue: 'eth',
+        caseSensitive: false,
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      compare({ leftValue: '{{ data.missing }}', operator: 'isEmpty' }),
+    ).resolves.toBe(true);
+  });
+});
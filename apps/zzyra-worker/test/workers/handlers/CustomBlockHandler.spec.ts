@@ -0,0 +1,124 @@
+import { Logger } from '@nestjs/common';
+import { CustomBlockHandler } from '../../../src/workers/handlers/CustomBlockHandler';
+import { ExecutionErrorType } from '../../../src/workers/execution-errors';
+import { executeCustomBlockLogic } from '../../../src/types/custom-block';
+
+jest.mock('../../../src/services/database.service', () => ({
+  DatabaseService: jest.fn(),
+}));
+
+jest.mock('../../../src/types/custom-block', () => ({
+  executeCustomBlockLogic: jest.fn(),
+}));
+
+describe('CustomBlockHandler', () => {
+  const draft = {
+    id: 'block-1',
+    userId: 'user-1',
+    name: 'Double',
+    description: 'Draft',
+    category: 'ACTION',
+    code: 'return { doubled: inputs.value * 3 };',
+    logicType: 'javascript',
+    blockData: { inputs: [{ name: 'value', type: 'number' }], outputs: [] },
+    isPublic: false,
+    createdAt: new Date('2025-09-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-09-03T00:00:00.000Z'),
+  };
+  const published = {
+    ...draft,
+    id: 'version-1',
+    customBlockId: 'block-1',
+    version: '1.2.0',
+    code: 'return { doubled: inputs.value * 2 };',
+    createdAt: new Date('2025-09-02T00:00:00.000Z'),
+  };
+  const ctx = {
+    nodeId: 'node-1',
+    executionId: 'execution-1',
+    userId: 'user-1',
+    inputs: { value: 2 },
+  } as any;
+
+  let handler: CustomBlockHandler;
+  let resolve: jest.Mock;
+
+  const node = (config: Record<string, any> = {}) => ({
+    id: 'node-1',
+    type: 'CUSTOM',
+    data: { config: { customBlockId: 'block-1', ...config } },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    resolve = jest.fn().mockResolvedValue(published);
+    (executeCustomBlockLogic as jest.Mock).mockResolvedValue({
+      success: true,
+      outputs: { doubled: 4 },
+      logs: [],
+    });
+    handler = new CustomBlockHandler({
+      prisma: {
+        customBlock: { findFirst: jest.fn().mockResolvedValue(draft) },
+        blockExecution: {
+          create: jest.fn().mockResolvedValue({ id: 'block-execution-1' }),
+          update: jest.fn(),
+          findFirst: jest.fn(),
+        },
+      },
+      customBlockVersions: { resolve },
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run the published version in the pinned range', async () => {
+    const outputs = await handler.execute(
+      node({ customBlockVersion: '^1.0.0' }),
+      ctx,
+    );
+
+    expect(outputs).toEqual({ doubled: 4 });
+    expect(resolve).toHaveBeenCalledWith('block-1', '^1.0.0');
+    expect(executeCustomBlockLogic).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'block-1',
+        code: published.code,
+        version: '1.2.0',
+      }),
+      { value: 2 },
+    );
+  });
+
+  it('should fail when no published version matches the pin', async () => {
+    resolve.mockResolvedValue(null);
+
+    await expect(
+      handler.execute(node({ customBlockVersion: '^2.0.0' }), ctx),
+    ).rejects.toEqual(
+      expect.objectContaining({
+        type: ExecutionErrorType.CONFIGURATION_ERROR,
+        isRetryable: false,
+        message: 'No published version of custom block block-1 matches ^2.0.0',
+      }),
+    );
+    expect(executeCustomBlockLogic).not.toHaveBeenCalled();
+  });
+
+  it('should run the draft of blocks that were never published', async () => {
+    resolve.mockResolvedValue(null);
+
+    await handler.execute(node(), ctx);
+
+    expect(resolve).toHaveBeenCalledWith('block-1', undefined);
+    expect(executeCustomBlockLogic).toHaveBeenCalledWith(
+      expect.objectContaining({ code: draft.code, version: undefined }),
+      { value: 2 },
+    );
+  });
+});
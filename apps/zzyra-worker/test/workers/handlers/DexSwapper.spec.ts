@@ -0,0 +1,254 @@
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  parseAbi,
+} from 'viem';
+import {
+  applySlippage,
+  DexSwapper,
+  SwapQuote,
+} from '../../../src/workers/handlers/blockchain/dex/DexSwapper';
+
+describe('DexSwapper', () => {
+  const v2Router = '0x1000000000000000000000000000000000000001';
+  const v3Router = '0x1000000000000000000000000000000000000002';
+  const v3Quoter = '0x1000000000000000000000000000000000000003';
+  const wsei = '0x2000000000000000000000000000000000000000';
+  const usdc = '0x3000000000000000000000000000000000000000';
+  const dai = '0x4000000000000000000000000000000000000000';
+  const account = '0x5000000000000000000000000000000000000000';
+
+  const abi = parseAbi([
+    'function approve(address spender, uint256 amount) returns (bool)',
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)',
+    'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+    'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+    'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Withdrawal(address indexed src, uint256 wad)',
+  ]);
+
+  let swapper: DexSwapper;
+  let client: {
+    readContract: jest.Mock;
+    simulateContract: jest.Mock;
+    getTransactionReceipt: jest.Mock;
+  };
+
+  const createQuote = (overrides: Partial<SwapQuote> = {}): SwapQuote => ({
+    dex: 'uniswap-v2',
+    router: v2Router,
+    amountOut: 2000000000000000000n,
+    route: [usdc, dai],
+    chainId: 1328,
+    tokenIn: usdc,
+    tokenOut: dai,
+    nativeIn: false,
+    nativeOut: false,
+    amountIn: 2000000n,
+    decimalsIn: 6,
+    decimalsOut: 18,
+    ...overrides,
+  });
+
+  const transferLog = (
+    token: string,
+    from: string,
+    to: string,
+    value: bigint,
+  ) => ({
+    address: token,
+    topics: encodeEventTopics({
+      abi,
+      eventName: 'Transfer',
+      args: { from, to },
+    } as any),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  });
+
+  beforeEach(() => {
+    swapper = new DexSwapper({
+      DEX_V2_ROUTER_1328: v2Router,
+      DEX_V3_ROUTER_1328: v3Router,
+      DEX_V3_QUOTER_1328: v3Quoter,
+      DEX_WRAPPED_NATIVE_1328: wsei,
+    });
+    client = {
+      readContract: jest.fn(),
+      simulateContract: jest.fn().mockRejectedValue(new Error('no pool')),
+      getTransactionReceipt: jest.fn(),
+    };
+    jest.spyOn(swapper, 'getClient').mockReturnValue(client as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply slippage tolerance in basis points', () => {
+    expect(applySlippage(1000000n, 1)).toBe(990000n);
+    expect(applySlippage(1000000n, 0.5)).toBe(995000n);
+  });
+
+  it('should quote every router and keep the best output', async () => {
+    client.readContract.mockImplementation(
+      ({ address, functionName, args }) => {
+        if (functionName === 'decimals') {
+          return Promise.resolve(address === usdc ? 6 : 18);
+        }
+        // getAmountsOut: only the direct pair exists
+        return args[1].length === 2
+          ? Promise.resolve([args[0], 1900000000000000000n])
+          : Promise.reject(new Error('pair not found'));
+      },
+    );
+    client.simulateContract.mockImplementation(({ args }) =>
+      args[0].fee === 500
+        ? Promise.resolve({ result: [1950000000000000000n, 0n, 0, 0n] })
+        : Promise.reject(new Error('no pool')),
+    );
+
+    const quote = await swapper.quote(1328, {
+      fromToken: usdc,
+      toToken: dai,
+      amountIn: '2',
+      dexPlatform: 'auto',
+    });
+
+    expect(quote).toMatchObject({
+      dex: 'uniswap-v3',
+      router: v3Router,
+      fee: 500,
+      amountIn: 2000000n,
+      amountOut: 1950000000000000000n,
+      decimalsIn: 6,
+    });
+  });
+
+  it('should fail when no router has liquidity for the pair', async () => {
+    client.readContract.mockImplementation(({ functionName }) =>
+      functionName === 'decimals'
+        ? Promise.resolve(18)
+        : Promise.reject(new Error('pair not found')),
+    );
+
+    await expect(
+      swapper.quote(1328, {
+        fromToken: usdc,
+        toToken: dai,
+        amountIn: '1',
+        dexPlatform: 'auto',
+      }),
+    ).rejects.toThrow(/No liquidity found/);
+  });
+
+  it('should fail when the chain has no routers configured', async () => {
+    await expect(
+      new DexSwapper({}).quote(1328, {
+        fromToken: usdc,
+        toToken: dai,
+        amountIn: '1',
+        dexPlatform: 'auto',
+      }),
+    ).rejects.toThrow(/No DEX routers configured for chain 1328/);
+  });
+
+  it('should approve the router before swapping when the allowance is too low', async () => {
+    client.readContract.mockResolvedValue(0n);
+
+    const calls = await swapper.buildSwapCalls(createQuote(), {
+      account,
+      amountOutMinimum: 1980000000000000000n,
+      deadline: 1700000000n,
+    });
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].to).toBe(usdc);
+    expect(decodeFunctionData({ abi, data: calls[0].data }).args).toEqual([
+      v2Router,
+      2000000n,
+    ]);
+    expect(calls[1].to).toBe(v2Router);
+    expect(decodeFunctionData({ abi, data: calls[1].data })).toEqual({
+      functionName: 'swapExactTokensForTokens',
+      args: [2000000n, 1980000000000000000n, [usdc, dai], account, 1700000000n],
+    });
+  });
+
+  it('should skip the approval when the allowance covers the swap', async () => {
+    client.readContract.mockResolvedValue(5000000n);
+
+    const calls = await swapper.buildSwapCalls(createQuote(), {
+      account,
+      amountOutMinimum: 1n,
+      deadline: 1700000000n,
+    });
+
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should unwrap native output through the V3 router', async () => {
+    client.readContract.mockResolvedValue(5000000n);
+
+    const [call] = await swapper.buildSwapCalls(
+      createQuote({
+        dex: 'uniswap-v3',
+        router: v3Router,
+        route: [usdc, wsei],
+        tokenOut: wsei,
+        nativeOut: true,
+        fee: 3000,
+      }),
+      { account, amountOutMinimum: 10n, deadline: 1700000000n },
+    );
+
+    const multicall = decodeFunctionData({ abi, data: call.data });
+    expect(multicall.functionName).toBe('multicall');
+    const [deadline, inner] = multicall.args as [bigint, `0x${string}`[]];
+    expect(deadline).toBe(1700000000n);
+    expect(decodeFunctionData({ abi, data: inner[0] }).args).toEqual([
+      expect.objectContaining({
+        recipient: '0x0000000000000000000000000000000000000002',
+        amountOutMinimum: 10n,
+        fee: 3000,
+      }),
+    ]);
+    expect(decodeFunctionData({ abi, data: inner[1] })).toEqual({
+      functionName: 'unwrapWETH9',
+      args: [10n, account],
+    });
+  });
+
+  it('should read filled amounts from the transaction logs', async () => {
+    client.getTransactionReceipt.mockResolvedValue({
+      logs: [
+        transferLog(
+          usdc,
+          account,
+          '0x6000000000000000000000000000000000000000',
+          2000000n,
+        ),
+        transferLog(
+          dai,
+          '0x6000000000000000000000000000000000000000',
+          account,
+          1990000000000000000n,
+        ),
+        transferLog(
+          dai,
+          account,
+          '0x7000000000000000000000000000000000000000',
+          5n,
+        ),
+      ],
+    });
+
+    const fill = await swapper.readFill(createQuote(), '0xhash', account);
+
+    expect(fill).toEqual({
+      amountIn: 2000000n,
+      amountOut: 1990000000000000000n,
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { parseEther } from 'viem';
+import {
+  EvmEventScanner,
+  isPrivateHost,
+  resolveRpcUrl,
+  WalletEventFilter,
+} from '../../../src/workers/handlers/blockchain/EvmEventScanner';
+
+describe('EvmEventScanner', () => {
+  const wallet = '0x1111111111111111111111111111111111111111';
+  const other = '0x2222222222222222222222222222222222222222';
+  const token = '0x3333333333333333333333333333333333333333';
+
+  let scanner: EvmEventScanner;
+  let client: {
+    getBlock: jest.Mock;
+    getLogs: jest.Mock;
+    readContract: jest.Mock;
+  };
+
+  const createFilter = (
+    overrides: Partial<WalletEventFilter> = {},
+  ): WalletEventFilter => ({
+    network: 'sei',
+    walletAddresses: [wallet],
+    eventTypes: ['nativeTransfer'],
+    minAmount: 0,
+    tokenDenom: null,
+    eventSignature: null,
+    ...overrides,
+  });
+
+  const transferLog = (from: string, to: string, value: bigint) => ({
+    address: token,
+    blockNumber: 10n,
+    logIndex: 3,
+    transactionHash: '0xtoken',
+    topics: [],
+    data: '0x',
+    args: { from, to, value },
+  });
+
+  beforeEach(() => {
+    scanner = new EvmEventScanner();
+    client = {
+      getBlock: jest.fn().mockResolvedValue({
+        timestamp: 1755853200n,
+        transactions: [
+          {
+            hash: '0xnative',
+            from: other,
+            to: wallet,
+            value: parseEther('2'),
+            nonce: 1,
+            transactionIndex: 0,
+          },
+          {
+            hash: '0xsmall',
+            from: wallet,
+            to: other,
+            value: parseEther('0.1'),
+            nonce: 2,
+            transactionIndex: 1,
+          },
+          {
+            hash: '0xunrelated',
+            from: other,
+            to: other,
+            value: parseEther('5'),
+            nonce: 3,
+            transactionIndex: 2,
+          },
+        ],
+      }),
+      getLogs: jest.fn().mockResolvedValue([]),
+      readContract: jest.fn().mockResolvedValue(6),
+    };
+  });
+
+  it('should report native transfers above the minimum amount', async () => {
+    const events = await scanner.scan(
+      client as any,
+      1329,
+      createFilter({ minAmount: 1 }),
+      10n,
+      10n,
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventType: 'nativeTransfer',
+      txHash: '0xnative',
+      blockNumber: 10,
+      fromAddress: other,
+      toAddress: wallet,
+      walletAddress: wallet,
+      amount: 2,
+      tokenDenom: 'SEI',
+      timestamp: '2025-08-22T09:00:00.000Z',
+    });
+    expect(events[0].rawEvent.value).toBe('2000000000000000000');
+  });
+
+  it('should report ERC-20 transfers once using token decimals', async () => {
+    const log = transferLog(other, wallet, 2500000n);
+    client.getLogs.mockResolvedValue([log]);
+
+    const events = await scanner.scan(
+      client as any,
+      1329,
+      createFilter({ eventTypes: ['tokenTransfer'], tokenDenom: token }),
+      10n,
+      10n,
+    );
+
+    expect(client.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ address: token, args: { to: [wallet] } }),
+    );
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      eventType: 'tokenTransfer',
+      amount: 2.5,
+      tokenDenom: token,
+      logIndex: 3,
+    });
+  });
+
+  it('should skip native transfers when filtering by token address', async () => {
+    await scanner.scan(
+      client as any,
+      1329,
+      createFilter({
+        eventTypes: ['nativeTransfer', 'tokenTransfer'],
+        tokenDenom: token,
+      }),
+      10n,
+      10n,
+    );
+
+    expect(client.getBlock).not.toHaveBeenCalledWith(
+      expect.objectContaining({ includeTransactions: true }),
+    );
+  });
+
+  it('should report contract events emitted by watched addresses', async () => {
+    client.getLogs.mockResolvedValue([
+      {
+        address: wallet,
+        blockNumber: 10n,
+        logIndex: 0,
+        transactionHash: '0xevent',
+        topics: [],
+        data: '0x',
+        eventName: 'Deposit',
+        args: { amount: 5n },
+      },
+    ]);
+
+    const events = await scanner.scan(
+      client as any,
+      1329,
+      createFilter({
+        eventTypes: ['contractEvent'],
+        eventSignature: 'Deposit(uint256 amount)',
+      }),
+      10n,
+      10n,
+    );
+
+    expect(client.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: [wallet],
+        event: expect.objectContaining({ name: 'Deposit' }),
+      }),
+    );
+    expect(events[0]).toMatchObject({
+      eventType: 'contractEvent',
+      walletAddress: wallet,
+      rawEvent: { eventName: 'Deposit', args: { amount: '5' } },
+    });
+  });
+
+  it('should reject an invalid event signature', async () => {
+    await expect(
+      scanner.scan(
+        client as any,
+        1329,
+        createFilter({
+          eventTypes: ['contractEvent'],
+          eventSignature: 'not an event',
+        }),
+        10n,
+        10n,
+      ),
+    ).rejects.toThrow(/Invalid event signature/);
+  });
+
+  describe('resolveRpcUrl', () => {
+    const allowList = ['*.alchemy.com', 'rpc.example.org'];
+
+    it('should use the configured endpoint of a chain', () => {
+      expect(resolveRpcUrl(1329, null, allowList)).toBe(
+        process.env.SEI_MAINNET_RPC || 'https://evm-rpc.sei-apis.com',
+      );
+      expect(() => resolveRpcUrl(5, null, allowList)).toThrow(
+        'No RPC URL configured for chain 5',
+      );
+    });
+
+    it('should accept custom endpoints on the allow-list only', () => {
+      expect(
+        resolveRpcUrl(1, 'https://eth-mainnet.g.alchemy.com/v2/key', allowList),
+      ).toBe('https://eth-mainnet.g.alchemy.com/v2/key');
+      expect(() =>
+        resolveRpcUrl(1, 'https://rpc.attacker.dev', allowList),
+      ).toThrow('RPC host rpc.attacker.dev is not allowed');
+      expect(() => resolveRpcUrl(1, 'file:///etc/passwd', ['*'])).toThrow(
+        'RPC URL must use http or https',
+      );
+    });
+
+    it('should reject private and link-local hosts', () => {
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data',
+        'http://127.0.0.1:8545',
+        'http://localhost:8545',
+        'http://10.0.0.5',
+        'http://[::1]:8545',
+        'http://[::ffff:192.168.1.1]',
+      ]) {
+        expect(() => resolveRpcUrl(1, url, ['*'])).toThrow(
+          /is on a private network/,
+        );
+      }
+    });
+  });
+
+  it('should tell private hosts from public ones', () => {
+    expect(isPrivateHost('172.20.1.1')).toBe(true);
+    expect(isPrivateHost('[fe80::1]')).toBe(true);
+    expect(isPrivateHost('metadata.google.internal')).toBe(true);
+    expect(isPrivateHost('172.32.0.1')).toBe(false);
+    expect(isPrivateHost('8.8.8.8')).toBe(false);
+    expect(isPrivateHost('evm-rpc.sei-apis.com')).toBe(false);
+  });
+});
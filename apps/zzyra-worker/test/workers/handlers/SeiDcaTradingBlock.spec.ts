@@ -0,0 +1,211 @@
+import { SeiDcaTradingBlock } from '../../../src/workers/handlers/enhanced/trading/SeiDcaTradingBlock';
+import { SmartAccountSwapExecutor } from '../../../src/workers/handlers/blockchain/dex/SmartAccountSwapExecutor';
+
+jest.mock('../../../src/services/database.service', () => ({
+  DatabaseService: jest.fn(),
+}));
+
+// Stands in for Prisma.Decimal without loading the database client
+interface FakeDecimal {
+  toFixed(): string;
+  toNumber(): number;
+  minus(other: FakeDecimal): FakeDecimal;
+  lessThan(other: FakeDecimal): boolean;
+}
+
+const decimal = (value: number): FakeDecimal => ({
+  toFixed: () => String(value),
+  toNumber: () => value,
+  minus: (other) => decimal(value - other.toNumber()),
+  lessThan: (other) => value < other.toNumber(),
+});
+
+describe('SeiDcaTradingBlock', () => {
+  const usdc = '0x3000000000000000000000000000000000000000';
+  const wsei = '0x2000000000000000000000000000000000000000';
+
+  let block: SeiDcaTradingBlock;
+  let dcaPlans: { syncForNode: jest.Mock; recordFill: jest.Mock };
+  let swapper: { quote: jest.Mock };
+  let params: Record<string, any>;
+
+  const createPlan = (overrides: Record<string, any> = {}) => ({
+    id: 'plan-1',
+    status: 'active',
+    side: 'buy',
+    baseToken: 'native',
+    quoteToken: usdc,
+    amountPerInterval: decimal(10),
+    totalBudget: decimal(100),
+    totalSpent: decimal(40),
+    totalReceived: decimal(80),
+    averagePrice: decimal(0.5),
+    fillCount: 4,
+    lastFillAt: null,
+    ...overrides,
+  });
+
+  const createContext = () =>
+    ({
+      workflowId: 'workflow-1',
+      userId: 'user-1',
+      nodeId: 'dca-1',
+      executionId: 'execution-1',
+      blockchainAuthorization: { sessionKeyId: 'session-1' },
+      getNodeParameter: (name: string) => params[name],
+      logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+        log: jest.fn(),
+      },
+    }) as any;
+
+  // 10 USDC (6 decimals) buys 20 SEI: 0.5 USDC per SEI
+  const quote = {
+    dex: 'uniswap-v2',
+    router: '0x1000000000000000000000000000000000000001',
+    route: [usdc, wsei],
+    chainId: 1328,
+    tokenIn: usdc,
+    tokenOut: wsei,
+    nativeIn: false,
+    nativeOut: true,
+    amountIn: 10000000n,
+    amountOut: 20000000000000000000n,
+    decimalsIn: 6,
+    decimalsOut: 18,
+  };
+
+  beforeEach(() => {
+    params = {
+      chainId: '1328',
+      strategy: 'dca_buy',
+      baseToken: 'native',
+      quoteToken: usdc,
+      tradeAmount: '10',
+      totalBudget: '100',
+      maxSlippage: 1,
+    };
+    dcaPlans = {
+      syncForNode: jest.fn().mockResolvedValue(createPlan()),
+      recordFill: jest.fn().mockResolvedValue({
+        plan: createPlan({
+          fillCount: 5,
+          totalSpent: decimal(50),
+          totalReceived: decimal(99.8),
+        }),
+        fill: {
+          amountIn: decimal(10),
+          amountOut: decimal(19.8),
+          price: decimal(0.505050505050505),
+          createdAt: new Date('2025-08-24T09:00:00.000Z'),
+        },
+      }),
+    };
+    swapper = { quote: jest.fn().mockResolvedValue(quote) };
+
+    jest
+      .spyOn(SmartAccountSwapExecutor.prototype, 'execute')
+      .mockResolvedValue({
+        transactionHash: '0xswap',
+        account: '0x5000000000000000000000000000000000000000',
+        amountIn: 10000000n,
+        amountOut: 19800000000000000000n,
+      });
+
+    block = new SeiDcaTradingBlock(
+      {} as any,
+      {} as any,
+      { dcaPlans } as any,
+      swapper as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should buy one interval and record the fill on the plan', async () => {
+    const [result] = await block.execute(createContext());
+
+    expect(dcaPlans.syncForNode).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowId: 'workflow-1',
+        nodeId: 'dca-1',
+        side: 'buy',
+        amountPerInterval: '10',
+        totalBudget: '100',
+      }),
+    );
+    expect(swapper.quote).toHaveBeenCalledWith(1328, {
+      fromToken: usdc,
+      toToken: 'native',
+      amountIn: '10',
+      dexPlatform: 'auto',
+    });
+    expect(SmartAccountSwapExecutor.prototype.execute).toHaveBeenCalledWith(
+      expect.anything(),
+      '1328',
+      quote,
+      { amountOutMinimum: 19800000000000000000n, deadlineMinutes: 20 },
+    );
+    expect(dcaPlans.recordFill).toHaveBeenCalledWith('plan-1', {
+      executionId: 'execution-1',
+      transactionHash: '0xswap',
+      amountIn: '10',
+      amountOut: '19.8',
+    });
+    expect(result.json).toMatchObject({
+      status: 'success',
+      marketData: { price: 0.5, source: 'dex_quote' },
+      plan: {
+        fillCount: 5,
+        totalSpent: '50',
+        remainingBudget: '50',
+        totalReceived: '99.8',
+      },
+    });
+  });
+
+  it('should cap the last interval at the remaining budget', async () => {
+    dcaPlans.syncForNode.mockResolvedValue(
+      createPlan({ totalSpent: decimal(96) }),
+    );
+
+    await block.execute(createContext());
+
+    expect(swapper.quote).toHaveBeenCalledWith(
+      1328,
+      expect.objectContaining({ amountIn: '4' }),
+    );
+  });
+
+  it('should skip runs outside the price band', async () => {
+    params.maxPrice = 0.4;
+
+    const [result] = await block.execute(createContext());
+
+    expect(result.json).toMatchObject({
+      status: 'skipped',
+      reason: 'Price 0.5 is above the maximum 0.4',
+    });
+    expect(SmartAccountSwapExecutor.prototype.execute).not.toHaveBeenCalled();
+    expect(dcaPlans.recordFill).not.toHaveBeenCalled();
+  });
+
+  it('should skip completed plans without quoting', async () => {
+    dcaPlans.syncForNode.mockResolvedValue(
+      createPlan({ status: 'completed', totalSpent: decimal(100) }),
+    );
+
+    const [result] = await block.execute(createContext());
+
+    expect(result.json).toMatchObject({
+      status: 'skipped',
+      plan: { remainingBudget: '0' },
+    });
+    expect(swapper.quote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { WebhookTriggerHandler } from '../../../src/workers/handlers/WebhookTriggerHandler';
+import { BlockExecutionContext } from '@zzyra/types';
+
+describe('WebhookTriggerHandler', () => {
+  let handler: WebhookTriggerHandler;
+  let findById: jest.Mock;
+  let outbound: { execute: jest.Mock };
+
+  const ctx = {
+    nodeId: 'webhook-1',
+    executionId: 'test-execution-id',
+    workflowId: 'test-workflow-id',
+    userId: 'test-user-id',
+    inputs: {},
+    config: {},
+    previousOutputs: {},
+    logger: {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    },
+  } as unknown as BlockExecutionContext;
+
+  const node = {
+    id: 'webhook-1',
+    data: { blockType: 'WEBHOOK', config: { url: '', method: 'POST' } },
+  };
+
+  beforeEach(() => {
+    findById = jest.fn();
+    outbound = {
+      execute: jest.fn().mockResolvedValue({
+        statusCode: 200,
+        data: { ok: true },
+        success: true,
+      }),
+    };
+    handler = new WebhookTriggerHandler(
+      { executions: { findById } } as any,
+      outbound as any,
+    );
+  });
+
+  it('should output the inbound request for the webhook entry node', async () => {
+    findById.mockResolvedValue({
+      triggerType: 'webhook',
+      input: {
+        trigger: 'webhook',
+        nodeId: 'webhook-1',
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        query: { source: 'github' },
+        body: { action: 'opened' },
+        receivedAt: '2025-08-22T09:00:00.000Z',
+      },
+    });
+
+    const result = await handler.execute(node, ctx);
+
+    expect(result).toMatchObject({
+      success: true,
+      triggered: true,
+      method: 'POST',
+      body: { action: 'opened' },
+      headers: { 'content-type': 'application/json' },
+      query: { source: 'github' },
+      receivedAt: '2025-08-22T09:00:00.000Z',
+    });
+    expect(outbound.execute).not.toHaveBeenCalled();
+  });
+
+  it('should send an outbound request when not started by a webhook', async () => {
+    findById.mockResolvedValue({ triggerType: 'manual', input: {} });
+
+    const result = await handler.execute(node, ctx);
+
+    expect(outbound.execute).toHaveBeenCalledWith(node, ctx);
+    expect(result.statusCode).toBe(200);
+    expect(result.response).toEqual({ ok: true });
+  });
+
+  it('should send an outbound request from a non-entry webhook node', async () => {
+    findById.mockResolvedValue({
+      triggerType: 'webhook',
+      input: { trigger: 'webhook', nodeId: 'another-node' },
+    });
+
+    await handler.execute(node, ctx);
+
+    expect(outbound.execute).toHaveBeenCalled();
+  });
+});
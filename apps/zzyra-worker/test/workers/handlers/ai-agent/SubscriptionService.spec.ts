@@ -0,0 +1,100 @@
+import { SubscriptionService } from '../../../../src/workers/handlers/ai-agent/SubscriptionService';
+
+jest.mock('../../../../src/services/database.service', () => ({
+  DatabaseService: jest.fn(),
+}));
+// Only the feature helpers, without connecting to the database
+jest.mock('@zzyra/database', () =>
+  jest.requireActual('@zzyra/database/dist/policies/subscription-features'),
+);
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  let findByUserId: jest.Mock;
+
+  const subscription = (overrides: Record<string, unknown> = {}) => ({
+    userId: 'user-1',
+    status: 'active',
+    cancelAtPeriodEnd: false,
+    canceledAt: null,
+    currentPeriodEnd: new Date(Date.now() - 1000),
+    tier: {
+      name: 'Pro',
+      features: { advanced_thinking: true, collaborative_thinking: false },
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    findByUserId = jest.fn();
+    service = new SubscriptionService({
+      subscriptions: { findByUserId },
+    } as any);
+  });
+
+  it('should read the features of the tier from the database', async () => {
+    findByUserId.mockResolvedValue(subscription());
+
+    await expect(service.getUserSubscription('user-1')).resolves.toEqual({
+      userId: 'user-1',
+      plan: 'pro',
+      status: 'active',
+      features: ['advanced_thinking'],
+      expiresAt: undefined,
+    });
+    await expect(service.canUseAdvancedThinking('user-1')).resolves.toBe(true);
+    await expect(service.canUseCollaborativeThinking('user-1')).resolves.toBe(
+      false,
+    );
+    await expect(service.getAvailableThinkingModes('user-1')).resolves.toEqual([
+      'fast',
+      'deliberate',
+    ]);
+    expect(findByUserId).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept tiers that list their features', async () => {
+    findByUserId.mockResolvedValue(
+      subscription({
+        tier: { name: 'Enterprise', features: ['collaborative_thinking'] },
+      }),
+    );
+
+    await expect(service.canUseCollaborativeThinking('user-1')).resolves.toBe(
+      true,
+    );
+  });
+
+  it('should deny features of inactive subscriptions', async () => {
+    findByUserId.mockResolvedValue(subscription({ status: 'past_due' }));
+
+    await expect(
+      service.checkFeatureAccess('user-1', 'advanced_thinking'),
+    ).resolves.toEqual({
+      feature: 'advanced_thinking',
+      allowed: false,
+      reason: 'Subscription is past_due',
+    });
+  });
+
+  it('should deny features once a cancelled subscription ran out', async () => {
+    findByUserId.mockResolvedValue(subscription({ cancelAtPeriodEnd: true }));
+
+    await expect(
+      service.checkFeatureAccess('user-1', 'advanced_thinking'),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        allowed: false,
+        reason: 'Subscription has expired',
+      }),
+    );
+  });
+
+  it('should only offer fast thinking without a subscription', async () => {
+    findByUserId.mockResolvedValue(null);
+
+    await expect(service.getAvailableThinkingModes('user-1')).resolves.toEqual([
+      'fast',
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { BlockType } from '@zzyra/types';
+import { ExecutionErrorType } from '../../src/workers/execution-errors';
+import {
+  createQuotaExceededError,
+  getMeteredResource,
+} from '../../src/workers/quota';
+
+describe('quota', () => {
+  const period = {
+    periodStart: new Date('2025-09-01T00:00:00.000Z'),
+    periodEnd: new Date('2025-10-01T00:00:00.000Z'),
+  };
+
+  describe('getMeteredResource', () => {
+    it('should meter AI agents and transactions', () => {
+      expect(getMeteredResource(BlockType.AI_AGENT)).toBe('ai_tokens');
+      expect(getMeteredResource(BlockType.SEND_TRANSACTION)).toBe(
+        'transactions',
+      );
+      expect(getMeteredResource(BlockType.SWAP_TOKENS)).toBe('transactions');
+      expect(getMeteredResource(BlockType.HTTP_REQUEST)).toBeUndefined();
+      expect(getMeteredResource(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('createQuotaExceededError', () => {
+    it('should carry the balance of the exhausted quota', () => {
+      const error = createQuotaExceededError(
+        {
+          resource: 'executions',
+          limit: 100,
+          used: 100,
+          remaining: 0,
+          ...period,
+        },
+        { userId: 'user-1' },
+      );
+
+      expect(error.type).toBe(ExecutionErrorType.QUOTA_EXCEEDED_ERROR);
+      expect(error.isRetryable).toBe(false);
+      expect(error.message).toBe(
+        'Execution quota exceeded: 100 of 100 used, resets on 2025-10-01T00:00:00.000Z',
+      );
+      expect(error.context).toEqual({
+        userId: 'user-1',
+        quota: {
+          resource: 'executions',
+          limit: 100,
+          used: 100,
+          remaining: 0,
+          periodStart: '2025-09-01T00:00:00.000Z',
+          periodEnd: '2025-10-01T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('should describe the concurrent run limit as runs in progress', () => {
+      const error = createQuotaExceededError({
+        resource: 'concurrent_runs',
+        limit: 1,
+        used: 1,
+        remaining: 0,
+        ...period,
+      });
+
+      expect(error.message).toBe(
+        'Concurrent run limit exceeded: 1 of 1 runs in progress',
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from '../../src/workers/retry-policy';
+import {
+  EnhancedExecutionError,
+  ExecutionErrorType,
+  classifyExecutionError,
+} from '../../src/workers/execution-errors';
+
+describe('retry policy', () => {
+  const defaults = { maxAttempts: 3, delayMs: 1000, timeoutMs: 300000 };
+
+  describe('resolveRetryPolicy', () => {
+    it('should fall back to the worker defaults', () => {
+      expect(resolveRetryPolicy({}, defaults)).toEqual({
+        maxAttempts: 3,
+        backoff: 'exponential',
+        delayMs: 1000,
+        maxDelayMs: 30000,
+        retryOn: undefined,
+        timeoutMs: 300000,
+      });
+    });
+
+    it('should read the policy from the node data or its config', () => {
+      const policy = {
+        maxAttempts: 5,
+        backoff: 'fixed',
+        delayMs: 250,
+        retryOn: ['network_error'],
+        timeoutMs: 10000,
+      };
+
+      expect(resolveRetryPolicy({ retryPolicy: policy }, defaults)).toEqual(
+        expect.objectContaining(policy),
+      );
+      expect(
+        resolveRetryPolicy({ config: { retryPolicy: policy } }, defaults),
+      ).toEqual(expect.objectContaining(policy));
+    });
+
+    it('should ignore invalid values', () => {
+      const policy = resolveRetryPolicy(
+        {
+          retryPolicy: {
+            maxAttempts: -1,
+            backoff: 'linear',
+            timeoutMs: 'soon',
+          },
+        },
+        defaults,
+      );
+
+      expect(policy.maxAttempts).toBe(3);
+      expect(policy.backoff).toBe('exponential');
+      expect(policy.timeoutMs).toBe(300000);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const policy = resolveRetryPolicy(
+      { retryPolicy: { delayMs: 1000, maxDelayMs: 5000 } },
+      defaults,
+    );
+
+    it('should double the delay for each exponential attempt', () => {
+      expect(getRetryDelay(policy, 1)).toBe(1000);
+      expect(getRetryDelay(policy, 2)).toBe(2000);
+      expect(getRetryDelay(policy, 3)).toBe(4000);
+      expect(getRetryDelay(policy, 4)).toBe(5000);
+    });
+
+    it('should keep fixed delays constant', () => {
+      const fixed = { ...policy, backoff: 'fixed' as const };
+
+      expect(getRetryDelay(fixed, 1)).toBe(1000);
+      expect(getRetryDelay(fixed, 3)).toBe(1000);
+    });
+
+    it('should pick a jittered delay up to the exponential one', () => {
+      const jitter = { ...policy, backoff: 'jitter' as const };
+
+      expect(getRetryDelay(jitter, 3, () => 0.5)).toBe(2000);
+      expect(getRetryDelay(jitter, 3, () => 0)).toBe(0);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should use the error classification without retryOn', () => {
+      const policy = resolveRetryPolicy({}, defaults);
+
+      expect(
+        isRetryableError(
+          policy,
+          classifyExecutionError(new Error('fetch failed')),
+        ),
+      ).toBe(true);
+      expect(
+        isRetryableError(
+          policy,
+          classifyExecutionError(new Error('401 unauthorized')),
+        ),
+      ).toBe(false);
+    });
+
+    it('should only retry the listed error types', () => {
+      const policy = resolveRetryPolicy(
+        { retryPolicy: { retryOn: ['timeout_error'] } },
+        defaults,
+      );
+
+      expect(
+        isRetryableError(
+          policy,
+          new EnhancedExecutionError(ExecutionErrorType.TIMEOUT_ERROR, 'slow'),
+        ),
+      ).toBe(true);
+      expect(
+        isRetryableError(policy, classifyExecutionError(new Error('HTTP 503'))),
+      ).toBe(false);
+    });
+  });
+});
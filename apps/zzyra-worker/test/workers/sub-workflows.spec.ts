@@ -0,0 +1,135 @@
+import { BlockType } from '@zzyra/types';
+import {
+  assertCallDepth,
+  createSubWorkflowTriggerOutput,
+  getSubWorkflowTriggerIds,
+  mapSubWorkflowInputs,
+  resolveSubWorkflowOptions,
+  validateSyncSubWorkflow,
+} from '../../src/workers/sub-workflows';
+
+describe('sub-workflows', () => {
+  const node = (id: string, blockType: BlockType) => ({
+    id,
+    type: 'custom',
+    position: { x: 0, y: 0 },
+    data: { blockType, label: id, config: {} },
+  });
+
+  it('should resolve options and require a workflow', () => {
+    expect(resolveSubWorkflowOptions({ workflowId: ' wf-1 ' })).toEqual({
+      workflowId: 'wf-1',
+      mode: 'sync',
+      inputs: {},
+    });
+    expect(
+      resolveSubWorkflowOptions({
+        workflowId: 'wf-1',
+        mode: 'async',
+        inputs: { to: 'a@b.c' },
+      }),
+    ).toEqual({ workflowId: 'wf-1', mode: 'async', inputs: { to: 'a@b.c' } });
+    expect(() => resolveSubWorkflowOptions({ mode: 'sync' })).toThrow(
+      'EXECUTE_WORKFLOW block needs the id of a workflow',
+    );
+  });
+
+  it('should reject sync runs of workflows that pause', () => {
+    const policy = { confirmOperations: [], timeoutMinutes: 60 };
+    const send = {
+      ...node('send', BlockType.SEND_TRANSACTION),
+      data: {
+        blockType: BlockType.SEND_TRANSACTION,
+        label: 'send',
+        config: { amount: '5' },
+      },
+    };
+
+    expect(() =>
+      validateSyncSubWorkflow(
+        'Payout',
+        [node('hook', BlockType.WEBHOOK), node('wait', BlockType.WAIT)],
+        policy,
+      ),
+    ).toThrow('Workflow Payout waits at node wait; run it with mode "async"');
+    expect(() =>
+      validateSyncSubWorkflow(
+        'Payout',
+        [node('approve', BlockType.APPROVAL)],
+        policy,
+      ),
+    ).toThrow('Workflow Payout needs an approval at node approve');
+    expect(() =>
+      validateSyncSubWorkflow('Payout', [send], {
+        ...policy,
+        amountThreshold: 1,
+      }),
+    ).toThrow('Workflow Payout needs an approval at node send');
+    expect(() =>
+      validateSyncSubWorkflow(
+        'Payout',
+        [node('hook', BlockType.WEBHOOK), send],
+        policy,
+      ),
+    ).not.toThrow();
+  });
+
+  it('should stop runs nested deeper than the limit', () => {
+    expect(() => assertCallDepth(3, 3)).not.toThrow();
+    expect(() => assertCallDepth(4, 3)).toThrow(
+      'Sub-workflows can be nested 3 levels deep; this run would be level 4',
+    );
+  });
+
+  it('should evaluate the strings of the input mapping', () => {
+    const evaluate = (template: string) =>
+      template === '{{ data.price }}' ? 1850.5 : template.toUpperCase();
+
+    expect(
+      mapSubWorkflowInputs(
+        {
+          price: '{{ data.price }}',
+          limit: 2000,
+          alert: { channel: 'email', tags: ['eth', null] },
+        },
+        evaluate,
+      ),
+    ).toEqual({
+      price: 1850.5,
+      limit: 2000,
+      alert: { channel: 'EMAIL', tags: ['ETH', null] },
+    });
+  });
+
+  it('should find the trigger nodes a sub-workflow run starts from', () => {
+    const nodes = [
+      node('webhook', BlockType.WEBHOOK),
+      node('schedule', BlockType.SCHEDULE),
+      node('fetch', BlockType.HTTP_REQUEST),
+      node('email', BlockType.EMAIL),
+    ];
+    const edges = [
+      { id: 'e1', source: 'webhook', target: 'email' },
+      { id: 'e2', source: 'fetch', target: 'email' },
+    ];
+
+    expect(Array.from(getSubWorkflowTriggerIds(nodes, edges))).toEqual([
+      'webhook',
+      'schedule',
+    ]);
+  });
+
+  it('should output the mapped input from the trigger', () => {
+    expect(
+      createSubWorkflowTriggerOutput({
+        callerExecutionId: 'exec-1',
+        input: { price: 1850.5 },
+      }),
+    ).toEqual({
+      triggered: true,
+      triggerType: 'workflow',
+      callerExecutionId: 'exec-1',
+      input: { price: 1850.5 },
+    });
+  });
+});
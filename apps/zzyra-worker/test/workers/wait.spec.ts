@@ -0,0 +1,116 @@
+import {
+  createWaitOutput,
+  getTimerDelay,
+  parseWaitUntil,
+  resolveWaitPlan,
+} from '../../src/workers/wait';
+
+describe('wait', () => {
+  const now = new Date('2025-09-07T10:30:00.000Z');
+
+  describe('resolveWaitPlan', () => {
+    it('should add the duration in its unit', () => {
+      expect(
+        resolveWaitPlan({ duration: 2, unit: 'hours' }, now).resumeAt,
+      ).toEqual(new Date('2025-09-07T12:30:00.000Z'));
+      expect(resolveWaitPlan({ duration: 30 }, now)).toEqual({
+        mode: 'duration',
+        resumeAt: new Date('2025-09-07T11:00:00.000Z'),
+      });
+      expect(() => resolveWaitPlan({ duration: 0 }, now)).toThrow(
+        'WAIT block needs a positive duration',
+      );
+    });
+
+    it('should wait until an evaluated time', () => {
+      const plan = resolveWaitPlan(
+        { mode: 'until', until: '{{ json.at }}' },
+        now,
+        () => '2025-09-08T09:00:00Z',
+      );
+
+      expect(plan).toEqual({
+        mode: 'until',
+        resumeAt: new Date('2025-09-08T09:00:00.000Z'),
+      });
+    });
+
+    it('should generate the token of a callback', () => {
+      const generated = resolveWaitPlan({ mode: 'callback' }, now);
+      expect(generated.callbackToken).toMatch(/^[\w-]{32}$/);
+      expect(generated.correlationId).toBeUndefined();
+      expect(generated.resumeAt).toEqual(new Date('2025-10-07T10:30:00.000Z'));
+    });
+
+    it('should not use a configured token as the credential', () => {
+      const plan = resolveWaitPlan(
+        { mode: 'callback', correlationToken: 'order-7', timeoutMinutes: 60 },
+        now,
+      );
+
+      expect(plan).toEqual({
+        mode: 'callback',
+        resumeAt: new Date('2025-09-07T11:30:00.000Z'),
+        callbackToken: expect.stringMatching(/^[\w-]{32}$/),
+        correlationId: 'order-7',
+      });
+      expect(plan.callbackToken).not.toBe('order-7');
+      expect(
+        resolveWaitPlan({ mode: 'callback', correlationToken: 'order-7' }, now)
+          .callbackToken,
+      ).not.toBe(plan.callbackToken);
+    });
+
+    it('should reject waits longer than the limit', () => {
+      expect(() =>
+        resolveWaitPlan({ duration: 31, unit: 'days' }, now),
+      ).toThrow('WAIT blocks can wait up to 30 days');
+    });
+  });
+
+  it('should read a time of day as its next occurrence in UTC', () => {
+    expect(parseWaitUntil('09:00', now)).toEqual(
+      new Date('2025-09-08T09:00:00.000Z'),
+    );
+    expect(parseWaitUntil('12:15', now)).toEqual(
+      new Date('2025-09-07T12:15:00.000Z'),
+    );
+    expect(() => parseWaitUntil('25:00', now)).toThrow(
+      'WAIT block cannot read "25:00" as a time of day',
+    );
+    expect(() => parseWaitUntil('tomorrow', now)).toThrow(
+      'use an ISO date-time or HH:mm',
+    );
+  });
+
+  it('should split long timers into hops', () => {
+    const in2Hours = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+
+    expect(getTimerDelay(in2Hours, now, 60000)).toBe(60000);
+    expect(getTimerDelay(new Date(now.getTime() + 5000), now, 60000)).toBe(
+      5000,
+    );
+    expect(getTimerDelay(new Date(now.getTime() - 5000), now, 60000)).toBe(0);
+  });
+
+  it('should report a callback that never arrived as timed out', () => {
+    const createdAt = new Date('2025-09-07T08:00:00.000Z');
+
+    expect(createWaitOutput({ createdAt }, now)).toEqual({
+      resumedBy: 'timer',
+      waitedSince: '2025-09-07T08:00:00.000Z',
+      resumedAt: '2025-09-07T10:30:00.000Z',
+      timedOut: false,
+    });
+    expect(
+      createWaitOutput(
+        { createdAt, callbackToken: 'abc', correlationId: 'order-7' },
+        now,
+      ),
+    ).toMatchObject({
+      resumedBy: 'timeout',
+      timedOut: true,
+      correlationId: 'order-7',
+    });
+  });
+});
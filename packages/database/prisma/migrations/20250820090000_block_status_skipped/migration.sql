@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "block_status" ADD VALUE 'skipped';
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "workflow_schedules" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "node_id" TEXT NOT NULL,
+    "cron_expression" TEXT,
+    "interval_seconds" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "catch_up_policy" TEXT NOT NULL DEFAULT 'latest',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "last_execution_id" TEXT,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_schedules_workflow_id_key" ON "workflow_schedules"("workflow_id");
+
+-- CreateIndex
+CREATE INDEX "workflow_schedules_is_active_next_run_at_idx" ON "workflow_schedules"("is_active", "next_run_at");
+
+-- AddForeignKey
+ALTER TABLE "workflow_schedules" ADD CONSTRAINT "workflow_schedules_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
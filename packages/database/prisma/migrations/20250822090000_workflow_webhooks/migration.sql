@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "workflow_webhooks" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "node_id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "signing_secret" TEXT NOT NULL,
+    "verify_signature" BOOLEAN NOT NULL DEFAULT false,
+    "signature_header" TEXT NOT NULL DEFAULT 'x-zzyra-signature',
+    "response_mode" TEXT NOT NULL DEFAULT 'async',
+    "response_timeout_ms" INTEGER NOT NULL DEFAULT 30000,
+    "response_node_id" TEXT,
+    "rate_limit_per_minute" INTEGER NOT NULL DEFAULT 60,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_triggered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_webhooks_workflow_id_key" ON "workflow_webhooks"("workflow_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_webhooks_token_key" ON "workflow_webhooks"("token");
+
+-- AddForeignKey
+ALTER TABLE "workflow_webhooks" ADD CONSTRAINT "workflow_webhooks_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
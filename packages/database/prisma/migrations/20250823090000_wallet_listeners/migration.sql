@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "wallet_listeners" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "node_id" TEXT NOT NULL,
+    "network" TEXT NOT NULL,
+    "chain_id" INTEGER NOT NULL,
+    "rpc_url" TEXT,
+    "wallet_addresses" TEXT[],
+    "event_types" TEXT[],
+    "min_amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "token_denom" TEXT,
+    "event_signature" TEXT,
+    "poll_interval_seconds" INTEGER NOT NULL DEFAULT 30,
+    "start_block" BIGINT,
+    "last_processed_block" BIGINT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_polled_at" TIMESTAMP(3),
+    "last_event_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wallet_listeners_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_listeners_workflow_id_key" ON "wallet_listeners"("workflow_id");
+
+-- CreateIndex
+CREATE INDEX "wallet_listeners_is_active_idx" ON "wallet_listeners"("is_active");
+
+-- AddForeignKey
+ALTER TABLE "wallet_listeners" ADD CONSTRAINT "wallet_listeners_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "dca_plans" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "node_id" TEXT NOT NULL,
+    "chain_id" TEXT NOT NULL,
+    "side" TEXT NOT NULL DEFAULT 'buy',
+    "base_token" TEXT NOT NULL,
+    "quote_token" TEXT NOT NULL,
+    "amount_per_interval" DECIMAL(38,18) NOT NULL,
+    "total_budget" DECIMAL(38,18),
+    "min_price" DECIMAL(38,18),
+    "max_price" DECIMAL(38,18),
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "fill_count" INTEGER NOT NULL DEFAULT 0,
+    "total_spent" DECIMAL(38,18) NOT NULL DEFAULT 0,
+    "total_received" DECIMAL(38,18) NOT NULL DEFAULT 0,
+    "average_price" DECIMAL(38,18),
+    "last_fill_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dca_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dca_fills" (
+    "id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "execution_id" TEXT,
+    "transaction_hash" TEXT NOT NULL,
+    "amount_in" DECIMAL(38,18) NOT NULL,
+    "amount_out" DECIMAL(38,18) NOT NULL,
+    "price" DECIMAL(38,18) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dca_fills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dca_plans_user_id_idx" ON "dca_plans"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dca_plans_workflow_id_node_id_key" ON "dca_plans"("workflow_id", "node_id");
+
+-- CreateIndex
+CREATE INDEX "dca_fills_plan_id_idx" ON "dca_fills"("plan_id");
+
+-- AddForeignKey
+ALTER TABLE "dca_plans" ADD CONSTRAINT "dca_plans_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dca_fills" ADD CONSTRAINT "dca_fills_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "dca_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "node_execution_attempts" (
+    "id" TEXT NOT NULL,
+    "node_execution_id" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "error_type" TEXT,
+    "error" TEXT,
+    "retry_delay_ms" INTEGER,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "finished_at" TIMESTAMP(3) NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+
+    CONSTRAINT "node_execution_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "node_execution_attempts_node_execution_id_idx" ON "node_execution_attempts"("node_execution_id");
+
+-- AddForeignKey
+ALTER TABLE "node_execution_attempts" ADD CONSTRAINT "node_execution_attempts_node_execution_id_fkey" FOREIGN KEY ("node_execution_id") REFERENCES "node_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
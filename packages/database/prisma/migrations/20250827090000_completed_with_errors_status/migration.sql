@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "workflow_status" ADD VALUE 'completed_with_errors';
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN "workflow_version_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "nodes" JSONB NOT NULL DEFAULT '[]',
+    "edges" JSONB NOT NULL DEFAULT '[]',
+    "checksum" TEXT NOT NULL,
+    "message" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_versions_workflow_id_version_key" ON "workflow_versions"("workflow_id", "version");
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_workflow_version_id_idx" ON "workflow_executions"("workflow_version_id");
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_workflow_version_id_fkey" FOREIGN KEY ("workflow_version_id") REFERENCES "workflow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Snapshot the current definition of existing workflows. The checksum is
+-- only compared to detect unchanged saves, so the next save of these
+-- workflows always creates a version.
+INSERT INTO "workflow_versions" ("id", "workflow_id", "version", "name", "description", "nodes", "edges", "checksum", "message", "created_by", "created_at")
+SELECT
+    gen_random_uuid()::text,
+    "id",
+    "version",
+    "name",
+    "description",
+    COALESCE("nodes", '[]'),
+    COALESCE("edges", '[]'),
+    md5(COALESCE("nodes", '[]')::text || COALESCE("edges", '[]')::text),
+    'Imported existing definition',
+    "user_id",
+    COALESCE("updated_at", CURRENT_TIMESTAMP)
+FROM "workflows";
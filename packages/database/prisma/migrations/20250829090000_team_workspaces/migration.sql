@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN "team_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "custom_blocks" ADD COLUMN "team_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "workflows_team_id_idx" ON "workflows"("team_id");
+
+-- CreateIndex
+CREATE INDEX "custom_blocks_team_id_idx" ON "custom_blocks"("team_id");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_blocks" ADD CONSTRAINT "custom_blocks_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Map the roles written by the old UI to the new ones
+UPDATE "team_members" SET "role" = 'editor' WHERE "role" = 'admin';
+UPDATE "team_members" SET "role" = 'viewer' WHERE "role" NOT IN ('owner', 'editor', 'executor', 'viewer');
+
+-- Make sure every team creator is an owner of the team
+INSERT INTO "team_members" ("team_id", "user_id", "role", "joined_at")
+SELECT "id", "created_by", 'owner', COALESCE("created_at", CURRENT_TIMESTAMP)
+FROM "teams"
+ON CONFLICT ("team_id", "user_id") DO UPDATE SET "role" = 'owner';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "workflow_pauses" ADD COLUMN "approvers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "proposed_action" JSONB,
+ADD COLUMN "expires_at" TIMESTAMP(3),
+ADD COLUMN "default_action" TEXT;
+
+-- CreateIndex
+CREATE INDEX "workflow_pauses_expires_at_idx" ON "workflow_pauses"("expires_at");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "pricing_tiers" ADD COLUMN "stripe_price_id_monthly" TEXT,
+ADD COLUMN "stripe_price_id_yearly" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pricing_tiers_stripe_price_id_monthly_key" ON "pricing_tiers"("stripe_price_id_monthly");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pricing_tiers_stripe_price_id_yearly_key" ON "pricing_tiers"("stripe_price_id_yearly");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscriptions_stripe_subscription_id_key" ON "subscriptions"("stripe_subscription_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_invoices_stripe_invoice_id_key" ON "subscription_invoices"("stripe_invoice_id");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "pricing_tiers" ADD COLUMN "ai_token_limit" INTEGER,
+ADD COLUMN "transaction_limit" INTEGER,
+ADD COLUMN "concurrent_run_limit" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "usage_logs_user_id_resource_type_created_at_idx" ON "usage_logs"("user_id", "resource_type", "created_at");
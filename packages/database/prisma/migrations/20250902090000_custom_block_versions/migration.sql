@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "custom_block_versions" (
+    "id" TEXT NOT NULL,
+    "custom_block_id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "logic_type" TEXT NOT NULL,
+    "block_data" JSONB NOT NULL DEFAULT '{}',
+    "changelog" TEXT,
+    "published_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "custom_block_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_block_versions_custom_block_id_version_key" ON "custom_block_versions"("custom_block_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "custom_block_versions" ADD CONSTRAINT "custom_block_versions_custom_block_id_fkey" FOREIGN KEY ("custom_block_id") REFERENCES "custom_blocks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Published versions are never changed, only deleted with their block
+CREATE FUNCTION "prevent_custom_block_version_update"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Published custom block versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "custom_block_versions_immutable"
+BEFORE UPDATE ON "custom_block_versions"
+FOR EACH ROW EXECUTE FUNCTION "prevent_custom_block_version_update"();
+
+-- Publish the current definition of existing blocks, so the workflows that
+-- use them keep running it. Free-form versions are replaced by 1.0.0.
+UPDATE "custom_blocks"
+SET "version" = '1.0.0'
+WHERE "version" IS NULL
+   OR "version" !~ '^(0|[1-9][0-9]*)\.(0|[1-9][0-9]*)\.(0|[1-9][0-9]*)$';
+
+INSERT INTO "custom_block_versions" ("id", "custom_block_id", "version", "name", "description", "category", "code", "logic_type", "block_data", "changelog", "published_by", "created_at")
+SELECT
+    gen_random_uuid()::text,
+    "id",
+    "version",
+    "name",
+    "description",
+    "category",
+    "code",
+    "logic_type",
+    COALESCE("block_data", '{}'),
+    'Imported existing definition',
+    "user_id",
+    COALESCE("updated_at", CURRENT_TIMESTAMP)
+FROM "custom_blocks";
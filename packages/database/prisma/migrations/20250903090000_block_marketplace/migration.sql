@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "block_library" ADD COLUMN "custom_block_id" TEXT,
+ADD COLUMN "rating_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "scan_report" JSONB,
+ADD COLUMN "verified_at" TIMESTAMP(3),
+ADD COLUMN "verified_by" TEXT;
+
+-- AlterTable
+ALTER TABLE "block_library_ratings" ADD COLUMN "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "custom_blocks" ADD COLUMN "library_block_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "block_library_custom_block_id_idx" ON "block_library"("custom_block_id");
+
+-- CreateIndex
+CREATE INDEX "custom_blocks_library_block_id_idx" ON "custom_blocks"("library_block_id");
+
+-- AddForeignKey
+ALTER TABLE "block_library" ADD CONSTRAINT "block_library_custom_block_id_fkey" FOREIGN KEY ("custom_block_id") REFERENCES "custom_blocks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_blocks" ADD CONSTRAINT "custom_blocks_library_block_id_fkey" FOREIGN KEY ("library_block_id") REFERENCES "block_library"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Count the existing ratings
+UPDATE "block_library" AS "block"
+SET "rating_count" = "counts"."count"
+FROM (
+    SELECT "block_id", COUNT(*)::integer AS "count"
+    FROM "block_library_ratings"
+    GROUP BY "block_id"
+) AS "counts"
+WHERE "counts"."block_id" = "block"."id";
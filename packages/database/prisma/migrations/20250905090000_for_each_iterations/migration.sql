@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN "loop_node_id" TEXT,
+ADD COLUMN "iteration" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "node_executions_execution_id_loop_node_id_idx" ON "node_executions"("execution_id", "loop_node_id");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN "caller_execution_id" TEXT,
+ADD COLUMN "caller_node_id" TEXT,
+ADD COLUMN "call_depth" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_caller_execution_id_idx" ON "workflow_executions"("caller_execution_id");
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_caller_execution_id_fkey" FOREIGN KEY ("caller_execution_id") REFERENCES "workflow_executions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "workflow_pauses" ADD COLUMN "resume_at" TIMESTAMP(3),
+ADD COLUMN "callback_token" TEXT;
+
+-- CreateIndex
+CREATE INDEX "workflow_pauses_callback_token_idx" ON "workflow_pauses"("callback_token");
+
+-- CreateIndex
+CREATE INDEX "workflow_pauses_resume_at_idx" ON "workflow_pauses"("resume_at");
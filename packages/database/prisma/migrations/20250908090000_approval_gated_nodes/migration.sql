@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "workflow_pauses" ADD COLUMN "gated_node_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
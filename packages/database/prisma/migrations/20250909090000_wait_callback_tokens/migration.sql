@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "workflow_pauses" ADD COLUMN "correlation_id" TEXT;
+
+-- Tokens could be chosen by users before and repeat; keep the newest
+UPDATE "workflow_pauses" AS "pause"
+SET "callback_token" = NULL
+WHERE "callback_token" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "workflow_pauses" AS "other"
+    WHERE "other"."callback_token" = "pause"."callback_token"
+      AND ("other"."created_at", "other"."id") > ("pause"."created_at", "pause"."id")
+  );
+
+-- DropIndex
+DROP INDEX "workflow_pauses_callback_token_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_pauses_callback_token_key" ON "workflow_pauses"("callback_token");
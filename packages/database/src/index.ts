@@ -23,9 +23,27 @@ export * from "./types";
 export * from "./repositories/base.repository";
 export * from "./repositories/user.repository";
 export * from "./repositories/workflow.repository";
+export * from "./repositories/workflow-version.repository";
 export * from "./repositories/execution.repository";
 export * from "./repositories/wallet.repository";
 export * from "./repositories/notification.repository";
+export * from "./repositories/schedule.repository";
+export * from "./repositories/webhook.repository";
+export * from "./repositories/wallet-listener.repository";
+export * from "./repositories/dca-plan.repository";
+export * from "./repositories/team.repository";
+export * from "./repositories/subscription.repository";
+export * from "./repositories/usage.repository";
+export * from "./repositories/custom-block-version.repository";
+export * from "./repositories/block-library.repository";
+export * from "./repositories/credential.repository";
+
+// Export team roles and permissions
+export * from "./policies/team-permissions";
+export * from "./policies/subscription-features";
+export * from "./policies/plan-quotas";
+export * from "./policies/custom-block-versions";
+export * from "./policies/credentials";
 
 // Export authentication
 export * from "./auth/types";
@@ -0,0 +1,153 @@
+/**
+ * Credentials
+ *
+ * Encryption of named secrets at rest, the `{{credentials.name}}`
+ * references block configs use for them, and redaction of their values
+ * from logs and outputs.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { promisify } from "util";
+
+// Same layout as session keys: salt, IV and auth tag before the ciphertext
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 16;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 32;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export const CREDENTIAL_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+
+// Matches {{credentials.name}}, with optional spaces inside the braces
+export const CREDENTIAL_REFERENCE_PATTERN =
+  /\{\{\s*credentials\.([A-Za-z][A-Za-z0-9_-]{0,63})\s*\}\}/g;
+
+export const REDACTED_VALUE = "[REDACTED]";
+
+export const isValidCredentialName = (name: string): boolean =>
+  CREDENTIAL_NAME_PATTERN.test(name);
+
+/**
+ * Encrypt a credential value. The owner is authenticated with the value, so
+ * a ciphertext cannot be moved to another user's credential.
+ * @param value The secret
+ * @param encryptionKey The server secret the key is derived from
+ * @param owner The user ID of the owner
+ * @returns The base64 encoded ciphertext
+ */
+export async function encryptCredential(
+  value: string,
+  encryptionKey: string,
+  owner: string
+): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await scryptAsync(encryptionKey, salt, KEY_LENGTH);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(owner, "utf8"));
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]).toString(
+    "base64"
+  );
+}
+
+/**
+ * Decrypt a credential value
+ * @param encryptedValue The ciphertext from encryptCredential
+ * @param encryptionKey The server secret it was encrypted with
+ * @param owner The user ID of the owner
+ * @returns The secret
+ * @throws When the key or owner is wrong or the ciphertext was changed
+ */
+export async function decryptCredential(
+  encryptedValue: string,
+  encryptionKey: string,
+  owner: string
+): Promise<string> {
+  const combined = Buffer.from(encryptedValue, "base64");
+  const salt = combined.subarray(0, SALT_LENGTH);
+  const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const tag = combined.subarray(
+    SALT_LENGTH + IV_LENGTH,
+    SALT_LENGTH + IV_LENGTH + TAG_LENGTH
+  );
+  const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+  const key = await scryptAsync(encryptionKey, salt, KEY_LENGTH);
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(owner, "utf8"));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+/**
+ * Find the names of the credentials a value references, in strings at any
+ * depth
+ * @param value A config or node data
+ * @returns The distinct names
+ */
+export function findCredentialReferences(value: unknown): string[] {
+  const names = new Set<string>();
+  const visit = (item: unknown) => {
+    if (typeof item === "string") {
+      for (const match of item.matchAll(CREDENTIAL_REFERENCE_PATTERN)) {
+        names.add(match[1]);
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (item && typeof item === "object") {
+      Object.values(item).forEach(visit);
+    }
+  };
+  visit(value);
+  return [...names];
+}
+
+/**
+ * Replace the values of credentials wherever they appear in strings at any
+ * depth. Very short values are left alone, as redacting them would mangle
+ * unrelated text.
+ * @param value A log entry, output or error message
+ * @param secrets The decrypted credential values
+ * @returns A copy with the secrets replaced
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  const redactable = secrets
+    .filter((secret) => secret.length >= 4)
+    .sort((a, b) => b.length - a.length);
+  if (!redactable.length) {
+    return value;
+  }
+
+  const redact = (item: unknown): unknown => {
+    if (typeof item === "string") {
+      return redactable.reduce(
+        (text, secret) => text.split(secret).join(REDACTED_VALUE),
+        item
+      );
+    }
+    if (Array.isArray(item)) {
+      return item.map(redact);
+    }
+    if (item && typeof item === "object" && !(item instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, child]) => [key, redact(child)])
+      );
+    }
+    return item;
+  };
+  return redact(value) as T;
+}
@@ -0,0 +1,288 @@
+/**
+ * Custom Block Versions
+ *
+ * Semantic versions of published custom blocks, the ranges workflow nodes
+ * pin them with, and the compatibility of the input and output schemas of
+ * two versions.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * Versions a range allows: at least `min`, and below `max` when set
+ */
+interface VersionBounds {
+  min: SemVer;
+  max: SemVer | null;
+}
+
+export const FIRST_BLOCK_VERSION = "1.0.0";
+
+const VERSION_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
+const PARTIAL_PATTERN = /^(0|[1-9]\d*)(?:\.(0|[1-9]\d*|x|\*))?(?:\.(x|\*))?$/;
+const ANY_VERSION = ["", "*", "x", "latest"];
+
+/**
+ * Parse a version of the form MAJOR.MINOR.PATCH
+ * @param version The version
+ * @returns The parsed version, or null when it is not valid
+ */
+export function parseVersion(
+  version: string | null | undefined
+): SemVer | null {
+  const match = VERSION_PATTERN.exec((version ?? "").trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+  };
+}
+
+export function isValidVersion(version: string | null | undefined): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions
+ * @returns A negative number when a is lower, positive when higher, 0 when equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${left ? b : a}`);
+  }
+  return compareSemVer(left, right);
+}
+
+function compareSemVer(a: SemVer, b: SemVer): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Bounds of a range. Supported are exact versions ("1.2.3"), caret ranges
+ * ("^1.2.3": no breaking changes), tilde ranges ("~1.2.3": patches only),
+ * partial versions ("1", "1.2", "1.x", "1.2.x") and "*" or "latest".
+ */
+function parseRange(range: string): VersionBounds | null {
+  const value = range.trim();
+  if (ANY_VERSION.includes(value)) {
+    return { min: { major: 0, minor: 0, patch: 0 }, max: null };
+  }
+
+  const operator = value[0] === "^" || value[0] === "~" ? value[0] : "";
+  const version = parseVersion(value.slice(operator.length));
+  if (version) {
+    const { major, minor, patch } = version;
+    if (operator === "~") {
+      return { min: version, max: { major, minor: minor + 1, patch: 0 } };
+    }
+    if (operator === "^") {
+      // Below 1.0.0 the leftmost non-zero part marks breaking changes
+      const max =
+        major > 0
+          ? { major: major + 1, minor: 0, patch: 0 }
+          : minor > 0
+            ? { major: 0, minor: minor + 1, patch: 0 }
+            : { major: 0, minor: 0, patch: patch + 1 };
+      return { min: version, max };
+    }
+    return { min: version, max: { major, minor, patch: patch + 1 } };
+  }
+
+  const partial = operator ? null : PARTIAL_PATTERN.exec(value);
+  if (!partial) {
+    return null;
+  }
+  const major = Number(partial[1]);
+  const minor = Number(partial[2]);
+  return Number.isInteger(minor)
+    ? {
+        min: { major, minor, patch: 0 },
+        max: { major, minor: minor + 1, patch: 0 },
+      }
+    : {
+        min: { major, minor: 0, patch: 0 },
+        max: { major: major + 1, minor: 0, patch: 0 },
+      };
+}
+
+export function isValidVersionRange(range: string | null | undefined): boolean {
+  return range != null && parseRange(range) !== null;
+}
+
+/**
+ * Check whether a version is in a range
+ * @param version The version
+ * @param range The range; empty ranges allow any version
+ * @returns Whether the version is in the range
+ */
+export function satisfiesVersionRange(
+  version: string,
+  range: string | null | undefined
+): boolean {
+  const parsed = parseVersion(version);
+  const bounds = parseRange(range ?? "");
+  return (
+    !!parsed &&
+    !!bounds &&
+    compareSemVer(parsed, bounds.min) >= 0 &&
+    (!bounds.max || compareSemVer(parsed, bounds.max) < 0)
+  );
+}
+
+/**
+ * Pick the highest version in a range
+ * @param versions The published versions
+ * @param range The range; empty ranges allow any version
+ * @returns The highest matching version, or null when none matches
+ */
+export function resolveVersionRange(
+  versions: string[],
+  range: string | null | undefined
+): string | null {
+  return (
+    versions
+      .filter((version) => satisfiesVersionRange(version, range))
+      .sort(compareVersions)
+      .pop() ?? null
+  );
+}
+
+/**
+ * Check whether moving between versions is a breaking upgrade, that is
+ * whether `to` leaves the caret range of `from`
+ */
+export function isBreakingUpgrade(from: string, to: string): boolean {
+  return !satisfiesVersionRange(to, `^${from}`);
+}
+
+/**
+ * The version following another one
+ * @param version The current version
+ * @param breaking Whether the next version has breaking changes
+ * @param changed Whether the next version adds to the schemas
+ */
+export function getNextVersion(
+  version: string,
+  breaking: boolean,
+  changed: boolean
+): string {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return FIRST_BLOCK_VERSION;
+  }
+  const { major, minor, patch } = parsed;
+  if (breaking) {
+    return major > 0 ? `${major + 1}.0.0` : `0.${minor + 1}.0`;
+  }
+  return changed ? `${major}.${minor + 1}.0` : `${major}.${minor}.${patch + 1}`;
+}
+
+export interface BlockSchemaField {
+  name: string;
+  type?: string;
+  dataType?: string;
+  required?: boolean;
+  defaultValue?: unknown;
+}
+
+export interface BlockSchemas {
+  inputs?: BlockSchemaField[];
+  outputs?: BlockSchemaField[];
+}
+
+export type BlockSchemaChangeKind =
+  | "added"
+  | "removed"
+  | "type_changed"
+  | "now_required"
+  | "now_optional";
+
+export interface BlockSchemaChange {
+  field: "input" | "output";
+  name: string;
+  kind: BlockSchemaChangeKind;
+  /** Whether workflows using the old version may fail on the new one */
+  breaking: boolean;
+  from?: string;
+  to?: string;
+}
+
+const fieldType = (field: BlockSchemaField) =>
+  String(field.type ?? field.dataType ?? "any").toLowerCase();
+
+// Inputs that workflows must now provide and that have no default
+const isRequiredInput = (field: BlockSchemaField) =>
+  !!field.required && field.defaultValue === undefined;
+
+/**
+ * Compare the input and output schemas of two versions of a block.
+ * Workflows built against `from` break when an input is removed, changes
+ * its type or becomes required, or when an output they may read is removed
+ * or changes its type.
+ * @param from The schemas of the current version
+ * @param to The schemas of the new version
+ * @returns The changes
+ */
+export function diffBlockSchemas(
+  from: BlockSchemas,
+  to: BlockSchemas
+): BlockSchemaChange[] {
+  const changes: BlockSchemaChange[] = [];
+
+  for (const field of ["input", "output"] as const) {
+    const key = field === "input" ? "inputs" : "outputs";
+    const before = new Map((from[key] ?? []).map((item) => [item.name, item]));
+    const after = new Map((to[key] ?? []).map((item) => [item.name, item]));
+
+    for (const [name, previous] of before) {
+      const next = after.get(name);
+      if (!next) {
+        changes.push({ field, name, kind: "removed", breaking: true });
+        continue;
+      }
+      if (fieldType(previous) !== fieldType(next)) {
+        changes.push({
+          field,
+          name,
+          kind: "type_changed",
+          breaking: true,
+          from: fieldType(previous),
+          to: fieldType(next),
+        });
+      }
+      if (
+        field === "input" &&
+        isRequiredInput(previous) !== isRequiredInput(next)
+      ) {
+        changes.push({
+          field,
+          name,
+          kind: isRequiredInput(next) ? "now_required" : "now_optional",
+          breaking: isRequiredInput(next),
+        });
+      }
+    }
+
+    for (const [name, next] of after) {
+      if (!before.has(name)) {
+        changes.push({
+          field,
+          name,
+          kind: "added",
+          breaking: field === "input" && isRequiredInput(next),
+        });
+      }
+    }
+  }
+
+  return changes;
+}
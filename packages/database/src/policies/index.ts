@@ -6,3 +6,8 @@
  */
 
 export * from "./policy.service";
+export * from "./team-permissions";
+export * from "./subscription-features";
+export * from "./plan-quotas";
+export * from "./custom-block-versions";
+export * from "./credentials";
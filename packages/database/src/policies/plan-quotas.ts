@@ -0,0 +1,136 @@
+/**
+ * Plan Quotas
+ *
+ * The limits of each plan, the billing period usage is counted in, and how
+ * much of a limit is left.
+ */
+
+import { ACTIVE_SUBSCRIPTION_STATUSES } from "./subscription-features";
+
+export const QUOTA_RESOURCES = [
+  "executions",
+  "ai_tokens",
+  "transactions",
+  "concurrent_runs",
+] as const;
+
+export type QuotaResource = (typeof QUOTA_RESOURCES)[number];
+
+// Resources whose usage is recorded in the usage log. Concurrent runs are
+// counted from the executions themselves.
+export type MeteredResource = Exclude<QuotaResource, "concurrent_runs">;
+
+// Limits per billing period, null being unlimited
+export type PlanLimits = Record<QuotaResource, number | null>;
+
+// Limits of users without an active subscription
+export const FREE_PLAN_LIMITS: PlanLimits = {
+  executions: 100,
+  ai_tokens: 50000,
+  transactions: 10,
+  concurrent_runs: 1,
+};
+
+// Execution states that take up a concurrent run. Queued runs wait in the
+// worker until a run finishes, so they do not count.
+export const ACTIVE_RUN_STATUSES = ["running"] as const;
+
+export interface QuotaBalance {
+  resource: QuotaResource;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+interface TierLimitColumns {
+  executionLimit: number;
+  aiTokenLimit: number | null;
+  transactionLimit: number | null;
+  concurrentRunLimit: number | null;
+}
+
+interface SubscriptionPeriod {
+  status: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+}
+
+/**
+ * Whether a subscription grants the limits of its tier
+ * @param subscription The subscription
+ * @param now The current time
+ */
+export function isSubscriptionActive(
+  subscription: SubscriptionPeriod | null | undefined,
+  now = new Date()
+): subscription is SubscriptionPeriod {
+  return (
+    !!subscription &&
+    ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status) &&
+    subscription.currentPeriodEnd > now
+  );
+}
+
+/**
+ * Limits of a pricing tier. A negative execution limit is unlimited, as are
+ * the other limits when they are not set.
+ * @param tier The pricing tier
+ */
+export function getTierLimits(tier: TierLimitColumns): PlanLimits {
+  return {
+    executions: tier.executionLimit < 0 ? null : tier.executionLimit,
+    ai_tokens: tier.aiTokenLimit,
+    transactions: tier.transactionLimit,
+    concurrent_runs: tier.concurrentRunLimit,
+  };
+}
+
+/**
+ * The period usage is counted in: the current period of an active
+ * subscription, otherwise the calendar month in UTC
+ * @param subscription The subscription of the user, if any
+ * @param now The current time
+ */
+export function getQuotaPeriod(
+  subscription: SubscriptionPeriod | null | undefined,
+  now = new Date()
+): { periodStart: Date; periodEnd: Date } {
+  if (isSubscriptionActive(subscription, now)) {
+    return {
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    };
+  }
+
+  return {
+    periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth())),
+    periodEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1)),
+  };
+}
+
+/**
+ * Whether using `quantity` more of a resource stays within its limit
+ * @param balance The current balance
+ * @param quantity The quantity about to be used
+ */
+export function hasQuotaFor(balance: QuotaBalance, quantity = 1): boolean {
+  return balance.remaining === null || balance.remaining >= quantity;
+}
+
+export function createQuotaBalance(
+  resource: QuotaResource,
+  limit: number | null,
+  used: number,
+  period: { periodStart: Date; periodEnd: Date }
+): QuotaBalance {
+  return {
+    resource,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+  };
+}
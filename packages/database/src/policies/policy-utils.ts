@@ -62,16 +62,15 @@ export function createAccessWhereClause(userId: string, isAdmin: boolean = false
     OR: [
       { userId },
       { isPublic: true },
-      
-      // {
-      //   team: {
-      //     members: {
-      //       some: {
-      //         userId,
-      //       },
-      //     },
-      //   },
-      // },
+      {
+        team: {
+          members: {
+            some: {
+              userId,
+            },
+          },
+        },
+      },
     ],
   };
 }
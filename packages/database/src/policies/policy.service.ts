@@ -57,7 +57,7 @@ export class PolicyService {
         OR: [
           { isPublic: true },
           { userId: context.userId },
-          // Add a team access check here if your schema supports it
+          { team: { members: { some: { userId: context.userId } } } },
         ],
       },
     });
@@ -99,7 +99,7 @@ export class PolicyService {
               OR: [
                 { userId: context.userId },
                 { isPublic: true },
-                // Add team access here only if your schema supports it
+                { team: { members: { some: { userId: context.userId } } } },
               ],
             },
           },
@@ -148,7 +148,11 @@ export class PolicyService {
           {
             execution: {
               workflow: {
-                OR: [{ userId: context.userId }, { isPublic: true }],
+                OR: [
+                  { userId: context.userId },
+                  { isPublic: true },
+                  { team: { members: { some: { userId: context.userId } } } },
+                ],
               },
             },
           },
@@ -301,7 +305,7 @@ export class PolicyService {
 
     // Get teams the user belongs to
     const teams = await this.prisma.teamMember.findMany({
-      where: {},
+      where: { userId },
       select: {
         teamId: true,
       },
@@ -0,0 +1,29 @@
+/**
+ * Subscription Features
+ *
+ * Which subscriptions grant the features of their pricing tier, and how the
+ * features of a tier are read.
+ */
+
+// Subscription states that grant the features of the tier
+export const ACTIVE_SUBSCRIPTION_STATUSES = ["active", "trialing"];
+
+/**
+ * Feature names of a pricing tier. Tiers store their features either as a
+ * list of names or as a map of names to flags.
+ * @param features The `features` column of a tier
+ * @returns The enabled feature names
+ */
+export function getTierFeatures(features: unknown): string[] {
+  if (Array.isArray(features)) {
+    return features.filter(
+      (feature): feature is string => typeof feature === "string"
+    );
+  }
+  if (features && typeof features === "object") {
+    return Object.entries(features)
+      .filter(([, enabled]) => enabled === true)
+      .map(([feature]) => feature);
+  }
+  return [];
+}
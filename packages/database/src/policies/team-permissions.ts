@@ -0,0 +1,49 @@
+/**
+ * Team Permissions
+ *
+ * Roles of team members and the actions each role allows on the team and
+ * on the workflows and custom blocks it owns.
+ */
+
+export type TeamRole = "owner" | "editor" | "executor" | "viewer";
+
+export const TEAM_ROLES: TeamRole[] = ["owner", "editor", "executor", "viewer"];
+
+/**
+ * - view: read the resource and its executions
+ * - execute: run workflows and control their executions
+ * - edit: change workflows and custom blocks
+ * - manage: delete resources and manage the team and its members
+ */
+export type TeamPermission = "view" | "execute" | "edit" | "manage";
+
+const ROLE_PERMISSIONS: Record<TeamRole, TeamPermission[]> = {
+  owner: ["view", "execute", "edit", "manage"],
+  editor: ["view", "execute", "edit"],
+  executor: ["view", "execute"],
+  viewer: ["view"],
+};
+
+/**
+ * Check whether a role allows a permission
+ * @param role The role of the team member
+ * @param permission The permission to check
+ * @returns Whether the role allows it
+ */
+export function hasTeamPermission(
+  role: string | null | undefined,
+  permission: TeamPermission
+): boolean {
+  return !!role && !!ROLE_PERMISSIONS[role as TeamRole]?.includes(permission);
+}
+
+/**
+ * Roles that allow a permission, for use in queries
+ * @param permission The permission to check
+ * @returns The roles
+ */
+export function getRolesWithPermission(permission: TeamPermission): TeamRole[] {
+  return TEAM_ROLES.filter((role) =>
+    ROLE_PERMISSIONS[role].includes(permission)
+  );
+}
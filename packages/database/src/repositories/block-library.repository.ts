@@ -0,0 +1,230 @@
+/**
+ * Block Library Repository
+ *
+ * This repository provides database operations for the public block
+ * marketplace: custom blocks published to the library, their ratings and
+ * reviews, and their installs as custom blocks of other users.
+ */
+
+import {
+  BlockLibrary,
+  BlockLibraryRating,
+  CustomBlock,
+  Prisma,
+} from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+import { FIRST_BLOCK_VERSION } from "../policies/custom-block-versions";
+
+// Type definitions for block library operations
+export type BlockLibraryCreateInput = Prisma.BlockLibraryCreateInput;
+export type BlockLibraryUpdateInput = Prisma.BlockLibraryUpdateInput;
+
+export type BlockLibrarySort = "rating" | "usage" | "newest";
+
+export interface BlockLibrarySearchParams {
+  query?: string;
+  category?: string;
+  /** Entries must have all of these tags */
+  tags?: string[];
+  verifiedOnly?: boolean;
+  sort?: BlockLibrarySort;
+  page?: number;
+  limit?: number;
+}
+
+export interface BlockLibrarySearchResult {
+  entries: BlockLibrary[];
+  total: number;
+}
+
+export type BlockLibraryWithReviews = BlockLibrary & {
+  ratings: BlockLibraryRating[];
+};
+
+const SORT_ORDER: Record<
+  BlockLibrarySort,
+  Prisma.BlockLibraryOrderByWithRelationInput[]
+> = {
+  rating: [
+    { rating: { sort: "desc", nulls: "last" } },
+    { ratingCount: "desc" },
+  ],
+  usage: [{ usageCount: { sort: "desc", nulls: "last" } }],
+  newest: [{ createdAt: "desc" }],
+};
+
+export class BlockLibraryRepository extends BaseRepository<
+  BlockLibrary,
+  BlockLibraryCreateInput,
+  BlockLibraryUpdateInput
+> {
+  protected tableName = "block_library";
+  protected model = this.prisma.blockLibrary;
+
+  /**
+   * Search the public entries of the library
+   * @param params The filters, order and page
+   * @returns The entries of the page and the number of matching entries
+   */
+  async search(
+    params: BlockLibrarySearchParams = {}
+  ): Promise<BlockLibrarySearchResult> {
+    const page = Math.max(params.page ?? 1, 1);
+    const limit = Math.min(Math.max(params.limit ?? 20, 1), 100);
+    const where: Prisma.BlockLibraryWhereInput = {
+      isPublic: true,
+      ...(params.category && { category: params.category }),
+      ...(params.tags?.length && { tags: { hasEvery: params.tags } }),
+      ...(params.verifiedOnly && { isVerified: true }),
+      ...(params.query && {
+        OR: [
+          { name: { contains: params.query, mode: "insensitive" } },
+          { description: { contains: params.query, mode: "insensitive" } },
+        ],
+      }),
+    };
+
+    const [entries, total] = await Promise.all([
+      this.prisma.blockLibrary.findMany({
+        where,
+        orderBy: [...SORT_ORDER[params.sort ?? "usage"], { id: "asc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.blockLibrary.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Find an entry with its latest reviews
+   * @param id The entry ID
+   * @param reviews How many reviews to include
+   * @returns The entry or null
+   */
+  async findWithReviews(
+    id: string,
+    reviews = 20
+  ): Promise<BlockLibraryWithReviews | null> {
+    return this.prisma.blockLibrary.findUnique({
+      where: { id },
+      include: { ratings: { orderBy: { updatedAt: "desc" }, take: reviews } },
+    });
+  }
+
+  /**
+   * Find the entry a custom block was published as
+   * @param customBlockId The custom block ID
+   * @returns The entry or null
+   */
+  async findByCustomBlockId(
+    customBlockId: string
+  ): Promise<BlockLibrary | null> {
+    return this.prisma.blockLibrary.findFirst({ where: { customBlockId } });
+  }
+
+  /**
+   * Find the custom block a user installed an entry as
+   * @param blockId The entry ID
+   * @param userId The user ID
+   * @returns The custom block or null
+   */
+  async findInstall(
+    blockId: string,
+    userId: string
+  ): Promise<CustomBlock | null> {
+    return this.prisma.customBlock.findFirst({
+      where: { libraryBlockId: blockId, userId },
+    });
+  }
+
+  /**
+   * Rate and review an entry, replacing an earlier rating of the user, and
+   * update the average rating of the entry
+   * @param blockId The entry ID
+   * @param userId The user ID
+   * @param rating The rating from 1 to 5
+   * @param comment The review
+   * @returns The updated entry
+   */
+  async rate(
+    blockId: string,
+    userId: string,
+    rating: number,
+    comment?: string | null
+  ): Promise<BlockLibrary> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.blockLibraryRating.upsert({
+        where: { blockId_userId: { blockId, userId } },
+        create: { blockId, userId, rating, comment: comment ?? null },
+        update: { rating, comment: comment ?? null },
+      });
+
+      const { _avg, _count } = await tx.blockLibraryRating.aggregate({
+        where: { blockId },
+        _avg: { rating: true },
+        _count: true,
+      });
+
+      return tx.blockLibrary.update({
+        where: { id: blockId },
+        data: { rating: _avg.rating ?? 0, ratingCount: _count },
+      });
+    });
+  }
+
+  /**
+   * Copy an entry into the custom blocks of a user, published at the
+   * version of the entry, and count the install
+   * @param entry The entry to install
+   * @param userId The user installing it
+   * @returns The new custom block
+   */
+  async install(entry: BlockLibrary, userId: string): Promise<CustomBlock> {
+    const blockData = (entry.blockData ?? {}) as Prisma.JsonObject;
+    const code = entry.executionCode ?? "";
+    const logicType = String(blockData.logicType ?? "javascript");
+    const version = entry.version ?? FIRST_BLOCK_VERSION;
+
+    return this.prisma.$transaction(async (tx) => {
+      const block = await tx.customBlock.create({
+        data: {
+          userId,
+          name: entry.name,
+          description: entry.description,
+          blockType: entry.blockType,
+          category: entry.category ?? "ACTION",
+          code,
+          logic: code,
+          logicType,
+          blockData,
+          tags: entry.tags,
+          createdBy: entry.userId,
+          version,
+          libraryBlockId: entry.id,
+          versions: {
+            create: {
+              version,
+              name: entry.name,
+              description: entry.description,
+              category: entry.category ?? "ACTION",
+              code,
+              logicType,
+              blockData,
+              changelog: "Installed from the block library",
+              publishedBy: userId,
+            },
+          },
+        },
+      });
+
+      await tx.blockLibrary.update({
+        where: { id: entry.id },
+        data: { usageCount: { increment: 1 } },
+      });
+
+      return block;
+    });
+  }
+}
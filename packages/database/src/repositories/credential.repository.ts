@@ -0,0 +1,64 @@
+/**
+ * Credential Repository
+ *
+ * This repository provides database operations for the named secrets of
+ * users. Values are stored encrypted; see the credentials policy for the
+ * encryption and the references block configs use.
+ */
+
+import { Credential, Prisma } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for credential operations
+export type CredentialCreateInput = Prisma.CredentialCreateInput;
+export type CredentialUpdateInput = Prisma.CredentialUpdateInput;
+
+export class CredentialRepository extends BaseRepository<
+  Credential,
+  CredentialCreateInput,
+  CredentialUpdateInput
+> {
+  protected tableName = "credentials";
+  protected model = this.prisma.credential;
+
+  /**
+   * Find the credentials of a user, by name
+   * @param userId The user ID
+   * @returns The credentials
+   */
+  async findByUserId(userId: string): Promise<Credential[]> {
+    return this.prisma.credential.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  /**
+   * Find credentials of a user by their names
+   * @param userId The user ID
+   * @param names The names
+   * @returns The credentials that exist
+   */
+  async findByNames(userId: string, names: string[]): Promise<Credential[]> {
+    if (!names.length) {
+      return [];
+    }
+    return this.prisma.credential.findMany({
+      where: { userId, name: { in: names } },
+    });
+  }
+
+  /**
+   * Record that credentials were used by an execution
+   * @param ids The credential IDs
+   */
+  async markUsed(ids: string[]): Promise<void> {
+    if (!ids.length) {
+      return;
+    }
+    await this.prisma.credential.updateMany({
+      where: { id: { in: ids } },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Custom Block Version Repository
+ *
+ * This repository provides database operations for the published versions
+ * of custom blocks. Publishing snapshots the editable block as an immutable
+ * version, and workflow nodes run the highest version in the range they pin.
+ */
+
+import { CustomBlock, CustomBlockVersion, Prisma } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+import {
+  compareVersions,
+  resolveVersionRange,
+} from "../policies/custom-block-versions";
+
+// Type definitions for custom block version operations
+export type CustomBlockVersionCreateInput =
+  Prisma.CustomBlockVersionCreateInput;
+export type CustomBlockVersionUpdateInput =
+  Prisma.CustomBlockVersionUpdateInput;
+
+export interface CustomBlockVersionPublishInput {
+  version: string;
+  changelog?: string | null;
+  publishedBy?: string | null;
+}
+
+export class CustomBlockVersionRepository extends BaseRepository<
+  CustomBlockVersion,
+  CustomBlockVersionCreateInput,
+  CustomBlockVersionUpdateInput
+> {
+  protected tableName = "custom_block_versions";
+  protected model = this.prisma.customBlockVersion;
+
+  /**
+   * Find the published versions of a custom block, highest first
+   * @param customBlockId The custom block ID
+   * @returns The versions
+   */
+  async findByBlockId(customBlockId: string): Promise<CustomBlockVersion[]> {
+    const versions = await this.prisma.customBlockVersion.findMany({
+      where: { customBlockId },
+    });
+    return versions.sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  /**
+   * Find one published version of a custom block
+   * @param customBlockId The custom block ID
+   * @param version The exact version
+   * @returns The version or null
+   */
+  async findByVersion(
+    customBlockId: string,
+    version: string
+  ): Promise<CustomBlockVersion | null> {
+    return this.prisma.customBlockVersion.findUnique({
+      where: { customBlockId_version: { customBlockId, version } },
+    });
+  }
+
+  /**
+   * Find the highest published version in a range
+   * @param customBlockId The custom block ID
+   * @param range The version or range; empty ranges match the latest version
+   * @returns The version or null when none is in the range
+   */
+  async resolve(
+    customBlockId: string,
+    range?: string | null
+  ): Promise<CustomBlockVersion | null> {
+    const versions = await this.prisma.customBlockVersion.findMany({
+      where: { customBlockId },
+      select: { version: true },
+    });
+    const version = resolveVersionRange(
+      versions.map((item) => item.version),
+      range
+    );
+    return version ? this.findByVersion(customBlockId, version) : null;
+  }
+
+  /**
+   * Snapshot the current definition of a custom block as a published
+   * version and make it the version of the block
+   * @param block The custom block to publish
+   * @param data The version to publish it as
+   * @returns The published version
+   */
+  async publish(
+    block: CustomBlock,
+    data: CustomBlockVersionPublishInput
+  ): Promise<CustomBlockVersion> {
+    return this.prisma.$transaction(async (tx) => {
+      const version = await tx.customBlockVersion.create({
+        data: {
+          customBlockId: block.id,
+          version: data.version,
+          name: block.name,
+          description: block.description,
+          category: block.category,
+          code: block.code,
+          logicType: block.logicType,
+          blockData: (block.blockData ?? {}) as Prisma.InputJsonValue,
+          changelog: data.changelog ?? null,
+          publishedBy: data.publishedBy ?? null,
+        },
+      });
+
+      await tx.customBlock.update({
+        where: { id: block.id },
+        data: { version: data.version },
+      });
+
+      return version;
+    });
+  }
+}
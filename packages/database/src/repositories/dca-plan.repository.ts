@@ -0,0 +1,192 @@
+/**
+ * DCA Plan Repository
+ *
+ * This repository provides database operations for dollar cost averaging
+ * plans. A plan belongs to one DCA block in a workflow and accumulates the
+ * fills of every scheduled run.
+ */
+
+import { DcaFill, DcaPlan, Prisma } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for DCA plan operations
+export type DcaPlanCreateInput = Prisma.DcaPlanCreateInput;
+export type DcaPlanUpdateInput = Prisma.DcaPlanUpdateInput;
+
+export type DcaPlanSide = "buy" | "sell";
+
+export interface DcaPlanSyncInput {
+  workflowId: string;
+  userId: string;
+  nodeId: string;
+  chainId: string;
+  side: DcaPlanSide;
+  baseToken: string;
+  quoteToken: string;
+  amountPerInterval: string;
+  totalBudget: string | null;
+  minPrice: string | null;
+  maxPrice: string | null;
+}
+
+export interface DcaFillInput {
+  executionId: string | null;
+  transactionHash: string;
+  /** Amount of the token spent */
+  amountIn: string;
+  /** Amount of the token received */
+  amountOut: string;
+}
+
+export class DcaPlanRepository extends BaseRepository<
+  DcaPlan,
+  DcaPlanCreateInput,
+  DcaPlanUpdateInput
+> {
+  protected tableName = "dca_plans";
+  protected model = this.prisma.dcaPlan;
+
+  /**
+   * Find the plan for a DCA block
+   * @param workflowId The workflow ID
+   * @param nodeId The DCA node ID
+   * @returns The plan or null
+   */
+  async findByNode(
+    workflowId: string,
+    nodeId: string
+  ): Promise<DcaPlan | null> {
+    return this.prisma.dcaPlan.findUnique({
+      where: { workflowId_nodeId: { workflowId, nodeId } },
+    });
+  }
+
+  /**
+   * Create the plan for a DCA block or apply its current settings. Fill
+   * statistics are kept unless the chain, side or token pair changed, in
+   * which case the plan starts over.
+   * @param data The block settings
+   * @returns The saved plan
+   */
+  async syncForNode(data: DcaPlanSyncInput): Promise<DcaPlan> {
+    const { workflowId, nodeId, ...settings } = data;
+    const existing = await this.findByNode(workflowId, nodeId);
+
+    if (!existing) {
+      return this.prisma.dcaPlan.create({
+        data: {
+          ...settings,
+          nodeId,
+          workflow: { connect: { id: workflowId } },
+        },
+      });
+    }
+
+    const restart =
+      existing.chainId !== data.chainId ||
+      existing.side !== data.side ||
+      existing.baseToken.toLowerCase() !== data.baseToken.toLowerCase() ||
+      existing.quoteToken.toLowerCase() !== data.quoteToken.toLowerCase();
+    const totalSpent = restart ? new Prisma.Decimal(0) : existing.totalSpent;
+
+    return this.prisma.dcaPlan.update({
+      where: { id: existing.id },
+      data: {
+        ...settings,
+        status: planStatus(totalSpent, data.totalBudget),
+        ...(restart
+          ? {
+              fillCount: 0,
+              totalSpent: 0,
+              totalReceived: 0,
+              averagePrice: null,
+              lastFillAt: null,
+            }
+          : {}),
+      },
+    });
+  }
+
+  /**
+   * Append a fill to a plan and update its cumulative statistics
+   * @param planId The plan ID
+   * @param fill The executed swap
+   * @returns The updated plan and the stored fill
+   */
+  async recordFill(
+    planId: string,
+    fill: DcaFillInput
+  ): Promise<{ plan: DcaPlan; fill: DcaFill }> {
+    return this.prisma.$transaction(async (tx) => {
+      const plan = await tx.dcaPlan.findUniqueOrThrow({
+        where: { id: planId },
+      });
+
+      const amountIn = new Prisma.Decimal(fill.amountIn);
+      const amountOut = new Prisma.Decimal(fill.amountOut);
+      const totalSpent = plan.totalSpent.plus(amountIn);
+      const totalReceived = plan.totalReceived.plus(amountOut);
+
+      const stored = await tx.dcaFill.create({
+        data: {
+          planId,
+          executionId: fill.executionId,
+          transactionHash: fill.transactionHash,
+          amountIn,
+          amountOut,
+          price: quotePerBase(plan.side, amountIn, amountOut) ?? 0,
+        },
+      });
+
+      const updated = await tx.dcaPlan.update({
+        where: { id: planId },
+        data: {
+          fillCount: { increment: 1 },
+          totalSpent,
+          totalReceived,
+          averagePrice: quotePerBase(plan.side, totalSpent, totalReceived),
+          status: planStatus(totalSpent, plan.totalBudget),
+          lastFillAt: stored.createdAt,
+        },
+      });
+
+      return { plan: updated, fill: stored };
+    });
+  }
+
+  /**
+   * Find the most recent fills of a plan
+   * @param planId The plan ID
+   * @param limit The maximum number of fills
+   * @returns Fills, newest first
+   */
+  async findFills(planId: string, limit = 20): Promise<DcaFill[]> {
+    return this.prisma.dcaFill.findMany({
+      where: { planId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+}
+
+/**
+ * Price in quote token per base token. Buys spend the quote token, sells
+ * spend the base token.
+ */
+function quotePerBase(
+  side: string,
+  spent: Prisma.Decimal,
+  received: Prisma.Decimal
+): Prisma.Decimal | null {
+  const [quote, base] = side === "sell" ? [received, spent] : [spent, received];
+  return base.isZero() ? null : quote.dividedBy(base);
+}
+
+function planStatus(
+  totalSpent: Prisma.Decimal,
+  totalBudget: Prisma.Decimal | string | null
+): string {
+  return totalBudget !== null && totalSpent.greaterThanOrEqualTo(totalBudget)
+    ? "completed"
+    : "active";
+}
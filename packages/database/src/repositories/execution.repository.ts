@@ -12,6 +12,7 @@ import {
   ExecutionLog,
   WorkflowStatus,
   NodeLog,
+  WorkflowPause,
 } from "@prisma/client";
 import { BaseRepository } from "./base.repository";
 
@@ -23,8 +24,18 @@ export type ExecutionWithNodes = WorkflowExecution & {
     logs: NodeLog[];
   })[];
   executionLogs: ExecutionLog[];
+  subExecutions: Pick<
+    WorkflowExecution,
+    "id" | "workflowId" | "status" | "callerNodeId"
+  >[];
 };
 
+// Reason of the pauses written by APPROVAL blocks
+export const APPROVAL_PAUSE_REASON = "approval";
+
+// Reason of the pauses written by WAIT blocks
+export const WAIT_PAUSE_REASON = "wait";
+
 export class ExecutionRepository extends BaseRepository<
   WorkflowExecution,
   ExecutionCreateInput,
@@ -101,6 +112,17 @@ export class ExecutionRepository extends BaseRepository<
             timestamp: "asc",
           },
         },
+        subExecutions: {
+          select: {
+            id: true,
+            workflowId: true,
+            status: true,
+            callerNodeId: true,
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
       },
     });
   }
@@ -119,6 +141,13 @@ export class ExecutionRepository extends BaseRepository<
     input?: any,
     triggerType?: string
   ): Promise<WorkflowExecution> {
+    // Pin the execution to the definition it runs
+    const latestVersion = await this.prisma.workflowVersion.findFirst({
+      where: { workflowId },
+      orderBy: { version: "desc" },
+      select: { id: true },
+    });
+
     return this.prisma.workflowExecution.create({
       data: {
         workflow: {
@@ -127,6 +156,9 @@ export class ExecutionRepository extends BaseRepository<
         user: {
           connect: { id: userId },
         },
+        workflowVersion: latestVersion
+          ? { connect: { id: latestVersion.id } }
+          : undefined,
         status: WorkflowStatus.pending,
         input: input || {},
         triggerType,
@@ -135,6 +167,198 @@ export class ExecutionRepository extends BaseRepository<
     });
   }
 
+  /**
+   * Create an execution that re-runs part of an earlier execution
+   * @param parent The execution being re-run
+   * @param nodeId The node the re-run starts from
+   * @returns The created execution
+   */
+  async createRerunExecution(
+    parent: WorkflowExecution,
+    nodeId: string
+  ): Promise<WorkflowExecution> {
+    return this.prisma.workflowExecution.create({
+      data: {
+        workflow: {
+          connect: { id: parent.workflowId },
+        },
+        user: {
+          connect: { id: parent.userId },
+        },
+        parentExecution: {
+          connect: { id: parent.id },
+        },
+        workflowVersion: parent.workflowVersionId
+          ? { connect: { id: parent.workflowVersionId } }
+          : undefined,
+        status: WorkflowStatus.pending,
+        input: parent.input ?? {},
+        metadata: { rerunFromNodeId: nodeId },
+        triggerType: "rerun",
+        triggerData: parent.triggerData ?? undefined,
+        startedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Create the execution of a workflow started by an EXECUTE_WORKFLOW node
+   * @param caller The execution the node runs in
+   * @param nodeId The EXECUTE_WORKFLOW node
+   * @param workflowId The workflow to run
+   * @param input Trigger payload of the run
+   * @returns The created execution
+   */
+  async createSubWorkflowExecution(
+    caller: WorkflowExecution,
+    nodeId: string,
+    workflowId: string,
+    input: Record<string, any>
+  ): Promise<WorkflowExecution> {
+    const latestVersion = await this.prisma.workflowVersion.findFirst({
+      where: { workflowId },
+      orderBy: { version: "desc" },
+      select: { id: true },
+    });
+
+    return this.prisma.workflowExecution.create({
+      data: {
+        workflow: {
+          connect: { id: workflowId },
+        },
+        user: {
+          connect: { id: caller.userId },
+        },
+        callerExecution: {
+          connect: { id: caller.id },
+        },
+        callerNodeId: nodeId,
+        callDepth: caller.callDepth + 1,
+        workflowVersion: latestVersion
+          ? { connect: { id: latestVersion.id } }
+          : undefined,
+        status: WorkflowStatus.pending,
+        input,
+        triggerType: "workflow",
+        triggerData: { callerExecutionId: caller.id, callerNodeId: nodeId },
+        startedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Find the latest output of every node of an execution
+   * @param executionId The execution ID
+   * @returns Outputs keyed by node ID
+   */
+  async findNodeOutputs(executionId: string): Promise<Record<string, any>> {
+    const rows = await this.prisma.nodeOutput.findMany({
+      where: { executionId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const outputs: Record<string, any> = {};
+    for (const row of rows) {
+      const data = row.outputData as Record<string, any> | null;
+      // Node inputs are stored in the same table, tagged "input"
+      if (!data?._metadata?.tags?.includes("output")) {
+        continue;
+      }
+      const { _metadata, _version, ...output } = data;
+      outputs[row.nodeId] = output;
+    }
+    return outputs;
+  }
+
+  /**
+   * Find the most recent pause of an execution
+   * @param executionId The execution ID
+   * @returns The pause or null
+   */
+  async findLatestPause(executionId: string): Promise<WorkflowPause | null> {
+    return this.prisma.workflowPause.findFirst({
+      where: { executionId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Find approvals that timed out while their execution was still waiting
+   * @param now The current time
+   * @param limit The maximum number of pauses to return
+   * @returns The expired approval pauses, oldest first
+   */
+  async findExpiredApprovals(
+    now: Date,
+    limit: number = 100
+  ): Promise<WorkflowPause[]> {
+    return this.prisma.workflowPause.findMany({
+      where: {
+        reason: APPROVAL_PAUSE_REASON,
+        expiresAt: { lte: now },
+        execution: { status: "paused" },
+      },
+      orderBy: { expiresAt: "asc" },
+      take: limit,
+    });
+  }
+
+  /**
+   * Find the WAIT pause an execution is waiting on for a callback
+   * @param callbackToken The token the callback presented
+   * @returns The pause or null
+   */
+  async findWaitingCallback(
+    callbackToken: string
+  ): Promise<WorkflowPause | null> {
+    return this.prisma.workflowPause.findFirst({
+      where: {
+        reason: WAIT_PAUSE_REASON,
+        callbackToken,
+        execution: { status: "paused" },
+      },
+    });
+  }
+
+  /**
+   * Move a paused execution back to pending, unless another request already
+   * did so
+   * @param id The execution ID
+   * @returns Whether this call resumed the execution
+   */
+  async markPausedAsPending(id: string): Promise<boolean> {
+    const { count } = await this.prisma.workflowExecution.updateMany({
+      where: { id, status: "paused" },
+      data: { status: "pending" },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Delete the pause an execution is being resumed from. Pauses the resumed
+   * run writes later are kept.
+   * @param id The pause ID
+   */
+  async deletePause(id: string): Promise<void> {
+    await this.prisma.workflowPause.deleteMany({ where: { id } });
+  }
+
+  /**
+   * Put back a pause deleted for a resume that could not be queued
+   * @param pause The deleted pause
+   */
+  async restorePause(pause: WorkflowPause): Promise<void> {
+    await this.prisma.workflowPause.create({
+      data: {
+        ...pause,
+        resumeData: (pause.resumeData ??
+          Prisma.DbNull) as Prisma.InputJsonValue,
+        proposedAction: (pause.proposedAction ??
+          Prisma.DbNull) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
   /**
    * Update execution status
    * @param id The execution ID
@@ -154,7 +378,9 @@ export class ExecutionRepository extends BaseRepository<
 
     if (
       status === WorkflowStatus.completed ||
-      status === WorkflowStatus.failed
+      status === WorkflowStatus.failed ||
+      status === WorkflowStatus.cancelled ||
+      status === WorkflowStatus.completed_with_errors
     ) {
       data.finishedAt = new Date();
     }
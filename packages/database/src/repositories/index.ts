@@ -10,7 +10,18 @@ export * from "./base.repository";
 
 // Export implemented repositories
 export * from "./workflow.repository";
+export * from "./workflow-version.repository";
 export * from "./user.repository";
 export * from "./execution.repository";
 export * from "./wallet.repository";
 export * from "./notification.repository";
+export * from "./schedule.repository";
+export * from "./webhook.repository";
+export * from "./wallet-listener.repository";
+export * from "./dca-plan.repository";
+export * from "./team.repository";
+export * from "./subscription.repository";
+export * from "./usage.repository";
+export * from "./custom-block-version.repository";
+export * from "./block-library.repository";
+export * from "./credential.repository";
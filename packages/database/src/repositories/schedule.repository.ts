@@ -0,0 +1,122 @@
+/**
+ * Schedule Repository
+ *
+ * This repository provides database operations for workflow schedules.
+ * It persists the next-run/last-run state used by the scheduler.
+ */
+
+import { Prisma, WorkflowSchedule } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for schedule operations
+export type ScheduleCreateInput = Prisma.WorkflowScheduleCreateInput;
+export type ScheduleUpdateInput = Prisma.WorkflowScheduleUpdateInput;
+
+export interface ScheduleUpsertInput {
+  workflowId: string;
+  userId: string;
+  nodeId: string;
+  cronExpression: string | null;
+  intervalSeconds: number | null;
+  timezone: string;
+  catchUpPolicy: string;
+  nextRunAt: Date | null;
+}
+
+export class ScheduleRepository extends BaseRepository<
+  WorkflowSchedule,
+  ScheduleCreateInput,
+  ScheduleUpdateInput
+> {
+  protected tableName = "workflow_schedules";
+  protected model = this.prisma.workflowSchedule;
+
+  /**
+   * Find the schedule for a workflow
+   * @param workflowId The workflow ID
+   * @returns The schedule or null
+   */
+  async findByWorkflowId(workflowId: string): Promise<WorkflowSchedule | null> {
+    return this.prisma.workflowSchedule.findUnique({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Find active schedules that are due to run
+   * @param now The reference time
+   * @param limit The maximum number of schedules to return
+   * @returns An array of due schedules, oldest first
+   */
+  async findDue(now: Date, limit = 100): Promise<WorkflowSchedule[]> {
+    return this.prisma.workflowSchedule.findMany({
+      where: {
+        isActive: true,
+        nextRunAt: { lte: now },
+      },
+      orderBy: { nextRunAt: "asc" },
+      take: limit,
+    });
+  }
+
+  /**
+   * Create or update the schedule for a workflow
+   * @param data The schedule definition
+   * @returns The saved schedule
+   */
+  async upsertForWorkflow(
+    data: ScheduleUpsertInput
+  ): Promise<WorkflowSchedule> {
+    const { workflowId, ...fields } = data;
+
+    return this.prisma.workflowSchedule.upsert({
+      where: { workflowId },
+      create: {
+        ...fields,
+        isActive: true,
+        workflow: { connect: { id: workflowId } },
+      },
+      update: {
+        ...fields,
+        isActive: true,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Remove the schedule for a workflow, if any
+   * @param workflowId The workflow ID
+   */
+  async deleteByWorkflowId(workflowId: string): Promise<void> {
+    await this.prisma.workflowSchedule.deleteMany({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Advance a schedule to its next run. The update only applies if
+   * `nextRunAt` still matches the value that was read, so concurrent
+   * scheduler instances cannot claim the same run twice.
+   * @param id The schedule ID
+   * @param expectedNextRunAt The next run time that was read
+   * @param data The fields to update
+   * @returns True if this caller claimed the run
+   */
+  async claimRun(
+    id: string,
+    expectedNextRunAt: Date,
+    data: Prisma.WorkflowScheduleUpdateManyMutationInput
+  ): Promise<boolean> {
+    const result = await this.prisma.workflowSchedule.updateMany({
+      where: {
+        id,
+        isActive: true,
+        nextRunAt: expectedNextRunAt,
+      },
+      data,
+    });
+
+    return result.count === 1;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Subscription Repository
+ *
+ * This repository provides database operations for subscriptions, their
+ * invoices and the pricing tiers they are on. Subscriptions are written from
+ * billing provider webhooks and read for feature gating.
+ */
+
+import {
+  PricingTier,
+  Prisma,
+  Subscription,
+  SubscriptionInvoice,
+} from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for subscription operations
+export type SubscriptionCreateInput = Prisma.SubscriptionCreateInput;
+export type SubscriptionUpdateInput = Prisma.SubscriptionUpdateInput;
+
+export type SubscriptionWithTier = Subscription & { tier: PricingTier };
+
+export interface SubscriptionSyncInput {
+  userId: string;
+  tierId: string;
+  status: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  canceledAt: Date | null;
+  stripeSubscriptionId: string;
+  stripePriceId: string;
+  stripeCustomerId: string | null;
+}
+
+export interface InvoiceSyncInput {
+  stripeInvoiceId: string;
+  amount: number;
+  status: string;
+  paidAt: Date | null;
+  invoiceUrl: string | null;
+}
+
+export class SubscriptionRepository extends BaseRepository<
+  Subscription,
+  SubscriptionCreateInput,
+  SubscriptionUpdateInput
+> {
+  protected tableName = "subscriptions";
+  protected model = this.prisma.subscription;
+
+  /**
+   * Find the subscription of a user with its tier
+   * @param userId The user ID
+   * @returns The subscription or null
+   */
+  async findByUserId(userId: string): Promise<SubscriptionWithTier | null> {
+    return this.prisma.subscription.findUnique({
+      where: { userId },
+      include: { tier: true },
+    });
+  }
+
+  /**
+   * Find a subscription by its billing provider ID
+   * @param stripeSubscriptionId The provider subscription ID
+   * @returns The subscription or null
+   */
+  async findByStripeSubscriptionId(
+    stripeSubscriptionId: string
+  ): Promise<Subscription | null> {
+    return this.prisma.subscription.findUnique({
+      where: { stripeSubscriptionId },
+    });
+  }
+
+  /**
+   * Find the tier a monthly or yearly price belongs to
+   * @param priceId The provider price ID
+   * @returns The tier or null
+   */
+  async findTierByStripePriceId(priceId: string): Promise<PricingTier | null> {
+    return this.prisma.pricingTier.findFirst({
+      where: {
+        OR: [
+          { stripePriceIdMonthly: priceId },
+          { stripePriceIdYearly: priceId },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Create or update the subscription of a user from the billing provider
+   * state, and mirror it on the profile
+   * @param input The subscription state
+   * @returns The subscription with its tier
+   */
+  async syncSubscription(
+    input: SubscriptionSyncInput
+  ): Promise<SubscriptionWithTier> {
+    const { userId, ...data } = input;
+
+    return this.prisma.$transaction(async (tx) => {
+      const subscription = await tx.subscription.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: { ...data, updatedAt: new Date() },
+        include: { tier: true },
+      });
+
+      await tx.profile.updateMany({
+        where: { id: userId },
+        data: {
+          subscriptionTier: subscription.tier.name.toLowerCase(),
+          subscriptionStatus: subscription.status,
+          subscriptionExpiresAt: subscription.currentPeriodEnd,
+          monthlyExecutionQuota: subscription.tier.executionLimit,
+          stripeCustomerId: subscription.stripeCustomerId,
+          stripeSubscriptionId: subscription.stripeSubscriptionId,
+          updatedAt: new Date(),
+        },
+      });
+
+      return subscription;
+    });
+  }
+
+  /**
+   * Create or update an invoice of a subscription
+   * @param subscriptionId The subscription ID
+   * @param input The invoice state
+   * @returns The invoice
+   */
+  async recordInvoice(
+    subscriptionId: string,
+    input: InvoiceSyncInput
+  ): Promise<SubscriptionInvoice> {
+    const { stripeInvoiceId, ...data } = input;
+
+    return this.prisma.subscriptionInvoice.upsert({
+      where: { stripeInvoiceId },
+      create: { subscriptionId, stripeInvoiceId, ...data },
+      update: data,
+    });
+  }
+}
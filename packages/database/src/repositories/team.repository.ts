@@ -0,0 +1,172 @@
+/**
+ * Team Repository
+ *
+ * This repository provides database operations for teams and their members.
+ * Teams own shared workflows and custom blocks, and the role of each member
+ * decides what they may do with them.
+ */
+
+import { Prisma, Team, TeamMember } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+import { TeamRole } from "../policies/team-permissions";
+
+// Type definitions for team operations
+export type TeamCreateInput = Prisma.TeamCreateInput;
+export type TeamUpdateInput = Prisma.TeamUpdateInput;
+
+export type TeamMemberWithUser = TeamMember & {
+  user: { id: string; email: string | null };
+};
+
+export type TeamWithMembers = Team & {
+  members: TeamMemberWithUser[];
+};
+
+export type TeamWithRole = Team & {
+  role: TeamRole;
+  memberCount: number;
+};
+
+const MEMBER_USER_SELECT = { select: { id: true, email: true } } as const;
+
+export class TeamRepository extends BaseRepository<
+  Team,
+  TeamCreateInput,
+  TeamUpdateInput
+> {
+  protected tableName = "teams";
+  protected model = this.prisma.team;
+
+  /**
+   * Find the teams a user is a member of
+   * @param userId The user ID
+   * @returns The teams with the role of the user
+   */
+  async findByUserId(userId: string): Promise<TeamWithRole[]> {
+    const memberships = await this.prisma.teamMember.findMany({
+      where: { userId },
+      include: {
+        team: { include: { _count: { select: { members: true } } } },
+      },
+      orderBy: { joinedAt: "desc" },
+    });
+
+    return memberships.map(({ team, role }) => {
+      const { _count, ...rest } = team;
+      return { ...rest, role: role as TeamRole, memberCount: _count.members };
+    });
+  }
+
+  /**
+   * Find a team with its members
+   * @param id The team ID
+   * @returns The team or null
+   */
+  async findWithMembers(id: string): Promise<TeamWithMembers | null> {
+    return this.prisma.team.findUnique({
+      where: { id },
+      include: {
+        members: {
+          include: { user: MEMBER_USER_SELECT },
+          orderBy: { joinedAt: "asc" },
+        },
+      },
+    });
+  }
+
+  /**
+   * Create a team with its creator as the owner
+   * @param userId The user creating the team
+   * @param data The team name and description
+   * @returns The created team
+   */
+  async createWithOwner(
+    userId: string,
+    data: { name: string; description?: string | null }
+  ): Promise<Team> {
+    return this.prisma.team.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        owner: { connect: { id: userId } },
+        members: { create: { userId, role: "owner" } },
+      },
+    });
+  }
+
+  /**
+   * Find the role of a user in a team
+   * @param teamId The team ID
+   * @param userId The user ID
+   * @returns The role or null if the user is not a member
+   */
+  async getMemberRole(
+    teamId: string,
+    userId: string
+  ): Promise<TeamRole | null> {
+    const member = await this.prisma.teamMember.findUnique({
+      where: { teamId_userId: { teamId, userId } },
+      select: { role: true },
+    });
+    return (member?.role as TeamRole) ?? null;
+  }
+
+  /**
+   * Add a user to a team
+   * @param teamId The team ID
+   * @param userId The user ID
+   * @param role The role of the new member
+   * @returns The member
+   */
+  async addMember(
+    teamId: string,
+    userId: string,
+    role: TeamRole
+  ): Promise<TeamMemberWithUser> {
+    return this.prisma.teamMember.create({
+      data: { teamId, userId, role },
+      include: { user: MEMBER_USER_SELECT },
+    });
+  }
+
+  /**
+   * Change the role of a team member
+   * @param teamId The team ID
+   * @param userId The user ID
+   * @param role The new role
+   * @returns The member
+   */
+  async updateMemberRole(
+    teamId: string,
+    userId: string,
+    role: TeamRole
+  ): Promise<TeamMemberWithUser> {
+    return this.prisma.teamMember.update({
+      where: { teamId_userId: { teamId, userId } },
+      data: { role },
+      include: { user: MEMBER_USER_SELECT },
+    });
+  }
+
+  /**
+   * Remove a user from a team
+   * @param teamId The team ID
+   * @param userId The user ID
+   */
+  async removeMember(teamId: string, userId: string): Promise<void> {
+    await this.prisma.teamMember.delete({
+      where: { teamId_userId: { teamId, userId } },
+    });
+  }
+
+  /**
+   * Count the owners of a team
+   * @param teamId The team ID
+   * @returns The number of owners
+   */
+  async countOwners(teamId: string): Promise<number> {
+    return this.prisma.teamMember.count({
+      where: { teamId, role: "owner" },
+    });
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Usage Repository
+ *
+ * This repository provides database operations for metered usage and the
+ * plan quotas it is counted against. Usage that is limited is checked and
+ * recorded in one transaction holding a per-user lock, so concurrent runs
+ * cannot overdraw a quota.
+ */
+
+import { Prisma, UsageLog } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+import {
+  ACTIVE_RUN_STATUSES,
+  FREE_PLAN_LIMITS,
+  MeteredResource,
+  PlanLimits,
+  QUOTA_RESOURCES,
+  QuotaBalance,
+  QuotaResource,
+  createQuotaBalance,
+  getQuotaPeriod,
+  getTierLimits,
+  hasQuotaFor,
+  isSubscriptionActive,
+} from "../policies/plan-quotas";
+
+// Type definitions for usage operations
+export type UsageLogCreateInput = Prisma.UsageLogCreateInput;
+export type UsageLogUpdateInput = Prisma.UsageLogUpdateInput;
+
+type Client = Prisma.TransactionClient;
+
+export interface UserPlan {
+  tier: string;
+  limits: PlanLimits;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  balance: QuotaBalance;
+}
+
+export class UsageRepository extends BaseRepository<
+  UsageLog,
+  UsageLogCreateInput,
+  UsageLogUpdateInput
+> {
+  protected tableName = "usage_logs";
+  protected model = this.prisma.usageLog;
+
+  /**
+   * Get the plan of a user: the tier of an active subscription, otherwise
+   * the free plan with the execution quota of the profile
+   * @param userId The user ID
+   * @param now The current time
+   * @returns The limits and the current period
+   */
+  async getPlan(
+    userId: string,
+    now = new Date(),
+    client: Client = this.prisma
+  ): Promise<UserPlan> {
+    const [subscription, profile] = await Promise.all([
+      client.subscription.findUnique({
+        where: { userId },
+        include: { tier: true },
+      }),
+      client.profile.findUnique({
+        where: { id: userId },
+        select: { monthlyExecutionQuota: true },
+      }),
+    ]);
+
+    if (isSubscriptionActive(subscription, now)) {
+      return {
+        tier: subscription.tier.name.toLowerCase(),
+        limits: getTierLimits(subscription.tier),
+        ...getQuotaPeriod(subscription, now),
+      };
+    }
+
+    return {
+      tier: "free",
+      limits: {
+        ...FREE_PLAN_LIMITS,
+        executions:
+          profile?.monthlyExecutionQuota ?? FREE_PLAN_LIMITS.executions,
+      },
+      ...getQuotaPeriod(null, now),
+    };
+  }
+
+  /**
+   * Get the balance of every quota of a user
+   * @param userId The user ID
+   * @returns The balances
+   */
+  async getBalances(userId: string): Promise<QuotaBalance[]> {
+    const plan = await this.getPlan(userId);
+
+    return Promise.all(
+      QUOTA_RESOURCES.map((resource) =>
+        this.getPlanBalance(this.prisma, userId, plan, resource)
+      )
+    );
+  }
+
+  /**
+   * Get the balance of one quota of a user
+   * @param userId The user ID
+   * @param resource The resource
+   * @returns The balance
+   */
+  async getBalance(
+    userId: string,
+    resource: QuotaResource
+  ): Promise<QuotaBalance> {
+    const plan = await this.getPlan(userId);
+    return this.getPlanBalance(this.prisma, userId, plan, resource);
+  }
+
+  /**
+   * Record usage if it stays within the quota of the user
+   * @param userId The user ID
+   * @param resource The resource
+   * @param quantity The quantity used
+   * @param metadata Details of the usage
+   * @returns Whether the usage was allowed, and the balance before it
+   */
+  async consume(
+    userId: string,
+    resource: MeteredResource,
+    quantity = 1,
+    metadata: Record<string, any> = {}
+  ): Promise<QuotaCheck> {
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockUser(tx, userId);
+
+      const plan = await this.getPlan(userId, new Date(), tx);
+      const balance = await this.getPlanBalance(tx, userId, plan, resource);
+      if (!hasQuotaFor(balance, quantity)) {
+        return { allowed: false, balance };
+      }
+
+      await tx.usageLog.create({
+        data: {
+          userId,
+          resourceType: resource,
+          action: "consume",
+          quantity,
+          metadata,
+        },
+      });
+      return { allowed: true, balance };
+    });
+  }
+
+  /**
+   * Record usage that is only known once it happened, such as AI tokens.
+   * It is not checked against the quota; check the balance before.
+   * @param userId The user ID
+   * @param resource The resource
+   * @param quantity The quantity used
+   * @param metadata Details of the usage
+   */
+  async record(
+    userId: string,
+    resource: MeteredResource,
+    quantity: number,
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
+    if (quantity <= 0) {
+      return;
+    }
+
+    await this.prisma.usageLog.create({
+      data: {
+        userId,
+        resourceType: resource,
+        action: "record",
+        quantity,
+        metadata,
+      },
+    });
+  }
+
+  /**
+   * Check the concurrent run limit and charge an execution before it runs.
+   * An execution is charged once, so resumed and redelivered runs are only
+   * checked against the concurrent run limit.
+   * @param userId The user ID
+   * @param executionId The execution about to run
+   * @returns Whether the execution may run, and the balance that decided it
+   */
+  async startExecution(
+    userId: string,
+    executionId: string
+  ): Promise<QuotaCheck> {
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockUser(tx, userId);
+
+      const plan = await this.getPlan(userId, new Date(), tx);
+
+      const running = await tx.workflowExecution.count({
+        where: {
+          userId,
+          status: { in: [...ACTIVE_RUN_STATUSES] },
+          id: { not: executionId },
+        },
+      });
+      const runs = createQuotaBalance(
+        "concurrent_runs",
+        plan.limits.concurrent_runs,
+        running,
+        plan
+      );
+      if (!hasQuotaFor(runs)) {
+        return { allowed: false, balance: runs };
+      }
+
+      const charged = await tx.usageLog.findFirst({
+        where: {
+          userId,
+          resourceType: "executions",
+          metadata: { path: ["executionId"], equals: executionId },
+        },
+        select: { id: true },
+      });
+      const executions = await this.getPlanBalance(
+        tx,
+        userId,
+        plan,
+        "executions"
+      );
+      if (charged) {
+        return { allowed: true, balance: executions };
+      }
+      if (!hasQuotaFor(executions)) {
+        return { allowed: false, balance: executions };
+      }
+
+      await tx.usageLog.create({
+        data: {
+          userId,
+          resourceType: "executions",
+          action: "consume",
+          quantity: 1,
+          metadata: { executionId },
+        },
+      });
+      return { allowed: true, balance: executions };
+    });
+  }
+
+  private async getPlanBalance(
+    client: Client,
+    userId: string,
+    plan: UserPlan,
+    resource: QuotaResource
+  ): Promise<QuotaBalance> {
+    if (resource === "concurrent_runs") {
+      const active = await client.workflowExecution.count({
+        where: { userId, status: { in: [...ACTIVE_RUN_STATUSES] } },
+      });
+      return createQuotaBalance(resource, plan.limits[resource], active, plan);
+    }
+
+    const usage = await client.usageLog.aggregate({
+      where: {
+        userId,
+        resourceType: resource,
+        createdAt: { gte: plan.periodStart, lt: plan.periodEnd },
+      },
+      _sum: { quantity: true },
+    });
+    return createQuotaBalance(
+      resource,
+      plan.limits[resource],
+      usage._sum.quantity ?? 0,
+      plan
+    );
+  }
+
+  // Serialise quota checks of a user until the transaction ends
+  private async lockUser(tx: Client, userId: string): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Wallet Listener Repository
+ *
+ * This repository provides database operations for on-chain wallet listeners.
+ * It persists the last processed block so listeners resume where they stopped.
+ */
+
+import { Prisma, WalletListener } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for wallet listener operations
+export type WalletListenerCreateInput = Prisma.WalletListenerCreateInput;
+export type WalletListenerUpdateInput = Prisma.WalletListenerUpdateInput;
+
+export interface WalletListenerUpsertInput {
+  workflowId: string;
+  userId: string;
+  nodeId: string;
+  network: string;
+  chainId: number;
+  rpcUrl: string | null;
+  walletAddresses: string[];
+  eventTypes: string[];
+  minAmount: number;
+  tokenDenom: string | null;
+  eventSignature: string | null;
+  pollIntervalSeconds: number;
+  startBlock: bigint | null;
+}
+
+export class WalletListenerRepository extends BaseRepository<
+  WalletListener,
+  WalletListenerCreateInput,
+  WalletListenerUpdateInput
+> {
+  protected tableName = "wallet_listeners";
+  protected model = this.prisma.walletListener;
+
+  /**
+   * Find the listener for a workflow
+   * @param workflowId The workflow ID
+   * @returns The listener or null
+   */
+  async findByWorkflowId(workflowId: string): Promise<WalletListener | null> {
+    return this.prisma.walletListener.findUnique({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Find all active listeners
+   * @returns An array of active listeners
+   */
+  async findActive(): Promise<WalletListener[]> {
+    return this.prisma.walletListener.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Create or update the listener for a workflow
+   * @param data The listener definition
+   * @param resetCursor Whether to start again from `startBlock`
+   * @returns The saved listener
+   */
+  async upsertForWorkflow(
+    data: WalletListenerUpsertInput,
+    resetCursor = false
+  ): Promise<WalletListener> {
+    const { workflowId, ...fields } = data;
+
+    return this.prisma.walletListener.upsert({
+      where: { workflowId },
+      create: {
+        ...fields,
+        isActive: true,
+        workflow: { connect: { id: workflowId } },
+      },
+      update: {
+        ...fields,
+        isActive: true,
+        lastError: null,
+        ...(resetCursor ? { lastProcessedBlock: null } : {}),
+      },
+    });
+  }
+
+  /**
+   * Remove the listener for a workflow, if any
+   * @param workflowId The workflow ID
+   */
+  async deleteByWorkflowId(workflowId: string): Promise<void> {
+    await this.prisma.walletListener.deleteMany({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Move a listener's cursor to the last block it processed. The update only
+   * applies if the cursor still matches the value that was read, so
+   * concurrent workers cannot process the same blocks twice.
+   * @param id The listener ID
+   * @param expectedBlock The last processed block that was read
+   * @param toBlock The last block covered by this poll
+   * @param data Additional fields to update
+   * @returns True if this caller claimed the block range
+   */
+  async claimBlocks(
+    id: string,
+    expectedBlock: bigint | null,
+    toBlock: bigint,
+    data: Prisma.WalletListenerUpdateManyMutationInput = {}
+  ): Promise<boolean> {
+    const result = await this.prisma.walletListener.updateMany({
+      where: {
+        id,
+        isActive: true,
+        lastProcessedBlock: expectedBlock,
+      },
+      data: {
+        ...data,
+        lastProcessedBlock: toBlock,
+      },
+    });
+
+    return result.count === 1;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Webhook Repository
+ *
+ * This repository provides database operations for inbound workflow webhooks.
+ * It stores the secret trigger URL settings and enforces per-hook rate limits.
+ */
+
+import { Prisma, WorkflowWebhook } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for webhook operations
+export type WebhookCreateInput = Prisma.WorkflowWebhookCreateInput;
+export type WebhookUpdateInput = Prisma.WorkflowWebhookUpdateInput;
+
+export interface WebhookUpsertInput {
+  workflowId: string;
+  userId: string;
+  nodeId: string;
+  verifySignature: boolean;
+  signatureHeader: string;
+  responseMode: string;
+  responseTimeoutMs: number;
+  responseNodeId: string | null;
+  rateLimitPerMinute: number;
+}
+
+export interface WebhookRateLimitResult {
+  allowed: boolean;
+  count: number;
+  limit: number;
+  resetAt: Date;
+}
+
+const WEBHOOK_RATE_LIMIT_OPERATION = "webhook_trigger";
+const WEBHOOK_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export class WebhookRepository extends BaseRepository<
+  WorkflowWebhook,
+  WebhookCreateInput,
+  WebhookUpdateInput
+> {
+  protected tableName = "workflow_webhooks";
+  protected model = this.prisma.workflowWebhook;
+
+  /**
+   * Find the webhook for a workflow
+   * @param workflowId The workflow ID
+   * @returns The webhook or null
+   */
+  async findByWorkflowId(workflowId: string): Promise<WorkflowWebhook | null> {
+    return this.prisma.workflowWebhook.findUnique({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Create or update the webhook for a workflow. The token and signing
+   * secret are only set on creation so the URL stays stable across saves.
+   * @param data The webhook settings
+   * @param credentials The token and signing secret for a new webhook
+   * @returns The saved webhook
+   */
+  async upsertForWorkflow(
+    data: WebhookUpsertInput,
+    credentials: { token: string; signingSecret: string }
+  ): Promise<WorkflowWebhook> {
+    const { workflowId, ...fields } = data;
+
+    return this.prisma.workflowWebhook.upsert({
+      where: { workflowId },
+      create: {
+        ...fields,
+        ...credentials,
+        isActive: true,
+        workflow: { connect: { id: workflowId } },
+      },
+      update: {
+        ...fields,
+        isActive: true,
+      },
+    });
+  }
+
+  /**
+   * Remove the webhook for a workflow, if any
+   * @param workflowId The workflow ID
+   */
+  async deleteByWorkflowId(workflowId: string): Promise<void> {
+    await this.prisma.workflowWebhook.deleteMany({
+      where: { workflowId },
+    });
+  }
+
+  /**
+   * Count a trigger against the webhook's per-minute limit. Counts are kept
+   * in fixed one-minute windows in `rate_limit_buckets`.
+   * @param webhook The webhook being triggered
+   * @param now The reference time
+   * @returns Whether the trigger is within the limit
+   */
+  async consumeRateLimit(
+    webhook: Pick<WorkflowWebhook, "id" | "userId" | "rateLimitPerMinute">,
+    now: Date = new Date()
+  ): Promise<WebhookRateLimitResult> {
+    const windowStart = new Date(
+      Math.floor(now.getTime() / WEBHOOK_RATE_LIMIT_WINDOW_MS) *
+        WEBHOOK_RATE_LIMIT_WINDOW_MS
+    );
+    const windowEnd = new Date(
+      windowStart.getTime() + WEBHOOK_RATE_LIMIT_WINDOW_MS
+    );
+    const identifier = `webhook:${webhook.id}`;
+
+    const bucket = await this.prisma.rateLimitBucket.upsert({
+      where: {
+        identifier_operation_windowStart: {
+          identifier,
+          operation: WEBHOOK_RATE_LIMIT_OPERATION,
+          windowStart,
+        },
+      },
+      create: {
+        userId: webhook.userId,
+        identifier,
+        operation: WEBHOOK_RATE_LIMIT_OPERATION,
+        windowStart,
+        windowEnd,
+        currentCount: 1,
+        limit: webhook.rateLimitPerMinute,
+        resetAt: windowEnd,
+      },
+      update: {
+        currentCount: { increment: 1 },
+        limit: webhook.rateLimitPerMinute,
+      },
+    });
+
+    return {
+      allowed: bucket.currentCount <= webhook.rateLimitPerMinute,
+      count: bucket.currentCount,
+      limit: webhook.rateLimitPerMinute,
+      resetAt: bucket.resetAt,
+    };
+  }
+
+  /**
+   * Record that the webhook was triggered
+   * @param id The webhook ID
+   */
+  async markTriggered(id: string): Promise<void> {
+    await this.prisma.workflowWebhook.update({
+      where: { id },
+      data: { lastTriggeredAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Workflow Version Repository
+ *
+ * This repository provides database operations for the version history of
+ * workflows. Every save that changes the nodes or edges of a workflow is
+ * stored as an immutable version, and executions are pinned to the version
+ * they ran.
+ */
+
+import { createHash } from "crypto";
+import { Prisma, WorkflowVersion } from "@prisma/client";
+import { BaseRepository } from "./base.repository";
+
+// Type definitions for workflow version operations
+export type WorkflowVersionCreateInput = Prisma.WorkflowVersionCreateInput;
+export type WorkflowVersionUpdateInput = Prisma.WorkflowVersionUpdateInput;
+
+export type WorkflowVersionWithAuthor = WorkflowVersion & {
+  author: { id: string; email: string | null } | null;
+};
+
+export interface WorkflowVersionRecordInput {
+  workflowId: string;
+  name: string;
+  description?: string | null;
+  nodes: unknown;
+  edges: unknown;
+  message?: string | null;
+  createdBy?: string | null;
+}
+
+export interface WorkflowVersionRecordResult {
+  version: WorkflowVersion;
+  /** False when the definition matched the latest version */
+  created: boolean;
+}
+
+const AUTHOR_SELECT = { select: { id: true, email: true } } as const;
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+};
+
+/**
+ * Checksum of a workflow definition. Object keys are sorted first so the
+ * same nodes and edges always give the same checksum.
+ */
+export function getWorkflowChecksum(nodes: unknown, edges: unknown): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify(sortKeys({ nodes: nodes ?? [], edges: edges ?? [] }))
+    )
+    .digest("hex");
+}
+
+export class WorkflowVersionRepository extends BaseRepository<
+  WorkflowVersion,
+  WorkflowVersionCreateInput,
+  WorkflowVersionUpdateInput
+> {
+  protected tableName = "workflow_versions";
+  protected model = this.prisma.workflowVersion;
+
+  /**
+   * Find the versions of a workflow, newest first
+   * @param workflowId The workflow ID
+   * @returns The versions with their author
+   */
+  async findByWorkflowId(
+    workflowId: string
+  ): Promise<WorkflowVersionWithAuthor[]> {
+    return this.prisma.workflowVersion.findMany({
+      where: { workflowId },
+      include: { author: AUTHOR_SELECT },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  /**
+   * Find one version of a workflow
+   * @param workflowId The workflow ID
+   * @param version The version number
+   * @returns The version or null
+   */
+  async findByVersion(
+    workflowId: string,
+    version: number
+  ): Promise<WorkflowVersionWithAuthor | null> {
+    return this.prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+      include: { author: AUTHOR_SELECT },
+    });
+  }
+
+  /**
+   * Find the latest version of a workflow
+   * @param workflowId The workflow ID
+   * @returns The latest version or null
+   */
+  async findLatest(workflowId: string): Promise<WorkflowVersion | null> {
+    return this.prisma.workflowVersion.findFirst({
+      where: { workflowId },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  /**
+   * Store the current definition of a workflow as a new version and bump
+   * the version of the workflow. Nothing is written when the definition
+   * matches the latest version.
+   * @param data The definition to store
+   * @returns The stored or latest version
+   */
+  async recordVersion(
+    data: WorkflowVersionRecordInput
+  ): Promise<WorkflowVersionRecordResult> {
+    const checksum = getWorkflowChecksum(data.nodes, data.edges);
+
+    return this.prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId: data.workflowId },
+        orderBy: { version: "desc" },
+      });
+
+      if (latest && latest.checksum === checksum) {
+        return { version: latest, created: false };
+      }
+
+      const version = await tx.workflowVersion.create({
+        data: {
+          workflowId: data.workflowId,
+          version: (latest?.version ?? 0) + 1,
+          name: data.name,
+          description: data.description ?? null,
+          nodes: (data.nodes ?? []) as Prisma.InputJsonValue,
+          edges: (data.edges ?? []) as Prisma.InputJsonValue,
+          checksum,
+          message: data.message ?? null,
+          createdBy: data.createdBy ?? null,
+        },
+      });
+
+      await tx.workflow.update({
+        where: { id: data.workflowId },
+        data: { version: version.version },
+      });
+
+      return { version, created: true };
+    });
+  }
+}
@@ -15,6 +15,10 @@ import {
   createPolicyContext,
 } from "../policies/policy-utils";
 import { PolicyContext } from "../policies/policy.service";
+import {
+  TeamPermission,
+  getRolesWithPermission,
+} from "../policies/team-permissions";
 
 // Define the Workflow interface based on the Prisma schema
 interface Workflow {
@@ -31,6 +35,7 @@ interface Workflow {
   updatedAt?: Date | null;
   definition?: any;
   createdBy?: string | null;
+  teamId?: string | null;
 }
 
 // Type definitions for workflow operations
@@ -67,6 +72,7 @@ export class WorkflowRepository extends BaseRepository<
       updatedAt: workflow.updatedAt,
       definition: workflow.definition ?? Prisma.JsonNull,
       createdBy: workflow.createdBy,
+      teamId: workflow.teamId,
     };
   }
 
@@ -135,16 +141,67 @@ export class WorkflowRepository extends BaseRepository<
         OR: [
           { userId },
           { isPublic: true },
-          // Team-related access has been removed as team relation no longer exists
+          { team: { members: { some: { userId } } } },
         ],
       },
-      // No additional includes needed
-      // Previously included team, but that relation no longer exists
     });
     
     return workflow ? this.mapToWorkflow(workflow) : null;
   }
 
+  /**
+   * Find a workflow the user may act on. The owner of a workflow may do
+   * anything with it, team members only what their role allows, and
+   * anyone may view a public workflow.
+   * @param id The workflow ID
+   * @param userId The user ID
+   * @param permission The action the user wants to take
+   * @returns The workflow or null
+   */
+  async findByIdWithPermission(
+    id: string,
+    userId: string,
+    permission: TeamPermission
+  ): Promise<Workflow | null> {
+    const workflow = await this.prisma.workflow.findFirst({
+      where: {
+        id,
+        OR: [
+          { userId },
+          ...(permission === "view" ? [{ isPublic: true }] : []),
+          {
+            team: {
+              members: {
+                some: {
+                  userId,
+                  role: { in: getRolesWithPermission(permission) },
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    return workflow ? this.mapToWorkflow(workflow) : null;
+  }
+
+  /**
+   * Find the workflows owned by a team
+   * @param teamId The team ID
+   * @returns An array of workflows
+   */
+  async findByTeamId(teamId: string): Promise<Workflow[]> {
+    const workflows = await this.prisma.workflow.findMany({
+      where: { teamId },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return workflows.map(workflow => this.mapToWorkflow(workflow));
+  }
+
   /**
    * Find a workflow with its executions
    * @param id The workflow ID
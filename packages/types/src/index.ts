@@ -13,6 +13,12 @@ export {
   enhancedHttpRequestSchema,
   enhancedNotificationSchema,
   enhancedDataTransformSchema,
+  enhancedConditionSchema,
+  enhancedApprovalSchema,
+  enhancedForEachSchema,
+  enhancedExecuteWorkflowSchema,
+  enhancedWaitSchema,
+  enhancedWebhookSchema,
   validateBlockConfig,
   validateEnhancedBlockConfig,
   validateBlockInputs,
@@ -23,13 +29,38 @@ export {
 } from "./schemas/blockSchemas";
 
 // Export blockchain schemas
-export { walletListenerSchema } from "./schemas/blockchains/wallet-listener/schema";
+export {
+  walletListenerSchema,
+  WALLET_LISTENER_EVENT_TYPES,
+} from "./schemas/blockchains/wallet-listener/schema";
 export type {
   WalletListenerConfig,
   WalletListenerInput,
   WalletListenerOutput,
 } from "./schemas/blockchains/wallet-listener/schema";
 
+// Export the portable workflow file format
+export {
+  WORKFLOW_EXPORT_FORMAT,
+  WORKFLOW_EXPORT_VERSION,
+  WORKFLOW_REQUIRED_INPUT_KINDS,
+  workflowExportSchema,
+  workflowExportMetadataSchema,
+  workflowExportCustomBlockSchema,
+  workflowExportBlockVersionSchema,
+  workflowRequiredInputSchema,
+  getWorkflowExportVersion,
+  parseWorkflowExport,
+} from "./schemas/workflow-export";
+export type {
+  WorkflowExport,
+  WorkflowExportCustomBlock,
+  WorkflowExportBlockVersion,
+  WorkflowExportParseResult,
+  WorkflowRequiredInput,
+  WorkflowRequiredInputKind,
+} from "./schemas/workflow-export";
+
 // Export metadata catalog
 export { BLOCK_CATALOG } from "./workflow/metadata";
 
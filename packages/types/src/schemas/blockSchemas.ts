@@ -208,6 +208,7 @@ export const enhancedConditionSchema: EnhancedBlockSchema = {
   }),
   outputSchema: z.object({
     result: z.boolean(),
+    outcome: z.boolean(), // Selects the "true" or "false" output handle
     condition: z.string(),
     evaluatedAt: z.string(),
     data: z.any().optional(),
@@ -220,6 +221,158 @@ export const enhancedConditionSchema: EnhancedBlockSchema = {
   },
 };
 
+/**
+ * Enhanced Approval block schema definition
+ */
+export const enhancedApprovalSchema: EnhancedBlockSchema = {
+  configSchema: z.object({
+    approvers: z.array(z.string()).default([]), // User IDs; defaults to the user running the workflow
+    message: z.string().optional(),
+    timeoutMinutes: z.number().int().positive().default(60),
+    defaultAction: z.enum(["approve", "reject"]).default("reject"), // Applied when the approval times out
+    targetNodeId: z.string().optional(), // Set on approvals inserted in front of a transaction
+  }),
+  inputSchema: z.object({
+    data: z.any().optional(), // Generic data from previous blocks
+    context: z
+      .object({
+        workflowId: z.string(),
+        executionId: z.string(),
+        userId: z.string(),
+        timestamp: z.string(),
+      })
+      .optional(),
+    variables: z.record(z.string(), z.any()).optional(), // Workflow variables
+  }),
+  outputSchema: z.object({
+    approved: z.boolean(), // A rejection skips the nodes after the approval
+    decision: z.enum(["approved", "rejected"]),
+    decidedBy: z.string().nullable(), // Null when the default action was applied
+    decidedAt: z.string(),
+    comment: z.string().optional(),
+    timedOut: z.boolean(),
+  }),
+  metadata: {
+    category: "logic",
+    icon: "user-check",
+    description: "Pause the workflow until an approver approves or rejects",
+    tags: ["approval", "human-in-the-loop", "logic", "control-flow"],
+  },
+};
+
+/**
+ * Enhanced For Each block schema definition
+ */
+export const enhancedForEachSchema: EnhancedBlockSchema = {
+  configSchema: z.object({
+    items: z.string().min(1), // Expression that evaluates to an array, e.g. {{ json.items }}
+    concurrency: z.number().int().positive().default(1), // Items processed at the same time
+    batchSize: z.number().int().positive().default(10), // Cancellation is checked between batches
+    onItemError: z.enum(["fail", "continue", "skip"]).default("fail"),
+  }),
+  inputSchema: z.object({
+    data: z.any().optional(), // Generic data from previous blocks
+    context: z
+      .object({
+        workflowId: z.string(),
+        executionId: z.string(),
+        userId: z.string(),
+        timestamp: z.string(),
+      })
+      .optional(),
+    variables: z.record(z.string(), z.any()).optional(), // Workflow variables
+  }),
+  outputSchema: z.object({
+    results: z.array(z.any()), // One result per item, in the order of the items
+    count: z.number(),
+    succeeded: z.number(),
+    failed: z.number(),
+    errors: z.array(z.object({ index: z.number(), message: z.string() })),
+  }),
+  metadata: {
+    category: "logic",
+    icon: "repeat",
+    description: "Run the nodes inside the block once for each item of a list",
+    tags: ["loop", "for-each", "iteration", "logic", "control-flow"],
+  },
+};
+
+/**
+ * Enhanced Wait block schema definition
+ */
+export const enhancedWaitSchema: EnhancedBlockSchema = {
+  configSchema: z.object({
+    mode: z.enum(["duration", "until", "callback"]).default("duration"),
+    duration: z.number().positive().optional(), // For "duration", in `unit`s
+    unit: z.enum(["seconds", "minutes", "hours", "days"]).default("minutes"),
+    until: z.string().optional(), // For "until": an ISO date-time, or "HH:mm" for the next such time in UTC
+    correlationToken: z.string().optional(), // For "callback"; a reference returned as correlationId, not the callback token
+    timeoutMinutes: z.number().positive().optional(), // For "callback"; resumes with timedOut set
+  }),
+  inputSchema: z.object({
+    data: z.any().optional(), // Generic data from previous blocks
+    context: z
+      .object({
+        workflowId: z.string(),
+        executionId: z.string(),
+        userId: z.string(),
+        timestamp: z.string(),
+      })
+      .optional(),
+    variables: z.record(z.string(), z.any()).optional(), // Workflow variables
+  }),
+  outputSchema: z.object({
+    resumedBy: z.enum(["timer", "callback", "timeout"]),
+    waitedSince: z.string(),
+    resumedAt: z.string(),
+    timedOut: z.boolean(),
+    correlationId: z.string().optional(),
+    payload: z.any().optional(), // Body of the callback
+  }),
+  metadata: {
+    category: "logic",
+    icon: "hourglass",
+    description:
+      "Pause the workflow for a time, until a time or until a callback",
+    tags: ["wait", "delay", "timer", "callback", "control-flow"],
+  },
+};
+
+/**
+ * Enhanced Execute Workflow block schema definition
+ */
+export const enhancedExecuteWorkflowSchema: EnhancedBlockSchema = {
+  configSchema: z.object({
+    workflowId: z.string().min(1),
+    mode: z.enum(["sync", "async"]).default("sync"), // async starts the run without waiting for it
+    inputs: z.record(z.string(), z.any()).default({}), // Trigger payload of the run; strings can hold expressions
+  }),
+  inputSchema: z.object({
+    data: z.any().optional(), // Generic data from previous blocks
+    context: z
+      .object({
+        workflowId: z.string(),
+        executionId: z.string(),
+        userId: z.string(),
+        timestamp: z.string(),
+      })
+      .optional(),
+    variables: z.record(z.string(), z.any()).optional(), // Workflow variables
+  }),
+  outputSchema: z.object({
+    executionId: z.string(), // Execution of the called workflow
+    workflowId: z.string(),
+    status: z.string(), // "queued" for async runs
+    outputs: z.record(z.string(), z.any()).optional(), // Node outputs of sync runs
+  }),
+  metadata: {
+    category: "action",
+    icon: "workflow",
+    description: "Run another saved workflow and use its outputs",
+    tags: ["sub-workflow", "workflow", "reuse", "control-flow"],
+  },
+};
+
 /**
  * Enhanced Schedule block schema definition
  */
@@ -230,7 +383,9 @@ export const enhancedScheduleSchema: EnhancedBlockSchema = {
       .default("daily"),
     time: z.string().optional(),
     cron: z.string().optional(),
+    intervalSeconds: z.number().int().positive().optional(), // Fixed interval, overrides the preset
     timezone: z.string().optional(),
+    catchUp: z.enum(["skip", "latest", "all"]).optional(), // Policy for runs missed while the scheduler was down
   }),
   inputSchema: z.object({
     data: z.any().optional(), // Generic data from previous blocks
@@ -264,10 +419,18 @@ export const enhancedScheduleSchema: EnhancedBlockSchema = {
  */
 export const enhancedWebhookSchema: EnhancedBlockSchema = {
   configSchema: z.object({
-    url: z.string().url(),
+    // Outbound request settings, used when the block is not the entry node
+    url: z.string().url().or(z.literal("")).optional(),
     method: z.enum(["GET", "POST", "PUT", "DELETE"]).default("POST"),
     headers: z.record(z.string(), z.string()).optional(),
     body: z.string().optional(),
+    // Inbound trigger settings, used when the block starts the workflow
+    verifySignature: z.boolean().optional(),
+    signatureHeader: z.string().optional(),
+    responseMode: z.enum(["async", "sync"]).optional(),
+    responseTimeoutMs: z.number().int().positive().max(120000).optional(),
+    responseNodeId: z.string().optional(),
+    rateLimitPerMinute: z.number().int().positive().max(6000).optional(),
   }),
   inputSchema: z.object({
     data: z.any().optional(), // Generic data from previous blocks
@@ -283,12 +446,19 @@ export const enhancedWebhookSchema: EnhancedBlockSchema = {
   }),
   outputSchema: z.object({
     success: z.boolean(),
-    statusCode: z.number(),
-    response: z.any(),
     timestamp: z.string(),
-    url: z.string(),
     method: z.string(),
+    // Outbound request result
+    statusCode: z.number().optional(),
+    response: z.any().optional(),
+    url: z.string().optional(),
     error: z.string().optional(),
+    // Inbound trigger payload
+    triggered: z.boolean().optional(),
+    body: z.any().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    query: z.record(z.string(), z.any()).optional(),
+    receivedAt: z.string().optional(),
   }),
   metadata: {
     category: "trigger",
@@ -577,6 +747,10 @@ export const blockSchemas: Record<BlockType, z.ZodTypeAny> = {
   [BlockType.SCHEDULE]: enhancedScheduleSchema.configSchema,
   [BlockType.WEBHOOK]: enhancedWebhookSchema.configSchema,
   [BlockType.CONDITION]: enhancedConditionSchema.configSchema,
+  [BlockType.APPROVAL]: enhancedApprovalSchema.configSchema,
+  [BlockType.FOR_EACH]: enhancedForEachSchema.configSchema,
+  [BlockType.EXECUTE_WORKFLOW]: enhancedExecuteWorkflowSchema.configSchema,
+  [BlockType.WAIT]: enhancedWaitSchema.configSchema,
   [BlockType.HTTP_REQUEST]: enhancedHttpRequestSchema.configSchema,
   [BlockType.CUSTOM]: enhancedCustomSchema.configSchema,
   [BlockType.DATA_TRANSFORM]: enhancedDataTransformSchema.configSchema,
@@ -607,6 +781,10 @@ export const enhancedBlockSchemas: Partial<
   [BlockType.PRICE_MONITOR]: enhancedPriceMonitorSchema,
   [BlockType.EMAIL]: enhancedEmailSchema,
   [BlockType.CONDITION]: enhancedConditionSchema,
+  [BlockType.APPROVAL]: enhancedApprovalSchema,
+  [BlockType.FOR_EACH]: enhancedForEachSchema,
+  [BlockType.EXECUTE_WORKFLOW]: enhancedExecuteWorkflowSchema,
+  [BlockType.WAIT]: enhancedWaitSchema,
   [BlockType.SCHEDULE]: enhancedScheduleSchema,
   [BlockType.WEBHOOK]: enhancedWebhookSchema,
   [BlockType.CUSTOM]: enhancedCustomSchema,
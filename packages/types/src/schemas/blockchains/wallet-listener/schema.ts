@@ -3,19 +3,39 @@
 import { z } from "zod";
 import { EnhancedBlockSchema } from "../../blockSchemas";
 
+/**
+ * On-chain events the wallet listener can watch for:
+ * - nativeTransfer: native currency sent to or from a wallet
+ * - tokenTransfer: ERC-20 `Transfer` logs to or from a wallet
+ * - contractEvent: any log emitted by a watched (contract) address
+ * - transfer: both native and token transfers
+ */
+export const WALLET_LISTENER_EVENT_TYPES = [
+  "nativeTransfer",
+  "tokenTransfer",
+  "contractEvent",
+  "transfer",
+] as const;
+
 /**
  * Network-agnostic Wallet Listener block schema definition
  */
 export const walletListenerSchema: EnhancedBlockSchema = {
   configSchema: z.object({
-    network: z.enum(["sei", "ethereum", "polygon", "solana"]), // Extend as needed
-    walletAddresses: z.array(z.string().min(1, "Wallet address required")),
-    eventTypes: z.array(
-      z.string().min(1, "Event type required")
-      // Optionally, use z.enum([...]) if you want to restrict per network
-    ),
+    network: z.enum(["sei", "sei-testnet", "ethereum", "polygon", "solana"]), // Extend as needed
+    walletAddresses: z
+      .array(z.string().min(1, "Wallet address required"))
+      .min(1, "At least one wallet address is required"),
+    eventTypes: z
+      .array(z.enum(WALLET_LISTENER_EVENT_TYPES))
+      .min(1, "At least one event type is required"),
     minAmount: z.number().min(0).optional().default(0),
+    // Native symbol (e.g. "SEI") or ERC-20 contract address
     tokenDenom: z.string().optional(),
+    // ABI event signature used to filter and decode contract events
+    eventSignature: z.string().optional(),
+    // Overrides the network's default RPC endpoint
+    rpcUrl: z.string().url().optional(),
     pollInterval: z.number().min(5).max(600).default(30),
     startBlock: z.number().optional(),
     description: z.string().optional(),
@@ -42,6 +62,9 @@ export const walletListenerSchema: EnhancedBlockSchema = {
     amount: z.number(),
     tokenDenom: z.string(),
     rawEvent: z.any(),
+    walletAddress: z.string().optional(),
+    network: z.string().optional(),
+    logIndex: z.number().optional(),
     success: z.boolean(),
     error: z.string().optional(),
   }),
@@ -0,0 +1,277 @@
+import { z } from "zod";
+
+/**
+ * Portable workflow files, used to move workflows between accounts.
+ * Files carry their format version, and files of older versions are
+ * migrated forward before they are validated.
+ */
+
+export const WORKFLOW_EXPORT_FORMAT = "zzyra.workflow";
+export const WORKFLOW_EXPORT_VERSION = 1;
+
+/**
+ * Values left out of an export that the importer has to provide
+ */
+export const WORKFLOW_REQUIRED_INPUT_KINDS = [
+  "secret",
+  "wallet_address",
+] as const;
+
+const nodeSchema = z
+  .object({
+    id: z.string().min(1),
+    type: z.string().optional(),
+    position: z.object({ x: z.number(), y: z.number() }).optional(),
+    data: z.record(z.string(), z.unknown()).default({}),
+  })
+  .passthrough();
+
+const edgeSchema = z
+  .object({
+    id: z.string().min(1),
+    source: z.string().min(1),
+    target: z.string().min(1),
+    sourceHandle: z.string().nullish(),
+    targetHandle: z.string().nullish(),
+  })
+  .passthrough();
+
+const blockParameterSchema = z
+  .object({
+    name: z.string(),
+    type: z.string().optional(),
+    dataType: z.string().optional(),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+    defaultValue: z.unknown().optional(),
+  })
+  .passthrough();
+
+export const workflowExportBlockVersionSchema = z.object({
+  version: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  category: z.string(),
+  logicType: z.string(),
+  code: z.string(),
+  inputs: z.array(blockParameterSchema).default([]),
+  outputs: z.array(blockParameterSchema).default([]),
+  configFields: z.array(blockParameterSchema).default([]),
+  changelog: z.string().nullable().default(null),
+});
+
+export const workflowExportCustomBlockSchema = z.object({
+  /** ID of the block in the exporting account, as the nodes reference it */
+  id: z.string().min(1),
+  name: z.string().min(1),
+  /** The published versions the nodes pin, lowest first */
+  versions: z.array(workflowExportBlockVersionSchema).min(1),
+});
+
+export const workflowRequiredInputSchema = z.object({
+  /** Name the importer provides the value under */
+  key: z.string().regex(/^[A-Za-z0-9_.-]+$/),
+  kind: z.enum(WORKFLOW_REQUIRED_INPUT_KINDS),
+  nodeId: z.string().min(1),
+  /** Path of the value inside the data of the node */
+  path: z.array(z.union([z.string(), z.number().int().min(0)])).min(1),
+  label: z.string(),
+});
+
+export const workflowExportMetadataSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+  category: z.string().nullable().default(null),
+  tags: z.array(z.string()).default([]),
+  /** Version of the workflow when it was exported */
+  sourceVersion: z.number().int().nullable().default(null),
+});
+
+export const workflowExportSchema = z
+  .object({
+    format: z.literal(WORKFLOW_EXPORT_FORMAT),
+    version: z.literal(WORKFLOW_EXPORT_VERSION),
+    exportedAt: z.string().datetime(),
+    metadata: workflowExportMetadataSchema,
+    workflow: z.object({
+      nodes: z.array(nodeSchema),
+      edges: z.array(edgeSchema),
+    }),
+    customBlocks: z.array(workflowExportCustomBlockSchema).default([]),
+    requiredInputs: z.array(workflowRequiredInputSchema).default([]),
+    /** Names of the credentials the nodes reference; values are never exported */
+    credentials: z.array(z.string()).default([]),
+  })
+  .superRefine((file, ctx) => {
+    const nodeIds = new Set(file.workflow.nodes.map((node) => node.id));
+
+    file.workflow.edges.forEach((edge, index) => {
+      for (const end of ["source", "target"] as const) {
+        if (!nodeIds.has(edge[end])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["workflow", "edges", index, end],
+            message: `Edge ${edge.id} references unknown node ${edge[end]}`,
+          });
+        }
+      }
+    });
+
+    const keys = new Set<string>();
+    file.requiredInputs.forEach((input, index) => {
+      if (!nodeIds.has(input.nodeId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["requiredInputs", index, "nodeId"],
+          message: `Required input ${input.key} references unknown node ${input.nodeId}`,
+        });
+      }
+      if (keys.has(input.key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["requiredInputs", index, "key"],
+          message: `Required input ${input.key} is declared twice`,
+        });
+      }
+      keys.add(input.key);
+    });
+
+    const blockIds = new Set<string>();
+    file.customBlocks.forEach((block, index) => {
+      if (blockIds.has(block.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["customBlocks", index, "id"],
+          message: `Custom block ${block.id} is included twice`,
+        });
+      }
+      blockIds.add(block.id);
+    });
+  });
+
+export type WorkflowExport = z.infer<typeof workflowExportSchema>;
+export type WorkflowExportCustomBlock = z.infer<
+  typeof workflowExportCustomBlockSchema
+>;
+export type WorkflowExportBlockVersion = z.infer<
+  typeof workflowExportBlockVersionSchema
+>;
+export type WorkflowRequiredInput = z.infer<typeof workflowRequiredInputSchema>;
+export type WorkflowRequiredInputKind =
+  (typeof WORKFLOW_REQUIRED_INPUT_KINDS)[number];
+
+/**
+ * Version 0 is a workflow row copied out of the database, which is how
+ * workflows were moved before the format existed
+ */
+const legacyWorkflowSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().nullish(),
+    nodes: z.array(z.unknown()).nullish(),
+    edges: z.array(z.unknown()).nullish(),
+    tags: z.array(z.string()).nullish(),
+    version: z.number().int().nullish(),
+  })
+  .passthrough();
+
+type WorkflowExportMigration = (file: Record<string, unknown>) => unknown;
+
+/**
+ * Migrations from each version to the next one
+ */
+const WORKFLOW_EXPORT_MIGRATIONS: Record<number, WorkflowExportMigration> = {
+  0: (file) => {
+    const row = legacyWorkflowSchema.parse(file);
+    return {
+      format: WORKFLOW_EXPORT_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      metadata: {
+        name: row.name,
+        description: row.description ?? "",
+        category: null,
+        tags: row.tags ?? [],
+        sourceVersion: row.version ?? null,
+      },
+      workflow: { nodes: row.nodes ?? [], edges: row.edges ?? [] },
+      customBlocks: [],
+      requiredInputs: [],
+      credentials: [],
+    };
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Get the format version of a workflow file
+ * @param file The parsed file
+ * @returns The version, 0 for database rows, or null when the file is not
+ * a workflow
+ */
+export function getWorkflowExportVersion(file: unknown): number | null {
+  if (!isObject(file)) {
+    return null;
+  }
+  if (file.format === undefined) {
+    return Array.isArray(file.nodes) ? 0 : null;
+  }
+  if (file.format !== WORKFLOW_EXPORT_FORMAT) {
+    return null;
+  }
+  return typeof file.version === "number" && Number.isInteger(file.version)
+    ? file.version
+    : null;
+}
+
+export type WorkflowExportParseResult =
+  | { success: true; data: WorkflowExport; migratedFrom: number }
+  | { success: false; error: z.ZodError | Error };
+
+/**
+ * Migrate a workflow file to the current version and validate it
+ * @param file The parsed file
+ * @returns The validated file and the version it was migrated from
+ */
+export function parseWorkflowExport(file: unknown): WorkflowExportParseResult {
+  const migratedFrom = getWorkflowExportVersion(file);
+  if (migratedFrom === null) {
+    return {
+      success: false,
+      error: new Error(`The file is not a ${WORKFLOW_EXPORT_FORMAT} file`),
+    };
+  }
+  if (migratedFrom > WORKFLOW_EXPORT_VERSION) {
+    return {
+      success: false,
+      error: new Error(
+        `Version ${migratedFrom} files are newer than the supported version ${WORKFLOW_EXPORT_VERSION}`
+      ),
+    };
+  }
+
+  let migrated = file;
+  try {
+    for (
+      let version = migratedFrom;
+      version < WORKFLOW_EXPORT_VERSION;
+      version++
+    ) {
+      migrated = WORKFLOW_EXPORT_MIGRATIONS[version](
+        migrated as Record<string, unknown>
+      );
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+
+  const result = workflowExportSchema.safeParse(migrated);
+  return result.success
+    ? { success: true, data: result.data, migratedFrom }
+    : { success: false, error: result.error };
+}
@@ -10,6 +10,10 @@ export enum BlockType {
   NOTIFICATION = "NOTIFICATION",
   PRICE_MONITOR = "PRICE_MONITOR",
   CONDITION = "CONDITION",
+  APPROVAL = "APPROVAL", // Pauses the run until an approver decides
+  FOR_EACH = "FOR_EACH", // Runs its child nodes once per item of an array
+  EXECUTE_WORKFLOW = "EXECUTE_WORKFLOW", // Runs another saved workflow
+  WAIT = "WAIT", // Pauses the run for a time or until a callback arrives
   SCHEDULE = "SCHEDULE",
   WEBHOOK = "WEBHOOK",
   CUSTOM = "CUSTOM",
@@ -96,6 +100,10 @@ export const BLOCK_TYPES = [
   "NOTIFICATION",
   "PRICE_MONITOR",
   "CONDITION",
+  "APPROVAL",
+  "FOR_EACH",
+  "EXECUTE_WORKFLOW",
+  "WAIT",
   "SCHEDULE",
   "WEBHOOK",
   "CUSTOM",
@@ -98,6 +98,8 @@ export interface CustomBlockDefinition {
   createdAt?: string;
   updatedAt?: string;
   tags?: string[];
+  /** Latest published version, or the version this definition was published as */
+  version?: string;
 }
 
 /**
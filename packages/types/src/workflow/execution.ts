@@ -56,6 +56,8 @@ export interface BlockExecutionContext {
   userId: string;
   inputs: Record<string, any>;
   previousOutputs?: Record<string, any>;
+  // Labels of the workflow nodes by id, for expressions that name a node
+  nodeLabels?: Record<string, string>;
   config: Record<string, any>;
   // Added workflowData field that many handlers use
   workflowData?: Record<string, any>;
@@ -69,6 +71,8 @@ export interface BlockExecutionContext {
   };
   // Used by custom blocks to access additional services
   services?: Record<string, any>;
+  // Aborted when the execution is cancelled; pass it to long-running calls
+  signal?: AbortSignal;
   // Blockchain authorization for workflows with blockchain operations
   blockchainAuthorization?: {
     selectedChains: Array<{
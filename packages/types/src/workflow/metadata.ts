@@ -122,6 +122,9 @@ export const BLOCK_CATALOG: Record<string, BlockMetadata> = {
     defaultConfig: {
       url: "",
       method: "POST",
+      verifySignature: false,
+      responseMode: "async",
+      rateLimitPerMinute: 60,
     },
   },
 
@@ -136,6 +139,63 @@ export const BLOCK_CATALOG: Record<string, BlockMetadata> = {
     },
   },
 
+  [BlockType.APPROVAL]: {
+    type: BlockType.APPROVAL,
+    label: "Approval",
+    description: "Pause the workflow until an approver approves or rejects",
+    category: NodeCategory.LOGIC,
+    icon: "user-check",
+    defaultConfig: {
+      approvers: [],
+      message: "",
+      timeoutMinutes: 60,
+      defaultAction: "reject",
+    },
+  },
+
+  [BlockType.FOR_EACH]: {
+    type: BlockType.FOR_EACH,
+    label: "For Each",
+    description: "Run the nodes inside the block once for each item of a list",
+    category: NodeCategory.LOGIC,
+    icon: "repeat",
+    defaultConfig: {
+      items: "",
+      concurrency: 1,
+      batchSize: 10,
+      onItemError: "fail",
+    },
+  },
+
+  [BlockType.WAIT]: {
+    type: BlockType.WAIT,
+    label: "Wait",
+    description:
+      "Pause the workflow for a time, until a time or until a callback",
+    category: NodeCategory.LOGIC,
+    icon: "hourglass",
+    defaultConfig: {
+      mode: "duration",
+      duration: 5,
+      unit: "minutes",
+      until: "",
+      correlationToken: "",
+    },
+  },
+
+  [BlockType.EXECUTE_WORKFLOW]: {
+    type: BlockType.EXECUTE_WORKFLOW,
+    label: "Execute Workflow",
+    description: "Run another saved workflow and use its outputs",
+    category: NodeCategory.ACTION,
+    icon: "workflow",
+    defaultConfig: {
+      workflowId: "",
+      mode: "sync",
+      inputs: {},
+    },
+  },
+
   // Generic blocks
   [BlockType.HTTP_REQUEST]: {
     type: BlockType.HTTP_REQUEST,
@@ -196,8 +256,9 @@ export const BLOCK_CATALOG: Record<string, BlockMetadata> = {
     defaultConfig: {
       network: "sei",
       walletAddresses: [],
-      eventTypes: [],
+      eventTypes: ["transfer"],
       minAmount: 0,
+      pollInterval: 30,
     },
   },
 
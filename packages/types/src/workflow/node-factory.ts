@@ -40,6 +40,7 @@ export class WorkflowNodeFactory {
       case BlockType.HTTP_REQUEST:
       case BlockType.EMAIL:
       case BlockType.NOTIFICATION:
+      case BlockType.EXECUTE_WORKFLOW:
         // Sei blockchain operations now available through @sei-js/mcp-server via AI_AGENT blocks
         return {
           nodeType: "ACTION" as const,
@@ -48,6 +49,10 @@ export class WorkflowNodeFactory {
         };
 
       case BlockType.CONDITION:
+
+      case BlockType.APPROVAL:
+      case BlockType.FOR_EACH:
+      case BlockType.WAIT:
       case BlockType.DATA_TRANSFORM:
       case BlockType.CUSTOM:
         return {
@@ -133,6 +133,7 @@ function getBlockMetadata(blockType: BlockType): {
     case BlockType.HTTP_REQUEST:
     case BlockType.EMAIL:
     case BlockType.NOTIFICATION:
+    case BlockType.EXECUTE_WORKFLOW:
       // Sei blockchain operations now available through @sei-js/mcp-server via AI_AGENT blocks
       return {
         nodeType: "ACTION",
@@ -141,6 +142,10 @@ function getBlockMetadata(blockType: BlockType): {
       };
 
     case BlockType.CONDITION:
+
+    case BlockType.APPROVAL:
+    case BlockType.FOR_EACH:
+    case BlockType.WAIT:
     case BlockType.DATA_TRANSFORM:
     case BlockType.CUSTOM:
       return {
@@ -18,9 +18,40 @@ export interface WorkflowNode {
     config?: Record<string, unknown>;
     inputs?: unknown[];
     outputs?: unknown[];
+    retryPolicy?: NodeRetryPolicy;
+    /** Pass a structured error downstream instead of failing the workflow */
+    continueOnFail?: boolean;
   };
 }
 
+/**
+ * How long to wait between attempts of a node
+ * - fixed: always `delayMs`
+ * - exponential: `delayMs * 2^(attempt - 1)`
+ * - jitter: a random delay up to the exponential one
+ */
+export type RetryBackoffStrategy = "fixed" | "exponential" | "jitter";
+
+/**
+ * Per-node retry settings, read by the worker's NodeExecutor
+ */
+export interface NodeRetryPolicy {
+  /** Total tries including the first one */
+  maxAttempts?: number;
+  backoff?: RetryBackoffStrategy;
+  /** Base delay between attempts */
+  delayMs?: number;
+  /** Upper bound for a single delay */
+  maxDelayMs?: number;
+  /**
+   * Error types to retry (e.g. "network_error", "rate_limit_error").
+   * Defaults to the error types the worker classifies as retryable.
+   */
+  retryOn?: string[];
+  /** Timeout for each attempt */
+  timeoutMs?: number;
+}
+
 /**
  * Workflow Edge Interface - matches backend validation schema
  */